@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/security/auth';
+import { migrateOrphanLegacyCards } from '@/lib/firebase/adminCardMigration';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * 所有者のない旧形式の名刺（n8n連携で保存したもの）を移行する（運用者のみ）
+ * 本文: { owners?: { 名刺ID: uid }, defaultUserId?: uid, dryRun?: boolean }
+ * 所有者が分からず移行しなかった名刺の件数とIDを返すため、対応表を作って再実行できる
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized', code: ErrorCode.AUTH_UNAUTHORIZED }, { status: 401 });
+  }
+
+  try {
+    const { owners, defaultUserId, dryRun } = await request.json().catch(() => ({}));
+    const validOwners = owners === undefined || (
+      typeof owners === 'object' && owners !== null &&
+      Object.values(owners).every(userId => typeof userId === 'string' && userId)
+    );
+    if (!validOwners || (defaultUserId !== undefined && (typeof defaultUserId !== 'string' || !defaultUserId))) {
+      return NextResponse.json(
+        { error: '所有者はuidで指定してください', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await migrateOrphanLegacyCards({ owners, defaultUserId, dryRun: dryRun === true }));
+  } catch (error: any) {
+    logError(error, { operation: 'migrate-legacy-cards' });
+    return NextResponse.json(
+      { error: error.message || '名刺の移行に失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -4,54 +4,16 @@ import { validateApiKey, validateUrl, sanitizeHtmlContent, apiRateLimiter, getCl
 import { getURLCache, BatchURLCache } from '@/lib/cache/urlCache';
 import { URLsAnalysisRequestSchema } from '@/lib/validation/schemas';
 import { withRetry } from '@/lib/utils/retry';
+import { withAuth } from '@/lib/security/auth';
+import { generateTags, DEFAULT_TAG_RULES } from '@/lib/tagging';
+import { getTagRules } from '@/lib/firebase/adminTagRepository';
+import { completeAddress, toPostalAddress } from '@/lib/address';
+import { isUrlAnalysisFresh } from '@/lib/company';
+import { findOwnedCompany, saveCompanyUrlAnalysis } from '@/lib/firebase/adminCompanyRepository';
+import { CompanyUrlAnalysis } from '@/types';
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
 
-function generateTags(businessContent: string, _companyInfo?: any): string[] {
-  const tags = new Set<string>();
-  const content = businessContent.toLowerCase();
-  
-  // ビジネスカテゴリの判定
-  if (content.includes('sns') || content.includes('ソーシャル') || content.includes('マーケティング')) {
-    tags.add('SNS運用会社');
-  }
-  if (content.includes('web') || content.includes('ウェブ') || content.includes('ホームページ')) {
-    tags.add('WEB制作');
-  }
-  if (content.includes('システム') || content.includes('開発') || content.includes('ソフトウェア')) {
-    tags.add('システム開発');
-  }
-  if (content.includes('ai') || content.includes('人工知能') || content.includes('機械学習')) {
-    tags.add('AI関連');
-  }
-  if (content.includes('コンサル') || content.includes('戦略') || content.includes('支援')) {
-    tags.add('コンサルティング');
-  }
-  if (content.includes('デザイン') || content.includes('クリエイティブ')) {
-    tags.add('デザイン');
-  }
-  if (content.includes('教育') || content.includes('研修') || content.includes('トレーニング')) {
-    tags.add('教育・研修');
-  }
-  if (content.includes('不動産') || content.includes('建築') || content.includes('建設')) {
-    tags.add('不動産・建築');
-  }
-  if (content.includes('医療') || content.includes('ヘルスケア') || content.includes('健康')) {
-    tags.add('医療・ヘルスケア');
-  }
-  if (content.includes('金融') || content.includes('投資') || content.includes('保険')) {
-    tags.add('金融');
-  }
-  if (content.includes('ec') || content.includes('通販') || content.includes('eコマース')) {
-    tags.add('EC・通販');
-  }
-  if (content.includes('広告') || content.includes('pr') || content.includes('プロモーション')) {
-    tags.add('広告・PR');
-  }
-  
-  return Array.from(tags);
-}
-
 async function fetchUrlContent(url: string): Promise<string> {
   // Check cache first
   const cache = getURLCache();
@@ -115,7 +77,7 @@ async function fetchUrlContent(url: string): Promise<string> {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
   try {
     // Rate limiting check
     const clientIp = getClientIp(request);
@@ -137,7 +99,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
     
-    const { urls } = parseResult.data;
+    const { urls, companyId, companyName, refresh } = parseResult.data;
 
     // Gemini API is now configured in production
     if (!GEMINI_API_KEY) {
@@ -173,6 +135,30 @@ export async function POST(request: NextRequest) {
     
     // 重複を削除して正規化
     const uniqueUrls = [...new Set(allUrls.map(url => normalizeUrl(url)))];
+
+    // 同じ会社のURLを解析済みであれば保存済みの結果を返す（会社の照合に失敗しても解析は続ける）
+    const company = await findOwnedCompany(uid, { companyId, companyName, urls: uniqueUrls }).catch((error) => {
+      console.error('会社の取得エラー:', error);
+      return null;
+    });
+    // タグはユーザーの現在のルールで付け直す（保存済みの解析結果のタグは解析時点のルール）
+    const rules = await getTagRules(uid).catch((error) => {
+      console.error('タグのルールの取得エラー:', error);
+      return DEFAULT_TAG_RULES;
+    });
+    if (company?.urlAnalysis && !refresh && isUrlAnalysisFresh(company.urlAnalysis, uniqueUrls)) {
+      const analysis = company.urlAnalysis;
+      return NextResponse.json({
+        success: true,
+        businessContent: analysis.businessContent,
+        summaries: analysis.summaries,
+        companyInfo: { companyName: company.name, address: company.address, phone: analysis.phone, email: analysis.email },
+        tags: generateTags(analysis.businessContent, rules),
+        urlCount: analysis.urls.length,
+        companyId: company.id,
+        cached: true
+      });
+    }
     
     // 複数URLのコンテンツを並列で取得（最大10件）
     const urlContents = await Promise.all(
@@ -234,7 +220,7 @@ ${content}
   },
   "companyInfo": {
     "companyName": "会社名（見つかった場合）",
-    "address": "住所（見つかった場合）",
+    "address": {"postalCode": "郵便番号7桁", "prefecture": "都道府県", "city": "市区町村", "street": "町域・番地", "building": "建物名・階"}（見つかった場合）,
     "phone": "電話番号（見つかった場合）",
     "email": "メールアドレス（見つかった場合）"
   }
@@ -282,15 +268,42 @@ JSONオブジェクトのみを返してください。`;
       }
       
       // タグを自動生成
-      const tags = generateTags(enhancedBusinessContent, parsedData.companyInfo);
+      const tags = generateTags(enhancedBusinessContent, rules);
+
+      // 住所は項目に分け、都道府県・市区町村を郵便番号から補完する
+      const companyInfo = parsedData.companyInfo || {};
+      const address = toPostalAddress(companyInfo.address);
+      const completedAddress = address ? completeAddress(address) : undefined;
+
+      // 解析結果を会社に保存し、同じ会社の名刺では再解析しない（保存に失敗しても結果は返す）
+      const analysis: CompanyUrlAnalysis = {
+        urls: uniqueUrls,
+        businessContent: enhancedBusinessContent,
+        summaries: parsedData.summaries || {},
+        tags,
+        ...(companyInfo.phone ? { phone: companyInfo.phone } : {}),
+        ...(companyInfo.email ? { email: companyInfo.email } : {}),
+        analyzedAt: new Date().toISOString()
+      };
+      const savedCompanyId = await saveCompanyUrlAnalysis(
+        uid,
+        company,
+        { companyName: companyName || companyInfo.companyName, urls: uniqueUrls },
+        analysis,
+        completedAddress
+      ).catch((error) => {
+        console.error('会社情報の保存エラー:', error);
+        return undefined;
+      });
       
       return NextResponse.json({
         success: true,
         businessContent: enhancedBusinessContent,
         summaries: parsedData.summaries || {},
-        companyInfo: parsedData.companyInfo || {},
+        companyInfo: { ...companyInfo, address: completedAddress },
         tags: tags,
-        urlCount: validContents.length
+        urlCount: validContents.length,
+        companyId: savedCompanyId
       });
     } catch (parseError) {
       console.error('JSON解析エラー:', parseError);
@@ -308,4 +321,4 @@ JSONオブジェクトのみを返してください。`;
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ErrorCode, logError } from '@/lib/errors';
+import { withAuth } from '@/lib/security/auth';
+import { getBatchJob, runBatchJob } from '@/lib/jobs/batchJobs';
+
+export const maxDuration = 30;
+export const runtime = 'nodejs';
+
+const errorResponse = (error: any) => NextResponse.json(
+  {
+    error: error.message || 'ジョブの取得に失敗しました',
+    code: error.code || ErrorCode.API_SERVER_ERROR
+  },
+  { status: error.statusCode || 500 }
+);
+
+/**
+ * ジョブの進捗とアイテムごとの状態を取得
+ */
+export const GET = withAuth<{ jobId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { jobId } = await params;
+    const job = await getBatchJob(uid, jobId, { includeItems: true });
+    return NextResponse.json(job);
+  } catch (error: any) {
+    logError(error, { operation: 'batch-status' });
+    return errorResponse(error);
+  }
+});
+
+/**
+ * 未処理のアイテムから処理を再開
+ */
+export const POST = withAuth<{ jobId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { jobId } = await params;
+    const job = await runBatchJob(uid, jobId);
+    return NextResponse.json(job, { status: job.processed < job.total ? 202 : 200 });
+  } catch (error: any) {
+    logError(error, { operation: 'batch-resume' });
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/security/auth';
+import { runDueCampaigns } from '@/lib/email/campaigns';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * 予約日時を過ぎたメールと、送信中に止まったメールを送る（Vercel Cronから5分ごとに呼び出す）
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized', code: ErrorCode.AUTH_UNAUTHORIZED }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runDueCampaigns());
+  } catch (error: any) {
+    logError(error, { operation: 'email-scheduler' });
+    return NextResponse.json(
+      { error: error.message || '予約送信に失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import { recordBounces } from '@/lib/email/bounces';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+/**
+ * メールボックスから書き出したバウンスの通知（.eml）を取り込む
+ * 返送された元のメールから送信先を特定できない場合は、自分の名刺をアドレスで探す
+ */
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    const { messages } = await request.json();
+    if (!Array.isArray(messages)) {
+      return NextResponse.json(
+        { error: '通知のメールを指定してください', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await recordBounces(messages, uid));
+  } catch (error: any) {
+    logError(error, { operation: 'email-bounces-import', userId: uid });
+    return NextResponse.json(
+      { error: error.message || 'バウンスの取り込みに失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
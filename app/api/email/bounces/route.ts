@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isBounceWebhookRequest } from '@/lib/security/auth';
+import { recordBounces } from '@/lib/email/bounces';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+/**
+ * バウンスの通知を受け取るWebhook（送信に使うメールボックス・プロバイダーから転送する）
+ * 本文は通知のメールそのもの（message/rfc822）か、JSONの { messages: [通知のメール, ...] }
+ */
+export async function POST(request: NextRequest) {
+  if (!isBounceWebhookRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized', code: ErrorCode.AUTH_UNAUTHORIZED }, { status: 401 });
+  }
+
+  try {
+    const messages = request.headers.get('content-type')?.includes('application/json')
+      ? (await request.json()).messages
+      : [await request.text()];
+    if (!Array.isArray(messages)) {
+      return NextResponse.json(
+        { error: '通知のメールを指定してください', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await recordBounces(messages));
+  } catch (error: any) {
+    logError(error, { operation: 'email-bounces' });
+    return NextResponse.json(
+      { error: error.message || 'バウンスの取り込みに失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import { processCampaign, requeueFailedRecipients, toCampaignResponse } from '@/lib/email/campaigns';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * 送信に失敗した送信先だけを送信待ちに戻して再送する（送信済み・スキップした送信先には送らない）
+ */
+export const POST = withAuth<{ campaignId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { campaignId } = await params;
+    await requeueFailedRecipients(uid, campaignId);
+    const response = toCampaignResponse(await processCampaign(uid, campaignId));
+    return NextResponse.json(response, { status: response.pendingCount > 0 ? 202 : 200 });
+  } catch (error: any) {
+    logError(error, { operation: 'retry-campaign', userId: uid });
+    return NextResponse.json(
+      { error: error.message || '再送に失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
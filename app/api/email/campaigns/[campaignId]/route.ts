@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import {
+  cancelScheduledCampaign,
+  getCampaignResult,
+  processCampaign,
+  rescheduleCampaign,
+  toCampaignResponse
+} from '@/lib/email/campaigns';
+import { validateScheduledAt } from '@/lib/email/schedule';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+const errorResponse = (error: any) => NextResponse.json(
+  {
+    error: error.message || '送信状況の取得に失敗しました',
+    code: error.code || ErrorCode.API_SERVER_ERROR
+  },
+  { status: error.statusCode || 500 }
+);
+
+/**
+ * 送信状況と送信先ごとの結果を取得
+ */
+export const GET = withAuth<{ campaignId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { campaignId } = await params;
+    return NextResponse.json(toCampaignResponse(await getCampaignResult(uid, campaignId)));
+  } catch (error: any) {
+    logError(error, { operation: 'campaign-status', userId: uid });
+    return errorResponse(error);
+  }
+});
+
+/**
+ * 送信待ちの送信先から送信を再開
+ */
+export const POST = withAuth<{ campaignId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { campaignId } = await params;
+    const response = toCampaignResponse(await processCampaign(uid, campaignId));
+    return NextResponse.json(response, { status: response.pendingCount > 0 ? 202 : 200 });
+  } catch (error: any) {
+    logError(error, { operation: 'campaign-resume', userId: uid });
+    return errorResponse(error);
+  }
+});
+
+/**
+ * 予約送信の日時を変更
+ */
+export const PATCH = withAuth<{ campaignId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { campaignId } = await params;
+    const { scheduledAt } = await request.json();
+    const date = new Date(scheduledAt);
+    const scheduleError = typeof scheduledAt === 'string' ? validateScheduledAt(date) : '送信日時を指定してください';
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError, code: ErrorCode.API_INVALID_REQUEST }, { status: 400 });
+    }
+
+    await rescheduleCampaign(uid, campaignId, date.toISOString());
+    return NextResponse.json(toCampaignResponse(await getCampaignResult(uid, campaignId)));
+  } catch (error: any) {
+    logError(error, { operation: 'campaign-reschedule', userId: uid });
+    return errorResponse(error);
+  }
+});
+
+/**
+ * 予約送信を取り消す
+ */
+export const DELETE = withAuth<{ campaignId: string }>(async (request: NextRequest, { uid, params }) => {
+  try {
+    const { campaignId } = await params;
+    await cancelScheduledCampaign(uid, campaignId);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    logError(error, { operation: 'campaign-cancel', userId: uid });
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import { apiRateLimiter, getClientIp } from '@/lib/security';
+import { draftEmails, MAX_DRAFT_INSTRUCTIONS_LENGTH } from '@/lib/email/drafting';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * 送信先ごとにLLMでメールの下書きを作る（送信はせず、メール送信ページで確認・編集してから送る）
+ */
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    const rateLimitResult = apiRateLimiter.check(getClientIp(request));
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: `リクエストが多すぎます。${rateLimitResult.retryAfter}秒後に再試行してください` },
+        { status: 429 }
+      );
+    }
+
+    const { cardIds, settings, instructions } = await request.json();
+    if (!Array.isArray(cardIds) || cardIds.some(cardId => typeof cardId !== 'string') || !settings?.senderName) {
+      return NextResponse.json(
+        { error: '送信先と送信者情報を指定してください', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > MAX_DRAFT_INSTRUCTIONS_LENGTH)) {
+      return NextResponse.json(
+        { error: `追加の指示は${MAX_DRAFT_INSTRUCTIONS_LENGTH}文字以内で入力してください`, code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+
+    const drafts = await draftEmails(uid, cardIds, {
+      senderName: String(settings.senderName),
+      senderEmail: String(settings.senderEmail || ''),
+      companyName: String(settings.companyName || ''),
+      companyTitle: settings.companyTitle ? String(settings.companyTitle) : undefined,
+      signature: settings.signature ? String(settings.signature) : undefined
+    }, instructions?.trim() || undefined);
+    return NextResponse.json({ drafts });
+  } catch (error: any) {
+    logError(error, { operation: 'email-draft', userId: uid });
+    return NextResponse.json(
+      { error: error.message || 'メールの下書きを作成できませんでした', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
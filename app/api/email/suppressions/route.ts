@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import { removeSuppression, suppressEmail } from '@/lib/email/suppressions';
+import { ErrorCode, logError } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const invalidEmail = () => NextResponse.json(
+  { error: 'メールアドレスを正しく指定してください', code: ErrorCode.API_INVALID_REQUEST },
+  { status: 400 }
+);
+
+/**
+ * 配信停止リストに手動で追加する（既にあるアドレスは最初に追加した理由のままにする）
+ */
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    const { email } = await request.json().catch(() => ({}));
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) return invalidEmail();
+
+    const added = await suppressEmail(uid, { email, reason: 'manual' });
+    return NextResponse.json({ success: true, added });
+  } catch (error: any) {
+    logError(error, { operation: 'email-suppression-add', userId: uid });
+    return NextResponse.json(
+      { error: error.message || '配信停止リストに追加できませんでした', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
+
+/**
+ * 配信停止リストから外す（?email=）。手動で追加したアドレスとバウンスしたアドレスだけを外せる
+ */
+export const DELETE = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    const email = request.nextUrl.searchParams.get('email');
+    if (!email || !EMAIL_PATTERN.test(email.trim())) return invalidEmail();
+
+    const suppression = await removeSuppression(uid, email);
+    return NextResponse.json({ success: true, email: suppression.email });
+  } catch (error: any) {
+    logError(error, { operation: 'email-suppression-remove', userId: uid });
+    return NextResponse.json(
+      { error: error.message || '配信停止リストから外せませんでした', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+});
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readTrackingToken, recordEngagement } from '@/lib/email/tracking';
+import { ErrorCode, logError } from '@/lib/errors';
+
+/**
+ * クリックを記録してリンクの移動先に移す（移動先は署名付きのトークンに含まれるものだけ）
+ * 記録に失敗しても、受信者がリンクを開けるよう移動先には移す
+ */
+export async function GET(request: NextRequest) {
+  const ref = readTrackingToken(request.nextUrl.searchParams.get('token') || '');
+  if (!ref?.url) {
+    return NextResponse.json(
+      { error: 'リンクが無効です', code: ErrorCode.API_INVALID_REQUEST },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await recordEngagement(ref);
+  } catch (error: any) {
+    logError(error, { operation: 'email-track-click', userId: ref.userId, campaignId: ref.campaignId });
+  }
+  return NextResponse.redirect(ref.url);
+}
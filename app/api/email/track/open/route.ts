@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readTrackingToken, recordEngagement, TRACKING_PIXEL } from '@/lib/email/tracking';
+import { logError } from '@/lib/errors';
+
+/**
+ * 開封を記録する計測用の画像（ログインせずに読み込まれるため、署名付きのトークンで送信先を確認する）
+ * 記録に失敗した場合やトークンが無効な場合も、メールの表示を崩さないよう画像を返す
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ref = readTrackingToken(request.nextUrl.searchParams.get('token') || '');
+    if (ref && !ref.url) {
+      await recordEngagement(ref).catch((error: any) => {
+        logError(error, { operation: 'email-track-open', userId: ref.userId, campaignId: ref.campaignId });
+      });
+    }
+  } catch (error: any) {
+    // 署名の鍵が未設定の場合など、トークンを読めなくても画像は返す
+    logError(error, { operation: 'email-track-open' });
+  }
+
+  return new NextResponse(new Uint8Array(TRACKING_PIXEL), {
+    headers: {
+      'Content-Type': 'image/gif',
+      // 開くたびに読み込ませる
+      'Cache-Control': 'no-store, max-age=0'
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readUnsubscribeToken, suppressEmail } from '@/lib/email/suppressions';
+import { ErrorCode, logError } from '@/lib/errors';
+
+// リンクを開いただけで停止しないよう（メールのリンクを事前に開くセキュリティ製品があるため）、確認ページに移す
+export async function GET(request: NextRequest) {
+  const url = new URL('/unsubscribe', request.nextUrl.origin);
+  url.searchParams.set('token', request.nextUrl.searchParams.get('token') || '');
+  return NextResponse.redirect(url);
+}
+
+/**
+ * 配信を停止する（ログインせずに使うため、署名付きのトークンで送信者と送信先を確認する）
+ * メールアプリのワンクリック停止（RFC 8058）はList-Unsubscribeのトークン付きURLにPOSTする。確認ページは本文でトークンを送る
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let token = request.nextUrl.searchParams.get('token');
+    if (!token && request.headers.get('content-type')?.includes('application/json')) {
+      // 本文が壊れている場合は無効なリンクとして扱う
+      const body = await request.json().catch(() => null);
+      token = body?.token;
+    }
+
+    const ref = typeof token === 'string' ? readUnsubscribeToken(token) : null;
+    if (!ref) {
+      return NextResponse.json(
+        { error: '配信停止のリンクが無効です', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
+
+    await suppressEmail(ref.userId, {
+      email: ref.email,
+      reason: 'unsubscribed',
+      cardId: ref.cardId,
+      campaignId: ref.campaignId
+    });
+    return NextResponse.json({ success: true, email: ref.email });
+  } catch (error: any) {
+    logError(error, { operation: 'email-unsubscribe' });
+    return NextResponse.json(
+      { error: '配信停止に失敗しました', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
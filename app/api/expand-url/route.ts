@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractNestedUrls, isShortUrl, isRedirectUrl, normalizeUrl } from '@/lib/urlParser';
+import { withAuth } from '@/lib/security/auth';
 
 /**
  * URLを展開してリダイレクト先を取得
  * 短縮URL、リダイレクトURL、ネストされたURLを処理
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const { url } = await request.json();
     
@@ -110,4 +111,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
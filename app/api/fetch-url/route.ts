@@ -2,10 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { isShortUrl, extractNestedUrls } from '@/lib/urlParser';
 import { validateApiKey, validateUrl, sanitizeHtmlContent, urlFetchRateLimiter, getClientIp } from '@/lib/security';
 import { URLFetchRequestSchema } from '@/lib/validation/schemas';
+import { withAuth } from '@/lib/security/auth';
+import { completeAddress, toPostalAddress } from '@/lib/address';
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     // Rate limiting check
     const clientIp = getClientIp(request);
@@ -163,7 +165,7 @@ ${textContent}
   "businessContent": "事業内容の詳細（見つかった場合、箇条書きで）",
   "personName": "個人名（見つかった場合）",
   "title": "役職（見つかった場合）",
-  "address": "住所（見つかった場合）",
+  "address": {"postalCode": "郵便番号7桁", "prefecture": "都道府県", "city": "市区町村", "street": "町域・番地", "building": "建物名・階"}（見つかった場合）,
   "phone": "電話番号（見つかった場合）",
   "email": "メールアドレス（見つかった場合）",
   "socialMedia": "ソーシャルメディアアカウント（見つかった場合）",
@@ -193,10 +195,12 @@ JSONオブジェクトのみを返してください。`
     
     try {
       const parsedData = JSON.parse(jsonString);
+      const address = toPostalAddress(parsedData.address);
       return NextResponse.json({
         success: true,
         url,
-        ...parsedData
+        ...parsedData,
+        address: address ? completeAddress(address) : undefined
       });
     } catch {
       return NextResponse.json({
@@ -213,4 +217,4 @@ JSONオブジェクトのみを返してください。`
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
 
@@ -24,7 +25,7 @@ interface MatchingResult {
   potentialCollaboration: string;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body: MatchingRequest = await request.json();
     const { sourceCard, targetCards } = body;
@@ -160,4 +161,4 @@ JSONオブジェクトのみを返してください。`;
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
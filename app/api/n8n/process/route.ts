@@ -1,112 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { db } from '@/lib/firebase';
-import { doc, updateDoc, getDoc } from 'firebase/firestore';
+import { adminDb, adminStorage } from '@/lib/firebase/admin';
+import { createOwnedCard } from '@/lib/firebase/adminCardRepository';
+import { recognizeCard } from '@/lib/recognition';
+import { isEmptyAddress } from '@/lib/address';
+import { withAuth } from '@/lib/security/auth';
+import { ErrorCode } from '@/lib/errors';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
-interface BusinessCardData {
-  name?: string;
-  company?: string;
-  title?: string;
-  email?: string;
-  phone?: string;
-  mobile?: string;
-  address?: string;
-  website?: string;
-  department?: string;
-}
+// アップロード（/api/n8n/upload）が保存したStorageのダウンロードURLからファイルのパスを取り出す
+// 任意のURLを取得しないよう、このアプリのバケットの business-cards/ 以下のファイルだけを対象にする
+const toUploadedFilePath = (fileUrl: unknown): string | null => {
+  if (typeof fileUrl !== 'string') return null;
+  try {
+    const url = new URL(fileUrl);
+    const match = url.pathname.match(/^\/v0\/b\/([^/]+)\/o\/([^/]+)$/);
+    if (url.protocol !== 'https:' || url.hostname !== 'firebasestorage.googleapis.com' || !match) return null;
+    const path = decodeURIComponent(match[2]);
+    if (match[1] !== adminStorage.bucket().name || !path.startsWith('business-cards/') || path.split('/').includes('..')) {
+      return null;
+    }
+    return path;
+  } catch {
+    return null;
+  }
+};
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
   try {
-    const { documentId, imageUrl } = await request.json();
+    const { documentId } = await request.json().catch(() => ({}));
 
-    if (!documentId || !imageUrl) {
+    if (typeof documentId !== 'string' || !documentId || documentId.includes('/')) {
       return NextResponse.json(
-        { error: '必要なパラメータが不足しています' },
+        { error: '必要なパラメータが不足しています', code: ErrorCode.API_INVALID_REQUEST },
         { status: 400 }
       );
     }
 
-    // Fetch image from URL
-    const imageResponse = await fetch(imageUrl);
-    const imageBlob = await imageResponse.blob();
-    const imageData = await imageBlob.arrayBuffer();
-    const base64Image = Buffer.from(imageData).toString('base64');
-
-    // Process with Gemini Vision
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    
-    const prompt = `
-    この名刺画像から以下の情報を抽出してください。
-    JSONフォーマットで返してください：
-    {
-      "name": "氏名",
-      "company": "会社名",
-      "title": "役職",
-      "department": "部署",
-      "email": "メールアドレス",
-      "phone": "電話番号",
-      "mobile": "携帯番号",
-      "address": "住所",
-      "website": "ウェブサイト"
+    const docRef = adminDb.collection('scanned_cards').doc(documentId);
+    const scannedDoc = await docRef.get();
+    if (!scannedDoc.exists) {
+      return NextResponse.json(
+        { error: 'ドキュメントが見つかりません', code: ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND },
+        { status: 404 }
+      );
     }
-    
-    存在しない項目はnullとしてください。
-    `;
 
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType: 'image/jpeg',
-          data: base64Image,
-        },
-      },
-    ]);
+    // 名刺の保存先は認証済みユーザー（アップロードしたユーザーと一致する必要がある）
+    if (scannedDoc.data()?.metadata?.userId !== uid) {
+      return NextResponse.json(
+        { error: 'このドキュメントを処理する権限がありません', code: ErrorCode.FIREBASE_PERMISSION_DENIED },
+        { status: 403 }
+      );
+    }
 
-    const response = await result.response;
-    const text = response.text();
-    
-    // Extract JSON from response
-    let extractedData: BusinessCardData = {};
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        extractedData = JSON.parse(jsonMatch[0]);
-      }
-    } catch (e) {
-      console.error('JSON解析エラー:', e);
-      extractedData = { name: text };
+    // 画像はドキュメントに保存したアップロード先から読む（リクエストのURLは使わない）
+    const imageUrl: string = scannedDoc.data()?.fileUrl;
+    const filePath = toUploadedFilePath(imageUrl);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: '名刺画像のURLが不正です', code: ErrorCode.CARD_INVALID_DATA },
+        { status: 400 }
+      );
     }
+    const file = adminStorage.bucket().file(filePath);
+    const [[contents], [fileMetadata]] = await Promise.all([file.download(), file.getMetadata()]);
 
-    // Update Firestore document
-    const docRef = doc(db, 'scanned_cards', documentId);
-    await updateDoc(docRef, {
+    // 名刺認識（/api/analyze-card と同じプロバイダー設定を使用）
+    const extractedData = await recognizeCard({
+      frontImage: contents.toString('base64'),
+      mimeType: fileMetadata.contentType || 'image/jpeg'
+    });
+
+    await docRef.update({
       processed: true,
       processedAt: new Date(),
       ocrData: extractedData,
     });
 
-    // Create business card entry
-    const cardData = {
-      name: extractedData.name || '',
-      company: extractedData.company || '',
-      title: extractedData.title || '',
-      department: extractedData.department || '',
-      email: extractedData.email || '',
-      phone: extractedData.phone || '',
-      mobile: extractedData.mobile || '',
-      address: extractedData.address || '',
-      website: extractedData.website || '',
-      notes: '',
-      imageUrl: imageUrl,
-      createdAt: new Date(),
-      source: 'scansnap_ocr',
-    };
+    // Create business card entry（正規レイアウト users/{uid}/cards に保存）
+    const notes = [extractedData.other_info, `名刺画像: ${imageUrl}`].filter(Boolean).join('\n');
 
-    const { addDoc, collection } = await import('firebase/firestore');
-    const cardRef = await addDoc(collection(db, 'businessCards'), cardData);
+    const cardRef = await createOwnedCard(uid, {
+      name: extractedData.name,
+      familyName: extractedData.familyName || undefined,
+      givenName: extractedData.givenName || undefined,
+      familyNameKana: extractedData.familyNameKana || undefined,
+      givenNameKana: extractedData.givenNameKana || undefined,
+      romanizedName: extractedData.romanizedName || undefined,
+      companyName: extractedData.companyName,
+      title: extractedData.title || undefined,
+      emails: extractedData.emails,
+      phones: extractedData.phones,
+      urls: extractedData.urls,
+      line_ids: extractedData.line_ids,
+      address: isEmptyAddress(extractedData.address) ? undefined : extractedData.address,
+      notes,
+      source: 'scansnap_ocr',
+    });
 
     return NextResponse.json({
       success: true,
@@ -121,4 +110,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
 import { doc, getDoc } from 'firebase/firestore';
+import { withAuth } from '@/lib/security/auth';
 
-export async function GET(
+export const GET = withAuth<{ id: string }>(async (
   request: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+  context
+) => {
   try {
     const params = await context.params;
     const { id } = params;
@@ -30,6 +31,14 @@ export async function GET(
 
     const data = docSnap.data();
 
+    // 他のユーザーがアップロードしたドキュメントは存在しないものとして扱う
+    if (data.metadata?.userId && data.metadata.userId !== context.uid) {
+      return NextResponse.json(
+        { error: 'ドキュメントが見つかりません' },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json({
       id: docSnap.id,
       ...data,
@@ -42,4 +51,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
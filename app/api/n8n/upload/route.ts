@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { withAuth } from '@/lib/security/auth';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -47,7 +48,8 @@ export async function POST(request: NextRequest) {
       uploadedAt: serverTimestamp(),
       source: 'scansnap',
       processed: false,
-      metadata: parsedMetadata,
+      // アップロードしたユーザーを保存先として記録
+      metadata: { ...parsedMetadata, userId: uid },
       ocrData: null,
     });
 
@@ -64,7 +66,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function GET() {
   return NextResponse.json({
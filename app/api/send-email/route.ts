@@ -1,56 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import nodemailer from 'nodemailer';
+import { withAuth } from '@/lib/security/auth';
+import { createCampaign, processCampaign, toCampaignResponse, CampaignRecipientInput } from '@/lib/email/campaigns';
+import { validateScheduledAt } from '@/lib/email/schedule';
+import { ErrorCode, logError } from '@/lib/errors';
 
-export async function POST(request: NextRequest) {
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * 送信先ごとの送信待ちの列を作り、時間の許す範囲で送信を始める
+ * 送信待ちが残っている場合は202で返し、POST /api/email/campaigns/{campaignId} で続きを送る。
+ * scheduledAtを指定した場合は予約だけを行い、予約日時を過ぎてからスケジューラーが送る
+ */
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
   try {
-    const { recipients, sender } = await request.json();
+    const { recipients, sender, templateId, templateName, allowResend, scheduledAt, tracking } = await request.json();
 
-    // Gmail SMTPの設定（環境変数から取得）
-    const transporter = nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        user: process.env.GMAIL_USER,
-        pass: process.env.GMAIL_APP_PASSWORD
-      }
-    });
+    const validRecipients = Array.isArray(recipients) && recipients.every(
+      (recipient: any) => typeof recipient?.cardId === 'string' && typeof recipient?.email === 'string'
+    );
+    if (!validRecipients || !sender?.name || typeof templateId !== 'string' || !templateId) {
+      return NextResponse.json(
+        { error: '送信先・送信者・テンプレートを指定してください', code: ErrorCode.API_INVALID_REQUEST },
+        { status: 400 }
+      );
+    }
 
-    const results = [];
-    
-    for (const recipient of recipients) {
-      try {
-        // メール送信
-        await transporter.sendMail({
-          from: `"${sender.name}" <${sender.email || process.env.GMAIL_USER}>`,
-          to: recipient.email,
-          subject: recipient.subject,
-          text: recipient.body,
-          html: recipient.body.replace(/\n/g, '<br>')
-        });
-        
-        results.push({
-          email: recipient.email,
-          status: 'sent'
-        });
-      } catch (error) {
-        console.error(`Failed to send email to ${recipient.email}:`, error);
-        results.push({
-          email: recipient.email,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+    const scheduleError = scheduledAt !== undefined ? validateScheduledAt(new Date(scheduledAt)) : null;
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError, code: ErrorCode.API_INVALID_REQUEST }, { status: 400 });
     }
 
-    return NextResponse.json({ 
-      success: true, 
-      results,
-      message: `送信完了: ${results.filter(r => r.status === 'sent').length}/${recipients.length}件`
-    });
-  } catch (error) {
-    console.error('Email sending error:', error);
+    // 送信先ごとの結果は送信履歴（キャンペーン）に保存する
+    const campaignId = await createCampaign(
+      uid,
+      {
+        templateId,
+        templateName,
+        sender,
+        allowResend: allowResend === true,
+        scheduledAt: scheduledAt !== undefined ? new Date(scheduledAt).toISOString() : undefined,
+        tracking: tracking === true
+      },
+      // 名刺の所有者とアドレスはcreateCampaignで確認する
+      recipients.map((recipient: any): CampaignRecipientInput => ({
+        cardId: recipient.cardId,
+        email: recipient.email,
+        name: recipient.name || '',
+        company: recipient.company || '',
+        subject: recipient.subject || '',
+        body: recipient.body || ''
+      }))
+    );
+    // 予約の場合は予約日時の前のため何も送らずに現在の状態を返す
+    const response = toCampaignResponse(await processCampaign(uid, campaignId));
+
+    return NextResponse.json(response, { status: response.pendingCount > 0 ? 202 : 200 });
+  } catch (error: any) {
+    logError(error, { operation: 'send-email', userId: uid });
     return NextResponse.json(
-      { error: 'Failed to send emails' },
-      { status: 500 }
+      { error: error.message || 'Failed to send emails', code: error.code || ErrorCode.API_SERVER_ERROR },
+      { status: error.statusCode || 500 }
     );
   }
-}
\ No newline at end of file
+});
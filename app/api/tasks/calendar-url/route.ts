@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/security/auth';
+import { signToken } from '@/lib/security/signing';
+import { getCalendarFeedVersion, rotateCalendarFeedVersion } from '@/lib/firebase/adminTaskRepository';
+import { CALENDAR_FEED_PURPOSE } from '@/lib/tasks';
+import { getAppUrl } from '@/lib/appUrl';
+import { logError } from '@/lib/errors';
+
+const feedUrl = (uid: string, version: number) => {
+  const appUrl = getAppUrl();
+  const token = signToken({ purpose: CALENDAR_FEED_PURPOSE, sub: uid, ver: version });
+  return `${appUrl}/api/tasks/calendar?token=${encodeURIComponent(token)}`;
+};
+
+// カレンダー配信URLを取得
+export const GET = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    return NextResponse.json({ url: feedUrl(uid, await getCalendarFeedVersion(uid)) });
+  } catch (error: any) {
+    logError(error, { operation: 'calendar-url', userId: uid });
+    return NextResponse.json({ error: 'カレンダーのURLを作成できませんでした' }, { status: 500 });
+  }
+});
+
+// カレンダー配信URLを作り直す（以前のURLは無効になる）
+export const POST = withAuth(async (request: NextRequest, { uid }) => {
+  try {
+    return NextResponse.json({ url: feedUrl(uid, await rotateCalendarFeedVersion(uid)) });
+  } catch (error: any) {
+    logError(error, { operation: 'calendar-url-rotate', userId: uid });
+    return NextResponse.json({ error: 'カレンダーのURLを作り直せませんでした' }, { status: 500 });
+  }
+});
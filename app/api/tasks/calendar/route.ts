@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/security/signing';
+import { getCalendarFeedVersion, listOpenTasksWithCards } from '@/lib/firebase/adminTaskRepository';
+import { buildTaskCalendar } from '@/lib/ical';
+import { CALENDAR_FEED_PURPOSE } from '@/lib/tasks';
+import { getAppUrl } from '@/lib/appUrl';
+import { logError } from '@/lib/errors';
+
+// カレンダーアプリはIDトークンを送れないため、署名付きのトークンで認証する
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const payload = verifyToken(token, CALENDAR_FEED_PURPOSE);
+    // URLを作り直した後は以前のURLを無効にする
+    if (!payload || payload.ver !== await getCalendarFeedVersion(payload.sub)) {
+      return NextResponse.json({ error: 'カレンダーのURLが無効です' }, { status: 401 });
+    }
+
+    const { tasks, cards } = await listOpenTasksWithCards(payload.sub);
+    const appUrl = getAppUrl();
+    const calendar = buildTaskCalendar(tasks, cards, {
+      calendarName: '名刺管理のタスク',
+      appUrl,
+      domain: new URL(appUrl).hostname
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tasks.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+  } catch (error: any) {
+    logError(error, { operation: 'calendar-feed' });
+    return NextResponse.json({ error: 'カレンダーの作成に失敗しました' }, { status: 500 });
+  }
+}
@@ -3,11 +3,27 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { doc, getDoc, updateDoc, deleteDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { BusinessCard } from '@/types';
+import { getCard, updateCard, deleteCard } from '@/lib/firebase/cardRepository';
+import { BusinessCard, NetworkingEvent } from '@/types';
 import Link from 'next/link';
 import { ArrowLeft, Edit, Trash2 } from 'lucide-react';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { PersonNameFields } from '@/components/PersonNameFields';
+import { joinName, withNameParts } from '@/lib/names';
+import { PhoneEntriesInput } from '@/components/PhoneEntriesInput';
+import { PHONE_TYPE_LABELS, formatPhone, phoneHref, toEditablePhones, toPhoneEntries } from '@/lib/phone';
+import { AddressInput } from '@/components/AddressInput';
+import { CareerHistory } from '@/components/CareerHistory';
+import { CardTasks } from '@/components/CardTasks';
+import { InteractionTimeline } from '@/components/InteractionTimeline';
+import { getEvent } from '@/lib/firebase/eventRepository';
+import { linkCardToCompany } from '@/lib/firebase/companyRepository';
+import { normalizeCompanyName } from '@/lib/text/normalize';
+import { completeAddress, formatAddress, isEmptyAddress, toPostalAddress } from '@/lib/address';
+
+// 編集フォームでは電話番号を国内表記で表示する
+const toEditData = (card: BusinessCard): BusinessCard => ({ ...card, phones: toEditablePhones(card.phones) });
 
 export default function CardDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const { user } = useAuth();
@@ -16,6 +32,7 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<BusinessCard>({} as BusinessCard);
   const [cardId, setCardId] = useState<string>('');
+  const [event, setEvent] = useState<NetworkingEvent | null>(null);
 
   useEffect(() => {
     const getParams = async () => {
@@ -35,11 +52,10 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
 
     const fetchCard = async () => {
       try {
-        const cardDoc = await getDoc(doc(db, 'users', user.uid, 'cards', cardId));
-        if (cardDoc.exists()) {
-          const cardData = { id: cardDoc.id, ...cardDoc.data() } as BusinessCard;
+        const cardData = await getCard(user.uid, cardId);
+        if (cardData) {
           setCard(cardData);
-          setEditData(cardData);
+          setEditData(toEditData(cardData));
         } else {
           router.push('/dashboard');
         }
@@ -52,16 +68,36 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
     fetchCard();
   }, [user, cardId, router]);
 
+  // 名刺を交換したイベント
+  useEffect(() => {
+    if (!user || !card?.eventId) {
+      setEvent(null);
+      return;
+    }
+    getEvent(user.uid, card.eventId)
+      .then(setEvent)
+      .catch(error => console.error('イベントの取得エラー:', error));
+  }, [user, card?.eventId]);
+
   const handleUpdate = async () => {
     if (!user || !card?.id) return;
 
     try {
-      const { ...updateData } = editData;
-      await updateDoc(doc(db, 'users', user.uid, 'cards', card.id), {
-        ...updateData,
-        updatedAt: new Date().toISOString()
-      });
-      setCard(editData);
+      // 空にした住所は空のオブジェクトで保存して既存の値を消す
+      const address = toPostalAddress(editData.address);
+      const updated = withNameParts({ ...editData, address: address ? completeAddress(address) : {} });
+      await updateCard(user.uid, card.id, updated);
+
+      // 会社名を変えた場合は会社を紐付け直す（失敗しても更新自体は成功扱い）
+      if (normalizeCompanyName(updated.companyName) !== normalizeCompanyName(card.companyName) || !card.companyId) {
+        updated.companyId = await linkCardToCompany(user.uid, updated)
+          .catch(error => {
+            console.error('会社の紐付けエラー:', error);
+            return card.companyId;
+          });
+        setEditData(prev => ({ ...prev, companyId: updated.companyId }));
+      }
+      setCard({ ...updated, phones: toPhoneEntries(updated.phones) });
       setIsEditing(false);
     } catch (error) {
       console.error('更新エラー:', error);
@@ -74,7 +110,7 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
     
     if (confirm('本当に削除しますか？')) {
       try {
-        await deleteDoc(doc(db, 'users', user.uid, 'cards', card.id));
+        await deleteCard(user.uid, card.id);
         router.push('/dashboard');
       } catch (error) {
         console.error('削除エラー:', error);
@@ -157,6 +193,11 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
                 />
               </div>
 
+              <PersonNameFields
+                value={editData}
+                onChange={(updates) => setEditData({ ...editData, ...updates })}
+              />
+
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">会社名 *</label>
                 <input
@@ -237,30 +278,18 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
 
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">電話番号</label>
-                {editData.phones?.map((phone, index) => (
-                  <div key={index} className="flex gap-2 mb-2">
-                    <input
-                      type="tel"
-                      value={phone}
-                      onChange={(e) => handleArrayChange('phones', index, e.target.value)}
-                      className="flex-1 bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => removeArrayItem('phones', index)}
-                      className="text-red-400 hover:text-red-300 px-2"
-                    >
-                      ×
-                    </button>
-                  </div>
-                ))}
-                <button
-                  type="button"
-                  onClick={() => addArrayItem('phones')}
-                  className="text-sm text-blue-400 hover:text-blue-300"
-                >
-                  + 電話番号を追加
-                </button>
+                <PhoneEntriesInput
+                  entries={editData.phones || []}
+                  onChange={(phones) => setEditData({ ...editData, phones })}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">住所</label>
+                <AddressInput
+                  value={editData.address || {}}
+                  onChange={(address) => setEditData({ ...editData, address })}
+                />
               </div>
 
               <div>
@@ -322,7 +351,7 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
                 </button>
                 <button
                   type="button"
-                  onClick={() => { setIsEditing(false); setEditData(card); }}
+                  onClick={() => { setIsEditing(false); setEditData(toEditData(card)); }}
                   className="bg-gray-600 text-white rounded-lg py-2 px-5 hover:bg-gray-700"
                 >
                   キャンセル
@@ -332,28 +361,58 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
           ) : (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div className="lg:col-span-1 space-y-4">
-                {card.frontImageBase64 && (
+                {/* Storage上の元画像を表示（未移行の名刺はbase64をそのまま表示） */}
+                {(card.images?.front || card.frontImageBase64) && (
                   <div>
                     <p className="text-lg font-semibold text-white mb-2">名刺画像（表）</p>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img src={card.frontImageBase64} alt="名刺表面" className="w-full rounded-lg" />
+                    <OptimizedImage
+                      src={cardImageSrc(card.images?.front, 'full') || card.frontImageBase64!}
+                      alt="名刺表面"
+                      className="w-full rounded-lg"
+                      priority
+                    />
                   </div>
                 )}
-                {card.backImageBase64 && (
+                {(card.images?.back || card.backImageBase64) && (
                   <div>
                     <p className="text-lg font-semibold text-white mb-2">名刺画像（裏）</p>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img src={card.backImageBase64} alt="名刺裏面" className="w-full rounded-lg" />
+                    <OptimizedImage
+                      src={cardImageSrc(card.images?.back, 'full') || card.backImageBase64!}
+                      alt="名刺裏面"
+                      className="w-full rounded-lg"
+                      priority
+                    />
                   </div>
                 )}
               </div>
 
               <div className="lg:col-span-2 space-y-6">
                 <div>
+                  {(card.familyNameKana || card.givenNameKana) && (
+                    <p className="text-sm text-gray-400">{joinName(card.familyNameKana, card.givenNameKana)}</p>
+                  )}
                   <h3 className="text-2xl font-bold text-white">{card.name}</h3>
+                  {card.romanizedName && (
+                    <p className="text-sm text-gray-400">{card.romanizedName}</p>
+                  )}
                   <p className="text-lg text-gray-300">
-                    {card.companyName} {card.title ? `/ ${card.title}` : ''}
+                    {card.companyId ? (
+                      <Link href={`/company/${card.companyId}`} className="text-blue-400 hover:underline">
+                        {card.companyName}
+                      </Link>
+                    ) : card.companyName} {card.title ? `/ ${card.title}` : ''}
                   </p>
+                  {(card.exchangeDate || event) && (
+                    <p className="text-sm text-gray-400 mt-1">
+                      {card.exchangeDate && `${card.exchangeDate}に交換`}
+                      {event && (
+                        <>
+                          {card.exchangeDate && ' ・ '}
+                          <Link href={`/event/${event.id}`} className="text-blue-400 hover:underline">{event.name}</Link>
+                        </>
+                      )}
+                    </p>
+                  )}
                 </div>
 
                 {card.emails && card.emails.length > 0 && (
@@ -361,7 +420,12 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
                     <h4 className="font-semibold text-gray-400 mb-2">メールアドレス</h4>
                     <ul className="space-y-1">
                       {card.emails.map((email, index) => (
-                        <li key={index}>{email}</li>
+                        <li key={index}>
+                          {email}
+                          {card.invalidEmails?.includes(email) && (
+                            <span className="ml-2 text-xs text-red-400">メールが届きませんでした</span>
+                          )}
+                        </li>
                       ))}
                     </ul>
                   </div>
@@ -372,12 +436,26 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
                     <h4 className="font-semibold text-gray-400 mb-2">電話番号</h4>
                     <ul className="space-y-1">
                       {card.phones.map((phone, index) => (
-                        <li key={index}>{phone}</li>
+                        <li key={index}>
+                          <span className="text-gray-400 text-sm mr-2">{PHONE_TYPE_LABELS[phone.type]}</span>
+                          {phone.type === 'fax' ? (
+                            formatPhone(phone)
+                          ) : (
+                            <a href={phoneHref(phone)} className="text-blue-400 hover:underline">{formatPhone(phone)}</a>
+                          )}
+                        </li>
                       ))}
                     </ul>
                   </div>
                 )}
 
+                {!isEmptyAddress(card.address) && (
+                  <div className="border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-400 mb-2">住所</h4>
+                    <p>{formatAddress(card.address!)}</p>
+                  </div>
+                )}
+
                 {card.urls && card.urls.length > 0 && (
                   <div className="border-t border-gray-700 pt-4">
                     <h4 className="font-semibold text-gray-400 mb-2">Webサイト・リンク</h4>
@@ -419,6 +497,49 @@ export default function CardDetailPage({ params }: { params: Promise<{ id: strin
                     <p className="text-gray-300 whitespace-pre-wrap">{card.notes}</p>
                   </div>
                 )}
+
+                {user && <InteractionTimeline userId={user.uid} card={card} />}
+
+                {user && <CardTasks userId={user.uid} card={card} />}
+
+                {user && (
+                  <CareerHistory
+                    userId={user.uid}
+                    card={card}
+                    onCardChange={(updates) => {
+                      setCard({ ...card, ...updates });
+                      setEditData(prev => ({ ...prev, ...updates }));
+                    }}
+                  />
+                )}
+
+                {card.mergedCards && card.mergedCards.length > 0 && (
+                  <div className="border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-400 mb-2">統合履歴</h4>
+                    <ul className="space-y-2">
+                      {card.mergedCards.map(record => (
+                        <li key={record.cardId} className="flex items-center gap-3 bg-gray-900 rounded-lg p-2">
+                          {record.card.images?.front && (
+                            <OptimizedImage
+                              src={cardImageSrc(record.card.images.front, 'small')!}
+                              alt={`${record.card.name}の名刺`}
+                              className="w-16 h-10 object-cover rounded flex-shrink-0"
+                            />
+                          )}
+                          <div className="flex-1 overflow-hidden">
+                            <p className="text-white truncate">{record.card.name}</p>
+                            <p className="text-xs text-gray-400 truncate">
+                              {record.card.companyName} {record.card.title ? `/ ${record.card.title}` : ''}
+                            </p>
+                          </div>
+                          <p className="text-xs text-gray-500 flex-shrink-0">
+                            {new Date(record.mergedAt).toLocaleDateString('ja-JP')}に統合
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -1,14 +1,25 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { collection, addDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { batchWriteCards, listCards, newCardId, withoutInlineImages } from '@/lib/firebase/cardRepository';
+import { uploadCardImages } from '@/lib/firebase/cardImages';
+import { syncCardCompanies } from '@/lib/firebase/companyRepository';
+import { createSuggestedTasks } from '@/lib/firebase/taskRepository';
+import { stampCardWithEvent } from '@/lib/events';
+import { useCurrentEvent } from '@/hooks/useCurrentEvent';
+import { CurrentEventBar } from '@/components/CurrentEventBar';
 import { BusinessCard } from '@/types';
 import Link from 'next/link';
-import { ArrowLeft, Upload, Sparkles, Check, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Upload, Sparkles, Check, X, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
 import jsQR from 'jsqr';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+import { PhoneEntriesInput } from '@/components/PhoneEntriesInput';
+import { AddressInput } from '@/components/AddressInput';
+import { toEditablePhones } from '@/lib/phone';
+import { DUPLICATE_REASON_LABELS, DuplicateMatch, findDuplicates } from '@/lib/duplicates';
+import { isBusinessCardError } from '@/lib/errors';
 
 interface CardData {
   id: string;
@@ -18,15 +29,56 @@ interface CardData {
   data: Partial<BusinessCard>;
 }
 
+// 重複判定用に編集中のデータを名刺の形に揃える（idはこの画面内での識別子）
+const toCandidate = (card: CardData): BusinessCard => ({
+  name: '',
+  companyName: '',
+  urls: [],
+  emails: [],
+  phones: [],
+  line_ids: [],
+  ...card.data,
+  id: card.id
+});
+
 export default function BulkUploadPage() {
   const { user } = useAuth();
   const router = useRouter();
+  const { events, currentEvent, selectEvent } = useCurrentEvent(user?.uid);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [cards, setCards] = useState<CardData[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [existingCards, setExistingCards] = useState<BusinessCard[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    listCards(user.uid)
+      .then(setExistingCards)
+      .catch(error => console.error('登録済み名刺の取得エラー:', error));
+  }, [user]);
+
+  // 登録済みの名刺と、このアップロード内で先に並んでいる名刺との重複
+  const duplicatesByCard = useMemo(() => {
+    const result = new Map<string, DuplicateMatch[]>();
+    cards.forEach((card, index) => {
+      if (!card.data.name) return;
+      const earlier = cards.slice(0, index).filter(other => other.data.name).map(toCandidate);
+      const matches = findDuplicates(toCandidate(card), [...existingCards, ...earlier]);
+      if (matches.length > 0) result.set(card.id, matches);
+    });
+    return result;
+  }, [cards, existingCards]);
+
+  const describeMatch = ({ card, reasons }: DuplicateMatch) => {
+    const batchIndex = cards.findIndex(other => other.id === card.id);
+    const target = batchIndex >= 0
+      ? `このアップロードの名刺 ${batchIndex + 1}（${card.name}）`
+      : `登録済み: ${card.name}${card.companyName ? `（${card.companyName}）` : ''}`;
+    return `${target} - ${reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join('・')}`;
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -110,7 +162,7 @@ export default function BulkUploadPage() {
         }
 
         // AI解析
-        const response = await fetch('/api/analyze-card', {
+        const response = await fetchWithAuth('/api/analyze-card', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -129,12 +181,18 @@ export default function BulkUploadPage() {
             data: {
               ...card.data,
               name: result.name || '',
+              familyName: result.familyName || '',
+              givenName: result.givenName || '',
+              familyNameKana: result.familyNameKana || '',
+              givenNameKana: result.givenNameKana || '',
+              romanizedName: result.romanizedName || '',
               companyName: result.companyName || '',
               title: result.title || '',
               emails: result.emails || [],
-              phones: result.phones || [],
+              phones: toEditablePhones(result.phones || []),
               urls: combinedUrls.slice(0, 6),
               line_ids: result.line_ids || [],
+              address: result.address || {},
               notes: result.other_info || ''
             }
           };
@@ -175,28 +233,90 @@ export default function BulkUploadPage() {
     let successCount = 0;
     let errorCount = 0;
 
-    for (const card of cards) {
-      if (!card.data.name || !card.data.companyName) {
-        errorCount++;
-        continue;
+    let validCards = cards.filter(card => card.data.name && card.data.companyName);
+    errorCount = cards.length - validCards.length;
+
+    const duplicateCount = validCards.filter(card => duplicatesByCard.has(card.id)).length;
+    if (duplicateCount > 0 && !confirm(
+      `${duplicateCount}件の名刺が登録済みの名刺またはほかの名刺と重複している可能性があります。\n` +
+      '重複している名刺も保存しますか？（キャンセルすると重複している名刺を除いて保存します）\n' +
+      '保存後に「重複の確認」から統合できます。'
+    )) {
+      validCards = validCards.filter(card => !duplicatesByCard.has(card.id));
+      errorCount = cards.length - validCards.length;
+      if (validCards.length === 0) {
+        setIsSaving(false);
+        alert('保存する名刺がありません。');
+        return;
+      }
+    }
+
+    let savedCardIds = new Set<string>();
+    try {
+      // 画像をStorageへアップロードしてから、まとめてバッチ書き込み
+      const operations = [];
+      const bulkCardIds = new Map<string, string>(); // 保存する名刺のID → 一括アップロードの名刺のID
+      for (const card of validCards) {
+        const cardId = newCardId(user.uid);
+        const images = await uploadCardImages(user.uid, cardId, {
+          front: card.frontImage,
+          back: card.backImage
+        });
+
+        operations.push({
+          type: 'set' as const,
+          cardId,
+          // 現在のイベントが設定されていれば、イベントと交換日を記録する
+          card: stampCardWithEvent({
+            name: '',
+            companyName: '',
+            urls: [],
+            emails: [],
+            phones: [],
+            line_ids: [],
+            ...withoutInlineImages(card.data),
+            images,
+            source: 'bulk'
+          }, currentEvent)
+        });
+        bulkCardIds.set(cardId, card.id);
       }
 
+      let savedOperations = operations;
       try {
-        await addDoc(collection(db, 'users', user.uid, 'cards'), {
-          ...card.data,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        });
-        successCount++;
+        await batchWriteCards(user.uid, operations);
       } catch (error) {
+        // 途中のバッチで失敗した場合は、それまでに書き込んだ名刺だけを保存済みとして扱う
+        const writtenIds: string[] = isBusinessCardError(error) ? error.context?.writtenIds || [] : [];
+        if (writtenIds.length === 0) throw error;
         console.error('保存エラー:', error);
-        errorCount++;
+        savedOperations = operations.filter(operation => writtenIds.includes(operation.cardId));
       }
+      savedCardIds = new Set(savedOperations.map(operation => bulkCardIds.get(operation.cardId)!));
+      successCount = savedOperations.length;
+      errorCount = cards.length - successCount;
+
+      // 保存した名刺を会社に紐付ける（失敗しても会社一覧を開いたときに再度紐付ける）
+      await syncCardCompanies(user.uid).catch(error => console.error('会社の紐付けエラー:', error));
+
+      // お礼メールなどのタスクを提案どおりに作成する（失敗しても保存は成功扱い）
+      await createSuggestedTasks(
+        user.uid,
+        savedOperations.map(operation => ({ ...operation.card, id: operation.cardId } as BusinessCard))
+      ).catch(error => console.error('タスクの作成エラー:', error));
+    } catch (error) {
+      console.error('保存エラー:', error);
+      errorCount = cards.length;
     }
 
     setIsSaving(false);
     
-    if (successCount > 0) {
+    if (successCount > 0 && successCount < validCards.length) {
+      // 保存できなかった名刺は画面に残し、もう一度保存できるようにする
+      setCards(prev => prev.filter(card => !savedCardIds.has(card.id)));
+      setCurrentCardIndex(0);
+      alert(`${successCount}件の名刺を保存しました（${errorCount}件失敗）。保存できなかった名刺は画面に残しています。`);
+    } else if (successCount > 0) {
       alert(`${successCount}件の名刺を保存しました${errorCount > 0 ? `（${errorCount}件失敗）` : ''}`);
       router.push('/dashboard');
     } else {
@@ -223,6 +343,8 @@ export default function BulkUploadPage() {
           </Link>
         </header>
 
+        <CurrentEventBar events={events} currentEvent={currentEvent} onSelect={selectEvent} />
+
         {cards.length === 0 ? (
           <div className="bg-gray-800 p-12 rounded-lg text-center">
             <input
@@ -327,6 +449,19 @@ export default function BulkUploadPage() {
 
                   {/* データ編集フォーム */}
                   <div className="space-y-4">
+                    {duplicatesByCard.has(currentCard.id) && (
+                      <div className="p-3 bg-yellow-900 bg-opacity-40 border border-yellow-600 rounded-lg">
+                        <p className="flex items-center gap-2 text-yellow-300 text-sm font-medium mb-1">
+                          <AlertTriangle size={16} />
+                          重複している可能性があります
+                        </p>
+                        <ul className="text-yellow-200 text-xs space-y-1">
+                          {duplicatesByCard.get(currentCard.id)!.map(match => (
+                            <li key={match.card.id}>{describeMatch(match)}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     <div>
                       <label className="block text-sm font-medium text-gray-300 mb-1">
                         氏名 <span className="text-red-400">*</span>
@@ -374,12 +509,17 @@ export default function BulkUploadPage() {
 
                     <div>
                       <label className="block text-sm font-medium text-gray-300 mb-1">電話番号</label>
-                      <input
-                        type="tel"
-                        value={currentCard.data.phones?.[0] || ''}
-                        onChange={(e) => updateCardData('phones', [e.target.value])}
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
-                        placeholder="090-1234-5678"
+                      <PhoneEntriesInput
+                        entries={currentCard.data.phones || []}
+                        onChange={(phones) => updateCardData('phones', phones)}
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">住所</label>
+                      <AddressInput
+                        value={currentCard.data.address || {}}
+                        onChange={(address) => updateCardData('address', address)}
                       />
                     </div>
 
@@ -423,6 +563,11 @@ export default function BulkUploadPage() {
                     {(!card.data.name || !card.data.companyName) && card.processed && (
                       <div className="absolute inset-0 bg-red-600 bg-opacity-20" />
                     )}
+                    {duplicatesByCard.has(card.id) && (
+                      <div className="absolute top-1 left-1 bg-yellow-500 rounded-full p-1" title="重複の可能性">
+                        <AlertTriangle size={10} className="text-gray-900" />
+                      </div>
+                    )}
                   </button>
                 ))}
               </div>
@@ -3,16 +3,49 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { collection, addDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { BusinessCard } from '@/types';
+import { createCardWithImages, listCards, mergeNewCardInto } from '@/lib/firebase/cardRepository';
+import { BusinessCard, CardImageSide, PhoneEntry } from '@/types';
 import Link from 'next/link';
 import { ArrowLeft, Camera, Upload, Sparkles, X, Check, Edit2, Globe, Loader2 } from 'lucide-react';
 import jsQR from 'jsqr';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+import { CardImageWithBoxes } from '@/components/CardImageWithBoxes';
+import { PersonNameFields } from '@/components/PersonNameFields';
+import { PhoneEntriesInput } from '@/components/PhoneEntriesInput';
+import { AddressInput } from '@/components/AddressInput';
+import { parsePhone, toEditablePhones } from '@/lib/phone';
+import { isEmptyAddress } from '@/lib/address';
+import { DuplicateMatch } from '@/lib/duplicates';
+import { ErrorCode, isBusinessCardError } from '@/lib/errors';
+import { DuplicateCardsDialog } from '@/components/DuplicateCardsDialog';
+import { MergeDialog } from '@/components/MergeDialog';
+import { SamePersonDialog } from '@/components/SamePersonDialog';
+import { linkSamePerson } from '@/lib/firebase/personRepository';
+import { linkCardToCompany } from '@/lib/firebase/companyRepository';
+import { createSuggestedTasks } from '@/lib/firebase/taskRepository';
+import { stampCardWithEvent } from '@/lib/events';
+import { useCurrentEvent } from '@/hooks/useCurrentEvent';
+import { CurrentEventBar } from '@/components/CurrentEventBar';
+import { findSamePersonCandidates } from '@/lib/career';
+import type { RecognizedField, RecognizedFieldEvidence } from '@/lib/recognition/types';
+
+// これより確信度の低い項目は確認を促す
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// ウェブサイトから取得した電話番号を先頭に追加する（同じ番号は重複させない）
+const mergeFetchedPhone = (phones: PhoneEntry[], fetched: string): PhoneEntry[] => {
+  const entry = parsePhone(fetched);
+  if (!entry) return phones;
+
+  const [editable] = toEditablePhones([entry]);
+  const rest = phones.filter(phone => parsePhone(phone.number)?.number !== entry.number);
+  return [editable, ...rest].slice(0, 6);
+};
 
 export default function NewCardPage() {
   const { user } = useAuth();
   const router = useRouter();
+  const { events, currentEvent, selectEvent } = useCurrentEvent(user?.uid);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   
@@ -41,8 +74,9 @@ export default function NewCardPage() {
     title: '',
     urls: [''],  // 初期状態で1つの空URLフィールドを表示
     emails: [''],  // 初期状態で1つの空メールフィールドを表示
-    phones: [''],  // 初期状態で1つの空電話番号フィールドを表示
+    phones: [{ type: 'office', number: '' }],  // 初期状態で1つの空電話番号フィールドを表示
     line_ids: [],
+    address: {},
     businessContent: '',
     exchangeDate: new Date().toISOString().split('T')[0],
     notes: '',
@@ -54,6 +88,14 @@ export default function NewCardPage() {
   const [isManualEdit, setIsManualEdit] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [fetchingUrls, setFetchingUrls] = useState<string[]>([]);
+  // AI解析の項目ごとの確信度と読み取り位置
+  const [fieldEvidence, setFieldEvidence] = useState<Partial<RecognizedFieldEvidence>>({});
+  const [focusedField, setFocusedField] = useState<RecognizedField | null>(null);
+  // 保存時に見つかった登録済みの重複候補と、統合先として選んだ名刺
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
+  const [mergeCandidates, setMergeCandidates] = useState<BusinessCard[]>([]);
+  // 保存した名刺と、同じ人（転職・異動前）の可能性がある登録済みの名刺
+  const [samePerson, setSamePerson] = useState<{ card: BusinessCard; candidates: BusinessCard[] } | null>(null);
 
   // 自動AI解析を削除（手動で実行するように変更）
 
@@ -372,10 +414,14 @@ export default function NewCardPage() {
       
       try {
         console.log('API呼び出し中: /api/analyze-urls');
-        const response = await fetch('/api/analyze-urls', {
+        const response = await fetchWithAuth('/api/analyze-urls', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ urls: validUrls }),
+          body: JSON.stringify({
+            urls: validUrls,
+            companyId: formData.companyId,
+            companyName: formData.companyName || undefined
+          }),
           // モバイル用にタイムアウトを設定
           signal: AbortSignal.timeout(30000) // 30秒のタイムアウト
         });
@@ -405,6 +451,8 @@ export default function NewCardPage() {
         
         setFormData(prev => {
           console.log('現在のフォームデータ:', prev);
+          // 解析結果を保存した会社に名刺を紐付ける
+          const companyId = data.companyId || prev.companyId;
           
           let businessContent = prev.businessContent || '';
           let notes = prev.notes || '';
@@ -444,19 +492,22 @@ export default function NewCardPage() {
             
             const updatedData = {
               ...prev,
+              companyId,
               companyName: info.companyName || prev.companyName,
               businessContent,
               notes,
               tags: data.tags || prev.tags || [],
               emails: info.email ? [info.email, ...prev.emails.filter((e: string) => e !== info.email)].slice(0, 6) : prev.emails,
-              phones: info.phone ? [info.phone, ...prev.phones.filter((p: string) => p !== info.phone)].slice(0, 6) : prev.phones
+              phones: info.phone ? mergeFetchedPhone(prev.phones, info.phone) : prev.phones,
+              // 名刺から読み取った住所を優先する
+              address: isEmptyAddress(prev.address) && info.address ? info.address : prev.address
             };
             
             console.log('更新後のフォームデータ:', updatedData);
             return updatedData;
           }
           
-          const updatedData = { ...prev, businessContent, notes, tags: data.tags || prev.tags || [] };
+          const updatedData = { ...prev, companyId, businessContent, notes, tags: data.tags || prev.tags || [] };
           console.log('更新後のフォームデータ:', updatedData);
           return updatedData;
         });
@@ -485,7 +536,7 @@ export default function NewCardPage() {
       setFetchingUrls(prev => [...prev, url]);
       
       try {
-        const response = await fetch('/api/fetch-url', {
+        const response = await fetchWithAuth('/api/fetch-url', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ url }),
@@ -571,7 +622,7 @@ export default function NewCardPage() {
 
       // AI解析APIを呼び出す
       console.log('画像解析APIを呼び出し中...');
-      const response = await fetch('/api/analyze-card', {
+      const response = await fetchWithAuth('/api/analyze-card', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
@@ -597,15 +648,22 @@ export default function NewCardPage() {
       setFormData(prev => ({
         ...prev,
         name: result.name || prev.name,
+        familyName: result.familyName || prev.familyName,
+        givenName: result.givenName || prev.givenName,
+        familyNameKana: result.familyNameKana || prev.familyNameKana,
+        givenNameKana: result.givenNameKana || prev.givenNameKana,
+        romanizedName: result.romanizedName || prev.romanizedName,
         companyName: result.companyName || prev.companyName,
         title: result.title || prev.title,
         urls: combinedUrls.slice(0, 6),
         emails: result.emails || [],
-        phones: result.phones || [],
+        phones: toEditablePhones(result.phones || []),
         line_ids: result.line_ids || [],
+        address: isEmptyAddress(result.address) ? prev.address : result.address,
         notes: result.other_info || prev.notes,
         exchangeDate: prev.exchangeDate
       }));
+      setFieldEvidence(result.fields || {});
 
       setStep('review');
       
@@ -628,6 +686,7 @@ export default function NewCardPage() {
       userMessage += '\n手動で入力してください。';
       
       alert(userMessage);
+      setFieldEvidence({});
       setStep('review');
       setIsManualEdit(true);
     } finally {
@@ -635,7 +694,55 @@ export default function NewCardPage() {
     }
   };
 
-  const handleSubmit = async () => {
+  // 保存するデータ（空の入力欄は除く）
+  // 現在のイベントが設定されていれば、イベントと交換日を記録する
+  const buildCardData = (): Omit<BusinessCard, 'id'> => stampCardWithEvent({
+    ...formData,
+    urls: formData.urls.filter(url => url && url.trim()),
+    emails: formData.emails.filter(email => email && email.trim()),
+    phones: formData.phones.filter(phone => phone.number.trim()),
+    line_ids: formData.line_ids.filter(id => id && id.trim()),
+    address: isEmptyAddress(formData.address) ? undefined : formData.address,
+    source: 'manual'
+  }, currentEvent);
+
+  // 重複候補の名刺に統合する（新しい名刺の画像は統合履歴に残す）
+  const handleMergeIntoExisting = async (primary: BusinessCard, _others: BusinessCard[], values: Partial<BusinessCard>) => {
+    if (!user || !primary.id) return;
+
+    await mergeNewCardInto(user.uid, primary.id, buildCardData(), {
+      front: formData.frontImageBase64,
+      back: formData.backImageBase64
+    }, values);
+
+    alert('既存の名刺に統合しました！');
+    router.push(`/card/${primary.id}`);
+  };
+
+  // 保存した名刺を登録済みの名刺と同じ人として経歴にまとめ、保存した名刺の詳細へ移動する
+  const linkAndOpen = async (savedCard: BusinessCard, existing: BusinessCard) => {
+    if (!user) return;
+    try {
+      await linkSamePerson(user.uid, [existing, savedCard]);
+    } catch (error) {
+      console.error('経歴のリンクエラー:', error);
+      alert('名刺は保存しましたが、経歴へのリンクに失敗しました。');
+    }
+    router.push(`/card/${savedCard.id}`);
+  };
+
+  // 氏名が一致する別の会社の名刺があれば、同じ人かどうか確認する
+  const findSamePersonAfterSave = async (savedCard: BusinessCard): Promise<BusinessCard[]> => {
+    if (!user) return [];
+    try {
+      return findSamePersonCandidates(savedCard, await listCards(user.uid));
+    } catch (error) {
+      console.error('同一人物の候補の取得エラー:', error);
+      return [];
+    }
+  };
+
+  const handleSubmit = async (allowDuplicate = false, samePersonAs?: BusinessCard) => {
     console.log('===== 保存処理開始 =====');
     console.log('現在のユーザー:', user?.uid);
     console.log('認証状態:', !!user);
@@ -658,39 +765,46 @@ export default function NewCardPage() {
     // 保存処理
     try {
       // データの準備
-      const docData = {
-        ...formData,
-        // 空配列を除外
-        urls: formData.urls.filter(url => url && url.trim()),
-        emails: formData.emails.filter(email => email && email.trim()),
-        phones: formData.phones.filter(phone => phone && phone.trim()),
-        line_ids: formData.line_ids.filter(id => id && id.trim()),
-        // タイムスタンプ
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        // ユーザーID
-        userId: user.uid
-      };
+      const docData = buildCardData();
       
-      console.log('保存するデータ:', JSON.stringify(docData, null, 2));
       console.log('保存先パス:', `users/${user.uid}/cards`);
-      console.log('Firestore接続確認中...');
-      
-      // Firestore接続確認
-      const testCollection = collection(db, 'users', user.uid, 'cards');
-      console.log('コレクション参照作成成功:', testCollection);
       
-      // データ保存
-      console.log('addDoc実行中...');
-      const docRef = await addDoc(testCollection, docData);
+      // データ保存（画像はStorageへアップロード）
+      const savedCard = await createCardWithImages(user.uid, docData, {
+        front: formData.frontImageBase64,
+        back: formData.backImageBase64
+      }, { allowDuplicate });
       
       console.log('===== 保存成功 =====');
-      console.log('Document ID:', docRef.id);
-      console.log('Document Path:', docRef.path);
+      console.log('Document ID:', savedCard.id);
+
+      // URL解析で会社に紐付いていない場合は会社名・ドメインで会社に紐付ける（失敗しても保存は成功扱い）
+      if (!savedCard.companyId) {
+        await linkCardToCompany(user.uid, savedCard).catch(error => console.error('会社の紐付けエラー:', error));
+      }
+
+      // お礼メールなどのタスクを提案どおりに作成する（失敗しても保存は成功扱い）
+      await createSuggestedTasks(user.uid, [savedCard]).catch(error => console.error('タスクの作成エラー:', error));
       
+      if (samePersonAs) {
+        await linkAndOpen(savedCard, samePersonAs);
+        return;
+      }
+
       alert('名刺を保存しました！');
+      const candidates = await findSamePersonAfterSave(savedCard);
+      if (candidates.length > 0) {
+        setSamePerson({ card: savedCard, candidates });
+        return;
+      }
       router.push('/dashboard');
     } catch (error) {
+      // 登録済みの名刺と重複する場合は統合するか確認する
+      if (isBusinessCardError(error) && error.code === ErrorCode.CARD_DUPLICATE) {
+        setDuplicateMatches(error.context?.matches || []);
+        return;
+      }
+
       const err = error as any;
       console.error('===== 保存エラー =====');
       console.error('エラーオブジェクト:', error);
@@ -735,9 +849,35 @@ export default function NewCardPage() {
     setFormData({ ...formData, [field]: arr });
   };
 
+  const isLowConfidence = (field: RecognizedField) => {
+    const confidence = fieldEvidence[field]?.confidence;
+    return confidence !== undefined && confidence > 0 && confidence < LOW_CONFIDENCE_THRESHOLD;
+  };
+
+  // 確信度の低い項目は枠を黄色にする
+  const inputBorder = (field: RecognizedField) =>
+    isLowConfidence(field) ? 'border-yellow-500 ring-1 ring-yellow-500' : 'border-gray-600';
+
+  const confidenceBadge = (field: RecognizedField) => isLowConfidence(field) && (
+    <span className="ml-2 text-xs text-yellow-400" title="AIの読み取りに自信がない項目です。画像と見比べてください">
+      要確認（確信度 {Math.round((fieldEvidence[field]?.confidence || 0) * 100)}%）
+    </span>
+  );
+
+  // フォーカス中の項目を読み取った位置を画像上に表示する
+  const focusHandlers = (field: RecognizedField) => ({
+    onFocus: () => setFocusedField(field),
+    onBlur: () => setFocusedField(current => current === field ? null : current)
+  });
+
+  const focusedBoxes = (side: CardImageSide) =>
+    (focusedField ? fieldEvidence[focusedField]?.boxes || [] : []).filter(box => box.side === side);
+
   const resetAndStartOver = () => {
     setStep('upload');
     setUploadedImages({ front: '', back: '' });
+    setFieldEvidence({});
+    setFocusedField(null);
     setFormData({
       name: '',
       companyName: '',
@@ -746,6 +886,7 @@ export default function NewCardPage() {
       emails: [],
       phones: [],
       line_ids: [],
+      address: {},
       businessContent: '',
       exchangeDate: new Date().toISOString().split('T')[0],
       notes: '',
@@ -771,6 +912,8 @@ export default function NewCardPage() {
           </Link>
         </header>
 
+        <CurrentEventBar events={events} currentEvent={currentEvent} onSelect={selectEvent} />
+
         {step === 'upload' && (
           <div className="space-y-6">
             {/* メインアップロードエリア */}
@@ -963,6 +1106,26 @@ export default function NewCardPage() {
 
         {step === 'review' && (
           <div className="space-y-6">
+            {/* 画像プレビュー（フォーカス中の項目を読み取った位置を枠で表示） */}
+            <div className="bg-gray-800 p-4 rounded-lg sm:sticky sm:top-0 sm:z-10 shadow-lg">
+              <h4 className="text-sm font-medium text-gray-400 mb-3">アップロードされた画像</h4>
+              <div className="grid grid-cols-2 gap-4">
+                {uploadedImages.front && (
+                  <CardImageWithBoxes
+                    src={uploadedImages.front}
+                    alt="表面"
+                    boxes={focusedBoxes('front')}
+                  />
+                )}
+                {uploadedImages.back && (
+                  <CardImageWithBoxes
+                    src={uploadedImages.back}
+                    alt="裏面"
+                    boxes={focusedBoxes('back')}
+                  />
+                )}
+              </div>
+            </div>
             <div className="bg-gray-800 p-6 rounded-lg">
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xl font-semibold text-white">
@@ -982,12 +1145,14 @@ export default function NewCardPage() {
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-1">
                       氏名 <span className="text-red-400">*</span>
+                      {confidenceBadge('name')}
                     </label>
                     <input
                       type="text"
                       value={formData.name}
                       onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
+                      {...focusHandlers('name')}
+                      className={`w-full bg-gray-700 border ${inputBorder('name')} rounded-lg py-2 px-4 text-white`}
                       required
                     />
                   </div>
@@ -995,24 +1160,35 @@ export default function NewCardPage() {
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-1">
                       会社名 <span className="text-red-400">*</span>
+                      {confidenceBadge('companyName')}
                     </label>
                     <input
                       type="text"
                       value={formData.companyName}
                       onChange={(e) => setFormData({ ...formData, companyName: e.target.value })}
-                      className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
+                      {...focusHandlers('companyName')}
+                      className={`w-full bg-gray-700 border ${inputBorder('companyName')} rounded-lg py-2 px-4 text-white`}
                       required
                     />
                   </div>
                 </div>
 
+                <PersonNameFields
+                  value={formData}
+                  onChange={(updates) => setFormData(prev => ({ ...prev, ...updates }))}
+                />
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">役職</label>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    役職
+                    {confidenceBadge('title')}
+                  </label>
                   <input
                     type="text"
                     value={formData.title}
                     onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                    className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
+                    {...focusHandlers('title')}
+                    className={`w-full bg-gray-700 border ${inputBorder('title')} rounded-lg py-2 px-4 text-white`}
                   />
                 </div>
 
@@ -1020,6 +1196,7 @@ export default function NewCardPage() {
                   <div className="flex justify-between items-center mb-1">
                     <label className="text-sm font-medium text-gray-300">
                       URL / ウェブサイト
+                      {confidenceBadge('urls')}
                       {fetchingUrls.length > 0 && (
                         <span className="ml-2 text-blue-400 text-xs">
                           <Loader2 className="inline w-3 h-3 animate-spin mr-1" />
@@ -1054,12 +1231,14 @@ export default function NewCardPage() {
                         type="url"
                         value={url}
                         onChange={(e) => handleArrayChange('urls', index, e.target.value)}
+                        onFocus={focusHandlers('urls').onFocus}
                         onBlur={() => {
+                          focusHandlers('urls').onBlur();
                           if (url && !fetchingUrls.includes(url)) {
                             fetchUrlInfo([url]);
                           }
                         }}
-                        className="flex-1 bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
+                        className={`flex-1 bg-gray-700 border ${inputBorder('urls')} rounded-lg py-2 px-4 text-white`}
                         placeholder="https://example.com"
                       />
                       <button
@@ -1102,14 +1281,18 @@ export default function NewCardPage() {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">メールアドレス</label>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    メールアドレス
+                    {confidenceBadge('emails')}
+                  </label>
                   {formData.emails.map((email, index) => (
                     <div key={index} className="flex gap-2 mb-2">
                       <input
                         type="email"
                         value={email}
                         onChange={(e) => handleArrayChange('emails', index, e.target.value)}
-                        className="flex-1 bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
+                        {...focusHandlers('emails')}
+                        className={`flex-1 bg-gray-700 border ${inputBorder('emails')} rounded-lg py-2 px-4 text-white`}
                         placeholder="example@email.com"
                       />
                       <button
@@ -1133,34 +1316,29 @@ export default function NewCardPage() {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">電話番号</label>
-                  {formData.phones.map((phone, index) => (
-                    <div key={index} className="flex gap-2 mb-2">
-                      <input
-                        type="tel"
-                        value={phone}
-                        onChange={(e) => handleArrayChange('phones', index, e.target.value)}
-                        className="flex-1 bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white"
-                        placeholder="090-1234-5678"
-                      />
-                      <button
-                        type="button"
-                        onClick={() => removeArrayItem('phones', index)}
-                        className="text-red-400 hover:text-red-300 px-2"
-                      >
-                        <X size={20} />
-                      </button>
-                    </div>
-                  ))}
-                  {formData.phones.length < 6 && (
-                    <button
-                      type="button"
-                      onClick={() => addArrayItem('phones')}
-                      className="text-sm text-blue-400 hover:text-blue-300"
-                    >
-                      + 電話番号を追加
-                    </button>
-                  )}
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    電話番号
+                    {confidenceBadge('phones')}
+                  </label>
+                  <PhoneEntriesInput
+                    entries={formData.phones}
+                    onChange={(phones) => setFormData(prev => ({ ...prev, phones }))}
+                    borderClassName={inputBorder('phones')}
+                    {...focusHandlers('phones')}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    住所
+                    {confidenceBadge('address')}
+                  </label>
+                  <AddressInput
+                    value={formData.address || {}}
+                    onChange={(address) => setFormData(prev => ({ ...prev, address }))}
+                    borderClassName={inputBorder('address')}
+                    {...focusHandlers('address')}
+                  />
                 </div>
 
                 <div>
@@ -1175,12 +1353,16 @@ export default function NewCardPage() {
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-1">メモ</label>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    メモ
+                    {confidenceBadge('other_info')}
+                  </label>
                   <textarea
                     value={formData.notes}
                     onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    {...focusHandlers('other_info')}
                     rows={8}
-                    className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white resize-y min-h-[200px]"
+                    className={`w-full bg-gray-700 border ${inputBorder('other_info')} rounded-lg py-2 px-4 text-white resize-y min-h-[200px]`}
                     placeholder="その他の情報やメモ"
                   />
                 </div>
@@ -1193,7 +1375,7 @@ export default function NewCardPage() {
                     最初からやり直す
                   </button>
                   <button
-                    onClick={handleSubmit}
+                    onClick={() => handleSubmit()}
                     className="bg-green-600 text-white rounded-lg py-2 px-8 hover:bg-green-700 flex items-center gap-2 transition-colors"
                   >
                     <Check size={20} />
@@ -1202,37 +1384,43 @@ export default function NewCardPage() {
                 </div>
               </div>
             </div>
-
-            {/* 画像プレビュー */}
-            <div className="bg-gray-800 p-4 rounded-lg">
-              <h4 className="text-sm font-medium text-gray-400 mb-3">アップロードされた画像</h4>
-              <div className="grid grid-cols-2 gap-4">
-                {uploadedImages.front && (
-                  <div>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={uploadedImages.front}
-                      alt="表面"
-                      className="w-full rounded-lg"
-                    />
-                  </div>
-                )}
-                {uploadedImages.back && (
-                  <div>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={uploadedImages.back}
-                      alt="裏面"
-                      className="w-full rounded-lg"
-                    />
-                  </div>
-                )}
-              </div>
-            </div>
           </div>
         )}
         </div>
 
+        <DuplicateCardsDialog
+          matches={duplicateMatches}
+          onMerge={(card) => {
+            setDuplicateMatches([]);
+            setMergeCandidates([card, buildCardData()]);
+          }}
+          onSamePerson={(card) => {
+            setDuplicateMatches([]);
+            handleSubmit(true, card);
+          }}
+          onSaveAnyway={() => {
+            setDuplicateMatches([]);
+            handleSubmit(true);
+          }}
+          onCancel={() => setDuplicateMatches([])}
+        />
+
+        <SamePersonDialog
+          candidates={samePerson?.candidates || []}
+          onLink={(candidate) => linkAndOpen(samePerson!.card, candidate)}
+          onSkip={() => {
+            setSamePerson(null);
+            router.push('/dashboard');
+          }}
+        />
+
+        <MergeDialog
+          isOpen={mergeCandidates.length > 0}
+          cards={mergeCandidates}
+          onClose={() => setMergeCandidates([])}
+          onMerge={handleMergeIntoExisting}
+        />
+
         <style jsx>{`
         .loader {
           border: 4px solid #4a5568;
@@ -0,0 +1,363 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Building2, Edit, RefreshCw } from 'lucide-react';
+import { getCompany, listCompanyCards, updateCompany } from '@/lib/firebase/companyRepository';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { isValidCorporateNumber } from '@/lib/company';
+import { formatAddress, isEmptyAddress } from '@/lib/address';
+import { compareByReading } from '@/lib/names';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+import { BusinessCard, Company, PostalAddress } from '@/types';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { AddressInput } from '@/components/AddressInput';
+
+interface CompanyForm {
+  name: string;
+  corporateNumber: string;
+  domains: string;
+  urls: string;
+  businessContent: string;
+  tags: string;
+  address: PostalAddress;
+}
+
+const toForm = (company: Company): CompanyForm => ({
+  name: company.name,
+  corporateNumber: company.corporateNumber || '',
+  domains: company.domains.join(', '),
+  urls: company.urls.join('\n'),
+  businessContent: company.businessContent || '',
+  tags: (company.tags || []).join(', '),
+  address: company.address || {}
+});
+
+const splitList = (value: string, separator: RegExp) =>
+  Array.from(new Set(value.split(separator).map(item => item.trim()).filter(Boolean)));
+
+export default function CompanyDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [companyId, setCompanyId] = useState('');
+  const [company, setCompany] = useState<Company | null>(null);
+  const [contacts, setContacts] = useState<BusinessCard[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<CompanyForm | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    params.then(resolved => setCompanyId(resolved.id));
+  }, [params]);
+
+  const loadCompany = useCallback(async () => {
+    if (!user || !companyId) return;
+
+    try {
+      const [companyData, cards] = await Promise.all([
+        getCompany(user.uid, companyId),
+        listCompanyCards(user.uid, companyId)
+      ]);
+      if (!companyData) {
+        router.push('/company');
+        return;
+      }
+      setCompany(companyData);
+      setForm(toForm(companyData));
+      setContacts(cards.sort(compareByReading));
+    } catch (error) {
+      console.error('会社の取得エラー:', error);
+      router.push('/company');
+    }
+  }, [user, companyId, router]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+    loadCompany();
+  }, [user, router, loadCompany]);
+
+  const corporateNumberError = form?.corporateNumber && !isValidCorporateNumber(form.corporateNumber)
+    ? '法人番号は13桁の数字で、チェックデジットが正しい必要があります'
+    : null;
+
+  const handleSave = async () => {
+    if (!user || !company || !form) return;
+    if (!form.name.trim()) {
+      alert('会社名は必須です。');
+      return;
+    }
+    if (corporateNumberError) return;
+
+    const updates: Partial<Company> = {
+      name: form.name.trim(),
+      corporateNumber: form.corporateNumber,
+      domains: splitList(form.domains.toLowerCase(), /[,\s]+/),
+      urls: splitList(form.urls, /\n+/),
+      businessContent: form.businessContent,
+      tags: splitList(form.tags, /[,、]+/),
+      address: isEmptyAddress(form.address) ? {} : form.address
+    };
+
+    try {
+      await updateCompany(user.uid, company, updates);
+      setIsEditing(false);
+      await loadCompany();
+    } catch (error) {
+      console.error('会社の更新エラー:', error);
+      alert('更新に失敗しました。');
+    }
+  };
+
+  // 会社のウェブサイトを解析し直す（結果は会社に保存され、所属する名刺で共有される）
+  const handleReanalyze = async () => {
+    if (!company || company.urls.length === 0) return;
+
+    setIsAnalyzing(true);
+    try {
+      const response = await fetchWithAuth('/api/analyze-urls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: company.urls, companyId: company.id, refresh: true }),
+        signal: AbortSignal.timeout(30000)
+      });
+      if (!response.ok) throw new Error(`API Error: ${response.status}`);
+      await loadCompany();
+    } catch (error) {
+      console.error('ウェブサイトの解析エラー:', error);
+      alert('ウェブサイトの解析に失敗しました。');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  if (!company || !form) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white">読み込み中...</div>
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white';
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-5xl mx-auto p-6 md:p-8">
+        <header className="mb-6 flex justify-between items-center gap-4">
+          <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+            <Building2 size={28} className="text-gray-400" />
+            {isEditing ? '会社情報の編集' : company.name}
+          </h2>
+          <div className="flex gap-2">
+            {!isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="bg-yellow-600 text-white rounded-lg py-2 px-4 hover:bg-yellow-700 flex items-center gap-2"
+              >
+                <Edit size={18} />
+                編集
+              </button>
+            )}
+            <Link
+              href="/company"
+              className="bg-gray-700 text-gray-300 rounded-lg py-2 px-4 hover:bg-gray-600 flex items-center gap-2"
+            >
+              <ArrowLeft size={18} />
+              会社一覧
+            </Link>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-800 p-6 rounded-lg">
+            {isEditing ? (
+              <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">会社名 *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">法人番号</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={form.corporateNumber}
+                    onChange={(e) => setForm({ ...form, corporateNumber: e.target.value.replace(/\D/g, '').slice(0, 13) })}
+                    className={inputClassName}
+                    placeholder="13桁の数字"
+                  />
+                  {corporateNumberError && <p className="text-xs text-yellow-400 mt-1">{corporateNumberError}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">ドメイン（カンマ区切り）</label>
+                  <input
+                    type="text"
+                    value={form.domains}
+                    onChange={(e) => setForm({ ...form, domains: e.target.value })}
+                    className={inputClassName}
+                    placeholder="example.co.jp"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">ウェブサイト（1行に1つ）</label>
+                  <textarea
+                    value={form.urls}
+                    onChange={(e) => setForm({ ...form, urls: e.target.value })}
+                    rows={3}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">住所</label>
+                  <AddressInput value={form.address} onChange={(address) => setForm({ ...form, address })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">事業内容</label>
+                  <textarea
+                    value={form.businessContent}
+                    onChange={(e) => setForm({ ...form, businessContent: e.target.value })}
+                    rows={6}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">タグ（カンマ区切り）</label>
+                  <input
+                    type="text"
+                    value={form.tags}
+                    onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setForm(toForm(company));
+                      setIsEditing(false);
+                    }}
+                    className="bg-gray-600 text-white rounded-lg py-2 px-4 hover:bg-gray-700"
+                  >
+                    キャンセル
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!!corporateNumberError}
+                    className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    保存
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                {company.aliases.filter(alias => alias !== company.name).length > 0 && (
+                  <p className="text-sm text-gray-400">
+                    別表記: {company.aliases.filter(alias => alias !== company.name).join('、')}
+                  </p>
+                )}
+                {company.corporateNumber && (
+                  <p className="text-sm text-gray-300">法人番号: {company.corporateNumber}</p>
+                )}
+                {company.domains.length > 0 && (
+                  <p className="text-sm text-gray-300">ドメイン: {company.domains.join(', ')}</p>
+                )}
+                {!isEmptyAddress(company.address) && (
+                  <div className="border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-400 mb-2">住所</h4>
+                    <p>{formatAddress(company.address!)}</p>
+                  </div>
+                )}
+                {company.urls.length > 0 && (
+                  <div className="border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-400 mb-2">ウェブサイト</h4>
+                    <ul className="space-y-1">
+                      {company.urls.map(url => (
+                        <li key={url}>
+                          <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                            {url}
+                          </a>
+                          {company.urlAnalysis?.summaries[url] && (
+                            <p className="text-xs text-gray-400">{company.urlAnalysis.summaries[url]}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="border-t border-gray-700 pt-4">
+                  <div className="flex justify-between items-center mb-2">
+                    <h4 className="font-semibold text-gray-400">事業内容</h4>
+                    <button
+                      onClick={handleReanalyze}
+                      disabled={isAnalyzing || company.urls.length === 0}
+                      className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <RefreshCw size={14} className={isAnalyzing ? 'animate-spin' : ''} />
+                      {isAnalyzing ? '解析中...' : 'ウェブサイトを再解析'}
+                    </button>
+                  </div>
+                  <p className="text-gray-300 whitespace-pre-wrap">{company.businessContent || '未登録'}</p>
+                  {company.urlAnalysis && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      ウェブサイトの解析日: {new Date(company.urlAnalysis.analyzedAt).toLocaleDateString('ja-JP')}
+                    </p>
+                  )}
+                </div>
+                {company.tags && company.tags.length > 0 && (
+                  <div className="border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-400 mb-2">タグ</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {company.tags.map(tag => (
+                        <span key={tag} className="bg-gray-700 text-sm px-3 py-1 rounded-full">{tag}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-800 p-6 rounded-lg">
+            <h3 className="font-semibold text-gray-400 mb-3">この会社で会った人（{contacts.length}人）</h3>
+            <ul className="space-y-2">
+              {contacts.map(contact => (
+                <li key={contact.id}>
+                  <Link
+                    href={`/card/${contact.id}`}
+                    className="flex items-center gap-3 bg-gray-900 rounded-lg p-2 hover:bg-gray-700 transition-colors"
+                  >
+                    {contact.images?.front && (
+                      <OptimizedImage
+                        src={cardImageSrc(contact.images.front, 'small')!}
+                        alt={`${contact.name}の名刺`}
+                        className="w-14 h-9 object-cover rounded flex-shrink-0"
+                      />
+                    )}
+                    <div className="flex-1 overflow-hidden">
+                      <p className="text-white truncate">{contact.name}</p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {contact.title || ''} {contact.exchangeDate ? `・${contact.exchangeDate}` : ''}
+                      </p>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Building2, Search } from 'lucide-react';
+import { listCards } from '@/lib/firebase/cardRepository';
+import { listCompanies, syncCardCompanies } from '@/lib/firebase/companyRepository';
+import { normalizeForComparison } from '@/lib/text/normalize';
+import { Company } from '@/types';
+
+export default function CompaniesPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [contactCounts, setContactCounts] = useState<Map<string, number>>(new Map());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+
+    const load = async () => {
+      try {
+        // 会社が未設定の名刺（一括登録・取り込みなど）をここで会社に紐付ける
+        await syncCardCompanies(user.uid).catch(error => console.error('会社の紐付けエラー:', error));
+
+        const [companiesData, cards] = await Promise.all([listCompanies(user.uid), listCards(user.uid)]);
+        const counts = new Map<string, number>();
+        cards.forEach(card => {
+          if (card.companyId) counts.set(card.companyId, (counts.get(card.companyId) || 0) + 1);
+        });
+        setCompanies(companiesData);
+        setContactCounts(counts);
+      } catch (error) {
+        console.error('会社一覧の取得エラー:', error);
+        alert('会社一覧の読み込みに失敗しました。');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [user, router]);
+
+  const filteredCompanies = useMemo(() => {
+    const term = normalizeForComparison(searchTerm);
+    if (!term) return companies;
+    return companies.filter(company =>
+      [company.name, ...company.aliases, ...company.domains].some(value => normalizeForComparison(value).includes(term))
+    );
+  }, [companies, searchTerm]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/dashboard"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="ダッシュボードに戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <h1 className="text-2xl font-bold text-white">会社一覧</h1>
+        </header>
+
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+          <input
+            type="text"
+            placeholder="会社名、ドメインで検索..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg py-2 sm:py-3 pl-10 pr-4 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-400 py-12">読み込み中...</p>
+        ) : filteredCompanies.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">会社が見つかりません</p>
+        ) : (
+          <ul className="space-y-2">
+            {filteredCompanies.map(company => (
+              <li key={company.id}>
+                <Link
+                  href={`/company/${company.id}`}
+                  className="bg-gray-800 p-4 rounded-lg flex items-center gap-3 hover:bg-gray-700 transition-colors"
+                >
+                  <Building2 size={24} className="text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 overflow-hidden">
+                    <p className="font-semibold text-white truncate">{company.name}</p>
+                    <p className="text-xs text-gray-400 truncate">{company.domains.join(', ')}</p>
+                    {company.tags && company.tags.length > 0 && (
+                      <div className="flex gap-1 mt-1 flex-wrap">
+                        {company.tags.map(tag => (
+                          <span key={tag} className="bg-gray-700 text-xs px-2 py-0.5 rounded-full">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-300 flex-shrink-0">
+                    {contactCounts.get(company.id!) || 0}人
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
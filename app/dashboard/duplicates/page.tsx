@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, GitMerge, UserX } from 'lucide-react';
+import { batchWriteCards, mergeCards, watchCards } from '@/lib/firebase/cardRepository';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { DUPLICATE_REASON_LABELS, DuplicateCluster, findDuplicateClusters } from '@/lib/duplicates';
+import { BusinessCard } from '@/types';
+import { ErrorCode } from '@/lib/errors';
+import { useErrorHandler } from '@/hooks/useErrorHandler';
+import { useErrorNotification } from '@/components/ErrorNotification';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { MergeDialog } from '@/components/MergeDialog';
+
+export default function DuplicatesPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [cards, setCards] = useState<BusinessCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergeTarget, setMergeTarget] = useState<BusinessCard[] | null>(null);
+  const [updatingCluster, setUpdatingCluster] = useState<string | null>(null);
+  const { handleError } = useErrorHandler();
+  const { showError } = useErrorNotification();
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+
+    const unsubscribe = watchCards(
+      user.uid,
+      (cardsData) => {
+        setCards(cardsData);
+        setIsLoading(false);
+      },
+      (bcError) => {
+        handleError(bcError, { context: 'firestore-listener' });
+        if (bcError.code === ErrorCode.FIREBASE_PERMISSION_DENIED) {
+          router.push('/auth');
+        } else {
+          showError(bcError.message);
+        }
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user, router, handleError, showError]);
+
+  const clusters = useMemo(() => findDuplicateClusters(cards), [cards]);
+
+  const clusterKey = (cluster: DuplicateCluster) => cluster.cards.map(card => card.id).join(':');
+
+  const handleMerge = async (primary: BusinessCard, others: BusinessCard[], values: Partial<BusinessCard>) => {
+    if (!user || !primary.id) return;
+    await mergeCards(user.uid, primary.id, others, values);
+  };
+
+  // 同じまとまりの名刺を互いに「別の人」として記録し、以後重複として表示しない
+  const handleMarkDistinct = async (cluster: DuplicateCluster) => {
+    if (!user) return;
+    if (!confirm('これらの名刺を別の人として扱い、重複の一覧に表示しないようにしますか？')) return;
+
+    const key = clusterKey(cluster);
+    setUpdatingCluster(key);
+    try {
+      await batchWriteCards(user.uid, cluster.cards.map(card => ({
+        type: 'update' as const,
+        cardId: card.id!,
+        updates: {
+          distinctFrom: Array.from(new Set([
+            ...(card.distinctFrom || []),
+            ...cluster.cards.filter(other => other.id !== card.id).map(other => other.id!)
+          ]))
+        }
+      })));
+    } catch (error) {
+      handleError(error, { context: 'duplicates-mark-distinct' });
+      showError('更新に失敗しました');
+    } finally {
+      setUpdatingCluster(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/dashboard"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="ダッシュボードに戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-white">重複している名刺</h1>
+            <p className="text-sm text-gray-400 mt-1">
+              メールアドレス・携帯や直通の電話番号・氏名と会社名が一致する名刺をまとめて表示しています
+            </p>
+          </div>
+        </header>
+
+        {isLoading ? (
+          <p className="text-center text-gray-400 py-12">読み込み中...</p>
+        ) : clusters.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">重複している名刺はありません</p>
+        ) : (
+          <ul className="space-y-4">
+            {clusters.map(cluster => {
+              const key = clusterKey(cluster);
+              return (
+                <li key={key} className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                    <p className="text-sm text-yellow-400">
+                      {cluster.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join('・')}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleMarkDistinct(cluster)}
+                        disabled={updatingCluster === key}
+                        className="bg-gray-700 text-white text-sm px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors flex items-center gap-1"
+                      >
+                        <UserX size={16} />
+                        別の人として扱う
+                      </button>
+                      <button
+                        onClick={() => setMergeTarget(cluster.cards)}
+                        disabled={updatingCluster === key}
+                        className="bg-blue-600 text-white text-sm px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-1"
+                      >
+                        <GitMerge size={16} />
+                        統合
+                      </button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {cluster.cards.map(card => (
+                      <Link
+                        key={card.id}
+                        href={`/card/${card.id}`}
+                        className="flex items-center gap-3 bg-gray-900 rounded-lg p-2 hover:bg-gray-700 transition-colors"
+                      >
+                        {card.images?.front && (
+                          <OptimizedImage
+                            src={cardImageSrc(card.images.front, 'small')!}
+                            alt={`${card.name}の名刺`}
+                            className="w-16 h-10 object-cover rounded flex-shrink-0"
+                          />
+                        )}
+                        <div className="flex-1 overflow-hidden">
+                          <p className="text-white font-medium truncate">{card.name}</p>
+                          <p className="text-xs text-gray-400 truncate">
+                            {card.companyName} {card.title ? `/ ${card.title}` : ''}
+                          </p>
+                        </div>
+                        <p className="text-xs text-gray-400 flex-shrink-0">
+                          {card.emails[0] || ''}
+                        </p>
+                      </Link>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <MergeDialog
+        isOpen={mergeTarget !== null}
+        cards={mergeTarget || []}
+        onClose={() => setMergeTarget(null)}
+        onMerge={handleMerge}
+      />
+    </div>
+  );
+}
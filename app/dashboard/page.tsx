@@ -1,37 +1,54 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
-import { 
-  collection, 
-  query, 
-  onSnapshot,
-  doc,
-  updateDoc,
-  runTransaction
-} from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { BusinessCard } from '@/types';
-import { Plus, Search, LogOut, Upload, RefreshCw, CheckSquare, Square, Tag, Download, Users, Mail } from 'lucide-react';
+import { watchCards, updateCardWith } from '@/lib/firebase/cardRepository';
+import { compareByReading } from '@/lib/names';
+import { watchSavedSearches, saveSavedSearch, deleteSavedSearch } from '@/lib/firebase/savedSearchRepository';
+import { watchTags } from '@/lib/firebase/tagRepository';
+import { watchOpenTasks } from '@/lib/firebase/taskRepository';
+import { watchEvents } from '@/lib/firebase/eventRepository';
+import { applySavedSearch } from '@/lib/savedSearch';
+import { countTagUsage, sortTagsByHierarchy, tagColorClass, tagPath } from '@/lib/tagging';
+import { buildSearchIndex, findSnippet, parseSearchQuery, searchCards, termsForField, SearchIndex } from '@/lib/search';
+import { isEmptyAddress } from '@/lib/address';
+import { runLegacyCardMigrationOnce, runInlineImageMigrationOnce } from '@/lib/firebase/cardMigration';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { BusinessCard, BatchJob, BatchOperation, NetworkingEvent, SavedSearch, TagDefinition, Task } from '@/types';
+import { Plus, Search, LogOut, Upload, RefreshCw, CheckSquare, Square, Tag, Download, Users, Mail, GitMerge, Building2, Tags, CalendarDays } from 'lucide-react';
 import Link from 'next/link';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { useErrorNotification } from '@/components/ErrorNotification';
-import { fromFirebaseError, ErrorCode } from '@/lib/errors';
+import { ErrorCode } from '@/lib/errors';
 import { useDebounce } from '@/hooks/useDebounce';
 import { useCSRF } from '@/hooks/useCSRF';
+import { useBatchJob } from '@/hooks/useBatchJob';
 import { useKeyboardNavigation, useAnnounce, useSkipToMain } from '@/hooks/useAccessibility';
 import { Button } from '@/components/Button';
 import { ExportDialog } from '@/components/ExportDialog';
 import { MatchingDialog } from '@/components/MatchingDialog';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { Highlight } from '@/components/Highlight';
+import { SmartCollections } from '@/components/SmartCollections';
+import { SavedSearchDialog } from '@/components/SavedSearchDialog';
+import { TasksPanel } from '@/components/TasksPanel';
+
+// 一覧に一度に描画する件数（名刺が多くても操作が重くならないように）
+const PAGE_SIZE = 100;
+
+// 一覧に表示していない項目（一致した場合は抜粋を表示する）
+const SNIPPET_FIELDS = ['kana', 'email', 'phone', 'url', 'business', 'notes'] as const;
 
 export default function DashboardPage() {
   const { user, logout } = useAuth();
   const router = useRouter();
   const [cards, setCards] = useState<BusinessCard[]>([]);
   const [filteredCards, setFilteredCards] = useState<BusinessCard[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
   const [searchTerm, setSearchTerm] = useState('');
   const [tagSearch, setTagSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<'createdAt' | 'reading'>('createdAt');
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
   const debouncedTagSearch = useDebounce(tagSearch, 300);
   const [isLoading, setIsLoading] = useState(true);
@@ -39,6 +56,12 @@ export default function DashboardPage() {
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
   const [bulkProgress, setBulkProgress] = useState({ current: 0, total: 0 });
   const [allTags, setAllTags] = useState<string[]>([]);
+  const [tagDefinitions, setTagDefinitions] = useState<TagDefinition[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [openTasks, setOpenTasks] = useState<Task[]>([]);
+  const [events, setEvents] = useState<NetworkingEvent[]>([]);
   const { handleError, withErrorHandling } = useErrorHandler();
   const { showError } = useErrorNotification();
   const { fetchWithCSRF } = useCSRF();
@@ -47,8 +70,18 @@ export default function DashboardPage() {
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [isMatchingDialogOpen, setIsMatchingDialogOpen] = useState(false);
   const [selectedCardForMatching, setSelectedCardForMatching] = useState<BusinessCard | null>(null);
+  const { job: batchJob, isRunning: isBatchJobRunning, startJob } = useBatchJob(
+    user?.uid,
+    (job: BatchJob) => {
+      announce(`一括処理が完了しました（成功 ${job.succeeded}件 / 失敗 ${job.failed}件）`, 'assertive');
+      if (job.failed > 0) {
+        showError(`${job.failed}件の名刺を処理できませんでした`);
+      }
+    }
+  );
+  const visibleCards = filteredCards.slice(0, visibleCount);
   const { containerRef, focusedIndex } = useKeyboardNavigation(
-    filteredCards.length,
+    visibleCards.length,
     (index) => router.push(`/card/${filteredCards[index].id}`)
   );
 
@@ -58,17 +91,26 @@ export default function DashboardPage() {
       return;
     }
 
-    const cardsCollection = collection(db, 'users', user.uid, 'cards');
-    const q = query(cardsCollection);
-    
-    const unsubscribe = onSnapshot(
-      q, 
-      (snapshot) => {
+    // 旧レイアウト（businessCards）の名刺を正規レイアウトへ移行し、
+    // ドキュメント内のbase64画像をStorageへ移す
+    runLegacyCardMigrationOnce(user.uid)
+      .then((migrated) => {
+        if (migrated > 0) {
+          announce(`${migrated}件の名刺を新しい保存形式に移行しました`);
+        }
+        return runInlineImageMigrationOnce(user.uid);
+      })
+      .then((migrated) => {
+        if (migrated > 0) {
+          announce(`${migrated}件の名刺画像をストレージに移行しました`);
+        }
+      })
+      .catch((error) => handleError(error, { context: 'legacy-card-migration' }));
+
+    const unsubscribe = watchCards(
+      user.uid,
+      (cardsData) => {
         try {
-          const cardsData = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          } as BusinessCard));
           setCards(cardsData);
           setFilteredCards(cardsData);
           setIsLoading(false);
@@ -86,8 +128,7 @@ export default function DashboardPage() {
           setIsLoading(false);
         }
       },
-      (error) => {
-        const bcError = fromFirebaseError(error);
+      (bcError) => {
         handleError(bcError, { context: 'firestore-listener' });
         
         if (bcError.code === ErrorCode.FIREBASE_PERMISSION_DENIED) {
@@ -104,26 +145,104 @@ export default function DashboardPage() {
   }, [user, router, handleError, showError]);
 
   useEffect(() => {
-    let filtered = cards;
-
-    // デバウンスされた検索値を使用
-    // 名前・会社名での検索
-    if (debouncedSearchTerm) {
-      filtered = filtered.filter(card => 
-        card.name.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-        card.companyName.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
-      );
-    }
+    if (!user) return;
+
+    const unsubscribeSearches = watchSavedSearches(
+      user.uid,
+      setSavedSearches,
+      (bcError) => handleError(bcError, { context: 'saved-searches-listener' })
+    );
+    const unsubscribeTags = watchTags(
+      user.uid,
+      setTagDefinitions,
+      (bcError) => handleError(bcError, { context: 'tags-listener' })
+    );
+    const unsubscribeTasks = watchOpenTasks(
+      user.uid,
+      setOpenTasks,
+      (bcError) => handleError(bcError, { context: 'tasks-listener' })
+    );
+    const unsubscribeEvents = watchEvents(
+      user.uid,
+      setEvents,
+      (bcError) => handleError(bcError, { context: 'events-listener' })
+    );
+    return () => {
+      unsubscribeSearches();
+      unsubscribeTags();
+      unsubscribeTasks();
+      unsubscribeEvents();
+    };
+  }, [user, handleError]);
+
+  // タグの一覧は登録済みのタグを階層順に、未登録のタグはその後に並べる
+  const tagUsage = useMemo(() => countTagUsage(cards), [cards]);
+  const tagChips = useMemo(() => {
+    const registered = sortTagsByHierarchy(tagDefinitions)
+      .map(({ definition }) => definition)
+      .filter(definition => tagUsage.has(definition.name));
+    const registeredNames = new Set(registered.map(definition => definition.name));
+    return [
+      ...registered.map(definition => ({ name: definition.name, path: tagPath(definition, tagDefinitions).join(' > ') })),
+      ...allTags.filter(tag => !registeredNames.has(tag)).map(tag => ({ name: tag, path: tag }))
+    ];
+  }, [tagDefinitions, tagUsage, allTags]);
 
-    // タグでの検索
-    if (debouncedTagSearch) {
-      filtered = filtered.filter(card => 
-        card.tags?.some(tag => tag.toLowerCase().includes(debouncedTagSearch.toLowerCase()))
-      );
+  // 名刺が更新されるたびに作り直す（変更のない名刺は前回の正規化結果を使う）
+  const previousIndexRef = useRef<SearchIndex | undefined>(undefined);
+  const searchIndex = useMemo(() => buildSearchIndex(cards, previousIndexRef.current), [cards]);
+  useEffect(() => {
+    previousIndexRef.current = searchIndex;
+  }, [searchIndex]);
+
+  // デバウンスされた検索値を使用（タグ欄はタグの項目指定として扱う）
+  const searchTerms = useMemo(() => parseSearchQuery([
+    debouncedSearchTerm,
+    debouncedTagSearch && `tag:"${debouncedTagSearch.replace(/"/g, '')}"`
+  ].join(' ')), [debouncedSearchTerm, debouncedTagSearch]);
+
+  // 削除されたコレクションを選択していた場合はすべての名刺に戻す
+  const activeSearch = savedSearches.find(search => search.id === activeSearchId) || null;
+
+  // コレクションごとの名刺（件数表示・エクスポート対象）
+  const collectionCards = useMemo(() => new Map(
+    savedSearches.map(search => [search.id!, applySavedSearch(searchIndex, search)])
+  ), [savedSearches, searchIndex]);
+
+  useEffect(() => {
+    let filtered = activeSearch
+      ? applySavedSearch(searchIndex, activeSearch, searchTerms)
+      : searchCards(searchIndex, searchTerms);
+
+    // 五十音順（ふりがながない名刺は氏名で並べる）
+    if (sortOrder === 'reading') {
+      filtered = [...filtered].sort(compareByReading);
     }
 
     setFilteredCards(filtered);
-  }, [debouncedSearchTerm, debouncedTagSearch, cards]);
+    setVisibleCount(PAGE_SIZE);
+  }, [searchIndex, searchTerms, sortOrder, activeSearch]);
+
+  // 現在の検索欄の内容を条件にして新しいコレクションを作る
+  const handleCreateSearch = () => {
+    setEditingSearch({
+      name: '',
+      query: [searchTerm.trim(), tagSearch.trim() && `tag:"${tagSearch.trim().replace(/"/g, '')}"`].filter(Boolean).join(' ')
+    });
+  };
+
+  const handleSaveSearch = async (search: SavedSearch) => {
+    if (!user) return;
+    const searchId = await saveSavedSearch(user.uid, search);
+    setActiveSearchId(searchId);
+    announce(`コレクション「${search.name}」を保存しました`);
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    if (!user || !search.id) return;
+    await deleteSavedSearch(user.uid, search.id);
+    if (activeSearchId === search.id) setActiveSearchId(null);
+  };
 
   const handleSelectCard = (cardId: string) => {
     const newSelected = new Set(selectedCardIds);
@@ -167,31 +286,27 @@ export default function DashboardPage() {
                 const response = await fetchWithCSRF('/api/analyze-urls', {
                   method: 'POST',
                   headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ urls: card.urls }),
+                  // 同じ会社の名刺は会社に保存された解析結果を使い回す
+                  body: JSON.stringify({ urls: card.urls, companyId: card.companyId, companyName: card.companyName }),
                   signal: AbortSignal.timeout(30000) // 30秒タイムアウト
                 });
 
                 if (response.ok) {
                   const data = await response.json();
                   
-                  // タグを自動生成
-                  const tags = generateTags(data.businessContent || '', data.companyInfo);
+                  // タグはAPIがユーザーのタグのルールで生成する
+                  const tags: string[] = data.tags || [];
                   
                   // トランザクションでカード情報を更新（競合状態を防ぐ）
-                  await runTransaction(db, async (transaction) => {
-                    const cardRef = doc(db, 'users', user.uid, 'cards', card.id!);
-                    const cardDoc = await transaction.get(cardRef);
-                    
-                    if (!cardDoc.exists()) {
-                      throw new Error('Card not found');
-                    }
-                    
-                    transaction.update(cardRef, {
-                      businessContent: data.businessContent || card.businessContent,
-                      tags: tags,
-                      updatedAt: new Date().toISOString()
-                    });
-                  });
+                  await updateCardWith(user.uid, card.id!, (current) => ({
+                    businessContent: data.businessContent || current.businessContent,
+                    companyId: current.companyId || data.companyId,
+                    tags,
+                    // 住所が未登録の場合のみウェブサイトの住所で補完する
+                    ...(isEmptyAddress(current.address) && data.companyInfo?.address
+                      ? { address: data.companyInfo.address }
+                      : {})
+                  }));
                 }
               } catch (error) {
                 console.error(`Failed to fetch info for card ${card.id}:`, error);
@@ -215,49 +330,21 @@ export default function DashboardPage() {
     }
   };
 
-  const generateTags = (businessContent: string, _companyInfo?: any): string[] => {
-    const tags = new Set<string>();
-    const content = businessContent.toLowerCase();
-    
-    // ビジネスカテゴリの判定
-    if (content.includes('sns') || content.includes('ソーシャル') || content.includes('マーケティング')) {
-      tags.add('SNS運用会社');
-    }
-    if (content.includes('web') || content.includes('ウェブ') || content.includes('ホームページ')) {
-      tags.add('WEB制作');
-    }
-    if (content.includes('システム') || content.includes('開発') || content.includes('ソフトウェア')) {
-      tags.add('システム開発');
-    }
-    if (content.includes('ai') || content.includes('人工知能') || content.includes('機械学習')) {
-      tags.add('AI関連');
-    }
-    if (content.includes('コンサル') || content.includes('戦略') || content.includes('支援')) {
-      tags.add('コンサルティング');
-    }
-    if (content.includes('デザイン') || content.includes('クリエイティブ')) {
-      tags.add('デザイン');
-    }
-    if (content.includes('教育') || content.includes('研修') || content.includes('トレーニング')) {
-      tags.add('教育・研修');
-    }
-    if (content.includes('不動産') || content.includes('建築') || content.includes('建設')) {
-      tags.add('不動産・建築');
-    }
-    if (content.includes('医療') || content.includes('ヘルスケア') || content.includes('健康')) {
-      tags.add('医療・ヘルスケア');
-    }
-    if (content.includes('金融') || content.includes('投資') || content.includes('保険')) {
-      tags.add('金融');
-    }
-    if (content.includes('ec') || content.includes('通販') || content.includes('eコマース')) {
-      tags.add('EC・通販');
+  // サーバー側の一括処理ジョブ（進捗はページを再読み込みしても再開される）
+  const handleBulkJob = async (operation: BatchOperation) => {
+    if (selectedCardIds.size === 0 || !user) return;
+
+    if (operation === 'delete' && !confirm(`${selectedCardIds.size}件の名刺を削除しますか？`)) {
+      return;
     }
-    if (content.includes('広告') || content.includes('pr') || content.includes('プロモーション')) {
-      tags.add('広告・PR');
+
+    const items = Array.from(selectedCardIds).map(cardId => ({ cardId }));
+    const job = await startJob(operation, items);
+    if (job) {
+      setSelectedCardIds(new Set());
+    } else {
+      showError('一括処理に失敗しました');
     }
-    
-    return Array.from(tags);
   };
 
   const handleLogout = async () => {
@@ -299,172 +386,300 @@ export default function DashboardPage() {
           </button>
         </header>
 
-        <main id="main-content" className="space-y-4 mb-4 sm:mb-6" role="main" aria-labelledby="page-title">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
-            <input
-              type="text"
-              placeholder="氏名、会社名で検索..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full bg-gray-800 border border-gray-700 rounded-lg py-2 sm:py-3 pl-10 pr-4 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+        <div className="lg:flex lg:gap-6">
+          <SmartCollections
+            searches={savedSearches}
+            events={events}
+            counts={new Map(Array.from(collectionCards, ([id, matched]) => [id, matched.length]))}
+            totalCount={cards.length}
+            activeId={activeSearch?.id || null}
+            onSelect={setActiveSearchId}
+            onEdit={setEditingSearch}
+            onCreate={handleCreateSearch}
+          />
+          <div className="flex-1 min-w-0">
+            {user && <TasksPanel userId={user.uid} tasks={openTasks} cards={cards} />}
+            <main id="main-content" className="space-y-4 mb-4 sm:mb-6" role="main" aria-labelledby="page-title">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                <input
+                  type="text"
+                  placeholder="全項目から検索（例: 田中 company:トヨタ tag:AI）..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg py-2 sm:py-3 pl-10 pr-4 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
 
-          <div className="relative">
-            <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
-            <input
-              type="text"
-              placeholder="タグで検索（例: SNS運用会社）..."
-              value={tagSearch}
-              onChange={(e) => setTagSearch(e.target.value)}
-              className="w-full bg-gray-800 border border-gray-700 rounded-lg py-2 sm:py-3 pl-10 pr-4 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+              <div className="relative">
+                <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                <input
+                  type="text"
+                  placeholder="タグで検索（例: SNS運用会社）..."
+                  value={tagSearch}
+                  onChange={(e) => setTagSearch(e.target.value)}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg py-2 sm:py-3 pl-10 pr-4 text-sm sm:text-base text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
 
-          {allTags.length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {allTags.map(tag => (
-                <button
-                  key={tag}
-                  onClick={() => setTagSearch(tag)}
-                  className="bg-gray-700 text-xs sm:text-sm px-3 py-2 sm:px-2 sm:py-1 rounded-full hover:bg-gray-600 transition-colors min-h-[32px] sm:min-h-0"
-                >
-                  {tag}
-                </button>
-              ))}
-            </div>
-          )}
-          {filteredCards.length > 0 && (
-            <div className="mb-4 flex justify-between items-center flex-wrap gap-2">
-              <button
-                onClick={handleSelectAll}
-                className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-2 min-h-[44px] px-2 -mx-2 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
-                aria-label={selectedCardIds.size === filteredCards.length ? '全ての選択を解除' : '全て選択'}
-                aria-pressed={selectedCardIds.size === filteredCards.length}
-              >
-                {selectedCardIds.size === filteredCards.length ? <CheckSquare size={20} /> : <Square size={20} />}
-                全て選択
-              </button>
-              <div className="flex gap-2">
-                {selectedCardIds.size > 0 && (
-                  <Button
-                    onClick={handleBulkFetchInfo}
-                    disabled={isBulkProcessing}
-                    variant="primary"
-                    size="sm"
-                    aria-label={`${selectedCardIds.size}件の名刺の一括情報取得`}
+              {tagChips.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {tagChips.map(tag => (
+                    <button
+                      key={tag.name}
+                      onClick={() => setTagSearch(tag.name)}
+                      title={tag.path}
+                      className={`${tagColorClass(tag.name, tagDefinitions)} text-xs sm:text-sm px-3 py-2 sm:px-2 sm:py-1 rounded-full hover:opacity-80 transition-opacity min-h-[32px] sm:min-h-0`}
+                    >
+                      {tag.name}
+                      <span className="ml-1 opacity-70">{tagUsage.get(tag.name) || 0}</span>
+                    </button>
+                  ))}
+                  <Link
+                    href="/tags"
+                    className="text-xs sm:text-sm px-3 py-2 sm:px-2 sm:py-1 rounded-full text-blue-400 hover:text-blue-300 flex items-center gap-1 min-h-[32px] sm:min-h-0"
                   >
-                    {isBulkProcessing 
-                      ? `処理中 (${bulkProgress.current}/${bulkProgress.total})`
-                      : `一括情報取得 (${selectedCardIds.size}件)`}
-                  </Button>
-                )}
-                <Button
-                  onClick={() => setIsExportDialogOpen(true)}
-                  variant="secondary"
-                  size="sm"
-                  aria-label="データをエクスポート"
-                >
-                  エクスポート
-                </Button>
-                <Link href="/email">
-                  <Button
-                    variant="secondary"
-                    size="sm"
-                    aria-label="お礼メール送信"
+                    <Tags size={14} />
+                    タグ管理
+                  </Link>
+                </div>
+              )}
+              {filteredCards.length > 0 && (
+                <div className="mb-4 flex justify-between items-center flex-wrap gap-2">
+                  <button
+                    onClick={handleSelectAll}
+                    className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-2 min-h-[44px] px-2 -mx-2 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                    aria-label={selectedCardIds.size === filteredCards.length ? '全ての選択を解除' : '全て選択'}
+                    aria-pressed={selectedCardIds.size === filteredCards.length}
                   >
-                    <Mail size={16} className="mr-1" />
-                    お礼メール
-                  </Button>
-                </Link>
-              </div>
-            </div>
-          )}
-        </main>
-
-        <div className="space-y-4" ref={containerRef} role="region" aria-label="名刺一覧" aria-live="polite">
-          {isLoading ? (
-            <div className="text-center py-8" role="status" aria-label="読み込み中">
-              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white" aria-hidden="true"></div>
-              <p className="text-gray-400 mt-2">名刺を読み込んでいます...</p>
-            </div>
-          ) : filteredCards.length === 0 ? (
-            <p className="text-gray-500 text-center py-8" role="status">
-              {searchTerm || tagSearch ? '検索結果がありません。' : 'まだ名刺が登録されていません。'}
-            </p>
-          ) : (
-            filteredCards.map((card, index) => (
-              <div
-                key={card.id}
-                className={`bg-gray-800 p-3 sm:p-4 rounded-lg flex items-center gap-3 hover:bg-gray-700 transition-colors ${
-                  focusedIndex === index ? 'ring-2 ring-blue-500' : ''
-                }`}
-                role="article"
-                aria-label={`名刺: ${card.name}, ${card.companyName}`}
-                data-focusable="true"
-                tabIndex={focusedIndex === index ? 0 : -1}
-              >
-                <button
-                  onClick={(e) => {
-                    e.preventDefault();
-                    handleSelectCard(card.id!);
-                  }}
-                  className="flex-shrink-0 min-w-[44px] min-h-[44px] flex items-center justify-center -m-2 p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
-                  aria-label={selectedCardIds.has(card.id!) ? `${card.name}の選択を解除` : `${card.name}を選択`}
-                  aria-pressed={selectedCardIds.has(card.id!)}
-                >
-                  {selectedCardIds.has(card.id!) ? 
-                    <CheckSquare size={24} className="text-blue-400" aria-hidden="true" /> : 
-                    <Square size={24} className="text-gray-400" aria-hidden="true" />
-                  }
-                </button>
-                <Link
-                  href={`/card/${card.id}`}
-                  className="flex-1 flex items-center justify-between overflow-hidden"
-                >
-                  <div className="flex-1 overflow-hidden">
-                    <p className="font-semibold text-base sm:text-lg text-white truncate">
-                      {card.name}
-                    </p>
-                    <p className="text-xs sm:text-sm text-gray-400 truncate">
-                      {card.companyName} {card.title ? `/ ${card.title}` : ''}
-                    </p>
-                    {card.tags && card.tags.length > 0 && (
-                      <div className="flex gap-1 mt-1 flex-wrap">
-                        {card.tags.map(tag => (
-                          <span key={tag} className="bg-gray-700 text-xs px-2 py-0.5 rounded-full">
-                            {tag}
-                          </span>
-                        ))}
-                      </div>
+                    {selectedCardIds.size === filteredCards.length ? <CheckSquare size={20} /> : <Square size={20} />}
+                    全て選択
+                  </button>
+                  <select
+                    value={sortOrder}
+                    onChange={(e) => setSortOrder(e.target.value as 'createdAt' | 'reading')}
+                    className="bg-gray-800 border border-gray-700 rounded-lg py-1 px-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="並び順"
+                  >
+                    <option value="createdAt">登録日の新しい順</option>
+                    <option value="reading">五十音順</option>
+                  </select>
+                  <div className="flex gap-2">
+                    {isBatchJobRunning && batchJob && (
+                      <span className="text-sm text-gray-300 self-center" role="status">
+                        一括処理中 ({batchJob.processed}/{batchJob.total})
+                      </span>
                     )}
+                    {selectedCardIds.size > 0 && !isBatchJobRunning && (
+                      <>
+                        <Button
+                          onClick={() => handleBulkJob('retag')}
+                          variant="secondary"
+                          size="sm"
+                          aria-label={`${selectedCardIds.size}件の名刺のタグを再生成`}
+                        >
+                          タグ再生成
+                        </Button>
+                        <Button
+                          onClick={() => handleBulkJob('analyze')}
+                          variant="secondary"
+                          size="sm"
+                          aria-label={`${selectedCardIds.size}件の名刺画像を再解析`}
+                        >
+                          AI再解析
+                        </Button>
+                        <Button
+                          onClick={() => handleBulkJob('delete')}
+                          variant="danger"
+                          size="sm"
+                          aria-label={`${selectedCardIds.size}件の名刺を削除`}
+                        >
+                          一括削除
+                        </Button>
+                      </>
+                    )}
+                    {selectedCardIds.size > 0 && (
+                      <Button
+                        onClick={handleBulkFetchInfo}
+                        disabled={isBulkProcessing}
+                        variant="primary"
+                        size="sm"
+                        aria-label={`${selectedCardIds.size}件の名刺の一括情報取得`}
+                      >
+                        {isBulkProcessing 
+                          ? `処理中 (${bulkProgress.current}/${bulkProgress.total})`
+                          : `一括情報取得 (${selectedCardIds.size}件)`}
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => setIsExportDialogOpen(true)}
+                      variant="secondary"
+                      size="sm"
+                      aria-label="データをエクスポート"
+                    >
+                      エクスポート
+                    </Button>
+                    <Link href="/email">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        aria-label="お礼メール送信"
+                      >
+                        <Mail size={16} className="mr-1" />
+                        お礼メール
+                      </Button>
+                    </Link>
+                    <Link href="/company">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        aria-label="会社一覧"
+                      >
+                        <Building2 size={16} className="mr-1" />
+                        会社一覧
+                      </Button>
+                    </Link>
+                    <Link href="/event">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        aria-label="イベント"
+                      >
+                        <CalendarDays size={16} className="mr-1" />
+                        イベント
+                      </Button>
+                    </Link>
+                    <Link href="/dashboard/duplicates">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        aria-label="重複している名刺を確認"
+                      >
+                        <GitMerge size={16} className="mr-1" />
+                        重複の確認
+                      </Button>
+                    </Link>
                   </div>
-                  <div className="text-right ml-2 sm:ml-4 flex-shrink-0 flex items-center gap-2">
+                </div>
+              )}
+            </main>
+
+            <div className="space-y-4" ref={containerRef} role="region" aria-label="名刺一覧" aria-live="polite">
+              {isLoading ? (
+                <div className="text-center py-8" role="status" aria-label="読み込み中">
+                  <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white" aria-hidden="true"></div>
+                  <p className="text-gray-400 mt-2">名刺を読み込んでいます...</p>
+                </div>
+              ) : filteredCards.length === 0 ? (
+                <p className="text-gray-500 text-center py-8" role="status">
+                  {searchTerm || tagSearch || activeSearch ? '検索結果がありません。' : 'まだ名刺が登録されていません。'}
+                </p>
+              ) : (
+                visibleCards.map((card, index) => (
+                  <div
+                    key={card.id}
+                    className={`bg-gray-800 p-3 sm:p-4 rounded-lg flex items-center gap-3 hover:bg-gray-700 transition-colors ${
+                      focusedIndex === index ? 'ring-2 ring-blue-500' : ''
+                    }`}
+                    role="article"
+                    aria-label={`名刺: ${card.name}, ${card.companyName}`}
+                    data-focusable="true"
+                    tabIndex={focusedIndex === index ? 0 : -1}
+                  >
                     <button
                       onClick={(e) => {
                         e.preventDefault();
-                        setSelectedCardForMatching(card);
-                        setIsMatchingDialogOpen(true);
+                        handleSelectCard(card.id!);
                       }}
-                      className="bg-blue-600 text-white px-3 py-1 rounded text-xs sm:text-sm hover:bg-blue-700 flex items-center gap-1"
-                      aria-label={`${card.companyName}のマッチング候補を見る`}
+                      className="flex-shrink-0 min-w-[44px] min-h-[44px] flex items-center justify-center -m-2 p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                      aria-label={selectedCardIds.has(card.id!) ? `${card.name}の選択を解除` : `${card.name}を選択`}
+                      aria-pressed={selectedCardIds.has(card.id!)}
                     >
-                      <Users size={14} />
-                      <span className="hidden sm:inline">マッチング</span>
+                      {selectedCardIds.has(card.id!) ? 
+                        <CheckSquare size={24} className="text-blue-400" aria-hidden="true" /> : 
+                        <Square size={24} className="text-gray-400" aria-hidden="true" />
+                      }
                     </button>
-                    <div>
-                      <p className="text-xs sm:text-sm text-gray-300">
-                        <span className="hidden sm:inline">交換日: </span>
-                        <span className="sm:hidden">{card.exchangeDate?.substring(5) || '-'}</span>
-                        <span className="hidden sm:inline">{card.exchangeDate || '未設定'}</span>
-                      </p>
-                    </div>
+                    <Link
+                      href={`/card/${card.id}`}
+                      className="flex-1 flex items-center justify-between overflow-hidden"
+                    >
+                      {card.images?.front && (
+                        <div className="mr-3 flex-shrink-0">
+                          <OptimizedImage
+                            src={cardImageSrc(card.images.front, 'small')!}
+                            alt={`${card.name}の名刺`}
+                            className="w-16 h-10 sm:w-20 sm:h-12 object-cover rounded"
+                            priority={index < 6}
+                          />
+                        </div>
+                      )}
+                      <div className="flex-1 overflow-hidden">
+                        <p className="font-semibold text-base sm:text-lg text-white truncate">
+                          <Highlight text={card.name} terms={termsForField(searchTerms, 'name')} />
+                        </p>
+                        <p className="text-xs sm:text-sm text-gray-400 truncate">
+                          <Highlight text={card.companyName} terms={termsForField(searchTerms, 'company')} />
+                          {card.title && (
+                            <> / <Highlight text={card.title} terms={termsForField(searchTerms, 'title')} /></>
+                          )}
+                        </p>
+                        {searchTerms.length > 0 && (() => {
+                          const snippet = findSnippet(card, searchTerms, [...SNIPPET_FIELDS]);
+                          return snippet && (
+                            <p className="text-xs text-gray-500 truncate">
+                              {snippet.label}: <Highlight text={snippet.text} terms={termsForField(searchTerms, snippet.field)} />
+                            </p>
+                          );
+                        })()}
+                        {card.tags && card.tags.length > 0 && (
+                          <div className="flex gap-1 mt-1 flex-wrap">
+                            {card.tags.map(tag => (
+                              <span key={tag} className={`${tagColorClass(tag, tagDefinitions)} text-xs px-2 py-0.5 rounded-full`}>
+                                <Highlight text={tag} terms={termsForField(searchTerms, 'tag')} />
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-right ml-2 sm:ml-4 flex-shrink-0 flex items-center gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setSelectedCardForMatching(card);
+                            setIsMatchingDialogOpen(true);
+                          }}
+                          className="bg-blue-600 text-white px-3 py-1 rounded text-xs sm:text-sm hover:bg-blue-700 flex items-center gap-1"
+                          aria-label={`${card.companyName}のマッチング候補を見る`}
+                        >
+                          <Users size={14} />
+                          <span className="hidden sm:inline">マッチング</span>
+                        </button>
+                        <div>
+                          <p className="text-xs sm:text-sm text-gray-300">
+                            <span className="hidden sm:inline">交換日: </span>
+                            <span className="sm:hidden">{card.exchangeDate?.substring(5) || '-'}</span>
+                            <span className="hidden sm:inline">{card.exchangeDate || '未設定'}</span>
+                          </p>
+                        </div>
+                      </div>
+                    </Link>
                   </div>
-                </Link>
-              </div>
-            ))
-          )}
+                ))
+              )}
+              {filteredCards.length > visibleCards.length && (
+                <div className="text-center">
+                  <Button
+                    onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                    variant="secondary"
+                    size="sm"
+                  >
+                    さらに表示（残り{filteredCards.length - visibleCards.length}件）
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
         </div>
 
         <nav className="fixed bottom-4 right-4 sm:bottom-8 sm:right-8 flex flex-col gap-3" aria-label="クイックアクション">
@@ -492,9 +707,23 @@ export default function DashboardPage() {
         
         <ExportDialog
           cards={cards}
+          collections={[
+            ...savedSearches.map(search => ({ id: search.id!, name: search.name, cards: collectionCards.get(search.id!) || [] })),
+            ...events.map(event => ({ id: `event:${event.id}`, name: `イベント: ${event.name}`, cards: cards.filter(card => card.eventId === event.id) }))
+          ]}
+          initialCollectionId={activeSearch?.id}
           isOpen={isExportDialogOpen}
           onClose={() => setIsExportDialogOpen(false)}
         />
+
+        <SavedSearchDialog
+          search={editingSearch}
+          allTags={allTags}
+          events={events}
+          onSave={handleSaveSearch}
+          onDelete={handleDeleteSearch}
+          onClose={() => setEditingSearch(null)}
+        />
         
         <MatchingDialog
           isOpen={isMatchingDialogOpen}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarClock, RotateCcw } from 'lucide-react';
+import { getCampaign, listCampaignRecipients } from '@/lib/firebase/campaignRepository';
+import { CAMPAIGN_STATUS_LABELS, RECIPIENT_STATUS_LABELS, describeEngagement, engagementRate } from '@/lib/email/status';
+import { useEmailCampaign } from '@/hooks/useEmailCampaign';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+import { formatScheduledAt, parseJstDateTimeInput, toJstDateTimeInput, validateScheduledAt } from '@/lib/email/schedule';
+import { formatDateTime } from '@/lib/utils';
+import { EmailCampaign, EmailCampaignRecipient } from '@/types/email';
+
+export default function EmailCampaignDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [campaignId, setCampaignId] = useState('');
+  const [campaign, setCampaign] = useState<EmailCampaign | null>(null);
+  const [recipients, setRecipients] = useState<EmailCampaignRecipient[]>([]);
+  const [scheduleInput, setScheduleInput] = useState('');
+  const [updatingSchedule, setUpdatingSchedule] = useState(false);
+
+  useEffect(() => {
+    params.then(resolved => setCampaignId(resolved.id));
+  }, [params]);
+
+  const loadCampaign = useCallback(async () => {
+    if (!user || !campaignId) return;
+
+    try {
+      const [campaignData, recipientData] = await Promise.all([
+        getCampaign(user.uid, campaignId),
+        listCampaignRecipients(user.uid, campaignId)
+      ]);
+      if (!campaignData) {
+        router.push('/email/campaigns');
+        return;
+      }
+      setCampaign(campaignData);
+      setRecipients(recipientData);
+      if (campaignData.scheduledAt) setScheduleInput(toJstDateTimeInput(new Date(campaignData.scheduledAt)));
+    } catch (error) {
+      console.error('送信履歴の取得エラー:', error);
+      router.push('/email/campaigns');
+    }
+  }, [user, campaignId, router]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+    loadCampaign();
+  }, [user, router, loadCampaign]);
+
+  const { progress, isSending: retrying, error: retryError, retryFailed } = useEmailCampaign(user?.uid, (finished) => {
+    alert(finished.message);
+    loadCampaign();
+  });
+
+  // 失敗した送信先だけに再送する（送信済み・スキップした送信先には送らない）
+  const handleRetry = async () => {
+    if (!campaign || !confirm(`送信に失敗した${campaign.failureCount}件に再送しますか？`)) return;
+    await retryFailed(campaignId);
+    loadCampaign();
+  };
+
+  // 予約送信の日時を変更する
+  const handleReschedule = async () => {
+    const scheduledAt = parseJstDateTimeInput(scheduleInput);
+    const scheduleError = scheduledAt ? validateScheduledAt(scheduledAt) : '送信日時を入力してください';
+    if (scheduleError) {
+      alert(scheduleError);
+      return;
+    }
+
+    setUpdatingSchedule(true);
+    try {
+      const response = await fetchWithAuth(`/api/email/campaigns/${campaignId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduledAt: scheduledAt!.toISOString() })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '送信日時の変更に失敗しました');
+      alert(data.message);
+      loadCampaign();
+    } catch (error) {
+      console.error('予約送信の変更エラー:', error);
+      alert((error as Error).message);
+    } finally {
+      setUpdatingSchedule(false);
+    }
+  };
+
+  // 予約送信を取り消す（まだ送っていないので送信履歴からも消える）
+  const handleCancelSchedule = async () => {
+    if (!confirm('予約送信を取り消しますか？')) return;
+
+    setUpdatingSchedule(true);
+    try {
+      const response = await fetchWithAuth(`/api/email/campaigns/${campaignId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || '予約送信の取り消しに失敗しました');
+      }
+      router.push('/email/campaigns');
+    } catch (error) {
+      console.error('予約送信の取り消しエラー:', error);
+      alert((error as Error).message);
+      setUpdatingSchedule(false);
+    }
+  };
+
+  if (!campaign) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white">読み込み中...</div>
+      </div>
+    );
+  }
+
+  const status = CAMPAIGN_STATUS_LABELS[campaign.status];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/email/campaigns"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="送信履歴に戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <div className="flex-1 overflow-hidden">
+            <h1 className="text-2xl font-bold text-white truncate">
+              {campaign.templateName || 'メール'}
+              <span className={`ml-2 align-middle text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+            </h1>
+            <p className="text-sm text-gray-400">
+              {campaign.createdAt && formatDateTime(campaign.createdAt)} ・ {campaign.sender.name}
+              {campaign.sender.email && ` <${campaign.sender.email}>`}
+            </p>
+          </div>
+          {campaign.failureCount > 0 && (
+            <button
+              onClick={handleRetry}
+              disabled={retrying || campaign.status === 'sending'}
+              className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:bg-gray-600 flex items-center gap-2 text-sm"
+            >
+              <RotateCcw size={18} />
+              {retrying
+                ? `再送中...${progress ? `（残り${progress.pendingCount}件）` : ''}`
+                : '失敗した送信先に再送'}
+            </button>
+          )}
+        </header>
+
+        {campaign.status === 'scheduled' && campaign.scheduledAt && (
+          <div className="mb-6 bg-gray-800 rounded-lg p-4">
+            <p className="flex items-center gap-2 text-purple-300 mb-3">
+              <CalendarClock size={18} />
+              {formatScheduledAt(campaign.scheduledAt)}に送信します
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="datetime-local"
+                value={scheduleInput}
+                onChange={(e) => setScheduleInput(e.target.value)}
+                className="px-3 py-2 bg-gray-700 text-white rounded-lg"
+              />
+              <span className="text-gray-400">日本時間</span>
+              <button
+                onClick={handleReschedule}
+                disabled={updatingSchedule}
+                className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:bg-gray-600"
+              >
+                日時を変更
+              </button>
+              <button
+                onClick={handleCancelSchedule}
+                disabled={updatingSchedule}
+                className="bg-gray-700 text-white rounded-lg py-2 px-4 hover:bg-red-600 disabled:bg-gray-600"
+              >
+                予約を取り消す
+              </button>
+            </div>
+          </div>
+        )}
+
+        {retryError && <p className="mb-4 text-sm text-red-400">再送に失敗しました: {retryError.message}</p>}
+
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-6 text-center">
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">送信先</p>
+            <p className="text-xl font-semibold text-white">{campaign.recipientCount}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">送信済み</p>
+            <p className="text-xl font-semibold text-green-400">{campaign.successCount}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">失敗</p>
+            <p className="text-xl font-semibold text-red-400">{campaign.failureCount}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">スキップ</p>
+            <p className="text-xl font-semibold text-amber-400">{campaign.skippedCount}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">配信停止</p>
+            <p className="text-xl font-semibold text-gray-300">{campaign.suppressedCount}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <p className="text-xs text-gray-400">不達</p>
+            <p className="text-xl font-semibold text-red-400">{campaign.bouncedCount}</p>
+          </div>
+        </div>
+
+        {campaign.tracking ? (
+          <div className="grid grid-cols-2 gap-2 mb-6 text-center">
+            <div className="bg-gray-800 rounded-lg p-3">
+              <p className="text-xs text-gray-400">開封</p>
+              <p className="text-xl font-semibold text-white">
+                {campaign.openedCount}
+                <span className="ml-2 text-sm text-gray-400">{engagementRate(campaign.openedCount, campaign.successCount)}</span>
+              </p>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-3">
+              <p className="text-xs text-gray-400">クリック</p>
+              <p className="text-xl font-semibold text-white">
+                {campaign.clickedCount}
+                <span className="ml-2 text-sm text-gray-400">{engagementRate(campaign.clickedCount, campaign.successCount)}</span>
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="mb-6 text-sm text-gray-500">このメールは開封・クリックを計測していません</p>
+        )}
+
+        <ul className="space-y-2">
+          {recipients.map(recipient => {
+            const recipientStatus = RECIPIENT_STATUS_LABELS[recipient.status];
+            return (
+              <li key={recipient.cardId} className="bg-gray-800 rounded-lg p-4 flex items-start gap-3">
+                <div className="flex-1 overflow-hidden">
+                  <Link href={`/card/${recipient.cardId}`} className="font-semibold text-white hover:underline">
+                    {recipient.name}
+                  </Link>
+                  <p className="text-xs text-gray-400 truncate">
+                    {recipient.company && `${recipient.company} ・ `}{recipient.email}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">件名: {recipient.subject}</p>
+                  {describeEngagement(recipient.engagement) && (
+                    <p className="text-xs text-blue-300 mt-1">{describeEngagement(recipient.engagement)}</p>
+                  )}
+                  {recipient.engagement?.clickedUrls?.map(url => (
+                    <p key={url} className="text-xs text-gray-500 truncate">{url}</p>
+                  ))}
+                  {recipient.error && (
+                    <p className={`text-xs mt-1 ${recipient.status === 'failed' || recipient.status === 'bounced' ? 'text-red-300' : 'text-gray-400'}`}>{recipient.error}</p>
+                  )}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className={`text-sm ${recipientStatus.className}`}>{recipientStatus.label}</p>
+                  {recipient.sentAt && <p className="text-xs text-gray-500">{formatDateTime(recipient.sentAt)}</p>}
+                  {recipient.attempts > 1 && <p className="text-xs text-gray-500">{recipient.attempts}回送信</p>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Mail } from 'lucide-react';
+import { listCampaigns } from '@/lib/firebase/campaignRepository';
+import { formatDateTime } from '@/lib/utils';
+import { CAMPAIGN_STATUS_LABELS, engagementRate } from '@/lib/email/status';
+import { formatScheduledAt } from '@/lib/email/schedule';
+import { EmailCampaign } from '@/types/email';
+
+export default function EmailCampaignsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [campaigns, setCampaigns] = useState<EmailCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+
+    listCampaigns(user.uid)
+      .then(setCampaigns)
+      .catch(error => console.error('送信履歴の取得エラー:', error))
+      .finally(() => setLoading(false));
+  }, [user, router]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/email"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="メール送信に戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <h1 className="text-2xl font-bold text-white flex-1">送信履歴</h1>
+        </header>
+
+        {loading ? (
+          <p className="text-center text-gray-400 py-12">読み込み中...</p>
+        ) : campaigns.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">
+            送信したメールはまだありません。
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {campaigns.map(campaign => {
+              const status = CAMPAIGN_STATUS_LABELS[campaign.status];
+              return (
+                <li key={campaign.id}>
+                  <Link
+                    href={`/email/campaigns/${campaign.id}`}
+                    className="bg-gray-800 p-4 flex items-center gap-3 hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    <Mail size={24} className="text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 overflow-hidden">
+                      <p className="font-semibold text-white truncate">
+                        {campaign.templateName || 'メール'}
+                        <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                      </p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {campaign.createdAt && formatDateTime(campaign.createdAt)} ・ {campaign.sender.name}
+                      </p>
+                    </div>
+                    <div className="text-sm text-right flex-shrink-0">
+                      {campaign.status === 'scheduled' && campaign.scheduledAt ? (
+                        <p className="text-purple-300">{formatScheduledAt(campaign.scheduledAt)}に送信</p>
+                      ) : (
+                        <p className="text-gray-300">{campaign.successCount}/{campaign.recipientCount}件送信</p>
+                      )}
+                      {campaign.tracking && campaign.successCount > 0 && (
+                        <p className="text-xs text-gray-400">
+                          開封 {engagementRate(campaign.openedCount, campaign.successCount)} ・ クリック {engagementRate(campaign.clickedCount, campaign.successCount)}
+                        </p>
+                      )}
+                      {(campaign.failureCount > 0 || campaign.bouncedCount > 0 || campaign.skippedCount > 0) && (
+                        <p className="text-xs space-x-2">
+                          {campaign.failureCount > 0 && <span className="text-red-400">失敗 {campaign.failureCount}件</span>}
+                          {campaign.bouncedCount > 0 && <span className="text-red-400">不達 {campaign.bouncedCount}件</span>}
+                          {campaign.skippedCount > 0 && <span className="text-amber-400">スキップ {campaign.skippedCount}件</span>}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
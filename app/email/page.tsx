@@ -1,16 +1,74 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { collection, query, where, orderBy, getDocs, addDoc, updateDoc, doc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { BusinessCard } from '@/types';
-import { EmailRecipient, EmailTemplate, EmailSettings } from '@/types/email';
-import { FiMail, FiCheck, FiX, FiSend, FiSettings, FiEdit, FiCheckSquare, FiSquare } from 'react-icons/fi';
+import { listCards } from '@/lib/firebase/cardRepository';
+import { listSavedSearches } from '@/lib/firebase/savedSearchRepository';
+import { listEvents } from '@/lib/firebase/eventRepository';
+import { addressName } from '@/lib/names';
+import { buildSearchIndex } from '@/lib/search';
+import { applySavedSearch, describeSavedSearch } from '@/lib/savedSearch';
+import { eventLabel } from '@/lib/events';
+import { AI_DRAFT_TEMPLATE_ID, DEFAULT_TEMPLATES, buildTemplateContext, renderEmail, validateTemplate } from '@/lib/email/template';
+import {
+  deleteEmailTemplate,
+  listEmailTemplates,
+  listTemplateTeams,
+  saveEmailTemplate,
+  TemplateTeam
+} from '@/lib/firebase/emailTemplateRepository';
+import { listSuppressions, normalizeEmail, toSuppressionMap } from '@/lib/firebase/suppressionRepository';
+import { SUPPRESSION_REASON_LABELS } from '@/lib/email/status';
+import { BusinessCard, NetworkingEvent, SavedSearch } from '@/types';
+import { EmailCampaignProgress, EmailRecipient, EmailTemplate, EmailSettings, SuppressionReason } from '@/types/email';
+import { useEmailCampaign } from '@/hooks/useEmailCampaign';
+import { useEmailDrafts } from '@/hooks/useEmailDrafts';
+import {
+  formatScheduledAt,
+  isWithinSendWindow,
+  nextBusinessMorning,
+  parseJstDateTimeInput,
+  toJstDateTimeInput,
+  validateScheduledAt,
+  SendTiming
+} from '@/lib/email/schedule';
+import { EmailTemplateDraft, EmailTemplateEditor } from '@/components/EmailTemplateEditor';
+import { EmailDraftReview } from '@/components/EmailDraftReview';
+import { FiMail, FiCheck, FiX, FiSend, FiSettings, FiEdit, FiCheckSquare, FiSquare, FiClock, FiSlash } from 'react-icons/fi';
 import { ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 
+// テンプレートのメールを送信済みの名刺
+const hasEmailedTemplate = (card: BusinessCard | undefined, templateId: string) =>
+  !!card?.emailedTemplateIds?.includes(templateId);
+
+// メールアドレスがある名刺を送信先にする（送信済みの名刺はその旨を表示する）
+// まとめて選択する場合も、選択中のテンプレートのメールを送信済みの名刺は選択しない
+// 配信停止リストにあるアドレスは使わず、名刺のすべてのアドレスが配信停止なら送信先にできない
+const toRecipients = (
+  cards: BusinessCard[],
+  selected: boolean,
+  templateId: string,
+  suppressions: Map<string, SuppressionReason>
+): EmailRecipient[] => cards
+  .filter(card => card.emails && card.emails.length > 0 && card.id)
+  .map(card => {
+    const email = card.emails.find(address => !suppressions.has(normalizeEmail(address))) || card.emails[0];
+    const suppressed = suppressions.get(normalizeEmail(email));
+    return {
+      cardId: card.id!,
+      email,
+      name: card.name,
+      familyName: addressName(card),
+      company: card.companyName || '',
+      selected: selected && !hasEmailedTemplate(card, templateId) && !suppressed,
+      sentAt: card.lastEmailSentAt ? new Date(card.lastEmailSentAt) : undefined,
+      status: card.lastEmailSentAt ? 'sent' : undefined,
+      suppressed
+    };
+  });
+
 export default function EmailPage() {
   const { user } = useAuth();
   const router = useRouter();
@@ -26,15 +84,18 @@ export default function EmailPage() {
     signature: ''
   });
   const [showSettings, setShowSettings] = useState(false);
-  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
-  const [editingTemplate, setEditingTemplate] = useState<Partial<EmailTemplate>>({
-    name: '',
-    subject: '',
-    body: ''
-  });
-  const [sending, setSending] = useState(false);
+  const [teams, setTeams] = useState<TemplateTeam[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<EmailTemplateDraft | null>(null);
   const [filterDate, setFilterDate] = useState<string>('');
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [events, setEvents] = useState<NetworkingEvent[]>([]);
+  const [collectionId, setCollectionId] = useState<string>('');
   const [selectAll, setSelectAll] = useState(false);
+  const [suppressions, setSuppressions] = useState<Map<string, SuppressionReason>>(new Map());
+  const [composeMode, setComposeMode] = useState<'template' | 'ai'>('template');
+  const [draftInstructions, setDraftInstructions] = useState('');
+  const [sendTiming, setSendTiming] = useState<SendTiming>('now');
+  const [customSendAt, setCustomSendAt] = useState(() => toJstDateTimeInput(nextBusinessMorning()));
 
   useEffect(() => {
     if (!user) {
@@ -42,6 +103,7 @@ export default function EmailPage() {
       return;
     }
     loadCards();
+    loadSavedSearches();
     loadTemplates();
     loadEmailSettings();
   }, [user, router]);
@@ -50,67 +112,141 @@ export default function EmailPage() {
     if (!user) return;
     
     try {
-      const q = query(
-        collection(db, 'businessCards'),
-        where('userId', '==', user.uid),
-        orderBy('createdAt', 'desc')
-      );
-      
-      const snapshot = await getDocs(q);
-      const cardsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      } as BusinessCard));
+      const [cardsData, suppressionsData] = await Promise.all([
+        listCards(user.uid),
+        listSuppressions(user.uid).then(toSuppressionMap)
+      ]);
       
       setCards(cardsData);
+      setSuppressions(suppressionsData);
       
       // メールアドレスがある名刺のみをレシピエントとして設定
-      const recipientsData: EmailRecipient[] = cardsData
-        .filter(card => card.emails && card.emails.length > 0 && card.id)
-        .map(card => ({
-          cardId: card.id!,
-          email: card.emails?.[0] || '',
-          name: card.name,
-          company: card.companyName || '',
-          selected: false
-        }));
-      
-      setRecipients(recipientsData);
+      setRecipients(toRecipients(cardsData, false, selectedTemplate, suppressionsData));
     } catch (error) {
       console.error('Failed to load cards:', error);
     }
   };
 
+  const loadSavedSearches = async () => {
+    if (!user) return;
+
+    try {
+      const [searches, eventsData] = await Promise.all([listSavedSearches(user.uid), listEvents(user.uid)]);
+      setSavedSearches(searches);
+      setEvents(eventsData);
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    }
+  };
+
+  // 送信を終えたら送信先ごとの結果を一覧に反映する
+  const applySendResults = (finished: EmailCampaignProgress) => {
+    const results = new Map(finished.results.map(result => [result.cardId, result]));
+    setRecipients(prev => prev.map(r => {
+      const result = results.get(r.cardId);
+      return result ? { ...r, selected: result.status === 'failed', status: result.status, error: result.error } : r;
+    }));
+    // 名刺の送信日時・テンプレートはサーバーで記録される。コレクションの「メール未送信」や送信済みの表示に反映するため手元でも更新
+    const sentAt = new Date().toISOString();
+    setCards(prev => prev.map(card => results.get(card.id!)?.status === 'sent' ? {
+      ...card,
+      lastEmailSentAt: sentAt,
+      emailedTemplateIds: Array.from(new Set([...(card.emailedTemplateIds || []), finished.campaign.templateId]))
+    } : card));
+    setSelectAll(false);
+    alert(finished.message);
+  };
+
+  const { progress, isSending: sending, error: sendError, send } = useEmailCampaign(user?.uid, applySendResults);
+  const {
+    drafts,
+    isDrafting,
+    progress: draftProgress,
+    error: draftError,
+    generate: generateDrafts,
+    updateDraft
+  } = useEmailDrafts();
+
+  const searchIndex = useMemo(() => buildSearchIndex(cards), [cards]);
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id!, card])), [cards]);
+
+  // スマートコレクション・イベントの名刺を送信先として選択（未選択に戻すとすべての名刺）
+  const selectCollection = (value: string) => {
+    setCollectionId(value);
+    const search = savedSearches.find(s => s.id === value);
+    const event = events.find(e => `event:${e.id}` === value);
+    if (!search && !event) {
+      setRecipients(toRecipients(cards, false, selectedTemplate, suppressions));
+      setSelectAll(false);
+      return;
+    }
+
+    const matched = search
+      ? applySavedSearch(searchIndex, search)
+      : cards.filter(card => card.eventId === event!.id);
+    setRecipients(toRecipients(matched, true, selectedTemplate, suppressions));
+    setSelectAll(true);
+  };
+
   const loadTemplates = async () => {
     if (!user) return;
     
-    // デフォルトテンプレート
-    const defaultTemplates: EmailTemplate[] = [
-      {
-        id: 'default-thank-you',
-        name: 'お礼メール（標準）',
-        subject: '【{{senderCompany}}】{{recipientName}}様 - お名刺交換のお礼',
-        body: `{{recipientName}} 様
-
-お世話になっております。
-{{senderCompany}}の{{senderName}}です。
-
-先日はお忙しい中、貴重なお時間をいただき誠にありがとうございました。
-お名刺を交換させていただき、大変光栄に存じます。
-
-{{recipientCompany}}様の益々のご発展を心よりお祈り申し上げます。
-今後ともどうぞよろしくお願いいたします。
-
-{{signature}}`,
-        variables: ['recipientName', 'recipientCompany', 'senderName', 'senderCompany', 'signature'],
-        isDefault: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-    ];
-    
-    setTemplates(defaultTemplates);
-    setSelectedTemplate(defaultTemplates[0].id);
+    try {
+      const teamsData = await listTemplateTeams(user.uid).catch(error => {
+        // チームを読めなくても自分のテンプレートは使えるようにする
+        console.error('Failed to load teams:', error);
+        return [];
+      });
+      const templatesData = await listEmailTemplates(user.uid, teamsData);
+      setTeams(teamsData);
+      setTemplates(templatesData);
+      setSelectedTemplate(prev => templatesData.some(t => t.id === prev) ? prev : templatesData[0].id);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      setTemplates(DEFAULT_TEMPLATES);
+      setSelectedTemplate(prev => prev || DEFAULT_TEMPLATES[0].id);
+    }
+  };
+
+  const currentTemplate = templates.find(t => t.id === selectedTemplate);
+  // AIで作成した下書きを送る場合は、送信済みの記録にAIの下書き用のIDを使う
+  const activeTemplateId = composeMode === 'ai' ? AI_DRAFT_TEMPLATE_ID : selectedTemplate;
+
+  // 標準のテンプレートは編集できないため、複製して自分用のテンプレートにする
+  const editTemplate = () => {
+    if (!currentTemplate) return;
+    setEditingTemplate(currentTemplate.isDefault
+      ? { name: `${currentTemplate.name}のコピー`, subject: currentTemplate.subject, body: currentTemplate.body, trackingEnabled: currentTemplate.trackingEnabled }
+      : {
+        id: currentTemplate.id,
+        teamId: currentTemplate.teamId,
+        name: currentTemplate.name,
+        subject: currentTemplate.subject,
+        body: currentTemplate.body,
+        trackingEnabled: currentTemplate.trackingEnabled
+      });
+  };
+
+  const handleSaveTemplate = async (draft: EmailTemplateDraft) => {
+    if (!user) return;
+    const templateId = await saveEmailTemplate(user.uid, draft);
+    setSelectedTemplate(templateId);
+    setEditingTemplate(null);
+    await loadTemplates();
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!user || !currentTemplate || currentTemplate.isDefault) return;
+    if (!confirm(`テンプレート「${currentTemplate.name}」を削除しますか？`)) return;
+
+    try {
+      await deleteEmailTemplate(user.uid, currentTemplate);
+      setSelectedTemplate('');
+      await loadTemplates();
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      alert('テンプレートの削除に失敗しました');
+    }
   };
 
   const loadEmailSettings = async () => {
@@ -130,9 +266,10 @@ export default function EmailPage() {
     setShowSettings(false);
   };
 
+  // 配信停止リストにある送信先は選択できない
   const toggleRecipient = (cardId: string) => {
     setRecipients(prev => 
-      prev.map(r => r.cardId === cardId ? { ...r, selected: !r.selected } : r)
+      prev.map(r => r.cardId === cardId && !r.suppressed ? { ...r, selected: !r.selected } : r)
     );
   };
 
@@ -140,7 +277,7 @@ export default function EmailPage() {
     const newSelectAll = !selectAll;
     setSelectAll(newSelectAll);
     setRecipients(prev => 
-      prev.map(r => ({ ...r, selected: newSelectAll }))
+      prev.map(r => ({ ...r, selected: newSelectAll && !r.suppressed }))
     );
   };
 
@@ -151,15 +288,8 @@ export default function EmailPage() {
     const filteredCards = cards.filter(card => {
       if (!card.createdAt) return false;
       
-      // createdAt が Timestamp オブジェクトか文字列かを判定
-      let cardDate: Date;
-      if (typeof card.createdAt === 'string') {
-        cardDate = new Date(card.createdAt);
-      } else if (card.createdAt && typeof card.createdAt === 'object' && 'seconds' in card.createdAt) {
-        cardDate = new Date((card.createdAt as any).seconds * 1000);
-      } else {
-        return false;
-      }
+      // createdAt はリポジトリでISO文字列に正規化済み
+      const cardDate = new Date(card.createdAt);
       
       return (
         cardDate.getFullYear() === selectedDate.getFullYear() &&
@@ -168,44 +298,38 @@ export default function EmailPage() {
       );
     });
     
-    const filteredRecipients = filteredCards
-      .filter(card => card.emails && card.emails.length > 0 && card.id)
-      .map(card => ({
-        cardId: card.id!,
-        email: card.emails?.[0] || '',
-        name: card.name,
-        company: card.companyName || '',
-        selected: true
-      }));
-    
-    setRecipients(filteredRecipients);
+    setRecipients(toRecipients(filteredCards, true, selectedTemplate, suppressions));
+    setCollectionId('');
     setSelectAll(true);
   };
 
   const prepareEmailContent = (recipient: EmailRecipient): { subject: string; body: string } => {
-    const template = templates.find(t => t.id === selectedTemplate);
-    if (!template) return { subject: '', body: '' };
-    
-    let subject = template.subject;
-    let body = template.body;
-    
-    // 変数を置換
-    const replacements = {
-      recipientName: recipient.name,
-      recipientCompany: recipient.company,
-      senderName: emailSettings.senderName,
-      senderCompany: emailSettings.companyName,
-      senderTitle: emailSettings.companyTitle,
-      signature: emailSettings.signature || `${emailSettings.companyName}\n${emailSettings.senderName}`
-    };
-    
-    Object.entries(replacements).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, 'g');
-      subject = subject.replace(regex, value || '');
-      body = body.replace(regex, value || '');
-    });
+    if (composeMode === 'ai') {
+      const draft = drafts[recipient.cardId];
+      return { subject: draft?.subject.trim() || '', body: draft?.body || '' };
+    }
+
+    const card = cardsById.get(recipient.cardId);
+    if (!currentTemplate || !card) return { subject: '', body: '' };
     
-    return { subject, body };
+    const event = events.find(e => e.id === card.eventId);
+    return renderEmail(currentTemplate, buildTemplateContext(card, emailSettings, event));
+  };
+
+  // 送信先ごとにAIで下書きを作る（cardIdsを指定しなければ選択中の送信先すべて）
+  const draftEmails = async (cardIds?: string[]) => {
+    if (!emailSettings.senderName || !emailSettings.companyName) {
+      alert('送信者情報を設定してください');
+      setShowSettings(true);
+      return;
+    }
+
+    const targets = cardIds || recipients.filter(r => r.selected).map(r => r.cardId);
+    if (targets.length === 0) {
+      alert('送信先を選択してください');
+      return;
+    }
+    await generateDrafts(targets, emailSettings, draftInstructions.trim() || undefined);
   };
 
   const sendEmails = async () => {
@@ -221,43 +345,69 @@ export default function EmailPage() {
       return;
     }
     
-    setSending(true);
-    
-    try {
-      // メール送信APIを呼び出し
-      const response = await fetch('/api/send-email', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          recipients: selectedRecipients.map(r => ({
-            ...r,
-            ...prepareEmailContent(r)
-          })),
-          sender: {
-            email: emailSettings.senderEmail,
-            name: emailSettings.senderName
-          }
-        })
+    const template = currentTemplate;
+    if (composeMode === 'ai') {
+      // 下書きを確認・編集してから送る（作成できなかった・空にした下書きは送らない）
+      const missing = selectedRecipients.filter(r => {
+        const draft = drafts[r.cardId];
+        return !draft || draft.error || !draft.subject.trim() || !draft.body.trim();
       });
-      
-      if (response.ok) {
-        alert('メールを送信しました');
-        // 送信済みのレシピエントをクリア
-        setRecipients(prev => 
-          prev.map(r => ({ ...r, selected: false, status: r.selected ? 'sent' : r.status }))
-        );
-        setSelectAll(false);
-      } else {
-        alert('メール送信に失敗しました');
+      if (missing.length > 0) {
+        alert(`下書きがない送信先があるため送信できません\n\n${missing.map(r => r.name).join('、')}`);
+        return;
+      }
+    } else {
+      const issues = template ? validateTemplate(template) : [];
+      if (issues.length > 0) {
+        alert(`テンプレートに誤りがあるため送信できません\n\n${issues.map(issue => issue.message).join('\n')}`);
+        return;
+      }
+    }
+    
+    // 送信日時（夜間・休日に今すぐ送る場合は次の営業日の朝への予約を提案する）
+    let scheduledAt: Date | undefined;
+    if (sendTiming === 'nextBusinessMorning') {
+      scheduledAt = nextBusinessMorning();
+    } else if (sendTiming === 'custom') {
+      const parsed = parseJstDateTimeInput(customSendAt);
+      const scheduleError = parsed ? validateScheduledAt(parsed) : '送信日時を入力してください';
+      if (scheduleError) {
+        alert(scheduleError);
+        return;
+      }
+      scheduledAt = parsed!;
+    } else if (!isWithinSendWindow()) {
+      const morning = nextBusinessMorning();
+      if (confirm(`夜間・休日のため、次の営業日の朝（${formatScheduledAt(morning)}）に送信を予約しますか？\n（キャンセルすると今すぐ送信します）`)) {
+        scheduledAt = morning;
       }
-    } catch (error) {
-      console.error('Failed to send emails:', error);
-      alert('メール送信中にエラーが発生しました');
-    } finally {
-      setSending(false);
     }
+    
+    // 同じメールを二重に送らないよう、送信済みの名刺は確認してから送る
+    const templateName = composeMode === 'ai' ? 'AIで作成したメール' : template?.name;
+    const alreadySent = selectedRecipients.filter(r => hasEmailedTemplate(cardsById.get(r.cardId), activeTemplateId));
+    const allowResend = alreadySent.length > 0 && confirm(
+      `${alreadySent.length}件の送信先には「${templateName || 'このメール'}」を送信済みです。\n` +
+      `再送しますか？（キャンセルすると送信済みの送信先には送りません）\n\n${alreadySent.map(r => r.name).join('、')}`
+    );
+
+    // 送信先ごとの送信待ちの列を作り、すべて送り終わるまで続きの送信を呼び出す（結果は送信履歴に保存される）
+    await send({
+      recipients: selectedRecipients.map(r => ({
+        ...r,
+        ...prepareEmailContent(r)
+      })),
+      sender: {
+        email: emailSettings.senderEmail,
+        name: emailSettings.senderName
+      },
+      templateId: activeTemplateId,
+      templateName,
+      allowResend,
+      scheduledAt: scheduledAt?.toISOString(),
+      // 計測は利用者が選んだ場合だけ（計測するテンプレートで送るメールにだけ計測用の画像・リンクを入れ、AIで作成したメールは計測しない）
+      tracking: composeMode === 'template' && template?.trackingEnabled === true
+    });
   };
 
   return (
@@ -277,7 +427,21 @@ export default function EmailPage() {
             <ArrowLeft className="mr-2" size={18} />
             ダッシュボードに戻る
           </Link>
-          <div className="flex gap-4">
+          <div className="flex flex-wrap justify-end gap-4">
+            <Link
+              href="/email/campaigns"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 flex items-center"
+            >
+              <FiClock className="mr-2" />
+              送信履歴
+            </Link>
+            <Link
+              href="/email/suppressions"
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 flex items-center"
+            >
+              <FiSlash className="mr-2" />
+              配信停止リスト
+            </Link>
             <button
               onClick={() => setShowSettings(!showSettings)}
               className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 flex items-center"
@@ -292,14 +456,58 @@ export default function EmailPage() {
               className="px-4 py-2 bg-gray-700 text-white rounded-lg"
             >
               {templates.map(template => (
-                <option key={template.id} value={template.id}>
+                <option key={`${template.teamId || ''}/${template.id}`} value={template.id}>
                   {template.name}
+                  {template.teamId && `（チーム: ${teams.find(team => team.id === template.teamId)?.name || ''}）`}
+                  {template.trackingEnabled && '（開封を計測する）'}
                 </option>
               ))}
             </select>
+            <button
+              onClick={editTemplate}
+              disabled={!currentTemplate}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 flex items-center"
+              title={currentTemplate?.isDefault ? '標準のテンプレートを複製して編集します' : undefined}
+            >
+              <FiEdit className="mr-2" />
+              {currentTemplate?.isDefault ? '複製して編集' : '編集'}
+            </button>
+            <button
+              onClick={() => setEditingTemplate({ name: '', subject: '', body: '' })}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600"
+            >
+              新規
+            </button>
+            {currentTemplate && !currentTemplate.isDefault && (
+              <button
+                onClick={handleDeleteTemplate}
+                className="px-4 py-2 bg-gray-700 text-red-400 rounded-lg hover:bg-gray-600"
+              >
+                削除
+              </button>
+            )}
           </div>
         </div>
 
+        {/* テンプレートの編集 */}
+        {editingTemplate && (
+          <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+            <h2 className="text-lg font-semibold mb-4 text-white">
+              {editingTemplate.id ? 'テンプレートを編集' : 'テンプレートを作成'}
+            </h2>
+            <EmailTemplateEditor
+              key={editingTemplate.id || editingTemplate.name || 'new'}
+              initial={editingTemplate}
+              teams={teams}
+              cards={cards.filter(card => card.emails?.length)}
+              events={events}
+              settings={emailSettings}
+              onSave={handleSaveTemplate}
+              onCancel={() => setEditingTemplate(null)}
+            />
+          </div>
+        )}
+
         {/* 送信者設定フォーム */}
         {showSettings && (
           <div className="mb-6 p-4 bg-gray-800 rounded-lg">
@@ -349,6 +557,36 @@ export default function EmailPage() {
           </div>
         )}
 
+        {/* スマートコレクション・イベント */}
+        {(savedSearches.length > 0 || events.length > 0) && (
+          <div className="mb-6">
+            <select
+              value={collectionId}
+              onChange={(e) => selectCollection(e.target.value)}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg w-full md:w-auto"
+              aria-label="スマートコレクション・イベントから送信先を選択"
+            >
+              <option value="">スマートコレクション・イベントから選択...</option>
+              {savedSearches.length > 0 && (
+                <optgroup label="スマートコレクション">
+                  {savedSearches.map(search => (
+                    <option key={search.id} value={search.id}>
+                      {search.name}（{describeSavedSearch(search, events)}）
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {events.length > 0 && (
+                <optgroup label="イベント">
+                  {events.map(event => (
+                    <option key={event.id} value={`event:${event.id}`}>{eventLabel(event)}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        )}
+
         {/* 日付フィルター */}
         <div className="mb-6 flex gap-4">
           <input
@@ -386,9 +624,9 @@ export default function EmailPage() {
               recipients.map(recipient => (
                 <div
                   key={recipient.cardId}
-                  className={`p-3 rounded-lg flex items-center justify-between cursor-pointer ${
-                    recipient.selected ? 'bg-blue-900' : 'bg-gray-800'
-                  } hover:bg-gray-700`}
+                  className={`p-3 rounded-lg flex items-center justify-between ${
+                    recipient.suppressed ? 'bg-gray-800 opacity-60 cursor-not-allowed' : `cursor-pointer hover:bg-gray-700 ${recipient.selected ? 'bg-blue-900' : 'bg-gray-800'}`
+                  }`}
                   onClick={() => toggleRecipient(recipient.cardId)}
                 >
                   <div className="flex items-center">
@@ -403,7 +641,32 @@ export default function EmailPage() {
                       <p className="text-sm text-gray-500">{recipient.email}</p>
                     </div>
                   </div>
-                  {recipient.status === 'sent' && (
+                  {recipient.suppressed || recipient.status === 'suppressed' ? (
+                    <span className="text-gray-400 flex items-center text-sm" title={recipient.error}>
+                      <FiSlash className="mr-1" />
+                      配信停止{recipient.suppressed && `（${SUPPRESSION_REASON_LABELS[recipient.suppressed]}）`}
+                    </span>
+                  ) : recipient.status === 'failed' ? (
+                    <span className="text-red-400 flex items-center text-sm" title={recipient.error}>
+                      <FiX className="mr-1" />
+                      送信失敗
+                    </span>
+                  ) : recipient.status === 'skipped' ? (
+                    <span className="text-amber-400 flex items-center text-sm" title={recipient.error}>
+                      <FiCheck className="mr-1" />
+                      送信済みのためスキップ
+                    </span>
+                  ) : recipient.status === 'pending' ? (
+                    <span className="text-purple-300 flex items-center text-sm">
+                      <FiClock className="mr-1" />
+                      送信予約済み
+                    </span>
+                  ) : hasEmailedTemplate(cardsById.get(recipient.cardId), activeTemplateId) ? (
+                    <span className="text-amber-400 flex items-center text-sm">
+                      <FiCheck className="mr-1" />
+                      このメールは送信済み
+                    </span>
+                  ) : recipient.status === 'sent' && (
                     <span className="text-green-400 flex items-center">
                       <FiCheck className="mr-1" />
                       送信済み
@@ -415,6 +678,100 @@ export default function EmailPage() {
           </div>
         </div>
 
+        {/* 本文の作成方法 */}
+        <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+          <div className="flex flex-wrap items-center gap-4 text-sm mb-2">
+            <span className="text-white font-semibold">本文</span>
+            <label className="flex items-center text-gray-300">
+              <input
+                type="radio"
+                name="composeMode"
+                checked={composeMode === 'template'}
+                onChange={() => setComposeMode('template')}
+                className="mr-2"
+              />
+              テンプレートから作成
+            </label>
+            <label className="flex items-center text-gray-300">
+              <input
+                type="radio"
+                name="composeMode"
+                checked={composeMode === 'ai'}
+                onChange={() => setComposeMode('ai')}
+                className="mr-2"
+              />
+              AIで送信先ごとに作成
+            </label>
+          </div>
+          {composeMode === 'ai' && (
+            <>
+              <p className="text-xs text-gray-400 mb-4">
+                名刺の事業内容・メモ・やりとりの記録と送信者情報から下書きを作ります。内容を確認・編集してから送信してください。
+              </p>
+              <div className="flex flex-col md:flex-row gap-2 mb-4">
+                <input
+                  type="text"
+                  value={draftInstructions}
+                  onChange={(e) => setDraftInstructions(e.target.value)}
+                  maxLength={500}
+                  placeholder="追加の指示（例: 来月の展示会にお誘いする）"
+                  className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg text-sm"
+                />
+                <button
+                  onClick={() => draftEmails()}
+                  disabled={isDrafting || recipients.every(r => !r.selected)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-600 text-sm"
+                >
+                  {isDrafting && draftProgress
+                    ? `作成中... ${draftProgress.done}/${draftProgress.total}件`
+                    : `選択した${recipients.filter(r => r.selected).length}件の下書きを作成`}
+                </button>
+              </div>
+              {draftError && <p className="mb-4 text-sm text-red-400">下書きの作成に失敗しました: {draftError.message}</p>}
+              <EmailDraftReview
+                recipients={recipients.filter(r => r.selected)}
+                cardsById={cardsById}
+                drafts={drafts}
+                isDrafting={isDrafting}
+                onChange={updateDraft}
+                onRegenerate={(cardId) => draftEmails([cardId])}
+              />
+            </>
+          )}
+        </div>
+
+        {/* 送信日時 */}
+        <div className="mb-4 flex flex-wrap items-center justify-center gap-4 text-sm">
+          {([
+            ['now', '今すぐ送信'],
+            ['nextBusinessMorning', `次の営業日の朝（${formatScheduledAt(nextBusinessMorning())}）`],
+            ['custom', '日時を指定']
+          ] as [SendTiming, string][]).map(([value, label]) => (
+            <label key={value} className="flex items-center text-gray-300">
+              <input
+                type="radio"
+                name="sendTiming"
+                value={value}
+                checked={sendTiming === value}
+                onChange={() => setSendTiming(value)}
+                className="mr-2"
+              />
+              {label}
+            </label>
+          ))}
+          {sendTiming === 'custom' && (
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="datetime-local"
+                value={customSendAt}
+                onChange={(e) => setCustomSendAt(e.target.value)}
+                className="px-3 py-1 bg-gray-700 text-white rounded-lg"
+              />
+              日本時間
+            </label>
+          )}
+        </div>
+
         {/* 送信ボタン */}
         <div className="flex justify-center">
           <button
@@ -427,9 +784,23 @@ export default function EmailPage() {
             } text-white font-semibold`}
           >
             <FiSend className="mr-2" />
-            {sending ? '送信中...' : `選択した${recipients.filter(r => r.selected).length}件に送信`}
+            {sending
+              ? (progress ? `送信中... ${progress.campaign.successCount + progress.campaign.failureCount + progress.campaign.suppressedCount}/${progress.campaign.recipientCount - progress.campaign.skippedCount}件` : '送信中...')
+              : `選択した${recipients.filter(r => r.selected).length}件に${sendTiming === 'now' ? '送信' : '予約送信'}`}
           </button>
         </div>
+        {sendError && (
+          <p className="mt-4 text-center text-sm text-red-400">メール送信に失敗しました: {sendError.message}</p>
+        )}
+        {progress && (
+          <p className="mt-4 text-center text-sm text-gray-400">
+            送信先ごとの結果は
+            <Link href={`/email/campaigns/${progress.campaignId}`} className="text-blue-400 hover:underline mx-1">
+              送信履歴
+            </Link>
+            で確認・失敗した送信先への再送ができます
+          </p>
+        )}
       </div>
     </div>
   );
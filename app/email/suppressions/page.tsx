@@ -0,0 +1,195 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Trash2, Upload } from 'lucide-react';
+import { listSuppressions } from '@/lib/firebase/suppressionRepository';
+import { SUPPRESSION_REASON_LABELS } from '@/lib/email/status';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+import { formatDateTime } from '@/lib/utils';
+import { EmailSuppression } from '@/types/email';
+
+export default function EmailSuppressionsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [suppressions, setSuppressions] = useState<EmailSuppression[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newEmail, setNewEmail] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const loadSuppressions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setSuppressions(await listSuppressions(user.uid));
+    } catch (error) {
+      console.error('配信停止リストの取得エラー:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+    loadSuppressions();
+  }, [user, router, loadSuppressions]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newEmail.trim()) return;
+    if (!/^[^\s@]+@[^\s@]+$/.test(newEmail.trim())) {
+      alert('メールアドレスを正しく入力してください');
+      return;
+    }
+
+    try {
+      const response = await fetchWithAuth('/api/email/suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: newEmail.trim() })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || '配信停止リストに追加できませんでした');
+      setNewEmail('');
+      loadSuppressions();
+    } catch (error) {
+      console.error('配信停止リストへの追加エラー:', error);
+      alert((error as Error).message);
+    }
+  };
+
+  const handleRemove = async (suppression: EmailSuppression) => {
+    if (!user || !confirm(`${suppression.email} を配信停止リストから外しますか？\n今後はこのアドレスにもメールを送信できるようになります。`)) return;
+
+    try {
+      const response = await fetchWithAuth(
+        `/api/email/suppressions?email=${encodeURIComponent(suppression.email)}`,
+        { method: 'DELETE' }
+      );
+      if (!response.ok) throw new Error((await response.json()).error || '配信停止リストから外せませんでした');
+      loadSuppressions();
+    } catch (error) {
+      console.error('配信停止リストからの削除エラー:', error);
+      alert((error as Error).message);
+    }
+  };
+
+  // メールボックスから書き出したバウンスの通知（.eml）を取り込む
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setImporting(true);
+    try {
+      const messages = await Promise.all(files.map(file => file.text()));
+      const response = await fetchWithAuth('/api/email/bounces/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'バウンスの取り込みに失敗しました');
+
+      alert(
+        `${data.messages}件の通知を取り込み、${data.bounced}件のアドレスを配信停止リストに追加しました` +
+        (data.ignored > 0 ? `\n一時的な不達のため${data.ignored}件は追加しませんでした` : '') +
+        (data.unmatched > 0 ? `\n${data.unmatched}件は名刺のアドレスと一致しませんでした` : '')
+      );
+      loadSuppressions();
+    } catch (error) {
+      console.error('バウンスの取り込みエラー:', error);
+      alert((error as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/email"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="メール送信に戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold text-white">配信停止リスト</h1>
+            <p className="text-sm text-gray-400">このリストのアドレスにはメールを送信しません</p>
+          </div>
+          <label className={`bg-gray-700 text-white rounded-lg py-2 px-4 flex items-center gap-2 text-sm ${importing ? 'opacity-50' : 'hover:bg-gray-600 cursor-pointer'}`}>
+            <Upload size={18} />
+            {importing ? '取り込み中...' : 'バウンスの通知を取り込む'}
+            <input
+              type="file"
+              accept=".eml,message/rfc822"
+              multiple
+              onChange={handleImport}
+              disabled={importing}
+              className="hidden"
+            />
+          </label>
+        </header>
+
+        <form onSubmit={handleAdd} className="mb-6 flex gap-2">
+          <input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            placeholder="配信を停止するメールアドレス"
+            className="flex-1 px-3 py-2 bg-gray-700 text-white rounded-lg"
+          />
+          <button
+            type="submit"
+            disabled={!newEmail.trim()}
+            className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:bg-gray-600"
+          >
+            追加
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-gray-400">読み込み中...</p>
+        ) : suppressions.length === 0 ? (
+          <p className="text-gray-400">配信停止リストは空です</p>
+        ) : (
+          <ul className="space-y-2">
+            {suppressions.map(suppression => (
+              <li key={suppression.id} className="bg-gray-800 rounded-lg p-4 flex items-start gap-3">
+                <div className="flex-1 overflow-hidden">
+                  <p className="font-semibold text-white truncate">
+                    {suppression.cardId ? (
+                      <Link href={`/card/${suppression.cardId}`} className="hover:underline">{suppression.email}</Link>
+                    ) : suppression.email}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {SUPPRESSION_REASON_LABELS[suppression.reason]}
+                    {suppression.createdAt && ` ・ ${formatDateTime(suppression.createdAt)}`}
+                  </p>
+                  {suppression.detail && <p className="text-xs text-gray-500 truncate">{suppression.detail}</p>}
+                </div>
+                {/* 相手が配信停止を申し込んだアドレスは外せない */}
+                {suppression.reason !== 'unsubscribed' && (
+                  <button
+                    onClick={() => handleRemove(suppression)}
+                    className="text-gray-400 hover:text-red-400 p-1"
+                    aria-label="配信停止リストから外す"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
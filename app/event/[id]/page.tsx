@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarDays, Download, Edit, Trash2 } from 'lucide-react';
+import { deleteEvent, getEvent, listEventCards, saveEvent } from '@/lib/firebase/eventRepository';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { formatEventPeriod } from '@/lib/events';
+import { compareByReading } from '@/lib/names';
+import { useCurrentEvent } from '@/hooks/useCurrentEvent';
+import { BusinessCard, NetworkingEvent } from '@/types';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { EventForm } from '@/components/EventForm';
+import { ExportDialog } from '@/components/ExportDialog';
+
+export default function EventDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { currentEvent, selectEvent } = useCurrentEvent(user?.uid);
+  const [eventId, setEventId] = useState('');
+  const [event, setEvent] = useState<NetworkingEvent | null>(null);
+  const [contacts, setContacts] = useState<BusinessCard[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+
+  useEffect(() => {
+    params.then(resolved => setEventId(resolved.id));
+  }, [params]);
+
+  const loadEvent = useCallback(async () => {
+    if (!user || !eventId) return;
+
+    try {
+      const [eventData, cards] = await Promise.all([
+        getEvent(user.uid, eventId),
+        listEventCards(user.uid, eventId)
+      ]);
+      if (!eventData) {
+        router.push('/event');
+        return;
+      }
+      setEvent(eventData);
+      setContacts(cards.sort(compareByReading));
+    } catch (error) {
+      console.error('イベントの取得エラー:', error);
+      router.push('/event');
+    }
+  }, [user, eventId, router]);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+    loadEvent();
+  }, [user, router, loadEvent]);
+
+  const handleSave = async (updated: NetworkingEvent) => {
+    if (!user) return;
+    await saveEvent(user.uid, updated);
+    setIsEditing(false);
+    await loadEvent();
+  };
+
+  const handleDelete = async () => {
+    if (!user || !event) return;
+    if (!confirm(`「${event.name}」を削除しますか？\n名刺は削除されず、イベントとの紐付けだけが外れます。`)) return;
+
+    try {
+      await deleteEvent(user.uid, event.id!);
+      router.push('/event');
+    } catch (error) {
+      console.error('イベントの削除エラー:', error);
+      alert('削除に失敗しました。');
+    }
+  };
+
+  const handleToggleCurrent = async () => {
+    if (!event) return;
+    try {
+      await selectEvent(currentEvent?.id === event.id ? null : event.id!);
+    } catch (error) {
+      console.error('現在のイベントの設定エラー:', error);
+      alert('イベントの設定に失敗しました。');
+    }
+  };
+
+  if (!event) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white">読み込み中...</div>
+      </div>
+    );
+  }
+
+  const isCurrent = currentEvent?.id === event.id;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-5xl mx-auto p-6 md:p-8">
+        <header className="mb-6 flex justify-between items-center gap-4">
+          <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+            <CalendarDays size={28} className="text-gray-400" />
+            {isEditing ? 'イベントの編集' : event.name}
+          </h2>
+          <div className="flex gap-2">
+            {!isEditing && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="bg-yellow-600 text-white rounded-lg py-2 px-4 hover:bg-yellow-700 flex items-center gap-2"
+              >
+                <Edit size={18} />
+                編集
+              </button>
+            )}
+            <Link
+              href="/event"
+              className="bg-gray-700 text-gray-300 rounded-lg py-2 px-4 hover:bg-gray-600 flex items-center gap-2"
+            >
+              <ArrowLeft size={18} />
+              イベント一覧
+            </Link>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-800 p-6 rounded-lg">
+            {isEditing ? (
+              <EventForm initial={event} submitLabel="保存" onSave={handleSave} onCancel={() => setIsEditing(false)} />
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <h4 className="font-semibold text-gray-400 mb-1">日程</h4>
+                  <p className="text-white">{formatEventPeriod(event)}</p>
+                </div>
+                {event.venue && (
+                  <div>
+                    <h4 className="font-semibold text-gray-400 mb-1">会場</h4>
+                    <p className="text-white">{event.venue}</p>
+                  </div>
+                )}
+                {event.notes && (
+                  <div>
+                    <h4 className="font-semibold text-gray-400 mb-1">メモ</h4>
+                    <p className="text-gray-300 whitespace-pre-wrap">{event.notes}</p>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <button
+                    onClick={handleToggleCurrent}
+                    className={`rounded-lg py-2 px-4 text-sm ${isCurrent ? 'bg-gray-600 hover:bg-gray-700 text-white' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
+                  >
+                    {isCurrent ? '現在のイベントを解除' : '現在のイベントにする'}
+                  </button>
+                  <button
+                    onClick={() => setIsExportDialogOpen(true)}
+                    disabled={contacts.length === 0}
+                    className="bg-gray-700 text-white rounded-lg py-2 px-4 hover:bg-gray-600 flex items-center gap-2 text-sm disabled:opacity-50"
+                  >
+                    <Download size={16} />
+                    エクスポート
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="bg-red-600 text-white rounded-lg py-2 px-4 hover:bg-red-700 flex items-center gap-2 text-sm"
+                  >
+                    <Trash2 size={16} />
+                    削除
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-800 p-6 rounded-lg">
+            <h3 className="font-semibold text-gray-400 mb-3">このイベントで会った人（{contacts.length}人）</h3>
+            <ul className="space-y-2">
+              {contacts.map(contact => (
+                <li key={contact.id}>
+                  <Link
+                    href={`/card/${contact.id}`}
+                    className="flex items-center gap-3 bg-gray-900 rounded-lg p-2 hover:bg-gray-700 transition-colors"
+                  >
+                    {contact.images?.front && (
+                      <OptimizedImage
+                        src={cardImageSrc(contact.images.front, 'small')!}
+                        alt={`${contact.name}の名刺`}
+                        className="w-14 h-9 object-cover rounded flex-shrink-0"
+                      />
+                    )}
+                    <div className="flex-1 overflow-hidden">
+                      <p className="text-white truncate">{contact.name}</p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {[contact.companyName, contact.title].filter(Boolean).join(' ')}
+                      </p>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      <ExportDialog
+        cards={contacts}
+        isOpen={isExportDialogOpen}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
+    </div>
+  );
+}
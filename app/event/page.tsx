@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarDays, Plus } from 'lucide-react';
+import { listCards } from '@/lib/firebase/cardRepository';
+import { saveEvent } from '@/lib/firebase/eventRepository';
+import { formatEventPeriod } from '@/lib/events';
+import { toDateString } from '@/lib/tasks';
+import { useCurrentEvent } from '@/hooks/useCurrentEvent';
+import { EventForm } from '@/components/EventForm';
+import { NetworkingEvent } from '@/types';
+
+export default function EventsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { events, currentEvent, selectEvent } = useCurrentEvent(user?.uid);
+  const [contactCounts, setContactCounts] = useState<Map<string, number>>(new Map());
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+
+    listCards(user.uid)
+      .then(cards => {
+        const counts = new Map<string, number>();
+        cards.forEach(card => {
+          if (card.eventId) counts.set(card.eventId, (counts.get(card.eventId) || 0) + 1);
+        });
+        setContactCounts(counts);
+      })
+      .catch(error => console.error('名刺の取得エラー:', error));
+  }, [user, router]);
+
+  // 作成したイベントを現在のイベントにして、すぐに名刺を取り込めるようにする
+  const handleCreate = async (event: NetworkingEvent) => {
+    if (!user) return;
+    const eventId = await saveEvent(user.uid, event);
+    await selectEvent(eventId);
+    setIsCreating(false);
+  };
+
+  const handleToggleCurrent = async (eventId: string) => {
+    try {
+      await selectEvent(currentEvent?.id === eventId ? null : eventId);
+    } catch (error) {
+      console.error('現在のイベントの設定エラー:', error);
+      alert('イベントの設定に失敗しました。');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/dashboard"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="ダッシュボードに戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <h1 className="text-2xl font-bold text-white flex-1">イベント</h1>
+          {!isCreating && (
+            <button
+              onClick={() => setIsCreating(true)}
+              className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 flex items-center gap-2 text-sm"
+            >
+              <Plus size={18} />
+              イベントを登録
+            </button>
+          )}
+        </header>
+
+        {isCreating && (
+          <div className="bg-gray-800 p-6 rounded-lg mb-6">
+            <EventForm
+              initial={{ name: '', date: toDateString() }}
+              submitLabel="登録して現在のイベントにする"
+              onSave={handleCreate}
+              onCancel={() => setIsCreating(false)}
+            />
+          </div>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">
+            イベントはまだありません。展示会などで名刺をまとめて取り込む前に登録してください。
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {events.map(event => {
+              const isCurrent = currentEvent?.id === event.id;
+              return (
+                <li key={event.id} className={`bg-gray-800 rounded-lg flex items-center gap-3 pr-4 ${isCurrent ? 'ring-2 ring-blue-500' : ''}`}>
+                  <Link
+                    href={`/event/${event.id}`}
+                    className="flex-1 min-w-0 p-4 flex items-center gap-3 hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    <CalendarDays size={24} className="text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 overflow-hidden">
+                      <p className="font-semibold text-white truncate">
+                        {event.name}
+                        {isCurrent && <span className="ml-2 text-xs bg-blue-600 px-2 py-0.5 rounded-full">現在のイベント</span>}
+                      </p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {formatEventPeriod(event)}{event.venue && ` ・ ${event.venue}`}
+                      </p>
+                    </div>
+                    <span className="text-sm text-gray-300 flex-shrink-0">
+                      {contactCounts.get(event.id!) || 0}人
+                    </span>
+                  </Link>
+                  <button
+                    onClick={() => handleToggleCurrent(event.id!)}
+                    className="text-xs text-blue-400 hover:text-blue-300 flex-shrink-0"
+                  >
+                    {isCurrent ? '解除' : '現在のイベントにする'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ChevronDown, ChevronRight, Plus, Tags } from 'lucide-react';
+import { watchCards } from '@/lib/firebase/cardRepository';
+import { deleteTag, listTags, mergeTags, renameTag, saveTag, syncTagRegistry, watchTags } from '@/lib/firebase/tagRepository';
+import { countTagUsage, sortTagsByHierarchy, tagColorClass } from '@/lib/tagging';
+import { TagEditor } from '@/components/TagEditor';
+import { BusinessCard, TagDefinition } from '@/types';
+
+export default function TagsPage() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [definitions, setDefinitions] = useState<TagDefinition[]>([]);
+  const [cards, setCards] = useState<BusinessCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newTagName, setNewTagName] = useState('');
+
+  useEffect(() => {
+    if (!user) {
+      router.push('/auth');
+      return;
+    }
+
+    // 名刺に付いているが未登録のタグをここで登録する
+    listTags(user.uid)
+      .then(tags => syncTagRegistry(user.uid, tags))
+      .catch(error => console.error('タグの登録エラー:', error))
+      .finally(() => setIsLoading(false));
+
+    const unsubscribeTags = watchTags(user.uid, setDefinitions);
+    const unsubscribeCards = watchCards(user.uid, setCards);
+    return () => {
+      unsubscribeTags();
+      unsubscribeCards();
+    };
+  }, [user, router]);
+
+  const usage = useMemo(() => countTagUsage(cards), [cards]);
+  const rows = useMemo(() => sortTagsByHierarchy(definitions), [definitions]);
+
+  const run = async (action: () => Promise<number | void>) => {
+    try {
+      setIsBusy(true);
+      const updated = await action();
+      setEditingId(null);
+      if (updated) alert(`${updated}件の名刺のタグを更新しました`);
+    } catch (error) {
+      console.error('タグの更新エラー:', error);
+      alert('タグの更新に失敗しました。');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = (tag: TagDefinition, newName: string) => run(async () => {
+    await saveTag(user!.uid, tag);
+    return renameTag(user!.uid, tag, newName, definitions);
+  });
+
+  const handleMerge = (tag: TagDefinition, target: TagDefinition) =>
+    run(() => mergeTags(user!.uid, [tag], target, definitions));
+
+  const handleDelete = (tag: TagDefinition) =>
+    run(() => deleteTag(user!.uid, tag, definitions));
+
+  const handleCreate = () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    if (definitions.some(definition => definition.name === name)) {
+      alert(`「${name}」は既に登録されています`);
+      return;
+    }
+    run(async () => {
+      await saveTag(user!.uid, { name, keywords: [] });
+      setNewTagName('');
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200">
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 md:p-8">
+        <header className="mb-6 flex items-center gap-4">
+          <Link
+            href="/dashboard"
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="ダッシュボードに戻る"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+            <Tags size={24} />
+            タグ管理
+          </h1>
+        </header>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            placeholder="新しいタグ名"
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            className="flex-1 bg-gray-800 border border-gray-700 rounded-lg py-2 px-4 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={isBusy || !newTagName.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1 text-sm"
+          >
+            <Plus size={16} />
+            追加
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-400 py-12">読み込み中...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-gray-400 py-12">タグがありません</p>
+        ) : (
+          <ul className="space-y-2">
+            {rows.map(({ definition, depth }) => (
+              <li key={definition.id} className="bg-gray-800 rounded-lg p-3" style={{ marginLeft: `${depth * 1.5}rem` }}>
+                <button
+                  onClick={() => setEditingId(editingId === definition.id ? null : definition.id!)}
+                  className="w-full flex items-center gap-3 text-left"
+                  aria-expanded={editingId === definition.id}
+                >
+                  {editingId === definition.id ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                  <span className={`text-sm px-3 py-0.5 rounded-full ${tagColorClass(definition.name, definitions)}`}>
+                    {definition.name}
+                  </span>
+                  <span className="flex-1 text-xs text-gray-500 truncate">
+                    {definition.keywords && definition.keywords.length > 0 ? `自動: ${definition.keywords.join(', ')}` : ''}
+                  </span>
+                  <span className="text-sm text-gray-300 flex-shrink-0">{usage.get(definition.name) || 0}件</span>
+                </button>
+                {editingId === definition.id && (
+                  <TagEditor
+                    tag={definition}
+                    definitions={definitions}
+                    usage={usage.get(definition.name) || 0}
+                    isBusy={isBusy}
+                    onSave={handleSave}
+                    onMerge={handleMerge}
+                    onDelete={handleDelete}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
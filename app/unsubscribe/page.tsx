@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MailX } from 'lucide-react';
+
+// メールの配信停止リンクから開く確認ページ（ログインせずに使う）
+export default function UnsubscribePage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const [token, setToken] = useState('');
+  const [state, setState] = useState<'confirm' | 'submitting' | 'done' | 'error'>('confirm');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    searchParams.then(resolved => setToken(resolved.token || ''));
+  }, [searchParams]);
+
+  const handleUnsubscribe = async () => {
+    setState('submitting');
+    try {
+      const response = await fetch('/api/email/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || '配信停止に失敗しました');
+      setMessage(`${data.email} への配信を停止しました。`);
+      setState('done');
+    } catch (error) {
+      console.error('配信停止エラー:', error);
+      setMessage((error as Error).message);
+      setState('error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-gray-800 rounded-lg p-6 text-center">
+        <MailX size={40} className="mx-auto mb-4 text-gray-400" />
+        <h1 className="text-xl font-bold text-white mb-4">メールの配信停止</h1>
+        {state === 'done' || state === 'error' ? (
+          <p className={state === 'error' ? 'text-red-400' : 'text-gray-300'}>{message}</p>
+        ) : (
+          <>
+            <p className="text-gray-300 mb-6">今後、このアドレスにはメールをお送りしません。よろしければ下のボタンを押してください。</p>
+            <button
+              onClick={handleUnsubscribe}
+              disabled={!token || state === 'submitting'}
+              className="bg-blue-600 text-white rounded-lg py-2 px-6 hover:bg-blue-700 disabled:bg-gray-600"
+            >
+              {state === 'submitting' ? '処理中...' : '配信を停止する'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
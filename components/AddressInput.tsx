@@ -0,0 +1,126 @@
+/**
+ * Structured postal address inputs with offline postal-code completion
+ */
+'use client';
+
+import React from 'react';
+import { PostalAddress } from '@/types';
+import { PREFECTURES, completeAddress, formatPostalCode, lookupPostalCode, normalizeAddressText, validateAddress } from '@/lib/address';
+
+interface AddressInputProps {
+  value: PostalAddress;
+  onChange: (address: PostalAddress) => void;
+  borderClassName?: string;
+  onFocus?: () => void;
+  onBlur?: () => void;
+}
+
+export function AddressInput({
+  value,
+  onChange,
+  borderClassName = 'border-gray-600',
+  onFocus,
+  onBlur
+}: AddressInputProps) {
+  const inputClassName = `w-full bg-gray-700 border ${borderClassName} rounded-lg py-2 px-3 text-white text-sm`;
+  const issues = validateAddress(value);
+
+  const update = (updates: Partial<PostalAddress>) => onChange({ ...value, ...updates });
+
+  // Fill prefecture/city from the bundled postal-code data once the code is complete
+  const handlePostalCodeChange = (input: string) => {
+    const postalCode = normalizeAddressText(input).replace(/\D/g, '').slice(0, 7);
+    onChange(postalCode.length === 7 ? completeAddress({ ...value, postalCode }) : { ...value, postalCode });
+  };
+
+  // Overwrite prefecture/city with the values for the postal code
+  const handleLookup = () => {
+    const entry = value.postalCode ? lookupPostalCode(value.postalCode) : null;
+    if (!entry) {
+      alert('郵便番号に該当する地域が見つかりませんでした。');
+      return;
+    }
+    update({ prefecture: entry.prefecture, city: entry.city || value.city });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative w-36">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">〒</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={value.postalCode ? formatPostalCode(value.postalCode) : ''}
+            onChange={(e) => handlePostalCodeChange(e.target.value)}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            className={`${inputClassName} pl-7`}
+            placeholder="100-0005"
+            aria-label="郵便番号"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleLookup}
+          disabled={!value.postalCode}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          郵便番号から住所を入力
+        </button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={value.prefecture || ''}
+          onChange={(e) => update({ prefecture: e.target.value })}
+          onFocus={onFocus}
+          onBlur={onBlur}
+          className={inputClassName}
+          aria-label="都道府県"
+        >
+          <option value="">都道府県</option>
+          {/* Keep an unrecognized value selectable so it is not silently dropped */}
+          {value.prefecture && !PREFECTURES.includes(value.prefecture) && (
+            <option value={value.prefecture}>{value.prefecture}</option>
+          )}
+          {PREFECTURES.map(prefecture => (
+            <option key={prefecture} value={prefecture}>{prefecture}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value.city || ''}
+          onChange={(e) => update({ city: e.target.value })}
+          onFocus={onFocus}
+          onBlur={onBlur}
+          className={`${inputClassName} col-span-2`}
+          placeholder="市区町村（千代田区）"
+          aria-label="市区町村"
+        />
+      </div>
+      <input
+        type="text"
+        value={value.street || ''}
+        onChange={(e) => update({ street: e.target.value })}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        className={inputClassName}
+        placeholder="町域・番地（丸の内1-2-3）"
+        aria-label="番地"
+      />
+      <input
+        type="text"
+        value={value.building || ''}
+        onChange={(e) => update({ building: e.target.value })}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        className={inputClassName}
+        placeholder="建物名・階（丸の内ビル5F）"
+        aria-label="建物名"
+      />
+      {issues.map(issue => (
+        <p key={issue} className="text-xs text-yellow-400">{issue}</p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Card Image Component with recognized field regions
+ */
+'use client';
+
+import React from 'react';
+import type { FieldBoundingBox } from '@/lib/recognition/types';
+
+interface CardImageWithBoxesProps {
+  src: string;
+  alt: string;
+  boxes: FieldBoundingBox[];
+  className?: string;
+}
+
+// Box coordinates are ratios of the image size, so they scale with the rendered image
+export function CardImageWithBoxes({ src, alt, boxes, className = '' }: CardImageWithBoxesProps) {
+  return (
+    <div className={`relative ${className}`}>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={src} alt={alt} className="w-full rounded-lg" />
+      {boxes.map((box, index) => (
+        <div
+          key={index}
+          className="absolute border-2 border-yellow-400 bg-yellow-400/20 rounded pointer-events-none transition-all"
+          style={{
+            left: `${box.x * 100}%`,
+            top: `${box.y * 100}%`,
+            width: `${box.width * 100}%`,
+            height: `${box.height * 100}%`
+          }}
+        />
+      ))}
+    </div>
+  );
+}
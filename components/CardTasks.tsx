@@ -0,0 +1,180 @@
+/**
+ * Follow-up tasks attached to a card: suggested next actions, due dates and completion
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CheckSquare, Plus, Square, Trash2 } from 'lucide-react';
+import { BusinessCard, Task, TaskType } from '@/types';
+import { createTask, deleteTask, listCardTasks, setTaskCompleted } from '@/lib/firebase/taskRepository';
+import { TASK_TYPE_LABELS, addDays, isOverdue, suggestTasks, toDateString } from '@/lib/tasks';
+
+interface CardTasksProps {
+  userId: string;
+  card: BusinessCard;
+}
+
+export function CardTasks({ userId, card }: CardTasksProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [type, setType] = useState<TaskType>('follow_up');
+  const [dueDate, setDueDate] = useState(() => addDays(toDateString(), 7));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listCardTasks(userId, card.id!)
+      .then(loaded => {
+        if (!cancelled) setTasks(loaded);
+      })
+      .catch(error => console.error('タスクの取得エラー:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, card.id]);
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    try {
+      setIsUpdating(true);
+      await update();
+    } catch (error) {
+      console.error('タスクの更新エラー:', error);
+      alert('タスクの更新に失敗しました。');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const sortByDueDate = (list: Task[]) => [...list].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  const handleAdd = (task: Omit<Task, 'id'>) => runUpdate(async () => {
+    const created = await createTask(userId, task);
+    setTasks(prev => sortByDueDate([...prev, created]));
+  });
+
+  const handleSubmit = () => {
+    if (!title.trim() || !dueDate) return;
+    handleAdd({ cardId: card.id!, type, title: title.trim(), dueDate, completed: false });
+    setTitle('');
+  };
+
+  const handleToggle = (task: Task) => runUpdate(async () => {
+    await setTaskCompleted(userId, task.id!, !task.completed);
+    setTasks(prev => prev.map(item => item.id === task.id
+      ? { ...item, completed: !task.completed, completedAt: task.completed ? undefined : new Date().toISOString(), completedBy: task.completed ? undefined : 'manual' }
+      : item));
+  });
+
+  const handleDelete = (task: Task) => {
+    if (!confirm(`「${task.title}」を削除しますか？`)) return;
+    runUpdate(async () => {
+      await deleteTask(userId, task.id!);
+      setTasks(prev => prev.filter(item => item.id !== task.id));
+    });
+  };
+
+  // 登録済みのタスクにない次のアクションを提案する
+  const suggestions = suggestTasks(card, tasks);
+  const today = toDateString();
+
+  return (
+    <div className="border-t border-gray-700 pt-4 space-y-3">
+      <h4 className="font-semibold text-gray-400">タスク</h4>
+
+      {tasks.length === 0 && suggestions.length === 0 && (
+        <p className="text-sm text-gray-500">タスクはありません</p>
+      )}
+
+      {tasks.length > 0 && (
+        <ul className="space-y-2">
+          {tasks.map(task => (
+            <li key={task.id} className="bg-gray-900 rounded-lg p-3 flex items-center gap-3">
+              <button
+                onClick={() => handleToggle(task)}
+                disabled={isUpdating}
+                className="flex-shrink-0 disabled:opacity-50"
+                aria-label={task.completed ? `${task.title}を未完了に戻す` : `${task.title}を完了にする`}
+                aria-pressed={task.completed}
+              >
+                {task.completed ? <CheckSquare size={20} className="text-green-400" /> : <Square size={20} className="text-gray-400" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm truncate ${task.completed ? 'text-gray-500 line-through' : 'text-white'}`}>{task.title}</p>
+                <p className={`text-xs ${isOverdue(task, today) ? 'text-red-400' : 'text-gray-500'}`}>
+                  {TASK_TYPE_LABELS[task.type]} ・ 期日 {task.dueDate}
+                  {task.completed && task.completedAt && ` ・ ${task.completedAt.slice(0, 10)}に${task.completedBy === 'email' ? 'メール送信で' : ''}完了`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(task)}
+                disabled={isUpdating}
+                className="text-gray-500 hover:text-red-400 disabled:opacity-50 flex-shrink-0"
+                aria-label={`${task.title}を削除`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          {suggestions.map(suggestion => (
+            <div key={suggestion.type} className="border border-dashed border-gray-600 rounded-lg p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-300 truncate">{suggestion.title}</p>
+                <p className="text-xs text-gray-500">提案 ・ 期日 {suggestion.dueDate}</p>
+              </div>
+              <button
+                onClick={() => handleAdd(suggestion)}
+                disabled={isUpdating}
+                className="bg-blue-600 text-white text-xs px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+              >
+                <Plus size={14} />
+                追加
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as TaskType)}
+          className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white text-sm"
+          aria-label="タスクの種類"
+        >
+          {(Object.keys(TASK_TYPE_LABELS) as TaskType[]).map(key => (
+            <option key={key} value={key}>{TASK_TYPE_LABELS[key]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="タスクの内容"
+          className="flex-1 min-w-[10rem] bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+        />
+        <input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white text-sm"
+          aria-label="期日"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={isUpdating || !title.trim() || !dueDate}
+          className="bg-gray-700 text-white text-sm px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Plus size={16} />
+          追加
+        </button>
+      </div>
+    </div>
+  );
+}
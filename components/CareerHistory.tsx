@@ -0,0 +1,169 @@
+/**
+ * Career timeline of a contact across successive business cards, with same-person suggestions
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Link2, Unlink, UserX } from 'lucide-react';
+import { BusinessCard } from '@/types';
+import { listCards, updateCard } from '@/lib/firebase/cardRepository';
+import { linkSamePerson, listPersonCards, unlinkFromPerson } from '@/lib/firebase/personRepository';
+import { buildCareerTimeline, findSamePersonCandidates } from '@/lib/career';
+
+interface CareerHistoryProps {
+  userId: string;
+  card: BusinessCard;
+  onCardChange: (updates: Partial<BusinessCard>) => void;
+}
+
+const formatPeriod = (from?: string, to?: string) => {
+  if (!from) return '';
+  return from === to || !to ? from : `${from} 〜 ${to}`;
+};
+
+export function CareerHistory({ userId, card, onCardChange }: CareerHistoryProps) {
+  const [personCards, setPersonCards] = useState<BusinessCard[]>([]);
+  const [candidates, setCandidates] = useState<BusinessCard[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [linked, allCards] = await Promise.all([
+          card.personId ? listPersonCards(userId, card.personId) : Promise.resolve([]),
+          listCards(userId)
+        ]);
+        if (cancelled) return;
+        setPersonCards(linked);
+        setCandidates(findSamePersonCandidates(card, allCards));
+      } catch (error) {
+        console.error('経歴の取得エラー:', error);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, card]);
+
+  // The current card is always part of the timeline, even before it is linked to anyone
+  const timeline = useMemo(
+    () => buildCareerTimeline([card, ...personCards.filter(other => other.id !== card.id)]),
+    [card, personCards]
+  );
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    try {
+      setIsUpdating(true);
+      await update();
+    } catch (error) {
+      console.error('経歴の更新エラー:', error);
+      alert('更新に失敗しました。');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleLink = (candidate: BusinessCard) => runUpdate(async () => {
+    const personId = await linkSamePerson(userId, [card, candidate]);
+    onCardChange({ personId });
+  });
+
+  const handleUnlink = () => {
+    if (!confirm('この名刺を経歴から外しますか？')) return;
+    runUpdate(async () => {
+      await unlinkFromPerson(userId, card);
+      onCardChange({ personId: undefined });
+    });
+  };
+
+  const handleDistinct = (candidate: BusinessCard) => runUpdate(async () => {
+    const distinctFrom = Array.from(new Set([...(card.distinctFrom || []), candidate.id!]));
+    await updateCard(userId, card.id!, { distinctFrom });
+    onCardChange({ distinctFrom });
+  });
+
+  if (timeline.length < 2 && candidates.length === 0) return null;
+
+  return (
+    <div className="border-t border-gray-700 pt-4 space-y-4">
+      {timeline.length > 1 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="font-semibold text-gray-400">経歴</h4>
+            <button
+              onClick={handleUnlink}
+              disabled={isUpdating}
+              className="text-xs text-gray-400 hover:text-white disabled:opacity-50 flex items-center gap-1"
+            >
+              <Unlink size={14} />
+              この名刺を経歴から外す
+            </button>
+          </div>
+          <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+            {timeline.map((entry, index) => (
+              <li key={`${entry.companyName}-${index}`} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${entry.isCurrent ? 'bg-blue-500' : 'bg-gray-500'}`} />
+                <p className="text-white">
+                  {entry.companyName}
+                  {entry.isCurrent && <span className="ml-2 text-xs bg-blue-600 px-2 py-0.5 rounded-full">現在</span>}
+                </p>
+                {entry.title && <p className="text-sm text-gray-300">{entry.title}</p>}
+                <p className="text-xs text-gray-500">{formatPeriod(entry.from, entry.to)}</p>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {entry.cards.map(entryCard => entryCard.id === card.id ? (
+                    <span key={entryCard.id} className="text-xs text-gray-400">この名刺</span>
+                  ) : (
+                    <Link key={entryCard.id} href={`/card/${entryCard.id}`} className="text-xs text-blue-400 hover:underline">
+                      名刺を見る
+                    </Link>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-400 mb-2">同じ人の可能性がある名刺</h4>
+          <ul className="space-y-2">
+            {candidates.map(candidate => (
+              <li key={candidate.id} className="bg-gray-900 rounded-lg p-3 flex flex-wrap justify-between items-center gap-2">
+                <Link href={`/card/${candidate.id}`} className="min-w-0 hover:underline">
+                  <p className="text-white truncate">{candidate.name}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {candidate.companyName} {candidate.title ? `/ ${candidate.title}` : ''}
+                  </p>
+                </Link>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleDistinct(candidate)}
+                    disabled={isUpdating}
+                    className="bg-gray-700 text-white text-xs px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <UserX size={14} />
+                    別の人
+                  </button>
+                  <button
+                    onClick={() => handleLink(candidate)}
+                    disabled={isUpdating}
+                    className="bg-blue-600 text-white text-xs px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <Link2 size={14} />
+                    同じ人としてリンク
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Capture-mode bar showing the current event that saved cards are stamped with
+ */
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { CalendarDays } from 'lucide-react';
+import { NetworkingEvent } from '@/types';
+import { eventExchangeDate, eventLabel, isEventOver } from '@/lib/events';
+
+interface CurrentEventBarProps {
+  events: NetworkingEvent[];
+  currentEvent: NetworkingEvent | null;
+  onSelect: (eventId: string | null) => Promise<void>;
+}
+
+export function CurrentEventBar({ events, currentEvent, onSelect }: CurrentEventBarProps) {
+  const handleChange = async (eventId: string) => {
+    try {
+      await onSelect(eventId || null);
+    } catch (error) {
+      console.error('現在のイベントの設定エラー:', error);
+      alert('イベントの設定に失敗しました。');
+    }
+  };
+
+  return (
+    <div className={`rounded-lg p-3 mb-4 flex flex-wrap items-center gap-2 ${currentEvent ? 'bg-blue-900/40 border border-blue-700' : 'bg-gray-800'}`}>
+      <CalendarDays size={18} className={currentEvent ? 'text-blue-300' : 'text-gray-400'} />
+      <label htmlFor="current-event" className="text-sm text-gray-300">イベント</label>
+      <select
+        id="current-event"
+        value={currentEvent?.id || ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="flex-1 min-w-[12rem] bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm"
+      >
+        <option value="">設定しない</option>
+        {events.map(event => (
+          <option key={event.id} value={event.id}>{eventLabel(event)}</option>
+        ))}
+      </select>
+      <Link href="/event" className="text-xs text-blue-400 hover:underline">イベントを登録</Link>
+      {currentEvent && (
+        <p className="w-full text-xs text-blue-200">
+          保存する名刺に「{currentEvent.name}」と交換日 {eventExchangeDate(currentEvent)} を記録します
+          {isEventOver(currentEvent) && <span className="text-yellow-400 ml-2">（終了したイベントです）</span>}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Warning shown when a card being saved matches already registered cards
+ */
+'use client';
+
+import React from 'react';
+import { AlertTriangle, GitMerge, Link2 } from 'lucide-react';
+import { BusinessCard } from '@/types';
+import { DUPLICATE_REASON_LABELS, DuplicateMatch } from '@/lib/duplicates';
+import { useFocusTrap } from '@/hooks/useAccessibility';
+
+interface DuplicateCardsDialogProps {
+  matches: DuplicateMatch[];
+  onMerge: (card: BusinessCard) => void;
+  // Save as a separate card linked to the match (the same person after a job change)
+  onSamePerson?: (card: BusinessCard) => void;
+  onSaveAnyway: () => void;
+  onCancel: () => void;
+}
+
+export function DuplicateCardsDialog({ matches, onMerge, onSamePerson, onSaveAnyway, onCancel }: DuplicateCardsDialogProps) {
+  const containerRef = useFocusTrap(matches.length > 0);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="duplicate-dialog-title"
+    >
+      <div ref={containerRef} className="bg-gray-800 rounded-lg max-w-lg w-full p-6" role="document">
+        <div className="flex items-center gap-3 mb-4">
+          <AlertTriangle className="text-yellow-400" size={24} />
+          <h2 id="duplicate-dialog-title" className="text-xl font-bold text-white">登録済みの名刺と重複しています</h2>
+        </div>
+        <p className="text-gray-300 text-sm mb-4">
+          同じ人の名刺が既に登録されている可能性があります。既存の名刺に統合するか、転職・異動後の名刺として経歴に追加するか、別の名刺として保存してください。
+        </p>
+
+        <ul className="space-y-2 mb-6 max-h-72 overflow-y-auto">
+          {matches.map(({ card, reasons }) => (
+            <li key={card.id} className="bg-gray-900 border border-gray-700 rounded-lg p-3 flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">{card.name}</p>
+                <p className="text-gray-400 text-sm truncate">{[card.companyName, card.title].filter(Boolean).join(' ')}</p>
+                <p className="text-yellow-400 text-xs mt-1">{reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join('・')}</p>
+              </div>
+              <div className="shrink-0 flex flex-col gap-2">
+                <button
+                  onClick={() => onMerge(card)}
+                  className="bg-blue-600 text-white text-sm px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-1"
+                >
+                  <GitMerge size={16} />
+                  統合
+                </button>
+                {onSamePerson && (
+                  <button
+                    onClick={() => onSamePerson(card)}
+                    className="bg-gray-700 text-white text-sm px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors flex items-center gap-1"
+                    title="転職・異動後の名刺として保存し、経歴にまとめます"
+                  >
+                    <Link2 size={16} />
+                    経歴に追加
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={onSaveAnyway}
+            className="bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-500 transition-colors"
+          >
+            別の名刺として保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
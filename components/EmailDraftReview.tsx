@@ -0,0 +1,95 @@
+/**
+ * Side-by-side review of AI-drafted emails: the card's details next to an editable subject and body per recipient
+ */
+'use client';
+
+import React from 'react';
+import { BusinessCard } from '@/types';
+import { EmailDraft, EmailRecipient } from '@/types/email';
+
+interface EmailDraftReviewProps {
+  recipients: EmailRecipient[];
+  cardsById: Map<string, BusinessCard>;
+  drafts: Record<string, EmailDraft>;
+  isDrafting: boolean;
+  onChange: (cardId: string, changes: Partial<Pick<EmailDraft, 'subject' | 'body'>>) => void;
+  onRegenerate: (cardId: string) => void;
+}
+
+const PROVIDER_LABELS: Record<NonNullable<EmailDraft['provider']>, string> = {
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  mock: 'モック'
+};
+
+export function EmailDraftReview({ recipients, cardsById, drafts, isDrafting, onChange, onRegenerate }: EmailDraftReviewProps) {
+  if (recipients.length === 0) {
+    return <p className="text-gray-400">下書きを作る送信先を選択してください</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {recipients.map(recipient => {
+        const card = cardsById.get(recipient.cardId);
+        const draft = drafts[recipient.cardId];
+        return (
+          <li key={recipient.cardId} className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-900 rounded-lg p-4">
+            <div className="text-sm space-y-2 overflow-hidden">
+              <p className="text-white font-medium">{recipient.name}</p>
+              <p className="text-gray-400">
+                {[card?.companyName, card?.title].filter(Boolean).join(' ・ ')}
+              </p>
+              <p className="text-gray-500">{recipient.email}</p>
+              {card?.businessContent && (
+                <div>
+                  <p className="text-xs text-gray-400">事業内容</p>
+                  <p className="text-gray-300 whitespace-pre-wrap line-clamp-4">{card.businessContent}</p>
+                </div>
+              )}
+              {card?.notes && (
+                <div>
+                  <p className="text-xs text-gray-400">メモ</p>
+                  <p className="text-gray-300 whitespace-pre-wrap line-clamp-6">{card.notes}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {!draft ? (
+                <p className="text-sm text-gray-400">{isDrafting ? '作成中...' : 'まだ下書きがありません'}</p>
+              ) : draft.error ? (
+                <p className="text-sm text-red-400">{draft.error}</p>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={draft.subject}
+                    onChange={(e) => onChange(recipient.cardId, { subject: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg text-sm"
+                    aria-label={`${recipient.name}さんへのメールの件名`}
+                  />
+                  <textarea
+                    value={draft.body}
+                    onChange={(e) => onChange(recipient.cardId, { body: e.target.value })}
+                    className="w-full px-3 py-2 bg-gray-700 text-white rounded-lg text-sm h-64"
+                    aria-label={`${recipient.name}さんへのメールの本文`}
+                  />
+                </>
+              )}
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>{draft?.provider && `作成: ${PROVIDER_LABELS[draft.provider]}`}</span>
+                <button
+                  onClick={() => onRegenerate(recipient.cardId)}
+                  disabled={isDrafting}
+                  className="px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                >
+                  {draft ? '作り直す' : '作成'}
+                </button>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
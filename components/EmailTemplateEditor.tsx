@@ -0,0 +1,213 @@
+/**
+ * Email template editor with variable insertion, validation and a live preview against a chosen card
+ */
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { BusinessCard, NetworkingEvent } from '@/types';
+import { EmailSettings, EmailTemplate } from '@/types/email';
+import { TemplateTeam } from '@/lib/firebase/emailTemplateRepository';
+import { TEMPLATE_VARIABLES, buildTemplateContext, renderEmail, validateTemplate } from '@/lib/email/template';
+
+export type EmailTemplateDraft = Pick<EmailTemplate, 'name' | 'subject' | 'body'> & Partial<Pick<EmailTemplate, 'id' | 'teamId' | 'trackingEnabled'>>;
+
+interface EmailTemplateEditorProps {
+  initial: EmailTemplateDraft;
+  teams: TemplateTeam[];
+  cards: BusinessCard[];
+  events: NetworkingEvent[];
+  settings: EmailSettings;
+  onSave: (template: EmailTemplateDraft) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function EmailTemplateEditor({ initial, teams, cards, events, settings, onSave, onCancel }: EmailTemplateEditorProps) {
+  const [draft, setDraft] = useState<EmailTemplateDraft>(initial);
+  const [previewCardId, setPreviewCardId] = useState(cards[0]?.id || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const issues = useMemo(() => validateTemplate(draft), [draft]);
+
+  const preview = useMemo(() => {
+    const card = cards.find(c => c.id === previewCardId);
+    if (!card) return null;
+    const event = events.find(e => e.id === card.eventId);
+    return renderEmail(draft, buildTemplateContext(card, settings, event));
+  }, [draft, cards, events, settings, previewCardId]);
+
+  // カーソル位置に変数を挿入する
+  const insertVariable = (name: string) => {
+    const textarea = bodyRef.current;
+    const tag = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + tag + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!draft.name.trim() || !draft.subject.trim() || !draft.body.trim()) {
+      setError('テンプレート名・件名・本文を入力してください');
+      return;
+    }
+    if (issues.length > 0) {
+      setError('テンプレートの誤りを直してください');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave({ ...draft, name: draft.name.trim() });
+    } catch (error: any) {
+      setError(error.message || '保存に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white';
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">テンプレート名 *</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClassName}
+              placeholder="例: 展示会のお礼"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">共有</label>
+            <select
+              value={draft.teamId || ''}
+              onChange={(e) => setDraft({ ...draft, teamId: e.target.value || undefined })}
+              className={inputClassName}
+              disabled={!!draft.id}
+              title={draft.id ? '共有先は作成時にだけ選べます' : undefined}
+            >
+              <option value="">自分だけ</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>チーム: {team.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">件名 *</label>
+          <input
+            type="text"
+            value={draft.subject}
+            onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            className={inputClassName}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">本文 *</label>
+          <textarea
+            ref={bodyRef}
+            value={draft.body}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            className={`${inputClassName} font-mono text-sm`}
+            rows={14}
+            required
+          />
+          <div className="mt-2 flex flex-wrap gap-1">
+            {TEMPLATE_VARIABLES.map(variable => (
+              <button
+                key={variable.name}
+                type="button"
+                onClick={() => insertVariable(variable.name)}
+                className={`text-xs px-2 py-1 rounded ${variable.group === 'recipient' ? 'bg-blue-900 text-blue-200' : 'bg-gray-700 text-gray-300'} hover:opacity-80`}
+                title={`{{${variable.name}}}`}
+              >
+                {variable.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            {'{{title | "ご担当者"}}'} で値がないときの文字、{'{{#if event}}…{{else}}…{{/if}}'} で値の有無による出し分けができます
+          </p>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.trackingEnabled === true}
+            onChange={(e) => setDraft({ ...draft, trackingEnabled: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            開封・クリックを計測する
+            <span className="block text-xs text-gray-500">計測用の画像とリンクをメールに入れます。個人的な内容のメールなど、相手の行動を記録したくない場合は選ばないでください</span>
+          </span>
+        </label>
+
+        {issues.length > 0 && (
+          <ul className="text-sm text-red-300 bg-red-900/30 rounded-lg p-3 space-y-1">
+            {issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+          </ul>
+        )}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:bg-gray-600"
+          >
+            {isSaving ? '保存中...' : '保存'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-gray-700 text-white rounded-lg py-2 px-4 hover:bg-gray-600"
+          >
+            キャンセル
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <label className="text-sm font-medium text-gray-300 flex-shrink-0">プレビュー</label>
+          <select
+            value={previewCardId}
+            onChange={(e) => setPreviewCardId(e.target.value)}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg py-1 px-2 text-sm text-white"
+          >
+            {cards.map(card => (
+              <option key={card.id} value={card.id}>
+                {card.name}{card.companyName && `（${card.companyName}）`}
+              </option>
+            ))}
+          </select>
+        </div>
+        {preview ? (
+          <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+            <p className="text-sm text-gray-400 mb-1">件名</p>
+            <p className="text-white font-medium mb-4">{preview.subject}</p>
+            <p className="text-sm text-gray-400 mb-1">本文</p>
+            <pre className="text-gray-200 text-sm whitespace-pre-wrap font-sans">{preview.body}</pre>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">プレビューに使う名刺がありません</p>
+        )}
+      </div>
+    </form>
+  );
+}
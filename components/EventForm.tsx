@@ -0,0 +1,128 @@
+/**
+ * Form for creating or editing an event (name, dates, venue)
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { NetworkingEvent } from '@/types';
+
+interface EventFormProps {
+  initial: NetworkingEvent;
+  submitLabel: string;
+  onSave: (event: NetworkingEvent) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export function EventForm({ initial, submitLabel, onSave, onCancel }: EventFormProps) {
+  const [draft, setDraft] = useState<NetworkingEvent>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!draft.name.trim() || !draft.date) {
+      setError('イベント名と開始日を入力してください');
+      return;
+    }
+    if (draft.endDate && draft.endDate < draft.date) {
+      setError('最終日は開始日以降にしてください');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSave({
+        ...draft,
+        name: draft.name.trim(),
+        venue: draft.venue?.trim() || '',
+        notes: draft.notes?.trim() || '',
+        endDate: draft.endDate && draft.endDate !== draft.date ? draft.endDate : ''
+      });
+    } catch (error: any) {
+      setError(error.message || '保存に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-4 text-white';
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">イベント名 *</label>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className={inputClassName}
+          placeholder="例: Japan IT Week 春"
+          required
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">開始日 *</label>
+          <input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">最終日（複数日の場合）</label>
+          <input
+            type="date"
+            value={draft.endDate || ''}
+            min={draft.date}
+            onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">会場</label>
+        <input
+          type="text"
+          value={draft.venue || ''}
+          onChange={(e) => setDraft({ ...draft, venue: e.target.value })}
+          className={inputClassName}
+          placeholder="例: 東京ビッグサイト"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-1">メモ</label>
+        <textarea
+          value={draft.notes || ''}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          className={inputClassName}
+          rows={3}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSaving}
+            className="bg-gray-600 text-white rounded-lg py-2 px-4 hover:bg-gray-700 disabled:opacity-50"
+          >
+            キャンセル
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-blue-600 text-white rounded-lg py-2 px-4 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? '保存中...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
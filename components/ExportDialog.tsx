@@ -9,19 +9,35 @@ import { BusinessCard } from '@/types';
 import { exportCards, ExportFormat, createBackup } from '@/lib/export/dataExport';
 import { useFocusTrap, useAnnounce } from '@/hooks/useAccessibility';
 
+// Saved search whose matching cards can be exported instead of all cards
+export interface ExportCollection {
+  id: string;
+  name: string;
+  cards: BusinessCard[];
+}
+
 interface ExportDialogProps {
   cards: BusinessCard[];
+  collections?: ExportCollection[];
+  initialCollectionId?: string;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function ExportDialog({ cards, isOpen, onClose }: ExportDialogProps) {
+export function ExportDialog({ cards: allCards, collections = [], initialCollectionId, isOpen, onClose }: ExportDialogProps) {
+  const [collectionId, setCollectionId] = useState('');
   const [isExporting, setIsExporting] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>(ExportFormat.JSON);
   const [error, setError] = useState<string | null>(null);
   const containerRef = useFocusTrap(isOpen);
   const { announce } = useAnnounce();
 
+  useEffect(() => {
+    if (isOpen) setCollectionId(initialCollectionId || '');
+  }, [isOpen, initialCollectionId]);
+
+  const cards = collections.find(collection => collection.id === collectionId)?.cards || allCards;
+
   const handleExport = async () => {
     try {
       setIsExporting(true);
@@ -47,7 +63,7 @@ export function ExportDialog({ cards, isOpen, onClose }: ExportDialogProps) {
       setIsExporting(true);
       setError(null);
       
-      const backup = await createBackup(cards);
+      const backup = await createBackup(allCards);
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
       const filename = `business-cards-backup-${timestamp}.json`;
       
@@ -143,6 +159,24 @@ export function ExportDialog({ cards, isOpen, onClose }: ExportDialogProps) {
         </div>
 
         <div className="mb-6">
+          {collections.length > 0 && (
+            <label className="block mb-3">
+              <span className="text-gray-400 text-sm">エクスポートする名刺</span>
+              <select
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                className="w-full mt-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">すべての名刺（{allCards.length}件）</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}（{collection.cards.length}件）
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
           <p className="text-gray-300 mb-4">
             {cards.length}件の名刺データをエクスポートします
           </p>
@@ -196,7 +230,7 @@ export function ExportDialog({ cards, isOpen, onClose }: ExportDialogProps) {
           
           <button
             onClick={handleExport}
-            disabled={isExporting}
+            disabled={isExporting || cards.length === 0}
             className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
             aria-label={`${selectedFormat}形式でエクスポート`}
             aria-busy={isExporting}
@@ -0,0 +1,26 @@
+/**
+ * Text with search matches highlighted (width/kana-insensitive)
+ */
+'use client';
+
+import React, { useMemo } from 'react';
+import { highlightSegments } from '@/lib/search/highlight';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  const segments = useMemo(() => highlightSegments(text, terms), [text, terms]);
+
+  return (
+    <>
+      {segments.map((segment, index) => segment.highlighted ? (
+        <mark key={index} className="bg-yellow-500 bg-opacity-40 text-inherit rounded-sm">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
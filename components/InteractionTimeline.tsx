@@ -0,0 +1,350 @@
+/**
+ * Timeline of meetings, calls, sent emails and notes with a contact, kept apart from the card memo
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+import { BusinessCard, Interaction, InteractionType } from '@/types';
+import { listCards } from '@/lib/firebase/cardRepository';
+import {
+  createInteraction,
+  deleteInteraction,
+  listCardInteractions,
+  updateInteraction
+} from '@/lib/firebase/interactionRepository';
+import { INTERACTION_TYPE_LABELS, participantLabel, sortInteractions } from '@/lib/interactions';
+import { describeEngagement } from '@/lib/email/status';
+import { toDateString } from '@/lib/tasks';
+
+interface InteractionTimelineProps {
+  userId: string;
+  card: BusinessCard;
+}
+
+interface InteractionForm {
+  type: InteractionType;
+  date: string;
+  title: string;
+  notes: string;
+  cardIds: string[]; // この名刺以外の同席者の名刺
+  participants: string[];
+}
+
+const emptyForm = (): InteractionForm => ({
+  type: 'meeting',
+  date: toDateString(),
+  title: '',
+  notes: '',
+  cardIds: [],
+  participants: []
+});
+
+export function InteractionTimeline({ userId, card }: InteractionTimelineProps) {
+  const [interactions, setInteractions] = useState<Interaction[]>([]);
+  const [allCards, setAllCards] = useState<BusinessCard[]>([]);
+  const [form, setForm] = useState<InteractionForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [participantInput, setParticipantInput] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [loaded, cards] = await Promise.all([
+          listCardInteractions(userId, card.id!),
+          listCards(userId)
+        ]);
+        if (cancelled) return;
+        setInteractions(loaded);
+        setAllCards(cards);
+      } catch (error) {
+        console.error('やりとりの取得エラー:', error);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, card.id]);
+
+  const cardsById = useMemo(() => new Map(allCards.map(other => [other.id!, other])), [allCards]);
+  // 同席者の選択肢（同じ会社の名刺を先に並べる）
+  const participantOptions = useMemo(() => allCards
+    .filter(other => other.id !== card.id)
+    .sort((a, b) => Number(b.companyName === card.companyName) - Number(a.companyName === card.companyName)),
+  [allCards, card.id, card.companyName]);
+
+  const runUpdate = async (update: () => Promise<void>) => {
+    try {
+      setIsUpdating(true);
+      await update();
+    } catch (error) {
+      console.error('やりとりの更新エラー:', error);
+      alert('やりとりの保存に失敗しました。');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const openForm = (interaction?: Interaction) => {
+    setEditingId(interaction?.id || null);
+    setParticipantInput('');
+    setForm(interaction ? {
+      type: interaction.type,
+      date: interaction.date,
+      title: interaction.title,
+      notes: interaction.notes || '',
+      cardIds: interaction.cardIds.filter(id => id !== card.id),
+      participants: interaction.participants || []
+    } : emptyForm());
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  // 名刺の表記と一致すれば名刺で、一致しなければ名前で同席者に加える
+  const addParticipant = () => {
+    if (!form) return;
+    const value = participantInput.trim();
+    if (!value) return;
+    const matched = participantOptions.find(other => participantLabel(other) === value);
+    if (matched) {
+      if (!form.cardIds.includes(matched.id!)) setForm({ ...form, cardIds: [...form.cardIds, matched.id!] });
+    } else if (!form.participants.includes(value)) {
+      setForm({ ...form, participants: [...form.participants, value] });
+    }
+    setParticipantInput('');
+  };
+
+  const handleSave = () => {
+    if (!form || !form.title.trim() || !form.date) return;
+    const data = {
+      type: form.type,
+      date: form.date,
+      title: form.title.trim(),
+      notes: form.notes.trim() || undefined,
+      cardIds: [card.id!, ...form.cardIds],
+      participants: form.participants.length > 0 ? form.participants : undefined
+    };
+
+    runUpdate(async () => {
+      if (editingId) {
+        await updateInteraction(userId, editingId, data);
+        setInteractions(prev => sortInteractions(prev.map(item => item.id === editingId ? { ...item, ...data } : item)));
+      } else {
+        const created = await createInteraction(userId, data);
+        setInteractions(prev => sortInteractions([created, ...prev]));
+      }
+      closeForm();
+    });
+  };
+
+  const handleDelete = (interaction: Interaction) => {
+    if (!confirm(`「${interaction.title}」の記録を削除しますか？`)) return;
+    runUpdate(async () => {
+      await deleteInteraction(userId, interaction.id!);
+      setInteractions(prev => prev.filter(item => item.id !== interaction.id));
+    });
+  };
+
+  const renderParticipants = (interaction: Interaction) => {
+    const others = interaction.cardIds.filter(id => id !== card.id);
+    if (others.length === 0 && !interaction.participants?.length) return null;
+    return (
+      <p className="text-xs text-gray-400 mt-1">
+        同席:{' '}
+        {others.map(id => {
+          const other = cardsById.get(id);
+          return other ? (
+            <Link key={id} href={`/card/${id}`} className="text-blue-400 hover:underline mr-2">{participantLabel(other)}</Link>
+          ) : null;
+        })}
+        {interaction.participants?.join('、')}
+      </p>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold text-gray-400">やりとりの記録</h4>
+        {!form && (
+          <button
+            onClick={() => openForm()}
+            className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+          >
+            <Plus size={14} />
+            記録する
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="bg-gray-900 rounded-lg p-3 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as InteractionType })}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-white text-sm"
+              aria-label="種類"
+            >
+              {(Object.keys(INTERACTION_TYPE_LABELS) as InteractionType[]).map(key => (
+                <option key={key} value={key}>{INTERACTION_TYPE_LABELS[key]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-white text-sm"
+              aria-label="日付"
+            />
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder={form.type === 'event' ? 'イベント名' : '件名'}
+              className="flex-1 min-w-[10rem] bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+            />
+          </div>
+          <textarea
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="内容"
+            rows={3}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+          />
+          <div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                list={`participants-${card.id}`}
+                value={participantInput}
+                onChange={(e) => setParticipantInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addParticipant();
+                  }
+                }}
+                placeholder="同席者（名刺から選択、または名前を入力）"
+                className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+              />
+              <datalist id={`participants-${card.id}`}>
+                {participantOptions.map(other => (
+                  <option key={other.id} value={participantLabel(other)} />
+                ))}
+              </datalist>
+              <button
+                onClick={addParticipant}
+                disabled={!participantInput.trim()}
+                className="bg-gray-700 text-white text-sm px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50"
+              >
+                追加
+              </button>
+            </div>
+            {(form.cardIds.length > 0 || form.participants.length > 0) && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {form.cardIds.map(id => (
+                  <span key={id} className="bg-blue-900 text-blue-100 text-xs px-2 py-1 rounded-full flex items-center gap-1">
+                    {cardsById.get(id) ? participantLabel(cardsById.get(id)!) : '削除された名刺'}
+                    <button
+                      onClick={() => setForm({ ...form, cardIds: form.cardIds.filter(other => other !== id) })}
+                      aria-label="同席者から外す"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+                {form.participants.map(name => (
+                  <span key={name} className="bg-gray-700 text-gray-200 text-xs px-2 py-1 rounded-full flex items-center gap-1">
+                    {name}
+                    <button
+                      onClick={() => setForm({ ...form, participants: form.participants.filter(other => other !== name) })}
+                      aria-label={`${name}を同席者から外す`}
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={closeForm}
+              disabled={isUpdating}
+              className="text-sm text-gray-400 hover:text-white px-3 py-2 disabled:opacity-50"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isUpdating || !form.title.trim() || !form.date}
+              className="bg-blue-600 text-white text-sm px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {editingId ? '更新' : '記録'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {interactions.length === 0 ? (
+        !form && <p className="text-sm text-gray-500">記録はありません</p>
+      ) : (
+        <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+          {interactions.map(interaction => (
+            <li key={interaction.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${interaction.type === 'email' ? 'bg-green-500' : 'bg-blue-500'}`} />
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs text-gray-500">
+                    {interaction.date} ・ {INTERACTION_TYPE_LABELS[interaction.type]}
+                    {interaction.source === 'email' && <span className="ml-2 text-gray-600">自動記録</span>}
+                  </p>
+                  <p className="text-white break-words">{interaction.title}</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => openForm(interaction)}
+                    disabled={isUpdating}
+                    className="text-gray-500 hover:text-white disabled:opacity-50"
+                    aria-label={`${interaction.title}を編集`}
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(interaction)}
+                    disabled={isUpdating}
+                    className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+                    aria-label={`${interaction.title}を削除`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              {describeEngagement(interaction.engagement) && (
+                <p className="text-xs text-blue-300 mt-1">
+                  {interaction.campaignId ? (
+                    <Link href={`/email/campaigns/${interaction.campaignId}`} className="hover:underline">
+                      {describeEngagement(interaction.engagement)}
+                    </Link>
+                  ) : describeEngagement(interaction.engagement)}
+                </p>
+              )}
+              {interaction.notes && <p className="text-sm text-gray-300 whitespace-pre-wrap mt-1">{interaction.notes}</p>}
+              {renderParticipants(interaction)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
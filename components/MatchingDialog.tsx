@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { X, Users, TrendingUp, Building, Loader2 } from 'lucide-react';
 import { BusinessCard } from '@/types';
+import { fetchWithAuth } from '@/lib/security/authFetch';
 
 interface MatchingResult {
   id: string;
@@ -53,7 +54,7 @@ export function MatchingDialog({ isOpen, onClose, sourceCard, allCards }: Matchi
         return;
       }
 
-      const response = await fetch('/api/matching', {
+      const response = await fetchWithAuth('/api/matching', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -0,0 +1,192 @@
+/**
+ * Field-by-field merge dialog for duplicate business cards
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { BusinessCard } from '@/types';
+import { OptimizedImage } from '@/components/OptimizedImage';
+import { cardImageSrc } from '@/lib/firebase/cardImages';
+import { formatAddress } from '@/lib/address';
+import {
+  MERGE_CHOICE_FIELDS,
+  MergeChoiceField,
+  MergeChoices,
+  defaultMergeChoices,
+  hasMergeValue,
+  mergeCardValues
+} from '@/lib/duplicates';
+import { useFocusTrap } from '@/hooks/useAccessibility';
+
+interface MergeDialogProps {
+  isOpen: boolean;
+  // Cards without an id (an unsaved draft) are merged into a saved card and cannot be kept as the primary
+  cards: BusinessCard[];
+  onClose: () => void;
+  onMerge: (primary: BusinessCard, others: BusinessCard[], values: Partial<BusinessCard>) => Promise<void>;
+}
+
+const displayValue = (card: BusinessCard, field: MergeChoiceField): string => {
+  if (!hasMergeValue(card, field)) return '（なし）';
+  if (field === 'address') return formatAddress(card.address!);
+  if (field === 'name') return card.romanizedName ? `${card.name}（${card.romanizedName}）` : card.name;
+  return String(card[field]);
+};
+
+const thumbnail = (card: BusinessCard) => cardImageSrc(card.images?.front, 'small') || card.frontImageBase64;
+
+export function MergeDialog({ isOpen, cards, onClose, onMerge }: MergeDialogProps) {
+  const [primaryIndex, setPrimaryIndex] = useState(0);
+  const [choices, setChoices] = useState<MergeChoices>(() => defaultMergeChoices(cards));
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useFocusTrap(isOpen);
+
+  // Reset selections whenever a different set of cards is opened
+  useEffect(() => {
+    if (!isOpen) return;
+    const firstSaved = Math.max(0, cards.findIndex(card => card.id));
+    setPrimaryIndex(firstSaved);
+    setChoices(defaultMergeChoices(cards, firstSaved));
+    setError(null);
+  }, [isOpen, cards]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !isMerging) onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, isMerging, onClose]);
+
+  if (!isOpen || cards.length < 2) return null;
+
+  const handleMerge = async () => {
+    try {
+      setIsMerging(true);
+      setError(null);
+      const values = mergeCardValues(cards, choices);
+      await onMerge(cards[primaryIndex], cards.filter((_, i) => i !== primaryIndex), values);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || '統合に失敗しました');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="merge-dialog-title"
+    >
+      <div
+        ref={containerRef}
+        className="bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] flex flex-col"
+        role="document"
+      >
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div>
+            <h2 id="merge-dialog-title" className="text-xl font-bold text-white">名刺を統合</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              残す値を項目ごとに選んでください。メールアドレス・電話番号・URL・タグはすべて残り、統合される名刺の画像と内容は履歴として保存されます。
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isMerging}
+            className="text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+            aria-label="ダイアログを閉じる"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="w-24" />
+                {cards.map((card, index) => (
+                  <th key={card.id || `draft-${index}`} className="p-2 text-left align-top font-normal">
+                    {thumbnail(card) && (
+                      <OptimizedImage
+                        src={thumbnail(card)!}
+                        alt={`${card.name}の名刺`}
+                        className="w-32 h-20 object-cover rounded mb-2"
+                        priority
+                      />
+                    )}
+                    <label className={`flex items-center gap-2 ${card.id ? 'text-white' : 'text-gray-500'}`}>
+                      <input
+                        type="radio"
+                        name="merge-primary"
+                        checked={primaryIndex === index}
+                        disabled={!card.id}
+                        onChange={() => setPrimaryIndex(index)}
+                      />
+                      {card.id ? '残す名刺' : '新しい名刺'}
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      登録日: {card.createdAt ? new Date(card.createdAt).toLocaleDateString('ja-JP') : '未保存'}
+                    </p>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MERGE_CHOICE_FIELDS.map(({ field, label }) => (
+                <tr key={field} className="border-t border-gray-700">
+                  <th className="p-2 text-left text-gray-400 font-medium align-top">{label}</th>
+                  {cards.map((card, index) => (
+                    <td key={card.id || `draft-${index}`} className="p-2 align-top">
+                      <label className={`flex items-start gap-2 ${hasMergeValue(card, field) ? 'text-gray-200' : 'text-gray-500'}`}>
+                        <input
+                          type="radio"
+                          name={`merge-${field}`}
+                          checked={choices[field] === index}
+                          disabled={!hasMergeValue(card, field)}
+                          onChange={() => setChoices(prev => ({ ...prev, [field]: index }))}
+                          className="mt-1"
+                        />
+                        <span className="whitespace-pre-wrap line-clamp-4">{displayValue(card, field)}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {error && (
+          <div className="mx-6 mb-4 p-3 bg-red-900 border border-red-600 rounded-lg">
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end p-6 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            disabled={isMerging}
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isMerging}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+            aria-busy={isMerging}
+          >
+            <GitMerge size={18} />
+            {isMerging ? '統合中...' : '統合する'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -31,9 +31,10 @@ export function OptimizedImage({
   placeholder = 'empty',
   blurDataURL,
 }: OptimizedImageProps) {
+  // src may be a URL or a Storage path; the hook resolves it when the image is needed
   const { imgRef, imgSrc, isLoaded, isError } = useLazyImage(
-    priority ? src : undefined,
-    { onLoad, onError }
+    src,
+    { onLoad, onError, eager: priority }
   );
 
   const [shouldLoad, setShouldLoad] = useState(priority);
@@ -47,7 +48,7 @@ export function OptimizedImage({
   }, [priority]);
 
   // Use lazy loading for non-priority images
-  const imageSrc = priority ? src : (shouldLoad ? imgSrc : undefined);
+  const imageSrc = shouldLoad ? imgSrc : undefined;
 
   return (
     <div className={`relative ${className}`} style={{ width, height }}>
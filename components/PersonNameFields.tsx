@@ -0,0 +1,84 @@
+/**
+ * Structured name inputs (family/given name, furigana and romanized name)
+ */
+'use client';
+
+import React from 'react';
+import { PersonNameFields as PersonNameValue, splitPersonName } from '@/lib/names';
+
+interface PersonNameFieldsProps {
+  value: PersonNameValue;
+  onChange: (updates: Partial<PersonNameValue>) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-lg py-2 px-3 text-white text-sm';
+
+export function PersonNameFields({ value, onChange }: PersonNameFieldsProps) {
+  // Fill family/given name from the full name when the user has not split it yet
+  const handleSplit = () => {
+    const parts = splitPersonName(value.name);
+    if (parts) {
+      onChange(parts);
+    } else {
+      alert('氏名を姓と名に分けられませんでした。姓と名の間にスペースを入れるか、直接入力してください。');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">姓名・ふりがな</span>
+        <button
+          type="button"
+          onClick={handleSplit}
+          disabled={!value.name}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          氏名から姓名を入力
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={value.familyName || ''}
+          onChange={(e) => onChange({ familyName: e.target.value })}
+          className={inputClassName}
+          placeholder="姓（山田）"
+          aria-label="姓"
+        />
+        <input
+          type="text"
+          value={value.givenName || ''}
+          onChange={(e) => onChange({ givenName: e.target.value })}
+          className={inputClassName}
+          placeholder="名（太郎）"
+          aria-label="名"
+        />
+        <input
+          type="text"
+          value={value.familyNameKana || ''}
+          onChange={(e) => onChange({ familyNameKana: e.target.value })}
+          className={inputClassName}
+          placeholder="せい（やまだ）"
+          aria-label="姓のふりがな"
+        />
+        <input
+          type="text"
+          value={value.givenNameKana || ''}
+          onChange={(e) => onChange({ givenNameKana: e.target.value })}
+          className={inputClassName}
+          placeholder="めい（たろう）"
+          aria-label="名のふりがな"
+        />
+      </div>
+      <input
+        type="text"
+        value={value.romanizedName || ''}
+        onChange={(e) => onChange({ romanizedName: e.target.value })}
+        className={inputClassName}
+        placeholder="ローマ字・英語表記（Taro Yamada）"
+        aria-label="ローマ字・英語表記"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Typed phone number inputs (office / mobile / fax / direct / toll-free)
+ */
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { PhoneEntry, PhoneType } from '@/types';
+import { PHONE_TYPES, PHONE_TYPE_LABELS } from '@/lib/phone';
+
+interface PhoneEntriesInputProps {
+  entries: PhoneEntry[];
+  onChange: (entries: PhoneEntry[]) => void;
+  maxEntries?: number;
+  borderClassName?: string;
+  onFocus?: () => void;
+  onBlur?: () => void;
+}
+
+export function PhoneEntriesInput({
+  entries,
+  onChange,
+  maxEntries = 6,
+  borderClassName = 'border-gray-600',
+  onFocus,
+  onBlur
+}: PhoneEntriesInputProps) {
+  const updateEntry = (index: number, updates: Partial<PhoneEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)));
+  };
+
+  const addEntry = () => {
+    if (entries.length >= maxEntries) {
+      alert(`最大${maxEntries}個まで登録できます。`);
+      return;
+    }
+    onChange([...entries, { type: 'office', number: '' }]);
+  };
+
+  return (
+    <div>
+      {entries.map((entry, index) => (
+        <div key={index} className="flex gap-2 mb-2">
+          <select
+            value={entry.type}
+            onChange={(e) => updateEntry(index, { type: e.target.value as PhoneType })}
+            className={`bg-gray-700 border ${borderClassName} rounded-lg py-2 px-2 text-white text-sm`}
+            aria-label="電話番号の種類"
+          >
+            {PHONE_TYPES.map(type => (
+              <option key={type} value={type}>{PHONE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="tel"
+            value={entry.number}
+            onChange={(e) => updateEntry(index, { number: e.target.value })}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            className={`flex-1 min-w-0 bg-gray-700 border ${borderClassName} rounded-lg py-2 px-4 text-white`}
+            placeholder="03-1234-5678"
+          />
+          <input
+            type="text"
+            inputMode="numeric"
+            value={entry.extension || ''}
+            onChange={(e) => updateEntry(index, { extension: e.target.value })}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            className={`w-20 bg-gray-700 border ${borderClassName} rounded-lg py-2 px-2 text-white text-sm`}
+            placeholder="内線"
+            aria-label="内線番号"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(entries.filter((_, i) => i !== index))}
+            className="text-red-400 hover:text-red-300 px-2"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      ))}
+      {entries.length < maxEntries && (
+        <button
+          type="button"
+          onClick={addEntry}
+          className="text-sm text-blue-400 hover:text-blue-300"
+        >
+          + 電話番号を追加
+        </button>
+      )}
+    </div>
+  );
+}
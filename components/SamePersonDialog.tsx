@@ -0,0 +1,80 @@
+/**
+ * Prompt shown after saving a card whose name matches contacts at other companies
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { Link2, UserCheck } from 'lucide-react';
+import { BusinessCard } from '@/types';
+import { useFocusTrap } from '@/hooks/useAccessibility';
+
+interface SamePersonDialogProps {
+  candidates: BusinessCard[];
+  onLink: (candidate: BusinessCard) => Promise<void>;
+  onSkip: () => void;
+}
+
+export function SamePersonDialog({ candidates, onLink, onSkip }: SamePersonDialogProps) {
+  const [isLinking, setIsLinking] = useState(false);
+  const containerRef = useFocusTrap(candidates.length > 0);
+
+  if (candidates.length === 0) return null;
+
+  const handleLink = async (candidate: BusinessCard) => {
+    try {
+      setIsLinking(true);
+      await onLink(candidate);
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="same-person-dialog-title"
+    >
+      <div ref={containerRef} className="bg-gray-800 rounded-lg max-w-lg w-full p-6" role="document">
+        <div className="flex items-center gap-3 mb-4">
+          <UserCheck className="text-blue-400" size={24} />
+          <h2 id="same-person-dialog-title" className="text-xl font-bold text-white">同じ人の名刺ですか？</h2>
+        </div>
+        <p className="text-gray-300 text-sm mb-4">
+          同じ氏名の名刺が登録されています。転職・異動した同じ人であればリンクすると、詳細画面に経歴として表示されます。
+        </p>
+
+        <ul className="space-y-2 mb-6 max-h-72 overflow-y-auto">
+          {candidates.map(candidate => (
+            <li key={candidate.id} className="bg-gray-900 border border-gray-700 rounded-lg p-3 flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">{candidate.name}</p>
+                <p className="text-gray-400 text-sm truncate">{[candidate.companyName, candidate.title].filter(Boolean).join(' ')}</p>
+                {candidate.exchangeDate && <p className="text-gray-500 text-xs mt-1">交換日: {candidate.exchangeDate}</p>}
+              </div>
+              <button
+                onClick={() => handleLink(candidate)}
+                disabled={isLinking}
+                className="shrink-0 bg-blue-600 text-white text-sm px-3 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-1"
+              >
+                <Link2 size={16} />
+                同じ人
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onSkip}
+            disabled={isLinking}
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            別の人
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
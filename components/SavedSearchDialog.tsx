@@ -0,0 +1,252 @@
+/**
+ * Editor for a saved search (smart collection) definition
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { NetworkingEvent, SavedSearch, SavedSearchEmailStatus } from '@/types';
+import { EMAIL_STATUS_LABELS } from '@/lib/savedSearch';
+import { eventLabel } from '@/lib/events';
+import { useFocusTrap } from '@/hooks/useAccessibility';
+
+interface SavedSearchDialogProps {
+  search: SavedSearch | null; // nullの場合は閉じている
+  allTags: string[];
+  events: NetworkingEvent[];
+  onSave: (search: SavedSearch) => Promise<void>;
+  onDelete: (search: SavedSearch) => Promise<void>;
+  onClose: () => void;
+}
+
+export function SavedSearchDialog({ search, allTags, events, onSave, onDelete, onClose }: SavedSearchDialogProps) {
+  const [draft, setDraft] = useState<SavedSearch>({ name: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useFocusTrap(search !== null);
+
+  useEffect(() => {
+    if (search) {
+      setDraft({ ...search, tags: search.tags || [] });
+      setError(null);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (search) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [search, onClose]);
+
+  if (!search) return null;
+
+  // 保存後に使われなくなったタグも外せるように表示する
+  const tagOptions = Array.from(new Set([...allTags, ...(draft.tags || [])]));
+
+  const toggleTag = (tag: string) => {
+    const tags = draft.tags || [];
+    setDraft({ ...draft, tags: tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag] });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      onClose();
+    } catch (error: any) {
+      setError(error.message || '保存に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError('名前を入力してください');
+      return;
+    }
+    if (draft.exchangeDateFrom && draft.exchangeDateTo && draft.exchangeDateFrom > draft.exchangeDateTo) {
+      setError('交換日の範囲が正しくありません');
+      return;
+    }
+    run(() => onSave({ ...draft, name: draft.name.trim(), query: draft.query?.trim() || '' }));
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`「${search.name}」を削除しますか？（名刺は削除されません）`)) return;
+    run(() => onDelete(search));
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="saved-search-dialog-title"
+    >
+      <div ref={containerRef} className="bg-gray-800 rounded-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto" role="document">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="saved-search-dialog-title" className="text-xl font-bold text-white">
+            {search.id ? 'コレクションを編集' : 'コレクションを保存'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+            aria-label="ダイアログを閉じる"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-sm text-gray-300">名前</span>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="例: 先月の展示会・AI関連・未フォロー"
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm text-gray-300">検索語</span>
+            <input
+              type="text"
+              value={draft.query || ''}
+              onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+              placeholder="例: 展示会 title:部長"
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm text-gray-300">会社名</span>
+            <input
+              type="text"
+              value={draft.companyName || ''}
+              onChange={(e) => setDraft({ ...draft, companyName: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+
+          <div>
+            <span className="text-sm text-gray-300">交換日</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={draft.exchangeDateFrom || ''}
+                onChange={(e) => setDraft({ ...draft, exchangeDateFrom: e.target.value })}
+                className={inputClass}
+                aria-label="交換日（から）"
+              />
+              <span className="text-gray-400">〜</span>
+              <input
+                type="date"
+                value={draft.exchangeDateTo || ''}
+                onChange={(e) => setDraft({ ...draft, exchangeDateTo: e.target.value })}
+                className={inputClass}
+                aria-label="交換日（まで）"
+              />
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-sm text-gray-300">メール</span>
+            <select
+              value={draft.emailStatus || ''}
+              onChange={(e) => setDraft({ ...draft, emailStatus: (e.target.value || '') as SavedSearchEmailStatus })}
+              className={inputClass}
+            >
+              <option value="">指定しない</option>
+              {(Object.keys(EMAIL_STATUS_LABELS) as SavedSearchEmailStatus[]).map(status => (
+                <option key={status} value={status}>{EMAIL_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </label>
+
+          {events.length > 0 && (
+            <label className="block">
+              <span className="text-sm text-gray-300">イベント</span>
+              <select
+                value={draft.eventId || ''}
+                onChange={(e) => setDraft({ ...draft, eventId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">指定しない</option>
+                {events.map(event => (
+                  <option key={event.id} value={event.id}>{eventLabel(event)}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {tagOptions.length > 0 && (
+            <div>
+              <span className="text-sm text-gray-300">タグ（すべてを含む名刺）</span>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {tagOptions.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={draft.tags?.includes(tag)}
+                    className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                      draft.tags?.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-900 border border-red-600 rounded-lg">
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3 mt-6">
+          {search.id ? (
+            <button
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="text-red-400 hover:text-red-300 disabled:opacity-50 flex items-center gap-1 text-sm"
+            >
+              <Trash2 size={16} />
+              削除
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="bg-gray-700 text-white px-4 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {isSaving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Sidebar listing saved searches (smart collections) with live card counts
+ */
+'use client';
+
+import React from 'react';
+import { Layers, Pencil, Plus } from 'lucide-react';
+import { NetworkingEvent, SavedSearch } from '@/types';
+import { describeSavedSearch } from '@/lib/savedSearch';
+
+interface SmartCollectionsProps {
+  searches: SavedSearch[];
+  events: NetworkingEvent[];
+  counts: Map<string, number>;
+  totalCount: number;
+  activeId: string | null;
+  onSelect: (searchId: string | null) => void;
+  onEdit: (search: SavedSearch) => void;
+  onCreate: () => void;
+}
+
+export function SmartCollections({ searches, events, counts, totalCount, activeId, onSelect, onEdit, onCreate }: SmartCollectionsProps) {
+  const itemClass = (active: boolean) =>
+    `flex-1 min-w-0 flex justify-between items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+      active ? 'bg-blue-900 text-white' : 'text-gray-300 hover:bg-gray-700'
+    }`;
+
+  return (
+    <aside className="bg-gray-800 rounded-lg p-3 mb-4 lg:mb-0 lg:w-64 lg:flex-shrink-0 lg:self-start" aria-label="スマートコレクション">
+      <div className="flex justify-between items-center mb-2 px-1">
+        <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-1">
+          <Layers size={16} />
+          スマートコレクション
+        </h2>
+        <button
+          onClick={onCreate}
+          className="text-blue-400 hover:text-blue-300 p-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="現在の検索条件をコレクションとして保存"
+          title="現在の検索条件を保存"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+
+      <ul className="space-y-1">
+        <li className="flex">
+          <button onClick={() => onSelect(null)} className={itemClass(activeId === null)} aria-pressed={activeId === null}>
+            <span className="truncate">すべての名刺</span>
+            <span className="text-xs text-gray-400">{totalCount}</span>
+          </button>
+        </li>
+        {searches.map(search => (
+          <li key={search.id} className="flex items-center gap-1 group">
+            <button
+              onClick={() => onSelect(search.id!)}
+              className={itemClass(activeId === search.id)}
+              aria-pressed={activeId === search.id}
+              title={describeSavedSearch(search, events)}
+            >
+              <span className="truncate">{search.name}</span>
+              <span className="text-xs text-gray-400">{counts.get(search.id!) ?? 0}</span>
+            </button>
+            <button
+              onClick={() => onEdit(search)}
+              className="text-gray-500 hover:text-white p-1 rounded opacity-100 lg:opacity-0 lg:group-hover:opacity-100 focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={`${search.name}を編集`}
+            >
+              <Pencil size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {searches.length === 0 && (
+        <p className="text-xs text-gray-500 px-1 mt-2">
+          よく使う検索条件を＋から保存すると、ここに件数付きで表示されます
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Inline editor for a registered tag: rename, color, parent, keyword rules, merge and delete
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { GitMerge, Save, Trash2 } from 'lucide-react';
+import { TagColor, TagDefinition } from '@/types';
+import { TAG_COLORS, canBeParent, tagPath } from '@/lib/tagging';
+
+interface TagEditorProps {
+  tag: TagDefinition;
+  definitions: TagDefinition[];
+  usage: number;
+  isBusy: boolean;
+  onSave: (tag: TagDefinition, newName: string) => Promise<void>;
+  onMerge: (tag: TagDefinition, target: TagDefinition) => Promise<void>;
+  onDelete: (tag: TagDefinition) => Promise<void>;
+}
+
+const splitKeywords = (value: string) =>
+  Array.from(new Set(value.split(/[,、\n]+/).map(keyword => keyword.trim()).filter(Boolean)));
+
+export function TagEditor({ tag, definitions, usage, isBusy, onSave, onMerge, onDelete }: TagEditorProps) {
+  const [name, setName] = useState(tag.name);
+  const [color, setColor] = useState<TagColor | ''>(tag.color || '');
+  const [parentId, setParentId] = useState(tag.parentId || '');
+  const [keywords, setKeywords] = useState((tag.keywords || []).join(', '));
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const otherTags = definitions.filter(definition => definition.id !== tag.id);
+  const parentOptions = otherTags.filter(definition => canBeParent(tag.id!, definition.id!, definitions));
+  const label = (definition: TagDefinition) => tagPath(definition, definitions).join(' > ');
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert('タグ名を入力してください');
+      return;
+    }
+    const existing = otherTags.find(definition => definition.name === name.trim());
+    if (existing && !confirm(`「${existing.name}」は既にあります。「${tag.name}」を統合しますか？（${usage}件の名刺を書き換えます）`)) {
+      return;
+    }
+    onSave({
+      ...tag,
+      color: color || undefined,
+      parentId: parentId || undefined,
+      keywords: splitKeywords(keywords)
+    }, name.trim());
+  };
+
+  const handleMerge = () => {
+    const target = otherTags.find(definition => definition.id === mergeTargetId);
+    if (!target) return;
+    if (!confirm(`「${tag.name}」を「${target.name}」に統合しますか？（${usage}件の名刺を書き換えます）`)) return;
+    onMerge(tag, target);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`「${tag.name}」を削除しますか？（${usage}件の名刺からタグを外します）`)) return;
+    onDelete(tag);
+  };
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 mt-2 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block">
+          <span className="text-xs text-gray-400">タグ名</span>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">色</span>
+          <select value={color} onChange={(e) => setColor(e.target.value as TagColor | '')} className={inputClass}>
+            <option value="">指定しない</option>
+            {(Object.keys(TAG_COLORS) as TagColor[]).map(key => (
+              <option key={key} value={key}>{TAG_COLORS[key].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-400">親タグ</span>
+          <select value={parentId} onChange={(e) => setParentId(e.target.value)} className={inputClass}>
+            <option value="">なし（最上位）</option>
+            {parentOptions.map(definition => (
+              <option key={definition.id} value={definition.id}>{label(definition)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-xs text-gray-400">自動付与のキーワード（事業内容にいずれかを含む名刺に付けます。カンマ区切り）</span>
+        <textarea value={keywords} onChange={(e) => setKeywords(e.target.value)} rows={2} className={inputClass} />
+      </label>
+
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-2">
+          <select
+            value={mergeTargetId}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+            aria-label="統合先のタグ"
+          >
+            <option value="">統合先を選択...</option>
+            {otherTags.map(definition => (
+              <option key={definition.id} value={definition.id}>{label(definition)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleMerge}
+            disabled={isBusy || !mergeTargetId}
+            className="bg-gray-700 text-white text-sm px-3 py-2 rounded-lg hover:bg-gray-600 disabled:opacity-50 flex items-center gap-1"
+          >
+            <GitMerge size={16} />
+            統合
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDelete}
+            disabled={isBusy}
+            className="text-red-400 hover:text-red-300 disabled:opacity-50 text-sm px-3 py-2 flex items-center gap-1"
+          >
+            <Trash2 size={16} />
+            削除
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isBusy}
+            className="bg-blue-600 text-white text-sm px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Save size={16} />
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Dashboard panel for overdue and today's follow-up tasks, with the calendar feed URL
+ */
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { CalendarPlus, CheckSquare, Copy, ListTodo, RefreshCw, Square } from 'lucide-react';
+import { BusinessCard, Task } from '@/types';
+import { setTaskCompleted } from '@/lib/firebase/taskRepository';
+import { TASK_TYPE_LABELS, groupOpenTasks } from '@/lib/tasks';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+
+interface TasksPanelProps {
+  userId: string;
+  tasks: Task[];
+  cards: BusinessCard[];
+}
+
+export function TasksPanel({ userId, tasks, cards }: TasksPanelProps) {
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(false);
+
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id!, card])), [cards]);
+  // 削除した名刺のタスクは表示しない
+  const groups = useMemo(
+    () => groupOpenTasks(tasks.filter(task => cardsById.has(task.cardId))),
+    [tasks, cardsById]
+  );
+
+  const handleComplete = async (task: Task) => {
+    try {
+      setCompletingId(task.id!);
+      await setTaskCompleted(userId, task.id!, true);
+    } catch (error) {
+      console.error('タスクの更新エラー:', error);
+      alert('タスクの更新に失敗しました。');
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  const requestFeedUrl = async (method: 'GET' | 'POST') => {
+    try {
+      setIsLoadingFeed(true);
+      const response = await fetchWithAuth('/api/tasks/calendar-url', { method });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setFeedUrl(data.url);
+    } catch (error) {
+      console.error('カレンダーURLの取得エラー:', error);
+      alert('カレンダーのURLを取得できませんでした。');
+    } finally {
+      setIsLoadingFeed(false);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!confirm('カレンダーのURLを作り直しますか？\n以前のURLで購読しているカレンダーは更新されなくなります。')) return;
+    requestFeedUrl('POST');
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      alert('URLをコピーしました。カレンダーアプリの「URLで購読」に貼り付けてください。');
+    } catch (error) {
+      console.error('コピーエラー:', error);
+    }
+  };
+
+  const renderTask = (task: Task, overdue: boolean) => {
+    const card = cardsById.get(task.cardId)!;
+    return (
+      <li key={task.id} className="flex items-center gap-3 bg-gray-900 rounded-lg p-2">
+        <button
+          onClick={() => handleComplete(task)}
+          disabled={completingId === task.id}
+          className="flex-shrink-0 text-gray-400 hover:text-green-400 disabled:opacity-50"
+          aria-label={`${task.title}を完了にする`}
+        >
+          {completingId === task.id ? <CheckSquare size={18} /> : <Square size={18} />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">{task.title}</p>
+          <p className={`text-xs truncate ${overdue ? 'text-red-400' : 'text-gray-500'}`}>
+            {TASK_TYPE_LABELS[task.type]} ・ 期日 {task.dueDate} ・{' '}
+            <Link href={`/card/${card.id}`} className="text-blue-400 hover:underline">
+              {card.name}{card.companyName && `（${card.companyName}）`}
+            </Link>
+          </p>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-3 sm:p-4 mb-4" aria-label="タスク">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h2 className="text-sm font-semibold text-gray-400 flex items-center gap-1">
+          <ListTodo size={16} />
+          タスク
+          {groups.upcoming.length > 0 && (
+            <span className="font-normal text-gray-500">（今後 {groups.upcoming.length}件）</span>
+          )}
+        </h2>
+        <button
+          onClick={() => requestFeedUrl('GET')}
+          disabled={isLoadingFeed}
+          className="text-blue-400 hover:text-blue-300 text-xs flex items-center gap-1 disabled:opacity-50"
+        >
+          <CalendarPlus size={14} />
+          カレンダーに登録
+        </button>
+      </div>
+
+      {feedUrl && (
+        <div className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={feedUrl}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-300"
+            aria-label="カレンダー配信URL"
+          />
+          <button onClick={handleCopy} className="text-gray-400 hover:text-white p-1" aria-label="URLをコピー" title="URLをコピー">
+            <Copy size={16} />
+          </button>
+          <button
+            onClick={handleRegenerate}
+            disabled={isLoadingFeed}
+            className="text-gray-400 hover:text-white p-1 disabled:opacity-50"
+            aria-label="URLを作り直す"
+            title="URLを作り直す"
+          >
+            <RefreshCw size={16} />
+          </button>
+        </div>
+      )}
+
+      {groups.overdue.length === 0 && groups.today.length === 0 ? (
+        <p className="text-sm text-gray-500">期限切れ・今日が期日のタスクはありません</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.overdue.length > 0 && (
+            <div>
+              <h3 className="text-xs font-semibold text-red-400 mb-1">期限切れ（{groups.overdue.length}件）</h3>
+              <ul className="space-y-1">{groups.overdue.map(task => renderTask(task, true))}</ul>
+            </div>
+          )}
+          {groups.today.length > 0 && (
+            <div>
+              <h3 className="text-xs font-semibold text-yellow-400 mb-1">今日（{groups.today.length}件）</h3>
+              <ul className="space-y-1">{groups.today.map(task => renderTask(task, false))}</ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Client-side hook for server-side batch jobs (/api/batch)
+ */
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { BatchJob, BatchOperation } from '@/types';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+
+interface BatchJobHookReturn {
+  job: BatchJob | null;
+  isRunning: boolean;
+  error: Error | null;
+  startJob: (operation: BatchOperation, items: Record<string, any>[]) => Promise<BatchJob | null>;
+  clearJob: () => void;
+}
+
+const STORAGE_KEY_PREFIX = 'batchJob_';
+const POLL_INTERVAL_MS = 2000;
+
+const isFinished = (job: BatchJob) => job.status === 'completed' || job.status === 'failed';
+
+const readJobResponse = async (response: Response): Promise<BatchJob> => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || '一括処理に失敗しました');
+  }
+  return data;
+};
+
+/**
+ * Hook to run a batch job to completion
+ * The job id is kept in localStorage so an unfinished job resumes after a page reload
+ */
+export function useBatchJob(
+  userId: string | undefined,
+  onFinished?: (job: BatchJob) => void
+): BatchJobHookReturn {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const storageKey = userId ? `${STORAGE_KEY_PREFIX}${userId}` : null;
+
+  // Keep resuming the job until every item has been processed
+  const driveJob = useCallback(async (initial: BatchJob) => {
+    let current = initial;
+    setJob(current);
+
+    while (!isFinished(current)) {
+      const previousProcessed = current.processed;
+      const response = await fetchWithAuth(`/api/batch/${current.id}`, { method: 'POST' });
+      current = await readJobResponse(response);
+      setJob(current);
+
+      // Another tab may be processing the job; wait instead of retrying immediately
+      if (!isFinished(current) && current.processed === previousProcessed) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+
+    if (storageKey) localStorage.removeItem(storageKey);
+    onFinishedRef.current?.(current);
+    return current;
+  }, [storageKey]);
+
+  const run = useCallback(async (request: () => Promise<BatchJob>) => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const started = await request();
+      if (storageKey) localStorage.setItem(storageKey, started.id);
+      return await driveJob(started);
+    } catch (err) {
+      setError(err as Error);
+      console.error('Batch job failed:', err);
+      return null;
+    } finally {
+      setIsRunning(false);
+    }
+  }, [driveJob, storageKey]);
+
+  const startJob = useCallback((operation: BatchOperation, items: Record<string, any>[]) => {
+    return run(async () => {
+      const response = await fetchWithAuth('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation, items })
+      });
+      return readJobResponse(response);
+    });
+  }, [run]);
+
+  // Resume an unfinished job left over from a previous page load
+  useEffect(() => {
+    if (!storageKey) return;
+
+    const jobId = localStorage.getItem(storageKey);
+    if (!jobId) return;
+
+    run(async () => {
+      const response = await fetchWithAuth(`/api/batch/${jobId}`);
+      if (response.status === 404) {
+        localStorage.removeItem(storageKey);
+      }
+      return readJobResponse(response);
+    });
+  }, [storageKey, run]);
+
+  const clearJob = useCallback(() => {
+    setJob(null);
+    setError(null);
+  }, []);
+
+  return {
+    job,
+    isRunning,
+    error,
+    startJob,
+    clearJob
+  };
+}
@@ -4,6 +4,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { withAuthHeader } from '@/lib/security/authFetch';
 
 interface CSRFHookReturn {
   token: string | null;
@@ -85,7 +86,8 @@ export function useCSRF(): CSRFHookReturn {
       }
     }
     
-    const headers = new Headers(options.headers);
+    // API routes also require the Firebase ID token
+    const headers = await withAuthHeader(options.headers);
     headers.set('x-csrf-token', currentToken || '');
     
     return fetch(url, {
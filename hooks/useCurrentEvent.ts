@@ -0,0 +1,46 @@
+/**
+ * Hook for the "current event" that newly saved cards are stamped with
+ */
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { NetworkingEvent } from '@/types';
+import { setCurrentEvent, watchCurrentEventId, watchEvents } from '@/lib/firebase/eventRepository';
+
+interface CurrentEventHookReturn {
+  events: NetworkingEvent[];
+  currentEvent: NetworkingEvent | null;
+  selectEvent: (eventId: string | null) => Promise<void>;
+}
+
+/**
+ * Watch the user's events and the current event (shared across devices)
+ */
+export function useCurrentEvent(userId: string | undefined): CurrentEventHookReturn {
+  const [events, setEvents] = useState<NetworkingEvent[]>([]);
+  const [currentEventId, setCurrentEventId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribeEvents = watchEvents(userId, setEvents);
+    const unsubscribeCurrent = watchCurrentEventId(userId, setCurrentEventId);
+    return () => {
+      unsubscribeEvents();
+      unsubscribeCurrent();
+    };
+  }, [userId]);
+
+  // A deleted event is treated as unset until the setting catches up
+  const currentEvent = useMemo(
+    () => events.find(event => event.id === currentEventId) || null,
+    [events, currentEventId]
+  );
+
+  const selectEvent = async (eventId: string | null) => {
+    if (!userId) return;
+    await setCurrentEvent(userId, eventId);
+  };
+
+  return { events, currentEvent, selectEvent };
+}
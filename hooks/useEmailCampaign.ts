@@ -0,0 +1,125 @@
+/**
+ * Client-side hook for queued email sends (/api/send-email, /api/email/campaigns/{campaignId})
+ */
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { EmailCampaignProgress } from '@/types/email';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+
+interface EmailCampaignHookReturn {
+  progress: EmailCampaignProgress | null;
+  isSending: boolean;
+  error: Error | null;
+  send: (body: Record<string, any>) => Promise<EmailCampaignProgress | null>;
+  retryFailed: (campaignId: string) => Promise<EmailCampaignProgress | null>;
+}
+
+const STORAGE_KEY_PREFIX = 'emailCampaign_';
+const POLL_INTERVAL_MS = 3000;
+
+const readProgress = async (response: Response): Promise<EmailCampaignProgress> => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'メール送信に失敗しました');
+  }
+  return data;
+};
+
+/**
+ * Hook to send a campaign until no recipient is left in the queue
+ * The campaign id is kept in localStorage so an unfinished send resumes after a page reload
+ */
+export function useEmailCampaign(
+  userId: string | undefined,
+  onFinished?: (progress: EmailCampaignProgress) => void
+): EmailCampaignHookReturn {
+  const [progress, setProgress] = useState<EmailCampaignProgress | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const storageKey = userId ? `${STORAGE_KEY_PREFIX}${userId}` : null;
+
+  // Keep resuming the send while recipients are still queued (scheduled sends are left to the server scheduler)
+  const driveCampaign = useCallback(async (initial: EmailCampaignProgress) => {
+    let current = initial;
+    setProgress(current);
+
+    while (current.pendingCount > 0 && current.campaign.status !== 'scheduled') {
+      const previousPending = current.pendingCount;
+      const response = await fetchWithAuth(`/api/email/campaigns/${current.campaignId}`, { method: 'POST' });
+      current = await readProgress(response);
+      setProgress(current);
+
+      // Another tab may be sending the campaign; poll its status instead of retrying immediately
+      if (current.pendingCount > 0 && current.pendingCount === previousPending) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    }
+
+    if (storageKey) localStorage.removeItem(storageKey);
+    onFinishedRef.current?.(current);
+    return current;
+  }, [storageKey]);
+
+  const run = useCallback(async (request: () => Promise<EmailCampaignProgress>) => {
+    setIsSending(true);
+    setError(null);
+
+    try {
+      const started = await request();
+      if (storageKey) localStorage.setItem(storageKey, started.campaignId);
+      return await driveCampaign(started);
+    } catch (err) {
+      setError(err as Error);
+      console.error('Email campaign failed:', err);
+      return null;
+    } finally {
+      setIsSending(false);
+    }
+  }, [driveCampaign, storageKey]);
+
+  const send = useCallback((body: Record<string, any>) => {
+    return run(async () => {
+      const response = await fetchWithAuth('/api/send-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      return readProgress(response);
+    });
+  }, [run]);
+
+  const retryFailed = useCallback((campaignId: string) => {
+    return run(async () => {
+      const response = await fetchWithAuth(`/api/email/campaigns/${campaignId}/retry`, { method: 'POST' });
+      return readProgress(response);
+    });
+  }, [run]);
+
+  // Resume an unfinished send left over from a previous page load
+  useEffect(() => {
+    if (!storageKey) return;
+
+    const campaignId = localStorage.getItem(storageKey);
+    if (!campaignId) return;
+
+    run(async () => {
+      const response = await fetchWithAuth(`/api/email/campaigns/${campaignId}`);
+      if (response.status === 404) {
+        localStorage.removeItem(storageKey);
+      }
+      return readProgress(response);
+    });
+  }, [storageKey, run]);
+
+  return {
+    progress,
+    isSending,
+    error,
+    send,
+    retryFailed
+  };
+}
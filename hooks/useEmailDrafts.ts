@@ -0,0 +1,83 @@
+/**
+ * Client-side hook for AI-drafted emails (/api/email/draft)
+ */
+'use client';
+
+import { useState, useCallback } from 'react';
+import { EmailDraft, EmailSettings } from '@/types/email';
+import { fetchWithAuth } from '@/lib/security/authFetch';
+
+interface EmailDraftsHookReturn {
+  drafts: Record<string, EmailDraft>;
+  isDrafting: boolean;
+  progress: { done: number; total: number } | null;
+  error: Error | null;
+  generate: (cardIds: string[], settings: EmailSettings, instructions?: string) => Promise<void>;
+  updateDraft: (cardId: string, changes: Partial<Pick<EmailDraft, 'subject' | 'body'>>) => void;
+  clear: () => void;
+}
+
+// Must not exceed MAX_DRAFTS_PER_REQUEST in lib/email/drafting.ts
+const DRAFT_CHUNK_SIZE = 5;
+
+/**
+ * Hook to draft a personalized email per recipient, a few recipients per request
+ * Drafts are kept by card id so they can be reviewed and edited before sending
+ */
+export function useEmailDrafts(): EmailDraftsHookReturn {
+  const [drafts, setDrafts] = useState<Record<string, EmailDraft>>({});
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const generate = useCallback(async (cardIds: string[], settings: EmailSettings, instructions?: string) => {
+    setIsDrafting(true);
+    setError(null);
+    setProgress({ done: 0, total: cardIds.length });
+
+    try {
+      for (let i = 0; i < cardIds.length; i += DRAFT_CHUNK_SIZE) {
+        const response = await fetchWithAuth('/api/email/draft', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cardIds: cardIds.slice(i, i + DRAFT_CHUNK_SIZE), settings, instructions })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'メールの下書きを作成できませんでした');
+        }
+
+        setDrafts(prev => ({
+          ...prev,
+          ...Object.fromEntries((data.drafts as EmailDraft[]).map(draft => [draft.cardId, draft]))
+        }));
+        setProgress({ done: Math.min(i + DRAFT_CHUNK_SIZE, cardIds.length), total: cardIds.length });
+      }
+    } catch (err) {
+      setError(err as Error);
+      console.error('Email drafting failed:', err);
+    } finally {
+      setIsDrafting(false);
+    }
+  }, []);
+
+  const updateDraft = useCallback((cardId: string, changes: Partial<Pick<EmailDraft, 'subject' | 'body'>>) => {
+    setDrafts(prev => prev[cardId] ? { ...prev, [cardId]: { ...prev[cardId], ...changes } } : prev);
+  }, []);
+
+  const clear = useCallback(() => {
+    setDrafts({});
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  return {
+    drafts,
+    isDrafting,
+    progress,
+    error,
+    generate,
+    updateDraft,
+    clear
+  };
+}
@@ -2,16 +2,19 @@
  * Lazy loading hook for images to prevent memory leaks
  */
 import { useEffect, useRef, useState } from 'react';
+import { resolveImageUrl } from '@/lib/firebase/cardImages';
 
 interface LazyImageOptions {
   threshold?: number;
   rootMargin?: string;
+  eager?: boolean; // Load immediately instead of waiting for the image to scroll into view
   onLoad?: () => void;
   onError?: () => void;
 }
 
 /**
  * Hook for lazy loading images with IntersectionObserver
+ * Storage paths (e.g. card thumbnails) are resolved to download URLs only when the image is needed
  */
 export function useLazyImage(
   src: string | undefined,
@@ -27,11 +30,39 @@ export function useLazyImage(
   const [isError, setIsError] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
+  const { threshold = 0.1, rootMargin = '50px', eager = false } = options;
+
+  // Keep the latest callbacks without re-running the effects on every render
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
 
   useEffect(() => {
-    if (!src || !imgRef.current) return;
+    if (!src) return;
+
+    let cancelled = false;
+    setIsLoaded(false);
+    setIsError(false);
+
+    const load = () => {
+      resolveImageUrl(src)
+        .then((url) => {
+          if (!cancelled) setImgSrc(url);
+        })
+        .catch(() => {
+          if (cancelled) return;
+          setIsError(true);
+          callbacksRef.current.onError?.();
+        });
+    };
+
+    if (eager) {
+      load();
+      return () => {
+        cancelled = true;
+      };
+    }
 
-    const { threshold = 0.1, rootMargin = '50px', onLoad, onError } = options;
+    if (!imgRef.current) return;
 
     // Create IntersectionObserver
     observerRef.current = new IntersectionObserver(
@@ -39,7 +70,7 @@ export function useLazyImage(
         entries.forEach((entry) => {
           if (entry.isIntersecting) {
             // Load image when it comes into view
-            setImgSrc(src);
+            load();
             
             // Stop observing once loaded
             if (observerRef.current && entry.target) {
@@ -58,12 +89,13 @@ export function useLazyImage(
 
     // Cleanup
     return () => {
+      cancelled = true;
       if (observerRef.current) {
         observerRef.current.disconnect();
         observerRef.current = null;
       }
     };
-  }, [src, options]);
+  }, [src, eager, threshold, rootMargin]);
 
   useEffect(() => {
     if (!imgSrc) return;
@@ -74,13 +106,13 @@ export function useLazyImage(
     const handleLoad = () => {
       setIsLoaded(true);
       setIsError(false);
-      options.onLoad?.();
+      callbacksRef.current.onLoad?.();
     };
 
     const handleError = () => {
       setIsLoaded(false);
       setIsError(true);
-      options.onError?.();
+      callbacksRef.current.onError?.();
     };
 
     img.addEventListener('load', handleLoad);
@@ -90,7 +122,7 @@ export function useLazyImage(
       img.removeEventListener('load', handleLoad);
       img.removeEventListener('error', handleError);
     };
-  }, [imgSrc, options]);
+  }, [imgSrc]);
 
   return { imgRef, imgSrc, isLoaded, isError };
 }
@@ -0,0 +1,202 @@
+import { PostalAddress } from '@/types';
+import { POSTAL_CODES, PREFECTURES, PREFIX_RANGES, PostalCodeEntry } from '@/lib/address/postalCodes';
+
+/**
+ * 住所の読み取りと補完
+ * 郵便番号・都道府県・市区町村・町域番地・建物名に分けて保存し、
+ * 同梱の郵便番号データで都道府県・市区町村を補完・照合する
+ */
+
+export { PREFECTURES };
+export type { PostalCodeEntry };
+
+export const ADDRESS_FIELDS: (keyof PostalAddress)[] = ['postalCode', 'prefecture', 'city', 'street', 'building'];
+
+export const ADDRESS_FIELD_LABELS: Record<keyof PostalAddress, string> = {
+  postalCode: '郵便番号',
+  prefecture: '都道府県',
+  city: '市区町村',
+  street: '番地',
+  building: '建物名'
+};
+
+// 区を持つ政令指定都市（「横浜市西区」のように区まで市区町村として扱う）
+const DESIGNATED_CITIES = [
+  '札幌市', '仙台市', 'さいたま市', '千葉市', '横浜市', '川崎市', '相模原市', '新潟市', '静岡市', '浜松市',
+  '名古屋市', '京都市', '大阪市', '堺市', '神戸市', '岡山市', '広島市', '北九州市', '福岡市', '熊本市'
+];
+
+// 名前に「市」を含む市（最初の「市」で区切ると誤るもの）
+const CITIES_CONTAINING_SHI = ['四日市市', '廿日市市', '野々市市'];
+
+const POSTAL_CODE_IN_TEXT = /〒\s*(\d{3})-?(\d{4})/;
+const LEADING_POSTAL_CODE = /^(\d{3})-(\d{4})(?=\s)/;
+const ADDRESS_LABEL = /^(?:住所|所在地|address)\s*[:：]?\s*/i;
+const COUNTY_TOWN = /^([^\d\s市区]{1,5}郡[^\d\s]{1,5}?[町村])/;
+const CITY = /^([^\d\s区]{1,6}?市)/;
+const WARD = /^([^\d\s]{1,4}?区)/;
+// 町域・丁目・番地（数字で終わる部分）とそれ以降の建物名
+const STREET_AND_BUILDING = /^(.*?\d+(?:(?:丁目|番地|番|号|-|の)\d*)*)\s*(.*)$/;
+
+const trimOrEmpty = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// 全角英数字・記号を半角に揃え、数字間のハイフン類と空白を統一する
+export const normalizeAddressText = (value: string) =>
+  value
+    .replace(/[！-～]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/(\d)[ー－―‐−–](?=\d)/g, '$1-')
+    .replace(/[\s　]+/g, ' ')
+    .trim();
+
+// 郵便番号を7桁の数字にする（7桁でない場合はnull）
+export const normalizePostalCode = (value: string): string | null => {
+  const digits = normalizeAddressText(value).replace(/\D/g, '');
+  return digits.length === 7 ? digits : null;
+};
+
+// 表示用（100-0005）
+export const formatPostalCode = (postalCode: string) =>
+  /^\d{7}$/.test(postalCode) ? `${postalCode.slice(0, 3)}-${postalCode.slice(3)}` : postalCode;
+
+/**
+ * 郵便番号から都道府県・市区町村を調べる
+ * 7桁のデータにない番号は上3桁から都道府県のみ返す
+ */
+export const lookupPostalCode = (postalCode: string): Partial<PostalCodeEntry> & { prefecture: string } | null => {
+  const code = normalizePostalCode(postalCode);
+  if (!code) return null;
+
+  const exact = POSTAL_CODES[code];
+  if (exact) {
+    const [prefecture, city, town] = exact;
+    return { prefecture, city, town };
+  }
+
+  const prefix = parseInt(code.slice(0, 3), 10);
+  const range = PREFIX_RANGES.find(([start, end]) => prefix >= start && prefix <= end);
+  return range ? { prefecture: range[2] } : null;
+};
+
+const splitCity = (value: string): [string, string] => {
+  const special = CITIES_CONTAINING_SHI.find(city => value.startsWith(city));
+  const city = special || value.match(COUNTY_TOWN)?.[1] || value.match(CITY)?.[1];
+
+  if (city) {
+    const rest = value.slice(city.length);
+    const ward = DESIGNATED_CITIES.includes(city) ? rest.match(WARD)?.[1] : undefined;
+    return ward ? [city + ward, rest.slice(ward.length)] : [city, rest];
+  }
+
+  // 東京23区
+  const ward = value.match(WARD)?.[1];
+  return ward ? [ward, value.slice(ward.length)] : ['', value];
+};
+
+// 値のある項目だけを残す（Firestoreはundefinedを保存できない）
+const compactAddress = (address: PostalAddress): PostalAddress =>
+  Object.fromEntries(
+    ADDRESS_FIELDS
+      .map(field => [field, trimOrEmpty(address[field])] as const)
+      .filter(([, value]) => value)
+  );
+
+export const isEmptyAddress = (address?: PostalAddress | null) =>
+  !address || ADDRESS_FIELDS.every(field => !trimOrEmpty(address[field]));
+
+/**
+ * 1行の住所（「〒100-0005 東京都千代田区丸の内1-2-3 丸の内ビル5F」など）を項目に分ける
+ */
+export const parseAddress = (value: string): PostalAddress => {
+  let rest = normalizeAddressText(value).replace(ADDRESS_LABEL, '');
+
+  const postalMatch = rest.match(POSTAL_CODE_IN_TEXT) || rest.match(LEADING_POSTAL_CODE);
+  const postalCode = postalMatch ? postalMatch[1] + postalMatch[2] : '';
+  if (postalMatch) rest = rest.replace(postalMatch[0], ' ').trim();
+
+  const prefecture = PREFECTURES.find(name => rest.startsWith(name)) || '';
+  rest = rest.slice(prefecture.length).trim();
+
+  const [city, afterCity] = splitCity(rest);
+  rest = afterCity.trim();
+
+  const streetMatch = rest.match(STREET_AND_BUILDING);
+  const street = streetMatch ? streetMatch[1] : rest;
+  const building = streetMatch ? streetMatch[2] : '';
+
+  return compactAddress({ postalCode, prefecture, city, street, building });
+};
+
+/**
+ * 保存済み・抽出結果の値を住所にする（文字列は読み取って項目に分ける）
+ * 住所がない場合はundefined
+ */
+export const toPostalAddress = (value: unknown): PostalAddress | undefined => {
+  let address: PostalAddress | undefined;
+
+  if (typeof value === 'string') {
+    address = parseAddress(value);
+  } else if (value && typeof value === 'object') {
+    const raw = value as Record<string, unknown>;
+    const postalCode = trimOrEmpty(raw.postalCode ?? raw.postal_code ?? raw.zip);
+    address = compactAddress({
+      postalCode: postalCode ? normalizePostalCode(postalCode) || postalCode : '',
+      prefecture: trimOrEmpty(raw.prefecture),
+      city: trimOrEmpty(raw.city),
+      street: trimOrEmpty(raw.street),
+      building: trimOrEmpty(raw.building)
+    });
+  }
+
+  return address && !isEmptyAddress(address) ? address : undefined;
+};
+
+/**
+ * 郵便番号から空の都道府県・市区町村を補完する（入力済みの値は変更しない）
+ */
+export const completeAddress = (address: PostalAddress): PostalAddress => {
+  const entry = address.postalCode ? lookupPostalCode(address.postalCode) : null;
+  if (!entry) return address;
+
+  return compactAddress({
+    ...address,
+    prefecture: address.prefecture || entry.prefecture,
+    city: address.city || entry.city
+  });
+};
+
+/**
+ * 住所の項目を照合し、問題があれば内容を返す
+ * 郵便番号と都道府県・市区町村が食い違う場合もここで検出する
+ */
+export const validateAddress = (address: PostalAddress): string[] => {
+  const issues: string[] = [];
+  const postalCode = address.postalCode ? normalizePostalCode(address.postalCode) : null;
+
+  if (address.postalCode && !postalCode) {
+    issues.push('郵便番号は7桁の数字で入力してください');
+  }
+  if (address.prefecture && !PREFECTURES.includes(address.prefecture)) {
+    issues.push(`「${address.prefecture}」は都道府県名ではありません`);
+  }
+
+  const entry = postalCode ? lookupPostalCode(postalCode) : null;
+  if (entry && postalCode) {
+    const code = formatPostalCode(postalCode);
+    if (address.prefecture && address.prefecture !== entry.prefecture) {
+      issues.push(`〒${code}は${entry.prefecture}の郵便番号です`);
+    } else if (entry.city && address.city && address.city !== entry.city) {
+      issues.push(`〒${code}は${entry.prefecture}${entry.city}の郵便番号です`);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * 表示用に1行にする（例: 「〒100-0005 東京都千代田区丸の内1-2-3 丸の内ビル5F」）
+ */
+export const formatAddress = (address: PostalAddress, { withPostalCode = true } = {}): string => {
+  const postalCode = withPostalCode && address.postalCode ? `〒${formatPostalCode(address.postalCode)}` : '';
+  const line = [address.prefecture, address.city, address.street].filter(Boolean).join('');
+  return [postalCode, line, address.building].filter(Boolean).join(' ');
+};
@@ -0,0 +1,145 @@
+/**
+ * 同梱の郵便番号データ（外部APIを使わずに都道府県・市区町村を補完するため）
+ * - 郵便番号の上3桁から都道府県を判定する範囲表
+ * - 名刺によく出てくる主要なオフィス街の7桁の郵便番号
+ * 7桁のデータにない番号は都道府県のみ判定する
+ */
+
+export interface PostalCodeEntry {
+  prefecture: string;
+  city: string;
+  town: string;
+}
+
+export const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県',
+  '静岡県', '愛知県', '三重県', '滋賀県', '京都府', '大阪府', '兵庫県',
+  '奈良県', '和歌山県', '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県', '福岡県', '佐賀県', '長崎県',
+  '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県'
+];
+
+// [上3桁の開始, 終了, 都道府県]（境界付近の一部地域は隣県の番号帯に入るため目安として使う）
+export const PREFIX_RANGES: [number, number, string][] = [
+  [1, 9, '北海道'],
+  [10, 19, '秋田県'],
+  [20, 29, '岩手県'],
+  [30, 39, '青森県'],
+  [40, 99, '北海道'],
+  [100, 209, '東京都'],
+  [210, 259, '神奈川県'],
+  [260, 299, '千葉県'],
+  [300, 319, '茨城県'],
+  [320, 329, '栃木県'],
+  [330, 369, '埼玉県'],
+  [370, 379, '群馬県'],
+  [380, 399, '長野県'],
+  [400, 409, '山梨県'],
+  [410, 439, '静岡県'],
+  [440, 499, '愛知県'],
+  [500, 509, '岐阜県'],
+  [510, 519, '三重県'],
+  [520, 529, '滋賀県'],
+  [530, 599, '大阪府'],
+  [600, 629, '京都府'],
+  [630, 639, '奈良県'],
+  [640, 649, '和歌山県'],
+  [650, 679, '兵庫県'],
+  [680, 689, '鳥取県'],
+  [690, 699, '島根県'],
+  [700, 719, '岡山県'],
+  [720, 739, '広島県'],
+  [740, 759, '山口県'],
+  [760, 769, '香川県'],
+  [770, 779, '徳島県'],
+  [780, 789, '高知県'],
+  [790, 799, '愛媛県'],
+  [800, 839, '福岡県'],
+  [840, 849, '佐賀県'],
+  [850, 859, '長崎県'],
+  [860, 869, '熊本県'],
+  [870, 879, '大分県'],
+  [880, 889, '宮崎県'],
+  [890, 899, '鹿児島県'],
+  [900, 909, '沖縄県'],
+  [910, 919, '福井県'],
+  [920, 929, '石川県'],
+  [930, 939, '富山県'],
+  [940, 959, '新潟県'],
+  [960, 979, '福島県'],
+  [980, 989, '宮城県'],
+  [990, 999, '山形県']
+];
+
+// 7桁の郵便番号 → [都道府県, 市区町村, 町域]
+export const POSTAL_CODES: Record<string, [string, string, string]> = {
+  // 北海道
+  '0600001': ['北海道', '札幌市中央区', '北一条西'],
+  '0600005': ['北海道', '札幌市中央区', '北五条西'],
+  // 宮城県
+  '9800021': ['宮城県', '仙台市青葉区', '中央'],
+  // 埼玉県
+  '3300854': ['埼玉県', 'さいたま市大宮区', '桜木町'],
+  // 千葉県
+  '2610023': ['千葉県', '千葉市美浜区', '中瀬'],
+  // 東京都
+  '1000004': ['東京都', '千代田区', '大手町'],
+  '1000005': ['東京都', '千代田区', '丸の内'],
+  '1000006': ['東京都', '千代田区', '有楽町'],
+  '1000011': ['東京都', '千代田区', '内幸町'],
+  '1000013': ['東京都', '千代田区', '霞が関'],
+  '1000014': ['東京都', '千代田区', '永田町'],
+  '1010021': ['東京都', '千代田区', '外神田'],
+  '1020083': ['東京都', '千代田区', '麹町'],
+  '1030027': ['東京都', '中央区', '日本橋'],
+  '1040031': ['東京都', '中央区', '京橋'],
+  '1040045': ['東京都', '中央区', '築地'],
+  '1040061': ['東京都', '中央区', '銀座'],
+  '1050001': ['東京都', '港区', '虎ノ門'],
+  '1050011': ['東京都', '港区', '芝公園'],
+  '1060032': ['東京都', '港区', '六本木'],
+  '1070052': ['東京都', '港区', '赤坂'],
+  '1070062': ['東京都', '港区', '南青山'],
+  '1080075': ['東京都', '港区', '港南'],
+  '1100005': ['東京都', '台東区', '上野'],
+  '1300022': ['東京都', '墨田区', '江東橋'],
+  '1350061': ['東京都', '江東区', '豊洲'],
+  '1350064': ['東京都', '江東区', '青海'],
+  '1400002': ['東京都', '品川区', '東品川'],
+  '1410031': ['東京都', '品川区', '西五反田'],
+  '1500001': ['東京都', '渋谷区', '神宮前'],
+  '1500002': ['東京都', '渋谷区', '渋谷'],
+  '1500043': ['東京都', '渋谷区', '道玄坂'],
+  '1510053': ['東京都', '渋谷区', '代々木'],
+  '1600022': ['東京都', '新宿区', '新宿'],
+  '1600023': ['東京都', '新宿区', '西新宿'],
+  '1700013': ['東京都', '豊島区', '東池袋'],
+  '1710021': ['東京都', '豊島区', '西池袋'],
+  // 神奈川県
+  '2100007': ['神奈川県', '川崎市川崎区', '駅前本町'],
+  '2200011': ['神奈川県', '横浜市西区', '高島'],
+  '2200012': ['神奈川県', '横浜市西区', 'みなとみらい'],
+  '2310023': ['神奈川県', '横浜市中区', '山下町'],
+  // 愛知県
+  '4500002': ['愛知県', '名古屋市中村区', '名駅'],
+  '4600008': ['愛知県', '名古屋市中区', '栄'],
+  // 大阪府
+  '5300001': ['大阪府', '大阪市北区', '梅田'],
+  '5300011': ['大阪府', '大阪市北区', '大深町'],
+  '5410041': ['大阪府', '大阪市中央区', '北浜'],
+  '5420076': ['大阪府', '大阪市中央区', '難波'],
+  '5500002': ['大阪府', '大阪市西区', '江戸堀'],
+  // 京都府
+  '6008216': ['京都府', '京都市下京区', '東塩小路町'],
+  // 兵庫県
+  '6500001': ['兵庫県', '神戸市中央区', '加納町'],
+  // 広島県
+  '7300011': ['広島県', '広島市中区', '基町'],
+  // 福岡県
+  '8100001': ['福岡県', '福岡市中央区', '天神'],
+  '8120011': ['福岡県', '福岡市博多区', '博多駅前'],
+  // 沖縄県
+  '9000015': ['沖縄県', '那覇市', '久茂地']
+};
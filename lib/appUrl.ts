@@ -0,0 +1,24 @@
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+
+/**
+ * メール・カレンダーに入れるリンクのアプリのURL（NEXT_PUBLIC_APP_URL）
+ * リクエストのHostは書き換えられるため使わず、設定がない場合はリンクを作らずにエラーにする
+ */
+export const getAppUrl = (): string => {
+  const value = process.env.NEXT_PUBLIC_APP_URL?.trim() || '';
+  let url: URL | null = null;
+  try {
+    url = new URL(value);
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+    throw new BusinessCardError(
+      'アプリのURL（NEXT_PUBLIC_APP_URL）が設定されていません',
+      ErrorCode.API_SERVER_ERROR,
+      500,
+      false
+    );
+  }
+  return value.replace(/\/+$/, '');
+};
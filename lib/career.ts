@@ -0,0 +1,60 @@
+import { BusinessCard } from '@/types';
+import { hasSameName, isConfirmedDistinct } from '@/lib/duplicates';
+import { normalizeCompanyName, normalizeForComparison } from '@/lib/text/normalize';
+
+/**
+ * 経歴（同じ人の名刺を受け取った順に並べた会社・役職の履歴）
+ */
+
+export interface CareerEntry {
+  companyName: string;
+  title?: string;
+  from?: string; // この会社・役職の名刺を最初に受け取った日（YYYY-MM-DD）
+  to?: string; // 最後に受け取った日
+  cards: BusinessCard[];
+  isCurrent: boolean;
+}
+
+// 名刺を受け取った日（交換日がなければ登録日）
+export const cardDate = (card: BusinessCard): string => card.exchangeDate || card.createdAt?.slice(0, 10) || '';
+
+const sameRole = (entry: CareerEntry, card: BusinessCard) =>
+  normalizeCompanyName(entry.companyName) === normalizeCompanyName(card.companyName) &&
+  normalizeForComparison(entry.title) === normalizeForComparison(card.title);
+
+/**
+ * 名刺から経歴を作る（新しい順）
+ * 続けて受け取った同じ会社・役職の名刺は1つの項目にまとめる
+ */
+export const buildCareerTimeline = (cards: BusinessCard[]): CareerEntry[] => {
+  const entries: CareerEntry[] = [];
+
+  [...cards]
+    .sort((a, b) => cardDate(a).localeCompare(cardDate(b)))
+    .forEach(card => {
+      const date = cardDate(card) || undefined;
+      const last = entries[entries.length - 1];
+      if (last && sameRole(last, card)) {
+        last.cards.push(card);
+        last.to = date || last.to;
+        return;
+      }
+      entries.push({ companyName: card.companyName, title: card.title, from: date, to: date, cards: [card], isCurrent: false });
+    });
+
+  if (entries.length > 0) entries[entries.length - 1].isCurrent = true;
+  return entries.reverse();
+};
+
+/**
+ * 同じ人の可能性がある名刺を探す（氏名が一致し、まだ同じ人物に紐付いていない名刺）
+ * 会社が変わるとメールアドレスや電話番号も変わるため、重複の判定より緩く氏名だけで候補にする
+ */
+export const findSamePersonCandidates = (card: BusinessCard, candidates: BusinessCard[]): BusinessCard[] =>
+  candidates.filter(candidate =>
+    candidate.id &&
+    candidate.id !== card.id &&
+    !(card.personId && candidate.personId === card.personId) &&
+    !isConfirmedDistinct(card, candidate) &&
+    hasSameName(card, candidate)
+  );
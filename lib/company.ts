@@ -0,0 +1,123 @@
+import { BusinessCard, Company, CompanyUrlAnalysis } from '@/types';
+import { isEmptyAddress } from '@/lib/address';
+import { normalizeCompanyName, normalizeEmail } from '@/lib/text/normalize';
+import { normalizeUrl } from '@/lib/urlParser';
+
+/**
+ * 会社の照合と会社情報の組み立て
+ * 名刺の会社名（株式会社・(株)・Inc.などの表記揺れ）とメールアドレス・URLのドメインで同じ会社を判定する
+ */
+
+// フリーメール・携帯キャリアのドメインは会社の判定に使わない
+const PERSONAL_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.co.jp', 'ymail.ne.jp', 'yahoo.com', 'icloud.com', 'me.com', 'mac.com',
+  'outlook.com', 'outlook.jp', 'hotmail.com', 'hotmail.co.jp', 'live.jp', 'live.com', 'msn.com',
+  'docomo.ne.jp', 'ezweb.ne.jp', 'au.com', 'softbank.ne.jp', 'i.softbank.jp', 'nifty.com', 'biglobe.ne.jp', 'ocn.ne.jp'
+]);
+
+// SNS・短縮URLなど、個人のページや共有サービスのドメイン
+const SHARED_SITE_DOMAINS = new Set([
+  'facebook.com', 'instagram.com', 'twitter.com', 'x.com', 'linkedin.com', 'youtube.com', 'tiktok.com',
+  'line.me', 'lin.ee', 'note.com', 'ameblo.jp', 'wantedly.com', 'eight.jp', 'bit.ly', 't.co', 'linktr.ee', 'lit.link'
+]);
+
+// 解析結果を使い回す期間（これを過ぎたら再解析する）
+export const URL_ANALYSIS_TTL_DAYS = 90;
+
+const hostname = (url: string): string => {
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+export const emailDomain = (email: string): string => normalizeEmail(email).split('@')[1] || '';
+
+/**
+ * 会社のドメインか（フリーメール・SNS・短縮URLでない）
+ */
+export const isCompanyDomain = (domain: string): boolean =>
+  !!domain && !PERSONAL_MAIL_DOMAINS.has(domain) && !SHARED_SITE_DOMAINS.has(domain);
+
+export const isCompanyUrl = (url: string): boolean => isCompanyDomain(hostname(url));
+
+/**
+ * 名刺のメールアドレス・URLから会社のドメインを集める
+ */
+export const cardDomains = (card: Pick<BusinessCard, 'emails' | 'urls'>): string[] =>
+  Array.from(new Set([
+    ...card.emails.map(emailDomain),
+    ...card.urls.map(hostname)
+  ].filter(isCompanyDomain)));
+
+/**
+ * 法人番号（13桁）のチェックデジットを確認する
+ * 先頭1桁がチェックデジットで、残り12桁から 9 - (Σ 各桁 × (下位から奇数桁目は1、偶数桁目は2) mod 9) で求める
+ */
+export const isValidCorporateNumber = (value: string): boolean => {
+  if (!/^\d{13}$/.test(value)) return false;
+  const digits = value.slice(1).split('').reverse().map(Number);
+  const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 2), 0);
+  return Number(value[0]) === 9 - (sum % 9);
+};
+
+const companyNames = (company: Company) =>
+  new Set([company.normalizedName, ...company.aliases.map(normalizeCompanyName)].filter(Boolean));
+
+/**
+ * 名刺の会社を登録済みの会社から探す（会社名が一致する会社を優先し、なければドメインが一致する会社）
+ */
+export const findCompanyForCard = (
+  card: Pick<BusinessCard, 'companyName' | 'emails' | 'urls'>,
+  companies: Company[]
+): Company | undefined => {
+  const name = normalizeCompanyName(card.companyName);
+  const byName = name ? companies.find(company => companyNames(company).has(name)) : undefined;
+  if (byName) return byName;
+
+  const domains = cardDomains(card);
+  return domains.length > 0
+    ? companies.find(company => company.domains.some(domain => domains.includes(domain)))
+    : undefined;
+};
+
+const union = (...lists: (string[] | undefined)[]) =>
+  Array.from(new Set(lists.flatMap(list => list || []).map(value => value.trim()).filter(Boolean)));
+
+/**
+ * 名刺から会社を作る
+ */
+export const companyFromCard = (card: BusinessCard): Omit<Company, 'id'> => ({
+  name: card.companyName.trim(),
+  normalizedName: normalizeCompanyName(card.companyName),
+  aliases: union([card.companyName]),
+  domains: cardDomains(card),
+  urls: union(card.urls.filter(isCompanyUrl).map(normalizeUrl)),
+  businessContent: card.businessContent || undefined,
+  tags: union(card.tags),
+  address: isEmptyAddress(card.address) ? undefined : card.address
+});
+
+/**
+ * 名刺の内容で会社を補う（表記・ドメイン・URLは追加し、事業内容と住所は未登録の場合のみ）
+ */
+export const mergeCompanyWithCard = (company: Company, card: BusinessCard): Partial<Company> => {
+  const fromCard = companyFromCard(card);
+  return {
+    aliases: union(company.aliases, fromCard.aliases),
+    domains: union(company.domains, fromCard.domains),
+    urls: union(company.urls, fromCard.urls),
+    businessContent: company.businessContent || fromCard.businessContent,
+    address: isEmptyAddress(company.address) ? fromCard.address : company.address
+  };
+};
+
+/**
+ * 保存済みの解析結果を使えるか（指定したURLをすべて解析済みで、期限内）
+ */
+export const isUrlAnalysisFresh = (analysis: CompanyUrlAnalysis | undefined, urls: string[], now = new Date()): boolean => {
+  if (!analysis) return false;
+  const ageDays = (now.getTime() - new Date(analysis.analyzedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return ageDays <= URL_ANALYSIS_TTL_DAYS && urls.map(normalizeUrl).every(url => analysis.urls.includes(url));
+};
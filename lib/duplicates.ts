@@ -0,0 +1,259 @@
+import { BusinessCard, MergedCardRecord } from '@/types';
+import { isEmptyAddress } from '@/lib/address';
+import { joinName } from '@/lib/names';
+import { toPhoneEntries, uniquePhones } from '@/lib/phone';
+import { normalizeCompanyName, normalizeEmail, normalizeForComparison, similarity } from '@/lib/text/normalize';
+
+/**
+ * 重複した名刺の検出と統合
+ * 同じ人の名刺を2回読み込んだ場合などに、メールアドレス・個人の電話番号・氏名と会社名で同一人物を判定する
+ */
+
+export type DuplicateReason = 'email' | 'phone' | 'name_company';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'メールアドレスが一致',
+  phone: '携帯・直通の電話番号が一致',
+  name_company: '氏名と会社名が一致'
+};
+
+export interface DuplicateMatch {
+  card: BusinessCard;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateCluster {
+  cards: BusinessCard[];
+  reasons: DuplicateReason[];
+}
+
+// 会社名の類似度がこれ以上なら同じ会社とみなす（「サンプル商事」と「サンプル商事東京支店」など）
+const COMPANY_SIMILARITY_THRESHOLD = 0.8;
+
+interface CardKeys {
+  emails: Set<string>;
+  phones: Set<string>;
+  names: Set<string>;
+  company: string;
+  distinctFrom: Set<string>;
+}
+
+// ローマ字表記は語順（Taro Tanaka / TANAKA Taro）を揃えてから比較する
+const nameKey = (value: string | undefined) => {
+  const normalized = (value || '').normalize('NFKC').trim();
+  const words = /^[A-Za-z][A-Za-z.'\- ]*$/.test(normalized)
+    ? normalized.toLowerCase().split(/\s+/).sort().join(' ')
+    : normalized;
+  return normalizeForComparison(words);
+};
+
+const cardKeys = (card: BusinessCard): CardKeys => ({
+  emails: new Set(card.emails.map(normalizeEmail).filter(Boolean)),
+  // 会社の代表番号は同じ会社の別の人と共有されるため、個人の番号（携帯・直通・内線付き）だけを使う
+  phones: new Set(
+    toPhoneEntries(card.phones)
+      .filter(phone => phone.type === 'mobile' || phone.type === 'direct' || phone.extension)
+      .map(phone => `${phone.number.replace(/[^\d+]/g, '')}#${phone.extension || ''}`)
+  ),
+  names: new Set(
+    [nameKey(card.name), nameKey(joinName(card.familyNameKana, card.givenNameKana, '')), nameKey(card.romanizedName)]
+      .filter(Boolean)
+  ),
+  company: normalizeCompanyName(card.companyName),
+  distinctFrom: new Set(card.distinctFrom || [])
+});
+
+const intersects = (a: Set<string>, b: Set<string>) => Array.from(a).some(value => b.has(value));
+
+const reasonsBetween = (a: CardKeys, b: CardKeys): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  if (intersects(a.emails, b.emails)) reasons.push('email');
+  if (intersects(a.phones, b.phones)) reasons.push('phone');
+  if (
+    intersects(a.names, b.names) &&
+    a.company && b.company &&
+    similarity(a.company, b.company) >= COMPANY_SIMILARITY_THRESHOLD
+  ) {
+    reasons.push('name_company');
+  }
+  return reasons;
+};
+
+// 「別の人」として確認済みの組み合わせは重複として扱わない
+const isDistinct = (a: BusinessCard, b: BusinessCard, aKeys: CardKeys, bKeys: CardKeys) =>
+  (!!b.id && aKeys.distinctFrom.has(b.id)) || (!!a.id && bKeys.distinctFrom.has(a.id));
+
+// 氏名（ふりがな・ローマ字表記を含む）が一致するか（転職・異動で会社が変わった同じ人の候補を探すのに使う）
+export const hasSameName = (a: BusinessCard, b: BusinessCard) => intersects(cardKeys(a).names, cardKeys(b).names);
+
+export const isConfirmedDistinct = (a: BusinessCard, b: BusinessCard) => isDistinct(a, b, cardKeys(a), cardKeys(b));
+
+/**
+ * 保存しようとしている名刺と重複する登録済みの名刺を探す
+ */
+export const findDuplicates = (card: BusinessCard | Omit<BusinessCard, 'id'>, candidates: BusinessCard[]): DuplicateMatch[] => {
+  const source = card as BusinessCard;
+  const keys = cardKeys(source);
+
+  return candidates
+    .filter(candidate => !source.id || candidate.id !== source.id)
+    .flatMap(candidate => {
+      const candidateKeys = cardKeys(candidate);
+      if (isDistinct(source, candidate, keys, candidateKeys)) return [];
+
+      const reasons = reasonsBetween(keys, candidateKeys);
+      return reasons.length > 0 ? [{ card: candidate, reasons }] : [];
+    });
+};
+
+/**
+ * 登録済みの名刺から重複のまとまりを探す
+ * メールアドレス・電話番号・氏名のいずれかが共通する名刺の組だけを比較し、つながる名刺を1つのまとまりにする
+ */
+export const findDuplicateClusters = (cards: BusinessCard[]): DuplicateCluster[] => {
+  const keys = cards.map(cardKeys);
+
+  const candidates = new Map<string, number[]>();
+  keys.forEach((cardKey, index) => {
+    const indexKeys = [
+      ...Array.from(cardKey.emails, value => `e:${value}`),
+      ...Array.from(cardKey.phones, value => `p:${value}`),
+      ...Array.from(cardKey.names, value => `n:${value}`)
+    ];
+    indexKeys.forEach(key => candidates.set(key, [...(candidates.get(key) || []), index]));
+  });
+
+  const parent = cards.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const compared = new Set<string>();
+  const pairReasons: [number, DuplicateReason[]][] = [];
+
+  for (const indexes of Array.from(candidates.values())) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [indexes[i], indexes[j]];
+        const pairKey = `${a}:${b}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        if (isDistinct(cards[a], cards[b], keys[a], keys[b])) continue;
+        const reasons = reasonsBetween(keys[a], keys[b]);
+        if (reasons.length === 0) continue;
+
+        parent[root(a)] = root(b);
+        pairReasons.push([a, reasons]);
+      }
+    }
+  }
+
+  const clusters = new Map<number, { indexes: number[]; reasons: Set<DuplicateReason> }>();
+  cards.forEach((_, index) => {
+    const key = root(index);
+    const cluster = clusters.get(key) || { indexes: [], reasons: new Set<DuplicateReason>() };
+    cluster.indexes.push(index);
+    clusters.set(key, cluster);
+  });
+  pairReasons.forEach(([index, reasons]) => reasons.forEach(reason => clusters.get(root(index))!.reasons.add(reason)));
+
+  return Array.from(clusters.values())
+    .filter(cluster => cluster.indexes.length > 1)
+    .map(cluster => ({ cards: cluster.indexes.map(index => cards[index]), reasons: Array.from(cluster.reasons) }))
+    .sort((a, b) => b.cards.length - a.cards.length);
+};
+
+// 統合時にどの名刺の値を残すかを選ぶ項目（それ以外の配列項目はすべての名刺の値をまとめる）
+export type MergeChoiceField = 'name' | 'companyName' | 'title' | 'address' | 'businessContent' | 'exchangeDate';
+
+export const MERGE_CHOICE_FIELDS: { field: MergeChoiceField; label: string }[] = [
+  { field: 'name', label: '氏名' },
+  { field: 'companyName', label: '会社名' },
+  { field: 'title', label: '役職' },
+  { field: 'address', label: '住所' },
+  { field: 'businessContent', label: '事業内容' },
+  { field: 'exchangeDate', label: '交換日' }
+];
+
+// 各項目で選んだ名刺の番号（cardsの添字）
+export type MergeChoices = Record<MergeChoiceField, number>;
+
+// 氏名を選んだ名刺から姓名・ふりがな・ローマ字表記もまとめて使う
+const NAME_FIELDS = ['name', 'familyName', 'givenName', 'familyNameKana', 'givenNameKana', 'romanizedName'] as const;
+
+export const hasMergeValue = (card: BusinessCard, field: MergeChoiceField) =>
+  field === 'address' ? !isEmptyAddress(card.address) : !!card[field]?.toString().trim();
+
+/**
+ * 初期選択（残す名刺の値を優先し、空の項目は値のある名刺から補う。交換日は最も古い日付）
+ */
+export const defaultMergeChoices = (cards: BusinessCard[], preferredIndex = 0): MergeChoices => {
+  const order = [preferredIndex, ...cards.map((_, index) => index).filter(index => index !== preferredIndex)];
+  const firstWithValue = (field: MergeChoiceField) =>
+    order.find(index => cards[index] && hasMergeValue(cards[index], field)) ?? preferredIndex;
+  const dated = cards
+    .map((card, index) => ({ date: card.exchangeDate, index }))
+    .filter(item => item.date)
+    .sort((a, b) => a.date!.localeCompare(b.date!));
+
+  return {
+    name: firstWithValue('name'),
+    companyName: firstWithValue('companyName'),
+    title: firstWithValue('title'),
+    address: firstWithValue('address'),
+    businessContent: firstWithValue('businessContent'),
+    exchangeDate: dated.length > 0 ? dated[0].index : preferredIndex
+  };
+};
+
+const unique = (values: string[]) => Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+/**
+ * 選択に従って統合後の値を作る
+ */
+export const mergeCardValues = (cards: BusinessCard[], choices: MergeChoices): Partial<BusinessCard> => {
+  const pick = <K extends keyof BusinessCard>(field: MergeChoiceField, key: K) => cards[choices[field]]?.[key];
+  const nameSource = cards[choices.name] || cards[0];
+
+  return {
+    ...Object.fromEntries(NAME_FIELDS.map(field => [field, nameSource[field]])),
+    companyName: pick('companyName', 'companyName') || '',
+    title: pick('title', 'title'),
+    address: pick('address', 'address') || {},
+    businessContent: pick('businessContent', 'businessContent'),
+    exchangeDate: pick('exchangeDate', 'exchangeDate'),
+    emails: unique(cards.flatMap(card => card.emails)),
+    // 編集中の名刺は国内表記のため、E.164形式に揃えてから重複を除く
+    phones: uniquePhones(toPhoneEntries(cards.flatMap(card => card.phones))),
+    urls: unique(cards.flatMap(card => card.urls)),
+    line_ids: unique(cards.flatMap(card => card.line_ids)),
+    tags: unique(cards.flatMap(card => card.tags || [])),
+    notes: unique(cards.map(card => card.notes || '')).join('\n\n') || undefined
+  };
+};
+
+/**
+ * 統合される名刺の履歴（統合時点の内容と画像への参照、その名刺に統合済みだった履歴）
+ * インライン画像（旧形式）は移行処理でStorageに移されている前提で含めない
+ */
+export const toMergedCardRecords = (card: BusinessCard, mergedAt: string): MergedCardRecord[] => {
+  const snapshot: Partial<BusinessCard> = { ...card };
+  delete snapshot.id;
+  delete snapshot.mergedCards;
+  delete snapshot.frontImageBase64;
+  delete snapshot.backImageBase64;
+
+  const record: MergedCardRecord = {
+    cardId: card.id!,
+    mergedAt,
+    card: Object.fromEntries(
+      Object.entries(snapshot).filter(([, value]) => value !== undefined)
+    ) as MergedCardRecord['card']
+  };
+  return [record, ...(card.mergedCards || [])];
+};
@@ -0,0 +1,223 @@
+import { BusinessCardError, ErrorCode, logError } from '@/lib/errors';
+import { markCardEmailInvalid } from '@/lib/firebase/adminCardRepository';
+import { normalizeEmail } from '@/lib/firebase/suppressionRepository';
+import { markRecipientBounced } from '@/lib/email/campaigns';
+import { readUnsubscribeToken, suppressEmail, UnsubscribeRef } from '@/lib/email/suppressions';
+
+/**
+ * バウンス（不達）の通知の取り込み
+ * 配信状態通知（DSN、RFC 3464のmultipart/report）を読み、再送しても届かない失敗（5.x.x）だけを配信停止リストに追加する。
+ * 通知はWebhook（/api/email/bounces）またはメールボックスから書き出したメールの取り込み（/api/email/bounces/import）で受け取る。
+ * 送信先は返送された元のメールのList-Unsubscribeにある署名付きトークンで特定し、ない場合は取り込んだ本人の名刺をアドレスで探す
+ */
+
+// 1回に取り込める通知の数と大きさ
+export const MAX_BOUNCE_MESSAGES = 100;
+export const MAX_BOUNCE_MESSAGE_SIZE = 1024 * 1024;
+
+export interface BounceRecipient {
+  email: string;
+  action: string; // failed / delayed / delivered など
+  status: string; // 5.1.1 など
+  diagnostic?: string; // 受信側のサーバーの応答
+  permanent: boolean; // 再送しても届かない失敗（アドレスが存在しないなど）
+}
+
+export interface ParsedBounce {
+  recipients: BounceRecipient[];
+  tokens: string[]; // 返送された元のメールの配信停止トークン
+}
+
+export interface BounceSummary {
+  messages: number;
+  bounced: number; // 配信停止リストに追加した送信先
+  ignored: number; // 一時的な失敗などで記録しなかった送信先
+  unmatched: number; // 送信者を特定できなかった送信先
+}
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+// ヘッダーを読む（折り返しを戻し、名前は小文字にする。同じ名前は最初の値を使う）
+const parseHeaders = (text: string): Map<string, string> => {
+  const headers = new Map<string, string>();
+  text.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(separator + 1).trim());
+  });
+  return headers;
+};
+
+const parseEntity = (raw: string): MimeEntity => {
+  const text = raw.replace(/\r\n?/g, '\n');
+  if (text.startsWith('\n')) return { headers: new Map(), body: text.slice(1) };
+  const separator = text.indexOf('\n\n');
+  return separator === -1
+    ? { headers: parseHeaders(text), body: '' }
+    : { headers: parseHeaders(text.slice(0, separator)), body: text.slice(separator + 2) };
+};
+
+const headerParam = (value: string, name: string) =>
+  value.match(new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'))?.slice(1).find(Boolean);
+
+const decodeQuotedPrintable = (text: string) => {
+  const bytes: number[] = [];
+  const source = text.replace(/=\n/g, '');
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(source[i]));
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+};
+
+const decodeBody = ({ headers, body }: MimeEntity) => {
+  const encoding = (headers.get('content-transfer-encoding') || '').toLowerCase();
+  if (encoding === 'base64') return Buffer.from(body.replace(/\s/g, ''), 'base64').toString('utf8').replace(/\r\n?/g, '\n');
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(body);
+  return body;
+};
+
+const splitMultipart = (body: string, boundary: string): string[] =>
+  `\n${body}`.split(`\n--${boundary}`).slice(1)
+    .filter(part => !part.startsWith('--'))
+    .map(part => part.slice(part.indexOf('\n') + 1));
+
+// 入れ子のパートをたどり、配信状態と返送された元のメールのヘッダーを集める（転送したメールに添付された通知も読む）
+const collectParts = (entity: MimeEntity, statuses: string[], returnedHeaders: Map<string, string>[], depth = 0) => {
+  if (depth > 5) return;
+  const contentType = entity.headers.get('content-type') || 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (!boundary) return;
+    splitMultipart(entity.body, boundary).forEach(part => collectParts(parseEntity(part), statuses, returnedHeaders, depth + 1));
+  } else if (mediaType === 'message/delivery-status') {
+    statuses.push(decodeBody(entity));
+  } else if (mediaType === 'text/rfc822-headers') {
+    returnedHeaders.push(parseEntity(decodeBody(entity)).headers);
+  } else if (mediaType === 'message/rfc822') {
+    const inner = parseEntity(decodeBody(entity));
+    returnedHeaders.push(inner.headers);
+    collectParts(inner, statuses, returnedHeaders, depth + 1);
+  }
+};
+
+// 「rfc822; user@example.com」からアドレスを取り出す
+const addressOf = (value: string) => value.slice(value.indexOf(';') + 1).trim().replace(/^<|>$/g, '');
+
+/**
+ * 配信状態通知を読む（DSNでないメールは送信先が空になる）
+ */
+export const parseBounceMessage = (raw: string): ParsedBounce => {
+  const statuses: string[] = [];
+  const returnedHeaders: Map<string, string>[] = [];
+  collectParts(parseEntity(raw), statuses, returnedHeaders);
+
+  // 配信状態は空行で区切ったブロックで、最初がメッセージ全体、以降が送信先ごとのフィールド
+  const recipients = statuses.flatMap(status => status.split(/\n\s*\n/)).flatMap(block => {
+    const fields = parseHeaders(block.trim());
+    const recipient = fields.get('final-recipient') || fields.get('original-recipient');
+    if (!recipient) return [];
+
+    const action = (fields.get('action') || '').toLowerCase();
+    const status = fields.get('status')?.match(/\d\.\d{1,3}\.\d{1,3}/)?.[0] || '';
+    const diagnostic = fields.get('diagnostic-code');
+    return [{
+      email: addressOf(recipient),
+      action,
+      status,
+      diagnostic: diagnostic ? addressOf(diagnostic) : undefined,
+      permanent: action === 'failed' && status.startsWith('5.')
+    }];
+  });
+
+  const tokens = returnedHeaders.flatMap(headers => {
+    const token = headers.get('list-unsubscribe')?.match(/[?&]token=([^&>\s]+)/)?.[1];
+    return token ? [decodeURIComponent(token)] : [];
+  });
+
+  return { recipients, tokens };
+};
+
+// 送信先のアドレスと一致する配信停止トークン（取り込んだ本人のメールに限る）
+const findRef = (tokens: string[], email: string, userId?: string): UnsubscribeRef | undefined =>
+  tokens
+    .map(readUnsubscribeToken)
+    .find((ref): ref is UnsubscribeRef =>
+      !!ref && normalizeEmail(ref.email) === normalizeEmail(email) && (!userId || ref.userId === userId));
+
+// 届かなかったアドレスを配信停止リスト・名刺・送信履歴に記録する
+async function recordBounce(userId: string, recipient: BounceRecipient, ref?: UnsubscribeRef) {
+  const detail = recipient.diagnostic || recipient.status;
+  const { cardIds, email } = await markCardEmailInvalid(userId, recipient.email, ref?.cardId);
+
+  await suppressEmail(userId, {
+    email,
+    reason: 'bounced',
+    detail,
+    cardId: cardIds[0],
+    campaignId: ref?.campaignId
+  });
+
+  if (ref?.campaignId && ref.cardId) {
+    await markRecipientBounced(userId, ref.campaignId, ref.cardId, `メールが届きませんでした（${detail}）`);
+  }
+}
+
+/**
+ * バウンスの通知を取り込む
+ * userIdを指定した場合（本人のメールボックスからの取り込み）はその利用者のメールとして扱う
+ */
+export async function recordBounces(messages: string[], userId?: string): Promise<BounceSummary> {
+  if (messages.length === 0 || messages.length > MAX_BOUNCE_MESSAGES) {
+    throw new BusinessCardError(
+      `通知は1〜${MAX_BOUNCE_MESSAGES}件で指定してください`,
+      ErrorCode.API_INVALID_REQUEST,
+      400
+    );
+  }
+  if (messages.some(message => typeof message !== 'string' || message.length > MAX_BOUNCE_MESSAGE_SIZE)) {
+    throw new BusinessCardError(
+      `通知は${MAX_BOUNCE_MESSAGE_SIZE / 1024 / 1024}MB以下のメールで指定してください`,
+      ErrorCode.API_INVALID_REQUEST,
+      400
+    );
+  }
+
+  const summary: BounceSummary = { messages: messages.length, bounced: 0, ignored: 0, unmatched: 0 };
+  for (const message of messages) {
+    const { recipients, tokens } = parseBounceMessage(message);
+    for (const recipient of recipients) {
+      if (!recipient.permanent) {
+        summary.ignored++;
+        continue;
+      }
+
+      const ref = findRef(tokens, recipient.email, userId);
+      const owner = ref?.userId || userId;
+      if (!owner) {
+        summary.unmatched++;
+        continue;
+      }
+
+      try {
+        await recordBounce(owner, recipient, ref);
+        summary.bounced++;
+      } catch (error: any) {
+        logError(error, { operation: 'recordBounce', userId: owner });
+        summary.unmatched++;
+      }
+    }
+  }
+  return summary;
+}
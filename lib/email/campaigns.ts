@@ -0,0 +1,564 @@
+import { FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/admin';
+import {
+  EmailCampaign,
+  EmailCampaignProgress,
+  EmailCampaignStatus,
+  EmailCampaignRecipient,
+  EmailRecipientStatus,
+  MailProvider
+} from '@/types/email';
+import { BusinessCardError, ErrorCode, logError } from '@/lib/errors';
+import { withRetry } from '@/lib/utils/retry';
+import { getAppUrl } from '@/lib/appUrl';
+import { toCampaignRecipient, toEmailCampaign } from '@/lib/firebase/campaignRepository';
+import { getOwnedCards, markCardEmailedInBatch } from '@/lib/firebase/adminCardRepository';
+import { completeEmailTasks } from '@/lib/firebase/adminTaskRepository';
+import { logEmailInteractions } from '@/lib/firebase/adminInteractionRepository';
+import { textToHtml } from '@/lib/email/template';
+import { formatScheduledAt } from '@/lib/email/schedule';
+import { SUPPRESSION_REASON_LABELS } from '@/lib/email/status';
+import { createUnsubscribeToken, findSuppressedEmails, unsubscribeLinks, withUnsubscribeLink } from '@/lib/email/suppressions';
+import { toTrackedHtml } from '@/lib/email/tracking';
+import { normalizeEmail } from '@/lib/firebase/suppressionRepository';
+import {
+  createMailTransport,
+  describeMailError,
+  isQuotaError,
+  isTransientMailError,
+  resolveMailProvider,
+  MailTransport,
+  PROVIDER_SEND_INTERVAL_MS
+} from '@/lib/email/transports';
+
+/**
+ * メールの送信（キャンペーン）
+ * users/{uid}/emailCampaigns/{campaignId} に送信全体の結果、recipients/{cardId} に送信先ごとの結果を保存する。
+ * 送信先はpendingのまま送信待ちの列に入り、1回のリクエストで送れる分だけを送る。
+ * 残りは POST /api/email/campaigns/{campaignId} で続きから送る（メール送信ページが完了まで呼び出す）。
+ * 同じテンプレートのメールを送信済みの名刺は、明示的に再送しない限り送らない（skipped）。
+ * 予約したキャンペーン（scheduled）は予約日時を過ぎてからスケジューラー（/api/cron/email-scheduler）が送る。
+ * 配信停止リストにあるアドレスには送らない（予約後に配信停止した場合も送らないよう、送信の直前に確認する）。
+ * 計測するキャンペーンでは開封・クリックを計測するHTMLメールにする（lib/email/tracking.ts）
+ */
+
+// 1回の送信の最大件数
+export const MAX_CAMPAIGN_RECIPIENTS = 500;
+
+// 1回のリクエストで送信に使う時間（サーバーレス関数のタイムアウトより短くする）
+const SEND_TIME_BUDGET_MS = 40_000;
+
+// スケジューラーが1回に送るキャンペーンの最大数
+const SCHEDULER_BATCH_SIZE = 10;
+
+// 同じキャンペーンを複数のリクエストが同時に送らないためのロック期間
+const LOCK_TTL_MS = 60_000;
+
+const PENDING_PAGE_SIZE = 20;
+const MAX_WRITES_PER_BATCH = 400;
+
+// 一時的なエラー（接続エラー・SMTPの4xx応答）の再試行
+const SEND_RETRY_OPTIONS = {
+  maxRetries: 2,
+  initialDelay: 2000,
+  maxDelay: 8000,
+  shouldRetry: (error: any) => isTransientMailError(error) && !isQuotaError(error)
+};
+
+const SKIPPED_REASON = '同じメールを送信済みのため送信しませんでした';
+
+export interface CampaignSender {
+  name: string;
+  email?: string;
+}
+
+export interface CampaignRecipientInput {
+  cardId: string;
+  email: string;
+  name: string;
+  company: string;
+  subject: string;
+  body: string;
+}
+
+export interface CampaignResult {
+  campaign: EmailCampaign;
+  recipients: EmailCampaignRecipient[];
+}
+
+const campaignsCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('emailCampaigns');
+
+const recipientsCollection = (userId: string, campaignId: string) =>
+  campaignsCollection(userId).doc(campaignId).collection('recipients');
+
+const campaignNotFound = (campaignId: string) => new BusinessCardError(
+  '送信履歴が見つかりません',
+  ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
+  404,
+  true,
+  { campaignId }
+);
+
+// プロバイダーごとの最後の送信時刻（同じインスタンス内で送信間隔を守る）
+const lastSentAt = new Map<MailProvider, number>();
+
+const throttle = async (provider: MailProvider) => {
+  const wait = (lastSentAt.get(provider) || 0) + PROVIDER_SEND_INTERVAL_MS[provider] - Date.now();
+  if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  lastSentAt.set(provider, Date.now());
+};
+
+// ドキュメントIDにできる名刺のID（/を含むIDや . / .. は使えない）
+const isValidCardId = (cardId: unknown): cardId is string =>
+  typeof cardId === 'string' && cardId.length > 0 && cardId.length <= 1500 && !cardId.includes('/') && cardId !== '.' && cardId !== '..';
+
+/**
+ * 送信先が自分の名刺で、アドレスがその名刺に書かれているものか確認し、名刺を返す
+ * ブラウザから送られた送信先をそのまま使うと、送信済みの確認（二重送信の防止）を通り抜けられるため
+ */
+async function verifyRecipients(userId: string, inputs: CampaignRecipientInput[]) {
+  const invalid = inputs.find(input => !isValidCardId(input.cardId));
+  if (invalid) {
+    throw new BusinessCardError('送信先の名刺が正しくありません', ErrorCode.API_INVALID_REQUEST, 400, true, { cardId: invalid.cardId });
+  }
+
+  const cards = await getOwnedCards(userId, inputs.map(input => input.cardId));
+  inputs.forEach((input, index) => {
+    const normalized = normalizeEmail(input.email);
+    if (!cards[index].emails.some(email => normalizeEmail(email) === normalized)) {
+      throw new BusinessCardError(
+        `${input.name || input.email} のアドレスが名刺に登録されていません`,
+        ErrorCode.API_INVALID_REQUEST,
+        400,
+        true,
+        { cardId: input.cardId }
+      );
+    }
+  });
+  return cards;
+}
+
+/**
+ * キャンペーンを作成する（送信済みの名刺はskipped、それ以外は送信待ちのpending）
+ */
+export async function createCampaign(
+  userId: string,
+  options: {
+    templateId: string;
+    templateName?: string;
+    sender: CampaignSender;
+    allowResend?: boolean;
+    scheduledAt?: string; // 指定した場合は予約送信
+    tracking?: boolean; // 開封・クリックを計測する
+  },
+  inputs: CampaignRecipientInput[]
+): Promise<string> {
+  // 同じ名刺は1通だけ送る
+  const unique = Array.from(new Map(inputs.map(input => [input.cardId, input])).values());
+  if (unique.length === 0 || unique.length > MAX_CAMPAIGN_RECIPIENTS) {
+    throw new BusinessCardError(
+      `送信先は1〜${MAX_CAMPAIGN_RECIPIENTS}件で指定してください`,
+      ErrorCode.API_INVALID_REQUEST,
+      400
+    );
+  }
+
+  const cards = await verifyRecipients(userId, unique);
+  const provider = resolveMailProvider();
+  // 配信停止・計測のリンクを作れない場合は送信待ちを作らない
+  getAppUrl();
+  // 指定したテンプレートのメールを送信済みの名刺
+  const skipped = new Set(options.allowResend ? [] : cards
+    .filter(card => Array.isArray(card.emailedTemplateIds) && card.emailedTemplateIds.includes(options.templateId))
+    .map(card => card.id!));
+
+  const ref = campaignsCollection(userId).doc();
+  const now = new Date().toISOString();
+  await ref.set({
+    templateId: options.templateId,
+    ...(options.templateName ? { templateName: options.templateName } : {}),
+    sender: { name: options.sender.name, email: options.sender.email || '' },
+    provider,
+    status: options.scheduledAt ? 'scheduled' : 'draft',
+    ...(options.scheduledAt ? { scheduledAt: options.scheduledAt } : {}),
+    tracking: options.tracking === true,
+    recipientCount: unique.length,
+    successCount: 0,
+    failureCount: 0,
+    skippedCount: skipped.size,
+    suppressedCount: 0,
+    bouncedCount: 0,
+    openedCount: 0,
+    clickedCount: 0,
+    lockedUntil: 0,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  for (let i = 0; i < unique.length; i += MAX_WRITES_PER_BATCH) {
+    const batch = adminDb.batch();
+    unique.slice(i, i + MAX_WRITES_PER_BATCH).forEach(input => {
+      batch.set(recipientsCollection(userId, ref.id).doc(input.cardId), {
+        ...input,
+        attempts: 0,
+        ...(skipped.has(input.cardId) ? { status: 'skipped', error: SKIPPED_REASON } : { status: 'pending' })
+      });
+    });
+    await batch.commit();
+  }
+
+  return ref.id;
+}
+
+/**
+ * キャンペーンと送信先ごとの結果を取得する
+ */
+export async function getCampaignResult(userId: string, campaignId: string): Promise<CampaignResult> {
+  const [snapshot, recipients] = await Promise.all([
+    campaignsCollection(userId).doc(campaignId).get(),
+    recipientsCollection(userId, campaignId).get()
+  ]);
+  if (!snapshot.exists) throw campaignNotFound(campaignId);
+
+  return {
+    campaign: toEmailCampaign(snapshot.id, snapshot.data()!),
+    recipients: recipients.docs.map(doc => toCampaignRecipient(doc.id, doc.data()))
+  };
+}
+
+// 送信を終えたキャンペーンの状態（失敗した送信先はrequeueFailedRecipientsで送信待ちに戻してから送る）
+const FINISHED_STATUSES: EmailCampaignStatus[] = ['completed', 'failed', 'cancelled'];
+
+// ロックを取得できた場合のみキャンペーンを返す（期限切れのロックは奪ってよい。予約日時の前・送信を終えた後は送らない）
+async function acquireLock(userId: string, campaignId: string): Promise<EmailCampaign | null> {
+  const ref = campaignsCollection(userId).doc(campaignId);
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.data();
+    if (!data) throw campaignNotFound(campaignId);
+    if (data.lockedUntil > Date.now() || FINISHED_STATUSES.includes(data.status)) return null;
+    if (data.status === 'scheduled' && Date.parse(data.scheduledAt) > Date.now()) return null;
+
+    transaction.update(ref, {
+      status: 'sending',
+      lockedUntil: Date.now() + LOCK_TTL_MS,
+      updatedAt: new Date().toISOString()
+    });
+    return toEmailCampaign(snapshot.id, data);
+  });
+}
+
+// 送信先ごとの結果から件数を集計し、送信待ちがなければ完了にする（1件も送信できなかった場合はfailed）
+async function updateCampaignCounts(userId: string, campaignId: string): Promise<void> {
+  const recipients = await recipientsCollection(userId, campaignId).get();
+  const count = (status: EmailRecipientStatus) => recipients.docs.filter(doc => doc.data().status === status).length;
+  const successCount = count('sent');
+  const failureCount = count('failed');
+  const now = new Date().toISOString();
+
+  await campaignsCollection(userId).doc(campaignId).update({
+    successCount,
+    failureCount,
+    skippedCount: count('skipped'),
+    suppressedCount: count('suppressed'),
+    bouncedCount: count('bounced'),
+    lockedUntil: 0,
+    updatedAt: now,
+    ...(count('pending') === 0 ? {
+      status: failureCount > 0 && successCount === 0 ? 'failed' : 'completed',
+      completedAt: now
+    } : {})
+  });
+}
+
+// 送信できた名刺の記録（お礼メールのタスク・やりとり）。失敗しても送信結果には影響させない
+// 名刺の送信済みの記録は二重送信の防止に使うため、送信ごとに送信結果と一緒に書き込む（sendToRecipient）
+async function recordSent(userId: string, campaign: EmailCampaign, sent: EmailCampaignRecipient[], sentAt: string) {
+  const cardIds = sent.map(recipient => recipient.cardId);
+  try {
+    await completeEmailTasks(userId, cardIds, sentAt);
+  } catch (error: any) {
+    logError(error, { operation: 'completeEmailTasks', userId });
+  }
+  try {
+    await logEmailInteractions(userId, campaign.id, sent.map(({ cardId, subject, body }) => ({ cardId, subject, body })), sentAt);
+  } catch (error: any) {
+    logError(error, { operation: 'logEmailInteractions', userId });
+  }
+}
+
+// 1件送信する。一時的なエラーは間隔をあけて再試行し、失敗した場合は理由を記録する
+async function sendToRecipient(
+  userId: string,
+  transport: MailTransport,
+  appUrl: string,
+  campaign: EmailCampaign,
+  doc: QueryDocumentSnapshot
+): Promise<{ recipient: EmailCampaignRecipient; error?: any }> {
+  const recipient = toCampaignRecipient(doc.id, doc.data());
+  const { pageUrl, oneClickUrl } = unsubscribeLinks(
+    appUrl,
+    createUnsubscribeToken({ userId, email: recipient.email, cardId: recipient.cardId, campaignId: campaign.id })
+  );
+  const body = withUnsubscribeLink(recipient.body, pageUrl);
+  const html = campaign.tracking
+    ? toTrackedHtml(body, appUrl, { userId, campaignId: campaign.id, cardId: recipient.cardId }, url => url !== pageUrl)
+    : textToHtml(body);
+  let attempts = 0;
+
+  try {
+    await withRetry(async () => {
+      attempts++;
+      await throttle(transport.provider);
+      await transport.send({
+        from: `"${campaign.sender.name}" <${campaign.sender.email || transport.defaultFrom}>`,
+        to: recipient.email,
+        subject: recipient.subject,
+        text: body,
+        html,
+        headers: {
+          'List-Unsubscribe': `<${oneClickUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      });
+    }, SEND_RETRY_OPTIONS);
+  } catch (error: any) {
+    console.error(`Failed to send email to ${recipient.email}:`, error);
+    await doc.ref.update({
+      status: 'failed',
+      error: describeMailError(error),
+      attempts: FieldValue.increment(attempts)
+    });
+    return { recipient, error };
+  }
+
+  // 送信済みの記録と名刺の送信済みのテンプレートは同じバッチで書き込む（送ったメールは失敗にしないよう再試行する）
+  const sentAt = new Date().toISOString();
+  await withRetry(async () => {
+    const batch = adminDb.batch();
+    batch.update(doc.ref, {
+      status: 'sent',
+      error: FieldValue.delete(),
+      sentAt,
+      attempts: FieldValue.increment(attempts)
+    });
+    await markCardEmailedInBatch(batch, userId, recipient.cardId, sentAt, campaign.templateId);
+    await batch.commit();
+  });
+  return { recipient };
+}
+
+// 送信数の上限に達した場合、残りの送信待ちは送らずに失敗にする（時間をおいて再送できる）
+async function failPendingRecipients(userId: string, campaignId: string, reason: string) {
+  const pending = await recipientsCollection(userId, campaignId).where('status', '==', 'pending').get();
+  for (let i = 0; i < pending.docs.length; i += MAX_WRITES_PER_BATCH) {
+    const batch = adminDb.batch();
+    pending.docs.slice(i, i + MAX_WRITES_PER_BATCH).forEach(doc => {
+      batch.update(doc.ref, { status: 'failed', error: reason });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * 送信待ちの送信先に時間の許す限り送り、最新の結果を返す
+ * 別のリクエストが送信中の場合は何もせずに現在の結果を返す
+ */
+export async function processCampaign(
+  userId: string,
+  campaignId: string,
+  timeBudgetMs: number = SEND_TIME_BUDGET_MS
+): Promise<CampaignResult> {
+  const campaign = await acquireLock(userId, campaignId);
+  if (!campaign) return getCampaignResult(userId, campaignId);
+
+  const sent: EmailCampaignRecipient[] = [];
+  const deadline = Date.now() + timeBudgetMs;
+  let hasPending = true;
+
+  try {
+    const transport = createMailTransport(campaign.provider);
+    const appUrl = getAppUrl();
+
+    while (hasPending && Date.now() < deadline) {
+      const pending = await recipientsCollection(userId, campaignId)
+        .where('status', '==', 'pending')
+        .limit(PENDING_PAGE_SIZE)
+        .get();
+      hasPending = !pending.empty;
+      const suppressed = await findSuppressedEmails(userId, pending.docs.map(doc => doc.data().email));
+
+      for (const doc of pending.docs) {
+        if (Date.now() >= deadline) break;
+        const reason = suppressed.get(normalizeEmail(doc.data().email || ''));
+        if (reason) {
+          await doc.ref.update({ status: 'suppressed', error: `配信停止リストにあるため送信しませんでした（${SUPPRESSION_REASON_LABELS[reason]}）` });
+          continue;
+        }
+        const { recipient, error } = await sendToRecipient(userId, transport, appUrl, campaign, doc);
+        if (!error) {
+          sent.push(recipient);
+        } else if (isQuotaError(error)) {
+          await failPendingRecipients(userId, campaignId, describeMailError(error));
+          hasPending = false;
+          break;
+        }
+      }
+    }
+  } finally {
+    await updateCampaignCounts(userId, campaignId);
+  }
+
+  if (sent.length > 0) await recordSent(userId, campaign, sent, new Date().toISOString());
+  return getCampaignResult(userId, campaignId);
+}
+
+/**
+ * 送信に失敗した送信先を送信待ちに戻す（送信済み・スキップした送信先には送らない）
+ */
+export async function requeueFailedRecipients(userId: string, campaignId: string): Promise<number> {
+  const snapshot = await campaignsCollection(userId).doc(campaignId).get();
+  if (!snapshot.exists) throw campaignNotFound(campaignId);
+  if (snapshot.data()!.lockedUntil > Date.now()) {
+    throw new BusinessCardError('このメールは送信中です', ErrorCode.API_INVALID_REQUEST, 409, true, { campaignId });
+  }
+
+  const failed = await recipientsCollection(userId, campaignId).where('status', '==', 'failed').get();
+  for (let i = 0; i < failed.docs.length; i += MAX_WRITES_PER_BATCH) {
+    const batch = adminDb.batch();
+    failed.docs.slice(i, i + MAX_WRITES_PER_BATCH).forEach(doc => {
+      batch.update(doc.ref, { status: 'pending' });
+    });
+    await batch.commit();
+  }
+  if (failed.size > 0) {
+    await snapshot.ref.update({ status: 'sending', completedAt: FieldValue.delete(), updatedAt: new Date().toISOString() });
+  }
+  return failed.size;
+}
+
+/**
+ * 送信済みの送信先がバウンスしたことを記録する（送信済みの件数から不達の件数に移す）
+ * 記録した場合はtrue
+ */
+export async function markRecipientBounced(
+  userId: string,
+  campaignId: string,
+  cardId: string,
+  reason: string
+): Promise<boolean> {
+  const campaignRef = campaignsCollection(userId).doc(campaignId);
+  const recipientRef = recipientsCollection(userId, campaignId).doc(cardId);
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(recipientRef);
+    if (snapshot.data()?.status !== 'sent') return false;
+
+    transaction.update(recipientRef, { status: 'bounced', error: reason });
+    transaction.update(campaignRef, {
+      successCount: FieldValue.increment(-1),
+      bouncedCount: FieldValue.increment(1),
+      updatedAt: new Date().toISOString()
+    });
+    return true;
+  });
+}
+
+// 予約中のキャンペーンを変更する（送信を始めたキャンペーンは変更できない）
+// スケジューラーが送信を始める（ロックを取る）のと競合しないよう、状態の確認と変更は同じトランザクションで行う
+async function updateScheduledCampaign(
+  userId: string,
+  campaignId: string,
+  changes: Record<string, unknown>,
+  allowStatus?: EmailCampaignStatus
+) {
+  const ref = campaignsCollection(userId).doc(campaignId);
+  await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.data();
+    if (!data) throw campaignNotFound(campaignId);
+    if (allowStatus && data.status === allowStatus) return;
+    if (data.status !== 'scheduled' || data.lockedUntil > Date.now()) {
+      throw new BusinessCardError('送信を始めたメールの予約は変更できません', ErrorCode.API_INVALID_REQUEST, 409, true, { campaignId });
+    }
+    transaction.update(ref, { ...changes, updatedAt: new Date().toISOString() });
+  });
+  return ref;
+}
+
+/**
+ * 予約日時を変更する
+ */
+export async function rescheduleCampaign(userId: string, campaignId: string, scheduledAt: string): Promise<void> {
+  await updateScheduledCampaign(userId, campaignId, { scheduledAt });
+}
+
+/**
+ * 予約を取り消す（まだ1通も送っていないため、送信履歴からも削除する）
+ * 先に取り消し済み（cancelled）にしてスケジューラーが送らないようにしてから削除する。削除に失敗した場合は再実行できる
+ */
+export async function cancelScheduledCampaign(userId: string, campaignId: string): Promise<void> {
+  const ref = await updateScheduledCampaign(userId, campaignId, { status: 'cancelled' }, 'cancelled');
+  await adminDb.recursiveDelete(ref);
+}
+
+/**
+ * 予約日時を過ぎたキャンペーンと、送信中に止まったキャンペーン（ページを閉じた場合など）を時間の許す限り送る
+ */
+export async function runDueCampaigns(timeBudgetMs: number = SEND_TIME_BUDGET_MS): Promise<{ processed: number; remaining: boolean }> {
+  const now = Date.now();
+  const deadline = now + timeBudgetMs;
+  const campaigns = adminDb.collectionGroup('emailCampaigns');
+  const [due, stalled] = await Promise.all([
+    campaigns.where('status', '==', 'scheduled').where('scheduledAt', '<=', new Date(now).toISOString())
+      .orderBy('scheduledAt').limit(SCHEDULER_BATCH_SIZE).get(),
+    campaigns.where('status', '==', 'sending').where('lockedUntil', '<', now)
+      .orderBy('lockedUntil').limit(SCHEDULER_BATCH_SIZE).get()
+  ]);
+
+  let processed = 0;
+  for (const doc of [...due.docs, ...stalled.docs]) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return { processed, remaining: true };
+
+    const userId = doc.ref.parent.parent!.id;
+    try {
+      await processCampaign(userId, doc.id, remaining);
+      processed++;
+    } catch (error: any) {
+      logError(error, { operation: 'runDueCampaigns', userId, campaignId: doc.id });
+    }
+  }
+  return { processed, remaining: due.size === SCHEDULER_BATCH_SIZE || stalled.size === SCHEDULER_BATCH_SIZE };
+}
+
+/**
+ * APIのレスポンス（送信待ちが残っている場合はクライアントが続きを送る）
+ */
+export function toCampaignResponse({ campaign, recipients }: CampaignResult): EmailCampaignProgress {
+  const pendingCount = recipients.filter(recipient => recipient.status === 'pending').length;
+  if (campaign.status === 'scheduled' && campaign.scheduledAt) {
+    return {
+      success: true,
+      campaignId: campaign.id,
+      campaign,
+      pendingCount,
+      results: recipients.map(({ cardId, email, status, error }) => ({ cardId, email, status, error })),
+      message: `${formatScheduledAt(campaign.scheduledAt)}に${pendingCount}件の送信を予約しました`
+        + (campaign.skippedCount > 0 ? `（送信済みのため${campaign.skippedCount}件をスキップ）` : '')
+    };
+  }
+  return {
+    success: pendingCount === 0 && campaign.failureCount === 0,
+    campaignId: campaign.id,
+    campaign,
+    pendingCount,
+    results: recipients.map(({ cardId, email, status, error }) => ({ cardId, email, status, error })),
+    message: pendingCount > 0
+      ? `送信中: ${campaign.successCount}/${campaign.recipientCount}件（残り${pendingCount}件）`
+      : `送信完了: ${campaign.successCount}/${campaign.recipientCount}件`
+        + (campaign.failureCount > 0 ? `（失敗${campaign.failureCount}件）` : '')
+        + (campaign.skippedCount > 0 ? `（送信済みのため${campaign.skippedCount}件をスキップ）` : '')
+        + (campaign.suppressedCount > 0 ? `（配信停止のため${campaign.suppressedCount}件を除外）` : '')
+  };
+}
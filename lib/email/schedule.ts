@@ -0,0 +1,94 @@
+import { toDateString } from '@/lib/tasks';
+import { isBusinessDay, nextBusinessDay } from '@/lib/holidays';
+
+/**
+ * メールの予約送信
+ * 送信日時は日本時間で扱う（名刺の相手の多くが日本のため。日本時間には夏時間がない）。
+ * 夜間・休日に送らないよう、送信時間帯の外で送る場合は次の営業日の朝を提案する
+ */
+
+const TIME_ZONE = 'Asia/Tokyo';
+const JST_OFFSET = '+09:00';
+
+// 送信してよい時間帯（日本時間の時）
+export const SEND_WINDOW = { startHour: 8, endHour: 20 };
+
+// 「次の営業日の朝」に送る時刻
+export const BUSINESS_MORNING_HOUR = 9;
+
+// 予約できる期間
+export const MAX_SCHEDULE_DAYS = 90;
+
+export type SendTiming = 'now' | 'nextBusinessMorning' | 'custom';
+
+const jstHour = (date: Date) =>
+  Number(new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, hour: 'numeric', hourCycle: 'h23' }).format(date));
+
+// 日本時間の日付と時刻からDateを作る
+export const jstDateTime = (date: string, hour: number, minute = 0): Date =>
+  new Date(`${date}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:00${JST_OFFSET}`);
+
+// 日時入力（YYYY-MM-DDTHH:mm）を日本時間として読む
+export const parseJstDateTimeInput = (value: string): Date | null => {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const date = jstDateTime(match[1], Number(match[2]), Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Dateを日時入力（YYYY-MM-DDTHH:mm、日本時間）の値にする
+export const toJstDateTimeInput = (date: Date): string => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}`;
+};
+
+// 予約日時の表記（10月20日(月) 9:00）
+export const formatScheduledAt = (value: string | Date): string =>
+  new Intl.DateTimeFormat('ja-JP', {
+    timeZone: TIME_ZONE,
+    month: 'long',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(new Date(value));
+
+/**
+ * 営業日の送信時間帯の中か
+ */
+export const isWithinSendWindow = (date: Date = new Date()): boolean => {
+  const hour = jstHour(date);
+  return isBusinessDay(toDateString(date)) && hour >= SEND_WINDOW.startHour && hour < SEND_WINDOW.endHour;
+};
+
+/**
+ * 次の営業日の朝（今日が営業日でまだ朝の送信時刻の前なら今日）
+ */
+export const nextBusinessMorning = (now: Date = new Date()): Date => {
+  const today = toDateString(now);
+  if (isBusinessDay(today) && jstHour(now) < BUSINESS_MORNING_HOUR) {
+    return jstDateTime(today, BUSINESS_MORNING_HOUR);
+  }
+  return jstDateTime(nextBusinessDay(today), BUSINESS_MORNING_HOUR);
+};
+
+/**
+ * 予約日時の誤り（問題なければnull）
+ */
+export const validateScheduledAt = (scheduledAt: Date, now: Date = new Date()): string | null => {
+  if (Number.isNaN(scheduledAt.getTime())) return '送信日時が正しくありません';
+  if (scheduledAt.getTime() <= now.getTime()) return '送信日時は現在より後にしてください';
+  if (scheduledAt.getTime() > now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return `送信日時は${MAX_SCHEDULE_DAYS}日以内にしてください`;
+  }
+  return null;
+};
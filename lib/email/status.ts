@@ -0,0 +1,43 @@
+import { EmailCampaignStatus, EmailEngagement, EmailRecipientStatus, SuppressionReason } from '@/types/email';
+import { formatDateTime } from '@/lib/utils';
+
+/**
+ * 送信履歴の状態・開封の表示（ブラウザからも使うため、送信処理とは別のファイルにする）
+ */
+
+export const CAMPAIGN_STATUS_LABELS: Record<EmailCampaignStatus, { label: string; className: string }> = {
+  draft: { label: '未送信', className: 'bg-gray-600' },
+  scheduled: { label: '送信予約', className: 'bg-purple-700' },
+  sending: { label: '送信中', className: 'bg-blue-600' },
+  completed: { label: '送信完了', className: 'bg-green-700' },
+  failed: { label: '送信失敗', className: 'bg-red-700' },
+  cancelled: { label: '予約取り消し', className: 'bg-gray-600' }
+};
+
+export const RECIPIENT_STATUS_LABELS: Record<EmailRecipientStatus, { label: string; className: string }> = {
+  pending: { label: '送信待ち', className: 'text-gray-400' },
+  sent: { label: '送信済み', className: 'text-green-400' },
+  failed: { label: '送信失敗', className: 'text-red-400' },
+  skipped: { label: 'スキップ', className: 'text-amber-400' },
+  suppressed: { label: '配信停止', className: 'text-gray-400' },
+  bounced: { label: '不達', className: 'text-red-400' }
+};
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  unsubscribed: '配信停止の申し込み',
+  bounced: '不達（バウンス）',
+  manual: '手動で追加'
+};
+
+// 開封率・クリック率（送信できた件数に対する割合）
+export const engagementRate = (count: number, sentCount: number) =>
+  sentCount > 0 ? `${Math.round((count / sentCount) * 100)}%` : '-';
+
+// 送信先ごとの開封・クリック（開封していなければ空）
+export const describeEngagement = (engagement?: EmailEngagement): string => {
+  if (!engagement?.firstOpenedAt) return '';
+  return [
+    `開封 ${formatDateTime(engagement.firstOpenedAt)}${engagement.openCount > 1 ? `（${engagement.openCount}回）` : ''}`,
+    engagement.clickCount > 0 ? `クリック ${engagement.clickCount}回` : ''
+  ].filter(Boolean).join(' ・ ');
+};
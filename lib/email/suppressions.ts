@@ -0,0 +1,142 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { EmailSuppression, SuppressionReason } from '@/types/email';
+import { BusinessCardError, ErrorCode, logError } from '@/lib/errors';
+import { signToken, verifyToken } from '@/lib/security/signing';
+import { normalizeEmail, suppressionId, toEmailSuppression } from '@/lib/firebase/suppressionRepository';
+import { restoreCardEmail } from '@/lib/firebase/adminCardRepository';
+import { UNSUBSCRIBE_URL_TAG } from '@/lib/email/template';
+
+/**
+ * 配信停止（サーバー側）
+ * 送信するメールには送信先ごとの署名付きの配信停止リンクとList-Unsubscribeヘッダー（RFC 8058のワンクリック）を付ける。
+ * 署名付きトークンには送信者・送信先・名刺・キャンペーンを含め、バウンスの通知に返送されたヘッダーから送信先を特定するのにも使う。
+ * 配信停止リストはブラウザから書き込めないため、手動での追加・削除もここから行う（/api/email/suppressions）
+ */
+
+const UNSUBSCRIBE_PURPOSE = 'email-unsubscribe';
+
+// 配信停止のリンクから分かる送信元のメール
+export interface UnsubscribeRef {
+  userId: string;
+  email: string;
+  cardId?: string;
+  campaignId?: string;
+}
+
+export interface SuppressionInput {
+  email: string;
+  reason: SuppressionReason;
+  detail?: string;
+  cardId?: string;
+  campaignId?: string;
+}
+
+const suppressionsCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('emailSuppressions');
+
+// 配信停止のリンクは期限なしで使えるようにする（古いメールからも停止できるようにするため）
+export const createUnsubscribeToken = ({ userId, email, cardId, campaignId }: UnsubscribeRef): string =>
+  signToken({
+    purpose: UNSUBSCRIBE_PURPOSE,
+    sub: userId,
+    email,
+    ...(cardId ? { card: cardId } : {}),
+    ...(campaignId ? { cmp: campaignId } : {})
+  });
+
+export const readUnsubscribeToken = (token: string): UnsubscribeRef | null => {
+  const payload = verifyToken(token, UNSUBSCRIBE_PURPOSE);
+  if (!payload || typeof payload.email !== 'string') return null;
+  return {
+    userId: payload.sub,
+    email: payload.email,
+    cardId: typeof payload.card === 'string' ? payload.card : undefined,
+    campaignId: typeof payload.cmp === 'string' ? payload.cmp : undefined
+  };
+};
+
+/**
+ * 配信停止のURL（本文のリンクは確認ページ、List-Unsubscribeはワンクリックで停止するAPI）
+ */
+export const unsubscribeLinks = (appUrl: string, token: string) => ({
+  pageUrl: `${appUrl}/unsubscribe?token=${encodeURIComponent(token)}`,
+  oneClickUrl: `${appUrl}/api/email/unsubscribe?token=${encodeURIComponent(token)}`
+});
+
+// 本文の{{unsubscribeUrl}}を配信停止のURLにする（テンプレートで使っていない場合は末尾に追記する）
+export const withUnsubscribeLink = (body: string, url: string): string =>
+  body.includes(UNSUBSCRIBE_URL_TAG)
+    ? body.split(UNSUBSCRIBE_URL_TAG).join(url)
+    : `${body.trimEnd()}\n\n--\n今後このようなメールの受信を希望されない場合は、こちらから配信を停止できます。\n${url}\n`;
+
+/**
+ * 配信停止リストにあるアドレス（正規化したアドレス → 理由）
+ */
+export async function findSuppressedEmails(userId: string, emails: string[]): Promise<Map<string, SuppressionReason>> {
+  const suppressed = new Map<string, SuppressionReason>();
+  const unique = Array.from(new Set(emails.filter(Boolean).map(normalizeEmail)));
+  if (unique.length === 0) return suppressed;
+
+  const snapshots = await adminDb.getAll(...unique.map(email => suppressionsCollection(userId).doc(suppressionId(email))));
+  snapshots.forEach(snapshot => {
+    const data = snapshot.data();
+    if (data) suppressed.set(normalizeEmail(data.email || decodeURIComponent(snapshot.id)), data.reason || 'manual');
+  });
+  return suppressed;
+}
+
+/**
+ * 配信停止リストに追加する（既にあるアドレスは最初に追加した理由のままにする）
+ * 追加した場合はtrue
+ */
+export async function suppressEmail(userId: string, input: SuppressionInput): Promise<boolean> {
+  const ref = suppressionsCollection(userId).doc(suppressionId(input.email));
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (snapshot.exists) return false;
+
+    transaction.set(ref, {
+      email: input.email.trim(),
+      reason: input.reason,
+      ...(input.detail ? { detail: input.detail } : {}),
+      ...(input.cardId ? { cardId: input.cardId } : {}),
+      ...(input.campaignId ? { campaignId: input.campaignId } : {}),
+      createdAt: new Date().toISOString()
+    });
+    return true;
+  });
+}
+
+/**
+ * 配信停止リストから外す（バウンスで無効にした名刺のアドレスも有効に戻す）
+ * 相手が配信停止を申し込んだアドレスは外せない
+ */
+export async function removeSuppression(userId: string, email: string): Promise<EmailSuppression> {
+  const ref = suppressionsCollection(userId).doc(suppressionId(email));
+  const suppression = await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) {
+      throw new BusinessCardError('配信停止リストにないアドレスです', ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND, 404);
+    }
+    const found = toEmailSuppression(snapshot.id, snapshot.data()!);
+    if (found.reason === 'unsubscribed') {
+      throw new BusinessCardError(
+        '配信停止を申し込んだアドレスはリストから外せません',
+        ErrorCode.FIREBASE_PERMISSION_DENIED,
+        403
+      );
+    }
+    transaction.delete(ref);
+    return found;
+  });
+
+  if (suppression.reason === 'bounced' && suppression.cardId) {
+    try {
+      await restoreCardEmail(userId, suppression.cardId, suppression.email);
+    } catch (error: any) {
+      // 配信停止リストから外せていれば送信はできるため、名刺の記録の失敗は結果に影響させない
+      logError(error, { operation: 'restoreCardEmail', userId, cardId: suppression.cardId });
+    }
+  }
+  return suppression;
+}
@@ -0,0 +1,264 @@
+import { BusinessCard, NetworkingEvent } from '@/types';
+import { EmailSettings, EmailTemplate } from '@/types/email';
+import { addressName } from '@/lib/names';
+import { formatPhone } from '@/lib/phone';
+import { formatAddress, isEmptyAddress } from '@/lib/address';
+
+/**
+ * メールテンプレートの言語
+ * - {{変数}}: 名刺・送信者の値に置き換える
+ * - {{変数 | "代わりの文字"}}: 値が空のときは代わりの文字にする
+ * - {{#if 変数}}...{{else}}...{{/if}}、{{#unless 変数}}...{{/unless}}: 値の有無で出し分ける
+ * - {{unsubscribeUrl}}: 送信時に送信先ごとの配信停止のURLにする（本文にない場合は送信時に末尾へ追記する）
+ * 送信前に validateTemplate で未定義の変数や閉じていないブロックを確認する
+ */
+
+export type TemplateContext = Record<string, string | undefined>;
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  group: 'recipient' | 'sender';
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'recipientName', label: '相手の氏名', group: 'recipient' },
+  { name: 'recipientFamilyName', label: '宛名（姓）', group: 'recipient' },
+  { name: 'recipientCompany', label: '相手の会社名', group: 'recipient' },
+  { name: 'title', label: '役職', group: 'recipient' },
+  { name: 'email', label: 'メールアドレス', group: 'recipient' },
+  { name: 'phone', label: '電話番号', group: 'recipient' },
+  { name: 'url', label: 'ウェブサイト', group: 'recipient' },
+  { name: 'address', label: '住所', group: 'recipient' },
+  { name: 'businessContent', label: '事業内容', group: 'recipient' },
+  { name: 'event', label: 'イベント名', group: 'recipient' },
+  { name: 'eventVenue', label: 'イベントの会場', group: 'recipient' },
+  { name: 'exchangeDate', label: '名刺交換日', group: 'recipient' },
+  { name: 'tags', label: 'タグ', group: 'recipient' },
+  { name: 'unsubscribeUrl', label: '配信停止のURL', group: 'recipient' },
+  { name: 'senderName', label: '送信者名', group: 'sender' },
+  { name: 'senderCompany', label: '送信者の会社名', group: 'sender' },
+  { name: 'senderTitle', label: '送信者の役職', group: 'sender' },
+  { name: 'signature', label: '署名', group: 'sender' }
+];
+
+// AIで作成した下書き（lib/email/drafting.ts）を送ったときに送信済みとして記録するテンプレートID
+export const AI_DRAFT_TEMPLATE_ID = 'ai-draft';
+
+// 配信停止のURLは署名が必要なため、差し込みの時点ではタグのまま残し送信時に置き換える
+export const UNSUBSCRIBE_URL_TAG = '{{unsubscribeUrl}}';
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map(variable => variable.name));
+
+// 保存せずに全員が使える標準のテンプレート（送信済みの記録に使うためidは変えない）
+export const DEFAULT_TEMPLATES: EmailTemplate[] = [
+  {
+    id: 'default-thank-you',
+    name: 'お礼メール（標準）',
+    subject: '【{{senderCompany}}】{{recipientFamilyName}}様 - お名刺交換のお礼',
+    body: `{{recipientName}} 様
+
+お世話になっております。
+{{senderCompany}}の{{senderName}}です。
+
+{{#if event}}先日は{{event}}にて{{else}}先日は{{/if}}お忙しい中、貴重なお時間をいただき誠にありがとうございました。
+お名刺を交換させていただき、大変光栄に存じます。
+
+{{#if recipientCompany}}{{recipientCompany}}様{{else}}貴社{{/if}}の益々のご発展を心よりお祈り申し上げます。
+今後ともどうぞよろしくお願いいたします。
+
+{{signature}}`,
+    variables: ['recipientName', 'recipientFamilyName', 'recipientCompany', 'event', 'senderName', 'senderCompany', 'signature'],
+    isDefault: true,
+    createdAt: '',
+    updatedAt: ''
+  }
+];
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; fallback?: string }
+  | { type: 'condition'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateIssue {
+  message: string;
+  tag?: string;
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const NAME = '([A-Za-z][A-Za-z0-9_]*)';
+const VARIABLE_TAG = new RegExp(`^${NAME}(?:\\s*\\|\\s*"([^"]*)")?$`);
+const OPEN_TAG = new RegExp(`^#(if|unless)\\s+${NAME}$`);
+const CLOSE_TAG = /^\/(if|unless)$/;
+
+interface OpenBlock {
+  kind: 'if' | 'unless';
+  node: Extract<TemplateNode, { type: 'condition' }>;
+  inElse: boolean;
+  parent: TemplateNode[];
+}
+
+// テンプレートを構文木にする（壊れたタグは文字のまま残し、issuesに記録する）
+const parseTemplate = (source: string): { nodes: TemplateNode[]; issues: TemplateIssue[] } => {
+  const root: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  const stack: OpenBlock[] = [];
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, content] = match;
+    if (match.index! > lastIndex) current.push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    lastIndex = match.index! + tag.length;
+
+    const open = OPEN_TAG.exec(content);
+    const close = CLOSE_TAG.exec(content);
+    const variable = VARIABLE_TAG.exec(content);
+
+    if (open) {
+      const node: OpenBlock['node'] = { type: 'condition', name: open[2], negate: open[1] === 'unless', then: [], otherwise: [] };
+      current.push(node);
+      stack.push({ kind: open[1] as OpenBlock['kind'], node, inElse: false, parent: current });
+      current = node.then;
+    } else if (content === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        issues.push({ message: '{{else}} に対応する {{#if}} がありません', tag });
+        current.push({ type: 'text', value: tag });
+        continue;
+      }
+      block.inElse = true;
+      current = block.node.otherwise;
+    } else if (close) {
+      const block = stack[stack.length - 1];
+      if (!block || block.kind !== close[1]) {
+        issues.push({ message: `${tag} に対応する {{#${close[1]}}} がありません`, tag });
+        current.push({ type: 'text', value: tag });
+        continue;
+      }
+      stack.pop();
+      current = block.parent;
+    } else if (variable) {
+      current.push({ type: 'variable', name: variable[1], fallback: variable[2] });
+    } else {
+      issues.push({ message: `${tag} は変数として読み取れません`, tag });
+      current.push({ type: 'text', value: tag });
+    }
+  }
+
+  if (lastIndex < source.length) current.push({ type: 'text', value: source.slice(lastIndex) });
+  stack.forEach(block => {
+    issues.push({ message: `{{#${block.kind} ${block.node.name}}} が {{/${block.kind}}} で閉じられていません` });
+  });
+
+  return { nodes: root, issues };
+};
+
+const collectVariables = (nodes: TemplateNode[], names: Set<string>) => {
+  nodes.forEach(node => {
+    if (node.type === 'text') return;
+    names.add(node.name);
+    if (node.type === 'condition') {
+      collectVariables(node.then, names);
+      collectVariables(node.otherwise, names);
+    }
+  });
+  return names;
+};
+
+// テンプレートで使っている変数
+export const extractVariables = (source: string): string[] =>
+  Array.from(collectVariables(parseTemplate(source).nodes, new Set()));
+
+/**
+ * テンプレートの問題（構文の誤り・未定義の変数）を返す。空なら送信できる
+ */
+export const validateTemplate = (template: Pick<EmailTemplate, 'subject' | 'body'>): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const fields = [['件名', template.subject], ['本文', template.body]] as const;
+
+  fields.forEach(([label, source]) => {
+    const parsed = parseTemplate(source);
+    parsed.issues.forEach(issue => issues.push({ ...issue, message: `${label}: ${issue.message}` }));
+    collectVariables(parsed.nodes, new Set()).forEach(name => {
+      if (!KNOWN_VARIABLES.has(name)) {
+        issues.push({ message: `${label}: {{${name}}} は使用できない変数です`, tag: `{{${name}}}` });
+      }
+    });
+  });
+
+  return issues;
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// テキストのメール本文をHTMLメールにする（名刺の値にHTMLが含まれていてもそのまま表示する）
+export const textToHtml = (text: string) => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, escape: (value: string) => string): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    const value = context[node.name]?.trim() || '';
+    if (node.type === 'variable') return escape(value || node.fallback || '');
+    return renderNodes(!value !== node.negate ? node.otherwise : node.then, context, escape);
+  }).join('');
+
+/**
+ * テンプレートに値を差し込む
+ * escapeを指定すると差し込む値だけを変換する（HTMLのテンプレートでは escapeHtml を指定する）
+ */
+export const renderTemplate = (
+  source: string,
+  context: TemplateContext,
+  { escape = (value: string) => value }: { escape?: (value: string) => string } = {}
+): string => renderNodes(parseTemplate(source).nodes, context, escape);
+
+// 交換日（YYYY-MM-DD）をメールの文面向けの表記にする
+const formatExchangeDate = (date?: string) => {
+  const match = date?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[1]}年${Number(match[2])}月${Number(match[3])}日` : date;
+};
+
+/**
+ * 名刺・イベント・送信者設定からテンプレートの変数の値を作る
+ */
+export const buildTemplateContext = (
+  card: BusinessCard,
+  settings: EmailSettings,
+  event?: NetworkingEvent | null
+): TemplateContext => ({
+  recipientName: card.name,
+  recipientFamilyName: addressName(card),
+  recipientCompany: card.companyName,
+  title: card.title,
+  email: card.emails?.[0],
+  phone: card.phones?.[0] ? formatPhone(card.phones[0]) : undefined,
+  url: card.urls?.[0],
+  address: card.address && !isEmptyAddress(card.address) ? formatAddress(card.address) : undefined,
+  businessContent: card.businessContent,
+  event: event?.name,
+  eventVenue: event?.venue,
+  exchangeDate: formatExchangeDate(card.exchangeDate),
+  tags: card.tags?.join('、'),
+  unsubscribeUrl: UNSUBSCRIBE_URL_TAG,
+  senderName: settings.senderName,
+  senderCompany: settings.companyName,
+  senderTitle: settings.companyTitle,
+  signature: settings.signature || `${settings.companyName}\n${settings.senderName}`
+});
+
+// テンプレートから件名と本文を作る
+export const renderEmail = (
+  template: Pick<EmailTemplate, 'subject' | 'body'>,
+  context: TemplateContext
+): { subject: string; body: string } => ({
+  // 件名は1行にする
+  subject: renderTemplate(template.subject, context).replace(/\s*\r?\n\s*/g, ' ').trim(),
+  body: renderTemplate(template.body, context)
+});
@@ -0,0 +1,121 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/admin';
+import { signToken, verifyToken } from '@/lib/security/signing';
+import { emailInteractionRef } from '@/lib/firebase/adminInteractionRepository';
+import { escapeHtml, textToHtml } from '@/lib/email/template';
+
+/**
+ * 開封・クリックの計測
+ * 計測するキャンペーン（テンプレートで計測しないを選んでいないもの）では、HTMLメールの末尾に送信先ごとの計測用の画像
+ * （/api/email/track/open）を入れ、本文のURLを記録してから元のURLに移るリンク（/api/email/track/click）にする。
+ * テキストのメールはそのままにする。
+ * 結果は送信先ごと（recipients/{cardId}）・キャンペーン全体の件数・名刺のやりとりの記録に書き込む
+ */
+
+const TRACKING_PURPOSE = 'email-tracking';
+
+// 計測した送信先
+export interface TrackingRef {
+  userId: string;
+  campaignId: string;
+  cardId: string;
+  url?: string; // クリックしたリンクの移動先
+}
+
+// 本文のURL（日本語の句読点・括弧の手前まで）
+const URL_PATTERN = /https?:\/\/[^\s<>"'、。「」（）]+/g;
+
+// 1×1の透明なGIF
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// 送信直後は名刺のやりとりの記録（送信をまとめて記録する）より先に開封されることがある
+const INTERACTION_LOG_GRACE_MS = 5 * 60_000;
+
+// 移動先は署名に含め、任意のURLへのリダイレクトに使えないようにする
+export const createTrackingToken = ({ userId, campaignId, cardId, url }: TrackingRef): string =>
+  signToken({
+    purpose: TRACKING_PURPOSE,
+    sub: userId,
+    cmp: campaignId,
+    card: cardId,
+    ...(url ? { url } : {})
+  });
+
+export const readTrackingToken = (token: string): TrackingRef | null => {
+  const payload = verifyToken(token, TRACKING_PURPOSE);
+  if (!payload || typeof payload.cmp !== 'string' || typeof payload.card !== 'string') return null;
+  return {
+    userId: payload.sub,
+    campaignId: payload.cmp,
+    cardId: payload.card,
+    url: typeof payload.url === 'string' && /^https?:\/\//i.test(payload.url) ? payload.url : undefined
+  };
+};
+
+/**
+ * 計測用のHTMLメールを作る（URLをクリックを記録するリンクにし、末尾に計測用の画像を入れる）
+ * shouldTrackがfalseを返すURL（配信停止のリンクなど）はそのままリンクにする
+ */
+export const toTrackedHtml = (
+  text: string,
+  appUrl: string,
+  ref: Omit<TrackingRef, 'url'>,
+  shouldTrack: (url: string) => boolean = () => true
+): string => {
+  let html = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    // 文末の記号はURLに含めない
+    const url = match[0].replace(/[.,;:!?)\]]+$/, '');
+    const href = shouldTrack(url)
+      ? `${appUrl}/api/email/track/click?token=${encodeURIComponent(createTrackingToken({ ...ref, url }))}`
+      : url;
+    html += `${textToHtml(text.slice(lastIndex, match.index))}<a href="${escapeHtml(href)}">${escapeHtml(url)}</a>`;
+    lastIndex = match.index! + url.length;
+  }
+  html += textToHtml(text.slice(lastIndex));
+
+  const pixelUrl = `${appUrl}/api/email/track/open?token=${encodeURIComponent(createTrackingToken(ref))}`;
+  return `${html}<img src="${escapeHtml(pixelUrl)}" width="1" height="1" alt="" style="border:0">`;
+};
+
+/**
+ * 開封（url なし）・クリック（url あり）を記録する
+ * 送信済みの送信先だけを数え、キャンペーンの件数は送信先ごとに初回だけ増やす。
+ * 画像を読み込まないメールアプリもあるため、開封していない送信先のクリックは開封としても数える
+ */
+export async function recordEngagement({ userId, campaignId, cardId, url }: TrackingRef): Promise<void> {
+  const campaignRef = adminDb.collection('users').doc(userId).collection('emailCampaigns').doc(campaignId);
+  const recipientRef = campaignRef.collection('recipients').doc(cardId);
+  const interactionRef = emailInteractionRef(userId, campaignId, cardId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const [recipient, interaction] = await Promise.all([transaction.get(recipientRef), transaction.get(interactionRef)]);
+    const data = recipient.data();
+    if (data?.status !== 'sent') return;
+
+    const engagement = data.engagement || {};
+    const now = new Date().toISOString();
+    const changes: Record<string, unknown> = url
+      ? {
+        clickCount: FieldValue.increment(1),
+        lastClickedAt: now,
+        clickedUrls: FieldValue.arrayUnion(url),
+        ...(engagement.firstClickedAt ? {} : { firstClickedAt: now })
+      }
+      : { openCount: FieldValue.increment(1), lastOpenedAt: now };
+    if (!engagement.firstOpenedAt) changes.firstOpenedAt = now;
+
+    transaction.set(recipientRef, { engagement: changes }, { merge: true });
+    // 利用者が削除したやりとりの記録は作り直さない
+    if (interaction.exists || Date.now() - Date.parse(data.sentAt || '') < INTERACTION_LOG_GRACE_MS) {
+      transaction.set(interactionRef, { engagement: changes }, { merge: true });
+    }
+
+    const counts = {
+      ...(engagement.firstOpenedAt ? {} : { openedCount: FieldValue.increment(1) }),
+      ...(url && !engagement.firstClickedAt ? { clickedCount: FieldValue.increment(1) } : {})
+    };
+    if (Object.keys(counts).length > 0) transaction.update(campaignRef, counts);
+  });
+}
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+import { MailProvider } from '@/types/email';
+
+/**
+ * メールの送信手段（トランスポート）
+ * MAIL_TRANSPORT で選ぶ（未指定ならGMAIL_USERがあればgmail、開発環境ではcapture）。
+ * - gmail: Gmailのアプリパスワード（GMAIL_USER / GMAIL_APP_PASSWORD）
+ * - smtp: 任意のSMTPサーバー（SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS）
+ * - ses: Amazon SESなどSESのSMTPインターフェースを持つサービス（SES_REGION または SES_SMTP_HOST / SES_SMTP_USER / SES_SMTP_PASS）
+ * - capture: 実際には送らず、メモリとMAIL_CAPTURE_DIRに保存する（開発・動作確認用）
+ */
+
+export interface OutgoingMail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  provider: MailProvider;
+  defaultFrom?: string; // 送信者のアドレスが未設定のときに使うアドレス
+  send: (mail: OutgoingMail) => Promise<{ messageId?: string }>;
+}
+
+export interface CapturedMail extends OutgoingMail {
+  messageId: string;
+  capturedAt: string;
+}
+
+// 送信の間隔（プロバイダーの送信レート制限を超えないようにする）
+export const PROVIDER_SEND_INTERVAL_MS: Record<MailProvider, number> = {
+  gmail: 1000,
+  smtp: 200,
+  ses: 100,
+  capture: 0
+};
+
+const MAX_CAPTURED_MAILS = 200;
+const capturedMails: CapturedMail[] = [];
+
+const configError = (message: string) => new BusinessCardError(
+  message,
+  ErrorCode.API_SERVER_ERROR,
+  500,
+  false
+);
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw configError(`メール送信の設定（${name}）がありません`);
+  return value;
+};
+
+// 応答のないサーバーで送信処理の時間を使い切らないようにする
+const TIMEOUTS = { connectionTimeout: 10_000, greetingTimeout: 10_000, socketTimeout: 20_000 };
+
+const nodemailerTransport = (provider: MailProvider, transporter: Transporter, defaultFrom?: string): MailTransport => ({
+  provider,
+  defaultFrom,
+  send: async (mail) => {
+    const info = await transporter.sendMail(mail);
+    return { messageId: info.messageId };
+  }
+});
+
+const createCaptureTransport = (): MailTransport => ({
+  provider: 'capture',
+  defaultFrom: process.env.MAIL_CAPTURE_FROM || 'dev@localhost',
+  send: async (mail) => {
+    const captured: CapturedMail = {
+      ...mail,
+      messageId: `<${Date.now()}.${Math.random().toString(36).slice(2)}@capture.local>`,
+      capturedAt: new Date().toISOString()
+    };
+    capturedMails.push(captured);
+    if (capturedMails.length > MAX_CAPTURED_MAILS) capturedMails.shift();
+
+    const directory = process.env.MAIL_CAPTURE_DIR;
+    if (directory) {
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${captured.capturedAt.replace(/[:.]/g, '-')}-${mail.to.replace(/[^\w.@-]/g, '_')}.json`;
+      await fs.writeFile(path.join(directory, fileName), JSON.stringify(captured, null, 2));
+    }
+    console.info(`[mail:capture] ${mail.to} ${mail.subject}`);
+    return { messageId: captured.messageId };
+  }
+});
+
+// 設定から使うトランスポートを決める
+export const resolveMailProvider = (): MailProvider => {
+  const configured = process.env.MAIL_TRANSPORT as MailProvider | undefined;
+  if (configured) {
+    if (!(configured in PROVIDER_SEND_INTERVAL_MS)) {
+      throw configError(`MAIL_TRANSPORT=${configured} には対応していません`);
+    }
+    return configured;
+  }
+  if (process.env.GMAIL_USER) return 'gmail';
+  if (process.env.NODE_ENV !== 'production') return 'capture';
+  throw configError('メール送信の設定（MAIL_TRANSPORT または GMAIL_USER）がありません');
+};
+
+export const createMailTransport = (provider: MailProvider = resolveMailProvider()): MailTransport => {
+  switch (provider) {
+    case 'gmail': {
+      const user = requireEnv('GMAIL_USER');
+      return nodemailerTransport('gmail', nodemailer.createTransport({
+        ...TIMEOUTS,
+        service: 'gmail',
+        auth: { user, pass: requireEnv('GMAIL_APP_PASSWORD') }
+      }), user);
+    }
+    case 'smtp': {
+      const port = Number(process.env.SMTP_PORT) || 587;
+      return nodemailerTransport('smtp', nodemailer.createTransport({
+        ...TIMEOUTS,
+        host: requireEnv('SMTP_HOST'),
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+      }), process.env.SMTP_FROM || process.env.SMTP_USER);
+    }
+    case 'ses': {
+      const host = process.env.SES_SMTP_HOST || `email-smtp.${requireEnv('SES_REGION')}.amazonaws.com`;
+      return nodemailerTransport('ses', nodemailer.createTransport({
+        ...TIMEOUTS,
+        host,
+        port: 587,
+        secure: false,
+        auth: { user: requireEnv('SES_SMTP_USER'), pass: requireEnv('SES_SMTP_PASS') }
+      }), process.env.SES_FROM);
+    }
+    case 'capture':
+      return createCaptureTransport();
+  }
+};
+
+// captureトランスポートで保存したメール（新しい順）
+export const getCapturedMails = (): CapturedMail[] => [...capturedMails].reverse();
+
+const TRANSIENT_ERROR_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED']);
+
+// 1日の送信数などの上限に達した（時間をおかないと送れない）
+export const isQuotaError = (error: any): boolean =>
+  /quota|limit exceeded|rate exceeded|too many/i.test(`${error?.response || ''} ${error?.message || ''}`) &&
+  !(error?.responseCode >= 400 && error?.responseCode < 500);
+
+/**
+ * しばらくして再送すれば送れる見込みがあるエラー（接続エラー・SMTPの4xx応答）
+ */
+export const isTransientMailError = (error: any): boolean => {
+  if (TRANSIENT_ERROR_CODES.has(error?.code)) return true;
+  const responseCode = Number(error?.responseCode);
+  return responseCode >= 400 && responseCode < 500;
+};
+
+// 送信失敗の理由を利用者に分かる文にする
+export const describeMailError = (error: any): string => {
+  const detail = error?.response || error?.message || 'Unknown error';
+  if (isQuotaError(error)) return `送信数の上限に達しました。時間をおいて再送してください（${detail}）`;
+  if (error?.code === 'EAUTH') return `メールサーバーの認証に失敗しました。送信の設定を確認してください（${detail}）`;
+  if (error?.responseCode >= 500 && error?.responseCode < 600) return `宛先に届けられませんでした（${detail}）`;
+  if (TRANSIENT_ERROR_CODES.has(error?.code)) return `メールサーバーに接続できませんでした（${detail}）`;
+  if (isTransientMailError(error)) return `メールサーバーが一時的に受け付けませんでした。時間をおいて再送してください（${detail}）`;
+  return detail;
+};
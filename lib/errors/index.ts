@@ -126,6 +126,7 @@ export const fromFirebaseError = (error: any): BusinessCardError => {
       );
     
     case 'permission-denied':
+    case 'storage/unauthorized':
       return new BusinessCardError(
         ErrorMessages[ErrorCode.FIREBASE_PERMISSION_DENIED],
         ErrorCode.FIREBASE_PERMISSION_DENIED,
@@ -133,6 +134,7 @@ export const fromFirebaseError = (error: any): BusinessCardError => {
       );
     
     case 'not-found':
+    case 'storage/object-not-found':
       return new BusinessCardError(
         ErrorMessages[ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND],
         ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
@@ -140,6 +142,7 @@ export const fromFirebaseError = (error: any): BusinessCardError => {
       );
     
     case 'resource-exhausted':
+    case 'storage/quota-exceeded':
       return new BusinessCardError(
         ErrorMessages[ErrorCode.FIREBASE_QUOTA_EXCEEDED],
         ErrorCode.FIREBASE_QUOTA_EXCEEDED,
@@ -0,0 +1,36 @@
+import { BusinessCard, NetworkingEvent } from '@/types';
+import { toDateString } from '@/lib/tasks';
+
+/**
+ * 展示会・交流会などのイベント
+ * 連続して名刺を取り込むときに「現在のイベント」を設定し、保存する名刺にイベントと交換日を記録する
+ */
+
+// イベントの期間の表記
+export const formatEventPeriod = (event: NetworkingEvent): string =>
+  event.endDate && event.endDate !== event.date ? `${event.date} 〜 ${event.endDate}` : event.date;
+
+// 新しい順（開始日が同じなら名前順）
+export const sortEvents = (events: NetworkingEvent[]): NetworkingEvent[] =>
+  [...events].sort((a, b) => b.date.localeCompare(a.date) || a.name.localeCompare(b.name, 'ja'));
+
+export const isEventOver = (event: NetworkingEvent, today: string = toDateString()) =>
+  (event.endDate || event.date) < today;
+
+/**
+ * イベントで交換した名刺の交換日
+ * 開催期間中に取り込む場合は今日、それ以外（後日まとめて取り込む場合など）は開始日にする
+ */
+export const eventExchangeDate = (event: NetworkingEvent, today: string = toDateString()): string =>
+  today >= event.date && today <= (event.endDate || event.date) ? today : event.date;
+
+// 保存する名刺にイベントと交換日を記録する（イベントが未設定ならそのまま）
+export const stampCardWithEvent = <T extends Partial<BusinessCard>>(
+  card: T,
+  event: NetworkingEvent | null,
+  today: string = toDateString()
+): T => event?.id ? { ...card, eventId: event.id, exchangeDate: eventExchangeDate(event, today) } : card;
+
+// イベントの選択肢に表示する表記
+export const eventLabel = (event: NetworkingEvent) =>
+  `${event.name}（${formatEventPeriod(event)}${event.venue ? `・${event.venue}` : ''}）`;
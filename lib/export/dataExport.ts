@@ -1,7 +1,10 @@
 /**
  * Data Export and Backup utilities
  */
-import { BusinessCard } from '@/types';
+import { BusinessCard, PhoneType } from '@/types';
+import { withNameParts, joinName } from '@/lib/names';
+import { formatPhoneWithType, toPhoneEntries } from '@/lib/phone';
+import { formatPostalCode, isEmptyAddress, toPostalAddress } from '@/lib/address';
 
 /**
  * Export formats
@@ -46,6 +49,11 @@ export function exportToCSV(cards: BusinessCard[]): string {
     '役職',
     'メールアドレス',
     '電話番号',
+    '郵便番号',
+    '都道府県',
+    '市区町村',
+    '番地',
+    '建物名',
     'URL',
     'LINE ID',
     '事業内容',
@@ -62,7 +70,12 @@ export function exportToCSV(cards: BusinessCard[]): string {
     card.companyName,
     card.title || '',
     card.emails.join('; '),
-    card.phones.join('; '),
+    card.phones.map(formatPhoneWithType).join('; '),
+    card.address?.postalCode ? formatPostalCode(card.address.postalCode) : '',
+    card.address?.prefecture || '',
+    card.address?.city || '',
+    card.address?.street || '',
+    card.address?.building || '',
     card.urls.join('; '),
     card.line_ids.join('; '),
     (card.businessContent || '').replace(/\n/g, ' ').replace(/"/g, '""'),
@@ -83,20 +96,47 @@ export function exportToCSV(cards: BusinessCard[]): string {
   return '\uFEFF' + csvContent;
 }
 
+// vCard 3.0 TEL types for each phone type (direct and toll-free lines have no dedicated type)
+const VCARD_PHONE_TYPES: Record<PhoneType, string> = {
+  office: 'WORK,VOICE',
+  mobile: 'CELL,VOICE',
+  fax: 'WORK,FAX',
+  direct: 'WORK,VOICE',
+  tollfree: 'WORK,VOICE'
+};
+
+// ADR: は「私書箱;拡張住所;番地;市区町村;都道府県;郵便番号;国」。番地と建物名は番地の欄にまとめる
+const toVCardAddress = (card: BusinessCard): string | null => {
+  if (isEmptyAddress(card.address)) return null;
+
+  const { postalCode, prefecture, city, street, building } = card.address!;
+  const streetLine = [street, building].filter(Boolean).join(' ');
+  return `ADR;TYPE=WORK:;;${streetLine};${city || ''};${prefecture || ''};${postalCode ? formatPostalCode(postalCode) : ''};Japan`;
+};
+
 /**
  * Export business cards to vCard format
  */
 export function exportToVCard(cards: BusinessCard[]): string {
-  return cards.map(card => {
+  return cards.map(item => {
+    // N: は「姓;名;ミドルネーム;敬称;接尾辞」。姓名が分からない場合は氏名全体を姓に入れる
+    const card = withNameParts(item);
+    const familyName = card.familyName || (card.givenName ? '' : card.name);
+    const reading = joinName(card.familyNameKana, card.givenNameKana, '');
+
     const vcard = [
       'BEGIN:VCARD',
       'VERSION:3.0',
       `FN:${card.name}`,
-      `N:${card.name};;;`,
+      `N:${familyName};${card.givenName || ''};;;`,
+      card.familyNameKana ? `X-PHONETIC-LAST-NAME:${card.familyNameKana}` : null,
+      card.givenNameKana ? `X-PHONETIC-FIRST-NAME:${card.givenNameKana}` : null,
+      reading ? `SORT-STRING:${reading}` : null,
       `ORG:${card.companyName}`,
       card.title ? `TITLE:${card.title}` : null,
       ...card.emails.map(email => `EMAIL:${email}`),
-      ...card.phones.map(phone => `TEL:${phone}`),
+      ...card.phones.map(phone => `TEL;TYPE=${VCARD_PHONE_TYPES[phone.type]}:${phone.number}${phone.extension ? `;ext=${phone.extension}` : ''}`),
+      toVCardAddress(card),
       ...card.urls.map(url => `URL:${url}`),
       card.notes ? `NOTE:${card.notes.replace(/\n/g, '\\n')}` : null,
       'END:VCARD'
@@ -131,6 +171,11 @@ export async function exportToExcel(cards: BusinessCard[]): Promise<Blob> {
       { header: '役職', key: 'title', width: 20 },
       { header: 'メールアドレス', key: 'email', width: 30 },
       { header: '電話番号', key: 'phone', width: 20 },
+      { header: '郵便番号', key: 'postalCode', width: 12 },
+      { header: '都道府県', key: 'prefecture', width: 12 },
+      { header: '市区町村', key: 'city', width: 20 },
+      { header: '番地', key: 'street', width: 25 },
+      { header: '建物名', key: 'building', width: 25 },
       { header: 'URL', key: 'url', width: 40 },
       { header: 'LINE ID', key: 'line', width: 20 },
       { header: '事業内容', key: 'business', width: 40 },
@@ -157,7 +202,12 @@ export async function exportToExcel(cards: BusinessCard[]): Promise<Blob> {
         company: card.companyName,
         title: card.title || '',
         email: card.emails.join('; '),
-        phone: card.phones.join('; '),
+        phone: card.phones.map(formatPhoneWithType).join('; '),
+        postalCode: card.address?.postalCode ? formatPostalCode(card.address.postalCode) : '',
+        prefecture: card.address?.prefecture || '',
+        city: card.address?.city || '',
+        street: card.address?.street || '',
+        building: card.address?.building || '',
         url: card.urls.join('; '),
         line: card.line_ids.join('; '),
         business: card.businessContent || '',
@@ -284,8 +334,9 @@ export function importFromJSON(jsonString: string): BusinessCard[] {
       title: card.title || '',
       urls: Array.isArray(card.urls) ? card.urls : [],
       emails: Array.isArray(card.emails) ? card.emails : [],
-      phones: Array.isArray(card.phones) ? card.phones : [],
+      phones: toPhoneEntries(card.phones),
       line_ids: Array.isArray(card.line_ids) ? card.line_ids : [],
+      address: toPostalAddress(card.address),
       businessContent: card.businessContent || '',
       exchangeDate: card.exchangeDate || '',
       notes: card.notes || '',
@@ -308,7 +359,7 @@ export async function createBackup(cards: BusinessCard[]): Promise<Blob> {
     backupDate: new Date().toISOString(),
     metadata: {
       totalCards: cards.length,
-      hasImages: cards.some(card => card.frontImageBase64 || card.backImageBase64)
+      hasImages: cards.some(card => card.images?.front || card.images?.back || card.frontImageBase64 || card.backImageBase64)
     },
     data: {
       cards: cards
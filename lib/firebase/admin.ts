@@ -0,0 +1,42 @@
+import { initializeApp, getApps, cert, App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+/**
+ * Firebase Admin SDK（サーバーサイド専用）
+ * APIルートでのIDトークン検証やサーバー側のFirestore操作に使用する
+ */
+
+const projectId = (
+  process.env.FIREBASE_ADMIN_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+)?.trim();
+const storageBucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET?.trim();
+
+// エミュレータの設定（開発環境のみ、lib/firebase.ts のクライアント設定と揃える）
+if (process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_USE_EMULATOR === 'true') {
+  process.env.FIREBASE_AUTH_EMULATOR_HOST ||= 'localhost:9099';
+  process.env.FIRESTORE_EMULATOR_HOST ||= 'localhost:8080';
+}
+
+const createAdminApp = (): App => {
+  const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL?.trim();
+  // 環境変数では改行がエスケープされているため復元する
+  const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+  if (clientEmail && privateKey) {
+    return initializeApp({
+      credential: cert({ projectId, clientEmail, privateKey }),
+      projectId,
+      storageBucket
+    });
+  }
+
+  // エミュレータ使用時、またはGCP上のデフォルト認証情報を使う場合
+  return initializeApp({ projectId, storageBucket });
+};
+
+export const adminApp = getApps().length === 0 ? createAdminApp() : getApps()[0];
+export const adminAuth = getAuth(adminApp);
+export const adminDb = getFirestore(adminApp);
+export const adminStorage = getStorage(adminApp);
@@ -0,0 +1,124 @@
+import { FieldPath, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebase/admin';
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+import { toMigratedCard } from '@/lib/firebase/cardMigration';
+
+/**
+ * 所有者のない旧形式の名刺の移行（サーバーサイド）
+ * n8n連携（ScanSnap）が businessCards に保存した名刺には userId がなく、ブラウザからの移行では見つからない。
+ * 名刺画像のURL（imageUrl）から元のアップロード（scanned_cards の fileUrl）を探し、アップロードしたユーザーを所有者にする。
+ * アップロードから分からない名刺は、運用者が指定した対応表（名刺ID → uid）または既定の所有者に割り当てる
+ */
+
+const LEGACY_COLLECTION = 'businessCards';
+const PAGE_SIZE = 500;
+// Firestoreの in クエリの上限
+const IN_QUERY_LIMIT = 30;
+// 移行1件あたり set + delete の2書き込みを使うためバッチ上限の半分で区切る
+const MIGRATION_CHUNK_SIZE = 250;
+
+export interface OrphanMigrationOptions {
+  owners?: Record<string, string>; // 名刺ID → 所有者のuid（アップロードした人より優先する）
+  defaultUserId?: string; // 所有者が分からない名刺の割り当て先
+  dryRun?: boolean; // 書き込まずに件数だけを数える（migratedは移行する予定の件数になる）
+}
+
+export interface OrphanMigrationResult {
+  migrated: number;
+  byUploader: number; // アップロードしたユーザーに割り当てた件数
+  byMapping: number; // 対応表・既定の所有者に割り当てた件数
+  unowned: number; // 所有者が分からず移行しなかった件数
+  unownedIds: string[];
+}
+
+// userIdのない旧形式の名刺（コレクション全体をIDの順に読む）
+async function listOrphanLegacyCards(): Promise<QueryDocumentSnapshot[]> {
+  const orphans: QueryDocumentSnapshot[] = [];
+  let last: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let query = adminDb.collection(LEGACY_COLLECTION).orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    orphans.push(...page.docs.filter(doc => typeof doc.data().userId !== 'string' || !doc.data().userId));
+    if (page.size < PAGE_SIZE) return orphans;
+    last = page.docs[page.docs.length - 1];
+  }
+}
+
+// 名刺画像のURL → アップロードしたユーザー
+async function findUploaders(imageUrls: string[]): Promise<Map<string, string>> {
+  const uploaders = new Map<string, string>();
+  const unique = Array.from(new Set(imageUrls));
+  for (let i = 0; i < unique.length; i += IN_QUERY_LIMIT) {
+    const snapshot = await adminDb.collection('scanned_cards')
+      .where('fileUrl', 'in', unique.slice(i, i + IN_QUERY_LIMIT))
+      .get();
+    snapshot.docs.forEach(doc => {
+      const userId = doc.data().metadata?.userId;
+      if (typeof userId === 'string' && userId) uploaders.set(doc.data().fileUrl, userId);
+    });
+  }
+  return uploaders;
+}
+
+// 対応表の所有者が実在するユーザーか確認する（誤ったuidに移すと誰からも見えなくなるため）
+async function assertUsersExist(userIds: string[]): Promise<void> {
+  for (const userId of Array.from(new Set(userIds))) {
+    try {
+      await adminAuth.getUser(userId);
+    } catch {
+      throw new BusinessCardError(
+        `所有者に指定したユーザーが見つかりません: ${userId}`,
+        ErrorCode.API_INVALID_REQUEST,
+        400,
+        true,
+        { userId }
+      );
+    }
+  }
+}
+
+/**
+ * 所有者のない旧形式の名刺を所有者の users/{uid}/cards に移す
+ * ドキュメントIDは維持するため、途中で失敗しても再実行で続きから処理できる
+ */
+export async function migrateOrphanLegacyCards(options: OrphanMigrationOptions = {}): Promise<OrphanMigrationResult> {
+  const owners = options.owners || {};
+  await assertUsersExist([...Object.values(owners), ...(options.defaultUserId ? [options.defaultUserId] : [])]);
+
+  const orphans = await listOrphanLegacyCards();
+  const uploaders = await findUploaders(
+    orphans.map(doc => doc.data().imageUrl).filter((url): url is string => typeof url === 'string' && !!url)
+  );
+
+  const assigned: { doc: QueryDocumentSnapshot; userId: string }[] = [];
+  const result: OrphanMigrationResult = { migrated: 0, byUploader: 0, byMapping: 0, unowned: 0, unownedIds: [] };
+  orphans.forEach(doc => {
+    const uploader = uploaders.get(doc.data().imageUrl);
+    const userId = owners[doc.id] || uploader || options.defaultUserId;
+    if (!userId) {
+      result.unowned++;
+      result.unownedIds.push(doc.id);
+      return;
+    }
+    if (!owners[doc.id] && uploader) result.byUploader++;
+    else result.byMapping++;
+    assigned.push({ doc, userId });
+  });
+
+  if (options.dryRun) return { ...result, migrated: assigned.length };
+
+  for (let i = 0; i < assigned.length; i += MIGRATION_CHUNK_SIZE) {
+    const batch = adminDb.batch();
+    assigned.slice(i, i + MIGRATION_CHUNK_SIZE).forEach(({ doc, userId }) => {
+      batch.set(
+        adminDb.collection('users').doc(userId).collection('cards').doc(doc.id),
+        toMigratedCard(doc.id, doc.data(), userId)
+      );
+      batch.delete(doc.ref);
+    });
+    await batch.commit();
+    result.migrated += Math.min(MIGRATION_CHUNK_SIZE, assigned.length - i);
+  }
+  return result;
+}
@@ -0,0 +1,202 @@
+import { FieldValue, type DocumentData, type WriteBatch } from 'firebase-admin/firestore';
+import { adminDb, adminStorage } from '@/lib/firebase/admin';
+import { BusinessCard } from '@/types';
+import { BusinessCardError, ErrorCode, ErrorMessages } from '@/lib/errors';
+import { serializeCard, toBusinessCard } from '@/lib/firebase/cardRepository';
+import { withNameParts } from '@/lib/names';
+import { normalizeEmail } from '@/lib/firebase/suppressionRepository';
+
+/**
+ * サーバーサイド（Admin SDK）での名刺操作
+ * Admin SDKはセキュリティルールを通らないため、所有者の確認はここで行う
+ */
+
+const adminCardsCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('cards');
+
+const adminCardDoc = (userId: string, cardId: string) =>
+  adminCardsCollection(userId).doc(cardId);
+
+const notFound = (cardId: string) => new BusinessCardError(
+  '名刺が見つかりません',
+  ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
+  404,
+  true,
+  { cardId }
+);
+
+// users/{uid}/cards 配下にあり、かつuserIdが一致する名刺のみ所有者のものとみなす
+const assertOwner = (userId: string, cardId: string, data: DocumentData | undefined) => {
+  if (!data) throw notFound(cardId);
+
+  if (data.userId && data.userId !== userId) {
+    throw new BusinessCardError(
+      ErrorMessages[ErrorCode.FIREBASE_PERMISSION_DENIED],
+      ErrorCode.FIREBASE_PERMISSION_DENIED,
+      403,
+      true,
+      { cardId }
+    );
+  }
+};
+
+// 所有者を確認して名刺を取得
+export const getOwnedCard = async (userId: string, cardId: string): Promise<BusinessCard> => {
+  const snapshot = await adminCardDoc(userId, cardId).get();
+  assertOwner(userId, cardId, snapshot.data());
+  return toBusinessCard(snapshot.id, snapshot.data()!);
+};
+
+// 所有者を確認して複数の名刺を取得（存在しない・他人の名刺が1件でもあればエラー）
+export const getOwnedCards = async (userId: string, cardIds: string[]): Promise<BusinessCard[]> => {
+  if (cardIds.length === 0) return [];
+  const snapshots = await adminDb.getAll(...cardIds.map(cardId => adminCardDoc(userId, cardId)));
+  return snapshots.map(snapshot => {
+    assertOwner(userId, snapshot.id, snapshot.data());
+    return toBusinessCard(snapshot.id, snapshot.data()!);
+  });
+};
+
+// 名刺を作成
+export const createOwnedCard = async (
+  userId: string,
+  card: Omit<BusinessCard, 'id'>
+): Promise<BusinessCard> => {
+  const ref = adminCardsCollection(userId).doc();
+  const now = new Date().toISOString();
+  const data = serializeCard({
+    ...withNameParts(card),
+    userId,
+    createdAt: card.createdAt || now,
+    updatedAt: now
+  });
+
+  await ref.set(data);
+  return toBusinessCard(ref.id, data);
+};
+
+// 所有者を確認して既存データを元に更新（トランザクション）
+export const updateOwnedCardWith = async (
+  userId: string,
+  cardId: string,
+  updater: (card: BusinessCard) => Partial<BusinessCard>
+): Promise<Partial<BusinessCard>> => {
+  const ref = adminCardDoc(userId, cardId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    assertOwner(userId, cardId, snapshot.data());
+
+    const updates = updater(toBusinessCard(snapshot.id, snapshot.data()!));
+    transaction.update(ref, serializeCard({
+      ...updates,
+      updatedAt: new Date().toISOString()
+    }));
+    return updates;
+  });
+};
+
+// メールを送信した名刺への送信日時とテンプレートの記録をバッチに加える（存在しない・他人の名刺は無視する）
+// 送信済みの記録と同じバッチで書き込み、送ったのに記録がない状態（同じメールの二重送信）を防ぐ。
+// 内容の更新ではないためupdatedAtは変えない
+export const markCardEmailedInBatch = async (
+  batch: WriteBatch,
+  userId: string,
+  cardId: string,
+  sentAt: string,
+  templateId?: string
+): Promise<void> => {
+  const snapshot = await adminCardDoc(userId, cardId).get();
+  const data = snapshot.data();
+  if (!data || (data.userId && data.userId !== userId)) return;
+  batch.update(snapshot.ref, {
+    lastEmailSentAt: sentAt,
+    ...(templateId ? { emailedTemplateIds: FieldValue.arrayUnion(templateId) } : {})
+  });
+};
+
+/**
+ * 送信したメールが届かなかった（バウンスした）アドレスを名刺に記録する
+ * cardIdが分からない場合はアドレスで名刺を探す。記録した名刺のIDと、名刺に書かれている表記のアドレスを返す
+ */
+export const markCardEmailInvalid = async (
+  userId: string,
+  email: string,
+  cardId?: string
+): Promise<{ cardIds: string[]; email: string }> => {
+  const snapshots = cardId
+    ? [await adminCardDoc(userId, cardId).get()]
+    : (await adminCardsCollection(userId).where('emails', 'array-contains', email).get()).docs;
+
+  const normalized = normalizeEmail(email);
+  const batch = adminDb.batch();
+  const cardIds: string[] = [];
+  let matched = email;
+  snapshots.forEach(snapshot => {
+    const data = snapshot.data();
+    if (!data || (data.userId && data.userId !== userId)) return;
+    const cardEmail = (Array.isArray(data.emails) ? data.emails as string[] : [])
+      .find(value => normalizeEmail(value) === normalized);
+    if (!cardEmail) return;
+
+    batch.update(snapshot.ref, { invalidEmails: FieldValue.arrayUnion(cardEmail) });
+    cardIds.push(snapshot.id);
+    matched = cardEmail;
+  });
+  if (cardIds.length > 0) await batch.commit();
+  return { cardIds, email: matched };
+};
+
+/**
+ * バウンスで無効にしたアドレスを有効に戻す（名刺を削除済みの場合は何もしない）
+ */
+export const restoreCardEmail = async (userId: string, cardId: string, email: string): Promise<void> => {
+  const ref = adminCardDoc(userId, cardId);
+  const snapshot = await ref.get();
+  const data = snapshot.data();
+  if (!data || (data.userId && data.userId !== userId)) return;
+  await ref.update({ invalidEmails: FieldValue.arrayRemove(email) });
+};
+
+/**
+ * 所有者を確認して名刺とStorage上の画像を削除
+ * 名刺のタスクは同じバッチで削除し、やりとりの記録からは名刺を外す（相手の名刺がなくなった記録は削除する）
+ */
+export const deleteOwnedCard = async (userId: string, cardId: string): Promise<void> => {
+  await getOwnedCard(userId, cardId);
+  const userDoc = adminDb.collection('users').doc(userId);
+  const [tasks, interactions] = await Promise.all([
+    userDoc.collection('tasks').where('cardId', '==', cardId).get(),
+    userDoc.collection('interactions').where('cardIds', 'array-contains', cardId).get()
+  ]);
+  const now = new Date().toISOString();
+  const batch = adminDb.batch();
+  batch.delete(adminCardDoc(userId, cardId));
+  tasks.docs.forEach(doc => batch.delete(doc.ref));
+  interactions.docs.forEach(doc => {
+    const cardIds: string[] = Array.isArray(doc.data().cardIds) ? doc.data().cardIds : [];
+    const remaining = cardIds.filter(id => id !== cardId);
+    if (remaining.length > 0) batch.update(doc.ref, { cardIds: remaining, updatedAt: now });
+    else batch.delete(doc.ref);
+  });
+  await batch.commit();
+  await adminStorage.bucket().deleteFiles({ prefix: `cards/${userId}/${cardId}/` });
+};
+
+/**
+ * Storage上の名刺画像をbase64で取得（解析API用）
+ * 画像のパスは利用者が書き換えられる名刺ドキュメントの値のため、その名刺の画像のパス以外は読まない
+ */
+export const readCardImageBase64 = async (userId: string, cardId: string, path: string): Promise<string> => {
+  if (!path.startsWith(`cards/${userId}/${cardId}/`) || path.split('/').includes('..')) {
+    throw new BusinessCardError(
+      '名刺画像のパスが不正です',
+      ErrorCode.CARD_INVALID_DATA,
+      400,
+      true,
+      { cardId, path }
+    );
+  }
+  const [contents] = await adminStorage.bucket().file(path).download();
+  return contents.toString('base64');
+};
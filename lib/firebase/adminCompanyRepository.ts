@@ -0,0 +1,69 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { BusinessCard, Company, CompanyUrlAnalysis, PostalAddress } from '@/types';
+import { serializeCompany, toCompany } from '@/lib/firebase/companyRepository';
+import { companyFromCard, findCompanyForCard } from '@/lib/company';
+import { isEmptyAddress } from '@/lib/address';
+
+/**
+ * サーバーサイド（Admin SDK）での会社の操作
+ * URLの解析結果を会社ごとに保存し、同じ会社の名刺で使い回す
+ */
+
+const adminCompaniesCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('companies');
+
+// 会社名とURLだけの名刺として照合する
+const asCard = (companyName: string | undefined, urls: string[]): BusinessCard => ({
+  name: '',
+  companyName: companyName || '',
+  urls,
+  emails: [],
+  phones: [],
+  line_ids: []
+});
+
+/**
+ * 解析対象の会社を探す（companyIdの指定がなければ会社名・URLのドメインで照合する）
+ */
+export const findOwnedCompany = async (
+  userId: string,
+  { companyId, companyName, urls }: { companyId?: string; companyName?: string; urls: string[] }
+): Promise<Company | null> => {
+  if (companyId) {
+    const snapshot = await adminCompaniesCollection(userId).doc(companyId).get();
+    return snapshot.exists ? toCompany(snapshot.id, snapshot.data()!) : null;
+  }
+
+  const snapshot = await adminCompaniesCollection(userId).get();
+  const companies = snapshot.docs.map(doc => toCompany(doc.id, doc.data()));
+  return findCompanyForCard(asCard(companyName, urls), companies) || null;
+};
+
+/**
+ * URLの解析結果を会社に保存する（会社が未登録で会社名がわかる場合は会社を作る）
+ * 事業内容と住所は未登録の場合のみ補い、タグとURLは追加する
+ */
+export const saveCompanyUrlAnalysis = async (
+  userId: string,
+  company: Company | null,
+  { companyName, urls }: { companyName?: string; urls: string[] },
+  analysis: CompanyUrlAnalysis,
+  address?: PostalAddress
+): Promise<string | undefined> => {
+  const now = new Date().toISOString();
+  const base = company || (companyName?.trim() ? { ...companyFromCard(asCard(companyName, urls)), createdAt: now } : null);
+  if (!base) return undefined;
+
+  const ref = company?.id ? adminCompaniesCollection(userId).doc(company.id) : adminCompaniesCollection(userId).doc();
+  await ref.set(serializeCompany({
+    ...base,
+    urls: Array.from(new Set([...base.urls, ...analysis.urls])),
+    businessContent: base.businessContent || analysis.businessContent || undefined,
+    tags: Array.from(new Set([...(base.tags || []), ...analysis.tags])),
+    address: isEmptyAddress(base.address) ? address : base.address,
+    urlAnalysis: analysis,
+    updatedAt: now
+  }), { merge: true });
+
+  return ref.id;
+};
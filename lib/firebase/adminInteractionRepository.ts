@@ -0,0 +1,56 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { Interaction } from '@/types';
+import { serializeInteraction, toInteraction } from '@/lib/firebase/interactionRepository';
+import { sortInteractions, toEmailInteraction } from '@/lib/interactions';
+
+/**
+ * サーバーサイド（Admin SDK）でのやりとりの記録
+ * メール送信APIで送信したメール（開封・クリックを含む）を名刺のタイムラインに残し、メールの下書きの作成に打ち合わせの記録を使う
+ */
+
+// Firestoreのバッチ書き込み上限
+const MAX_BATCH_WRITES = 500;
+
+const adminInteractionsCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('interactions');
+
+// 送信したメールの記録のID（開封・クリックを同じ記録に書き込めるよう、送信履歴と名刺から決める）
+export const emailInteractionId = (campaignId: string, cardId: string) => `email-${campaignId}-${cardId}`;
+
+export const emailInteractionRef = (userId: string, campaignId: string, cardId: string) =>
+  adminInteractionsCollection(userId).doc(emailInteractionId(campaignId, cardId));
+
+export interface SentEmail {
+  cardId: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * 送信したメールを名刺ごとに記録する
+ * 記録より先に届いた開封・クリックを消さないよう、既にある記録には統合する
+ */
+export const logEmailInteractions = async (
+  userId: string,
+  campaignId: string,
+  emails: SentEmail[],
+  sentAt: string
+): Promise<void> => {
+  for (let i = 0; i < emails.length; i += MAX_BATCH_WRITES) {
+    const batch = adminDb.batch();
+    emails.slice(i, i + MAX_BATCH_WRITES).forEach(({ cardId, subject, body }) => {
+      batch.set(
+        emailInteractionRef(userId, campaignId, cardId),
+        serializeInteraction(toEmailInteraction(cardId, subject, body, sentAt, campaignId)),
+        { merge: true }
+      );
+    });
+    await batch.commit();
+  }
+};
+
+// 名刺のやりとりを取得（同席者として記録されたものを含む、新しい順）
+export const listOwnedCardInteractions = async (userId: string, cardId: string): Promise<Interaction[]> => {
+  const snapshot = await adminInteractionsCollection(userId).where('cardIds', 'array-contains', cardId).get();
+  return sortInteractions(snapshot.docs.map(doc => toInteraction(doc.id, doc.data())));
+};
@@ -0,0 +1,17 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { toTagDefinition } from '@/lib/firebase/tagRepository';
+import { TagRule, tagRules } from '@/lib/tagging';
+
+/**
+ * サーバーサイド（Admin SDK）でのタグの読み込み
+ * URL解析APIと一括処理ジョブでユーザーの自動付与ルールを使う
+ */
+
+const adminTagsCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('tags');
+
+// ユーザーのタグの自動付与ルール（タグを登録していない場合は既定のルール）
+export const getTagRules = async (userId: string): Promise<TagRule[]> => {
+  const snapshot = await adminTagsCollection(userId).get();
+  return tagRules(snapshot.docs.map(doc => toTagDefinition(doc.id, doc.data())));
+};
@@ -0,0 +1,83 @@
+import { adminDb } from '@/lib/firebase/admin';
+import { BusinessCard, Task } from '@/types';
+import { toTask } from '@/lib/firebase/taskRepository';
+import { toBusinessCard } from '@/lib/firebase/cardRepository';
+import { EMAIL_COMPLETED_TASK_TYPES } from '@/lib/tasks';
+
+/**
+ * サーバーサイド（Admin SDK）でのタスクの操作
+ * メール送信時のタスクの自動完了と、カレンダー配信で使う
+ */
+
+// in条件で指定できる値の上限
+const MAX_IN_VALUES = 30;
+
+const adminTasksCollection = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('tasks');
+
+// カレンダー配信URLの設定（URLを作り直すと以前のURLは無効になる）
+const calendarFeedDoc = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('settings').doc('calendarFeed');
+
+/**
+ * メールを送信した名刺の未完了のお礼メールのタスクを完了にする（完了にした件数を返す）
+ */
+export const completeEmailTasks = async (userId: string, cardIds: string[], completedAt: string): Promise<number> => {
+  const ids = Array.from(new Set(cardIds));
+  let completed = 0;
+
+  for (let i = 0; i < ids.length; i += MAX_IN_VALUES) {
+    const snapshot = await adminTasksCollection(userId)
+      .where('completed', '==', false)
+      .where('cardId', 'in', ids.slice(i, i + MAX_IN_VALUES))
+      .get();
+    const targets = snapshot.docs.filter(doc => EMAIL_COMPLETED_TASK_TYPES.includes(doc.data().type));
+    if (targets.length === 0) continue;
+
+    const batch = adminDb.batch();
+    targets.forEach(doc => batch.update(doc.ref, { completed: true, completedAt, completedBy: 'email', updatedAt: completedAt }));
+    await batch.commit();
+    completed += targets.length;
+  }
+  return completed;
+};
+
+/**
+ * 未完了のタスクと、その名刺（カレンダー配信用）
+ * 名刺が削除済みのタスクは含めない
+ */
+export const listOpenTasksWithCards = async (userId: string): Promise<{ tasks: Task[]; cards: Map<string, BusinessCard> }> => {
+  const snapshot = await adminTasksCollection(userId).where('completed', '==', false).get();
+  const tasks = snapshot.docs
+    .map(doc => toTask(doc.id, doc.data()))
+    .filter(task => task.dueDate)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  const cards = new Map<string, BusinessCard>();
+  const cardIds = Array.from(new Set(tasks.map(task => task.cardId).filter(Boolean)));
+  if (cardIds.length > 0) {
+    const cardsCollection = adminDb.collection('users').doc(userId).collection('cards');
+    const snapshots = await adminDb.getAll(...cardIds.map(cardId => cardsCollection.doc(cardId)));
+    snapshots.forEach(cardSnapshot => {
+      if (cardSnapshot.exists) cards.set(cardSnapshot.id, toBusinessCard(cardSnapshot.id, cardSnapshot.data()!));
+    });
+  }
+  return { tasks: tasks.filter(task => cards.has(task.cardId)), cards };
+};
+
+// カレンダー配信URLの版（未作成なら1）
+export const getCalendarFeedVersion = async (userId: string): Promise<number> => {
+  const snapshot = await calendarFeedDoc(userId).get();
+  return snapshot.data()?.version || 1;
+};
+
+// カレンダー配信URLを作り直す（新しい版を返す）
+export const rotateCalendarFeedVersion = async (userId: string): Promise<number> => {
+  const ref = calendarFeedDoc(userId);
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const version = (snapshot.data()?.version || 1) + 1;
+    transaction.set(ref, { version, updatedAt: new Date().toISOString() }, { merge: true });
+    return version;
+  });
+};
@@ -0,0 +1,93 @@
+import {
+  collection,
+  doc,
+  query,
+  CollectionReference,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { EmailCampaign, EmailCampaignRecipient, EmailEngagement } from '@/types/email';
+import { safeGetDoc, safeGetDocs } from '@/lib/firebase/errorHandler';
+
+/**
+ * 送信したメール（キャンペーン）の読み込み
+ * 書き込みはメール送信API（lib/email/campaigns.ts）だけが行う
+ */
+
+export const campaignsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'emailCampaigns') as CollectionReference<DocumentData>;
+
+export const campaignDoc = (userId: string, campaignId: string) =>
+  doc(db, 'users', userId, 'emailCampaigns', campaignId) as DocumentReference<DocumentData>;
+
+const campaignRecipientsCollection = (userId: string, campaignId: string) =>
+  collection(db, 'users', userId, 'emailCampaigns', campaignId, 'recipients') as CollectionReference<DocumentData>;
+
+// Firestoreから読み込んだデータをEmailCampaignに正規化
+export const toEmailCampaign = (id: string, data: DocumentData): EmailCampaign => ({
+  id,
+  templateId: data.templateId || '',
+  templateName: data.templateName || undefined,
+  sender: { name: data.sender?.name || '', email: data.sender?.email || '' },
+  provider: data.provider || undefined,
+  status: data.status || 'draft',
+  recipientCount: data.recipientCount || 0,
+  successCount: data.successCount || 0,
+  failureCount: data.failureCount || 0,
+  skippedCount: data.skippedCount || 0,
+  suppressedCount: data.suppressedCount || 0,
+  bouncedCount: data.bouncedCount || 0,
+  scheduledAt: data.scheduledAt || undefined,
+  tracking: data.tracking === true,
+  openedCount: data.openedCount || 0,
+  clickedCount: data.clickedCount || 0,
+  createdAt: data.createdAt || '',
+  completedAt: data.completedAt || undefined
+});
+
+// 開封・クリックの記録（送信履歴の送信先・やりとりの記録で共通）
+export const toEmailEngagement = (data: DocumentData | undefined): EmailEngagement | undefined => data ? {
+  openCount: data.openCount || 0,
+  firstOpenedAt: data.firstOpenedAt || undefined,
+  lastOpenedAt: data.lastOpenedAt || undefined,
+  clickCount: data.clickCount || 0,
+  firstClickedAt: data.firstClickedAt || undefined,
+  lastClickedAt: data.lastClickedAt || undefined,
+  clickedUrls: Array.isArray(data.clickedUrls) ? data.clickedUrls : undefined
+} : undefined;
+
+export const toCampaignRecipient = (cardId: string, data: DocumentData): EmailCampaignRecipient => ({
+  cardId,
+  email: data.email || '',
+  name: data.name || '',
+  company: data.company || '',
+  subject: data.subject || '',
+  body: data.body || '',
+  status: data.status || 'pending',
+  error: data.error || undefined,
+  attempts: data.attempts || 0,
+  sentAt: data.sentAt || undefined,
+  engagement: toEmailEngagement(data.engagement)
+});
+
+// 送信したメールの一覧（新しい順）
+export const listCampaigns = async (userId: string): Promise<EmailCampaign[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(campaignsCollection(userId)));
+  return docs
+    .map(({ id, ...data }) => toEmailCampaign(id, data))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getCampaign = async (userId: string, campaignId: string): Promise<EmailCampaign | null> => {
+  const data = await safeGetDoc(campaignDoc(userId, campaignId));
+  return data ? toEmailCampaign(campaignId, data) : null;
+};
+
+// 送信先ごとの結果（名前順）
+export const listCampaignRecipients = async (userId: string, campaignId: string): Promise<EmailCampaignRecipient[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(campaignRecipientsCollection(userId, campaignId)));
+  return docs
+    .map(({ id, ...data }) => toCampaignRecipient(id, data))
+    .sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+};
@@ -0,0 +1,196 @@
+import {
+  ref,
+  uploadBytes,
+  getDownloadURL,
+  listAll,
+  deleteObject
+} from 'firebase/storage';
+import { storage } from '@/lib/firebase';
+import { CardImageRef, CardImages, CardImageSide } from '@/types';
+import { BusinessCardError, ErrorCode, ErrorMessages, fromFirebaseError, logError } from '@/lib/errors';
+
+/**
+ * 名刺画像のStorage管理
+ * 画像は cards/{userId}/{cardId}/ 以下に保存し、名刺ドキュメントにはパスのみを持たせる
+ */
+
+// サムネイルの長辺サイズ（px）
+export const THUMBNAIL_SIZES = {
+  small: 240,
+  medium: 800
+} as const;
+
+type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+const THUMBNAIL_QUALITY = 0.8;
+const CACHE_CONTROL = 'private, max-age=31536000';
+
+export type CardImageSources = Partial<Record<CardImageSide, string>>;
+
+const cardImageFolder = (userId: string, cardId: string) => `cards/${userId}/${cardId}`;
+
+// http(s)/data/blob以外はStorageパスとして扱う
+export const isStoragePath = (src: string): boolean =>
+  !/^(https?:|data:|blob:)/.test(src);
+
+// data URLをBlobに変換
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const extensionFor = (contentType: string) => {
+  switch (contentType) {
+    case 'image/png': return 'png';
+    case 'image/webp': return 'webp';
+    default: return 'jpg';
+  }
+};
+
+const imageProcessingError = () => new BusinessCardError(
+  ErrorMessages[ErrorCode.IMAGE_PROCESSING_FAILED],
+  ErrorCode.IMAGE_PROCESSING_FAILED,
+  400
+);
+
+// 長辺をmaxSizeに収めたJPEGを生成（ブラウザのcanvasを使用）
+const createThumbnail = (source: Blob, maxSize: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(source);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(imageProcessingError());
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) => blob
+          ? resolve(blob)
+          : reject(imageProcessingError()),
+        'image/jpeg',
+        THUMBNAIL_QUALITY
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(imageProcessingError());
+    };
+
+    image.src = url;
+  });
+};
+
+const uploadBlob = async (path: string, blob: Blob, contentType: string) => {
+  try {
+    await uploadBytes(ref(storage, path), blob, {
+      contentType,
+      cacheControl: CACHE_CONTROL
+    });
+  } catch (error: any) {
+    const bcError = fromFirebaseError(error);
+    logError(bcError, { operation: 'uploadCardImage', path });
+    throw bcError;
+  }
+};
+
+// 名刺画像（片面）と一覧・プレビュー用サムネイルをアップロード
+export const uploadCardImage = async (
+  userId: string,
+  cardId: string,
+  side: CardImageSide,
+  dataUrl: string
+): Promise<CardImageRef> => {
+  const folder = cardImageFolder(userId, cardId);
+  const original = await dataUrlToBlob(dataUrl);
+  const contentType = original.type || 'image/jpeg';
+  const path = `${folder}/${side}.${extensionFor(contentType)}`;
+
+  const thumbnailPath = (size: ThumbnailSize) => `${folder}/${side}_${size}.jpg`;
+  const [small, medium] = await Promise.all([
+    createThumbnail(original, THUMBNAIL_SIZES.small),
+    createThumbnail(original, THUMBNAIL_SIZES.medium)
+  ]);
+
+  await Promise.all([
+    uploadBlob(path, original, contentType),
+    uploadBlob(thumbnailPath('small'), small, 'image/jpeg'),
+    uploadBlob(thumbnailPath('medium'), medium, 'image/jpeg')
+  ]);
+
+  return {
+    path,
+    thumbnails: {
+      small: thumbnailPath('small'),
+      medium: thumbnailPath('medium')
+    },
+    contentType
+  };
+};
+
+// 表・裏の画像をまとめてアップロード
+export const uploadCardImages = async (
+  userId: string,
+  cardId: string,
+  sources: CardImageSources
+): Promise<CardImages> => {
+  const images: CardImages = {};
+
+  for (const side of ['front', 'back'] as const) {
+    const dataUrl = sources[side];
+    if (dataUrl) {
+      images[side] = await uploadCardImage(userId, cardId, side, dataUrl);
+    }
+  }
+
+  return images;
+};
+
+// 名刺に紐づく画像をすべて削除
+export const deleteCardImages = async (userId: string, cardId: string): Promise<void> => {
+  try {
+    const { items } = await listAll(ref(storage, cardImageFolder(userId, cardId)));
+    await Promise.all(items.map(item => deleteObject(item)));
+  } catch (error: any) {
+    const bcError = fromFirebaseError(error);
+    logError(bcError, { operation: 'deleteCardImages', userId, cardId });
+    throw bcError;
+  }
+};
+
+// ダウンロードURLはセッション中キャッシュする
+const downloadUrlCache = new Map<string, Promise<string>>();
+
+// Storageパスを表示用URLに解決（URL・data URLはそのまま返す）
+export const resolveImageUrl = (src: string): Promise<string> => {
+  if (!isStoragePath(src)) return Promise.resolve(src);
+
+  const cached = downloadUrlCache.get(src);
+  if (cached) return cached;
+
+  const pending = getDownloadURL(ref(storage, src)).catch((error) => {
+    downloadUrlCache.delete(src);
+    throw fromFirebaseError(error);
+  });
+  downloadUrlCache.set(src, pending);
+  return pending;
+};
+
+// 一覧ではサムネイル、詳細では元画像を使う
+export const cardImageSrc = (
+  image: CardImageRef | undefined,
+  size: ThumbnailSize | 'full'
+): string | undefined => {
+  if (!image) return undefined;
+  return size === 'full' ? image.path : image.thumbnails[size];
+};
@@ -0,0 +1,138 @@
+import { collection, doc, query, where, deleteField, DocumentData, WriteBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard } from '@/types';
+import { fromFirebaseError, logError } from '@/lib/errors';
+import { safeGetDocs, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { commitInChunks } from '@/lib/firebase/firestoreUtils';
+import { cardDoc, listCards, serializeCard, toBusinessCard } from '@/lib/firebase/cardRepository';
+import { uploadCardImages } from '@/lib/firebase/cardImages';
+import { parsePhone, toPhoneEntries } from '@/lib/phone';
+
+/**
+ * 旧レイアウトからの名刺データ移行
+ * トップレベルの businessCards コレクション（n8n連携の形式を含む）を
+ * users/{uid}/cards の正規レイアウトへ移す
+ */
+
+const LEGACY_COLLECTION = 'businessCards';
+const MIGRATION_FLAG_PREFIX = 'legacyCardsMigrated_';
+const IMAGE_MIGRATION_FLAG_PREFIX = 'inlineImagesMigrated_';
+
+// 移行1件あたり set + delete の2書き込みを使うためバッチ上限の半分で区切る
+const MIGRATION_CHUNK_SIZE = 250;
+
+const compact = (values: unknown[]): string[] =>
+  values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+// 旧形式・n8n形式のドキュメントを正規のBusinessCardに変換
+// n8n形式の住所（1行の文字列）はtoBusinessCardで項目に分けて読み込まれる
+export const fromLegacyCard = (id: string, data: DocumentData): BusinessCard => {
+  const card = toBusinessCard(id, data);
+
+  const title = [data.department, data.title].filter(Boolean).join(' ');
+  const extraNotes = compact([
+    data.imageUrl ? `名刺画像: ${data.imageUrl}` : undefined
+  ]);
+
+  return {
+    ...card,
+    companyName: card.companyName || data.company || '',
+    title: title || card.title,
+    emails: card.emails.length > 0 ? card.emails : compact([data.email]),
+    phones: card.phones.length > 0 ? card.phones : [
+      ...toPhoneEntries(compact([data.phone])),
+      ...compact([data.mobile]).flatMap(mobile => parsePhone(mobile, 'mobile') || [])
+    ],
+    urls: card.urls.length > 0 ? card.urls : compact([data.website]),
+    notes: compact([card.notes, ...extraNotes]).join('\n') || undefined,
+    source: card.source || 'legacy_migration'
+  };
+};
+
+// 旧形式のフィールドは正規レイアウトに持ち込まない
+const LEGACY_ONLY_FIELDS = ['company', 'email', 'phone', 'mobile', 'website', 'department', 'imageUrl', 'sharedWith'];
+
+// 旧形式のドキュメントを users/{uid}/cards に保存するデータにする（所有者のないn8n形式はサーバー側の移行で所有者を決める）
+export const toMigratedCard = (id: string, data: DocumentData, userId: string): DocumentData => {
+  const card: Record<string, any> = { ...fromLegacyCard(id, data), userId };
+  LEGACY_ONLY_FIELDS.forEach(field => delete card[field]);
+  return serializeCard(card);
+};
+
+/**
+ * ユーザーの旧形式名刺を正規レイアウトへ移行する
+ * userIdのないn8n形式の名刺はブラウザから読めないため、サーバー側の移行（adminCardMigration.ts）で移す。
+ * ドキュメントIDは維持するため、途中で失敗しても再実行で続きから処理できる
+ */
+export const migrateLegacyCards = async (userId: string): Promise<{ migrated: number }> => {
+  const legacyDocs = await safeGetDocs<DocumentData & { id: string }>(
+    query(collection(db, LEGACY_COLLECTION), where('userId', '==', userId))
+  );
+
+  await commitInChunks(legacyDocs.map(({ id, ...data }) => (batch: WriteBatch) => {
+    batch.set(cardDoc(userId, id), toMigratedCard(id, data, userId));
+    batch.delete(doc(collection(db, LEGACY_COLLECTION), id));
+  }), { operation: 'migrateLegacyCards', userId }, MIGRATION_CHUNK_SIZE);
+
+  return { migrated: legacyDocs.length };
+};
+
+/**
+ * ドキュメント内のbase64画像をStorageへ移し、パスとサムネイル参照に置き換える
+ * 失敗した名刺はbase64のまま残すため、次回の実行で再試行される
+ */
+export const migrateInlineImages = async (userId: string): Promise<{ migrated: number; failed: number }> => {
+  const cards = (await listCards(userId)).filter(card => card.frontImageBase64 || card.backImageBase64);
+  let migrated = 0;
+
+  for (const card of cards) {
+    try {
+      const images = await uploadCardImages(userId, card.id!, {
+        front: card.frontImageBase64,
+        back: card.backImageBase64
+      });
+
+      await safeUpdateDoc(cardDoc(userId, card.id!), {
+        images: { ...card.images, ...images },
+        frontImageBase64: deleteField(),
+        backImageBase64: deleteField(),
+        updatedAt: new Date().toISOString()
+      });
+      migrated++;
+    } catch (error: any) {
+      logError(fromFirebaseError(error), { operation: 'migrateInlineImages', userId, cardId: card.id });
+    }
+  }
+
+  return { migrated, failed: cards.length - migrated };
+};
+
+// ブラウザごとに一度だけ実行する（失敗があった場合はフラグを立てず次回再実行）
+const runOnce = async (
+  flagPrefix: string,
+  userId: string,
+  migrate: () => Promise<{ migrated: number; failed?: number }>
+): Promise<number> => {
+  if (typeof window === 'undefined') return 0;
+
+  const flagKey = `${flagPrefix}${userId}`;
+  if (localStorage.getItem(flagKey)) return 0;
+
+  const { migrated, failed = 0 } = await migrate();
+  if (failed === 0) {
+    localStorage.setItem(flagKey, new Date().toISOString());
+  }
+  return migrated;
+};
+
+/**
+ * ブラウザごとに一度だけ移行を実行する
+ */
+export const runLegacyCardMigrationOnce = (userId: string): Promise<number> =>
+  runOnce(MIGRATION_FLAG_PREFIX, userId, () => migrateLegacyCards(userId));
+
+/**
+ * ブラウザごとに一度だけ画像の移行を実行する
+ */
+export const runInlineImageMigrationOnce = (userId: string): Promise<number> =>
+  runOnce(IMAGE_MIGRATION_FLAG_PREFIX, userId, () => migrateInlineImages(userId));
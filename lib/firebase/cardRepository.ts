@@ -0,0 +1,428 @@
+import {
+  collection,
+  doc,
+  query,
+  onSnapshot,
+  runTransaction,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard } from '@/types';
+import { BusinessCardError, ErrorCode, ErrorMessages, fromFirebaseError, logError } from '@/lib/errors';
+import {
+  safeGetDoc,
+  safeSetDoc,
+  safeUpdateDoc,
+  safeGetDocs,
+  safeTransaction
+} from '@/lib/firebase/errorHandler';
+import { BatchWrite, commitInChunks, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { listTasksOfCards, taskDoc } from '@/lib/firebase/taskRepository';
+import { interactionDoc, listInteractionsOfCards } from '@/lib/firebase/interactionRepository';
+import { uploadCardImages, deleteCardImages, CardImageSources } from '@/lib/firebase/cardImages';
+import { completeAddress, toPostalAddress } from '@/lib/address';
+import { withNameParts } from '@/lib/names';
+import { findDuplicates, toMergedCardRecords } from '@/lib/duplicates';
+import { toPhoneEntries } from '@/lib/phone';
+
+/**
+ * 名刺データの正規リポジトリ
+ * すべての名刺は users/{uid}/cards/{cardId} に保存する
+ */
+
+export const cardsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'cards') as CollectionReference<DocumentData>;
+
+export const cardDoc = (userId: string, cardId: string) =>
+  doc(db, 'users', userId, 'cards', cardId) as DocumentReference<DocumentData>;
+
+// Timestamp / Date / 文字列をISO文字列に揃える
+const toISOString = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000).toISOString();
+  return undefined;
+};
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0) : [];
+
+// Firestoreから読み込んだデータをBusinessCardに正規化
+export const toBusinessCard = (id: string, data: DocumentData): BusinessCard => ({
+  ...data,
+  id,
+  name: data.name || '',
+  companyName: data.companyName || '',
+  urls: toStringArray(data.urls),
+  emails: toStringArray(data.emails),
+  phones: toPhoneEntries(data.phones), // 旧形式の文字列配列は種類を推定して読み込む
+  line_ids: toStringArray(data.line_ids),
+  address: toPostalAddress(data.address), // 文字列で保存された住所は項目に分けて読み込む
+  tags: toStringArray(data.tags),
+  createdAt: toISOString(data.createdAt),
+  updatedAt: toISOString(data.updatedAt)
+});
+
+// 電話番号はE.164形式に正規化し、住所は郵便番号から都道府県・市区町村を補完して保存する
+export const serializeCard = (card: Partial<BusinessCard>): DocumentData => {
+  const data = stripUndefined(card);
+  Object.entries(data).forEach(([key, value]) => {
+    if (key === 'phones') {
+      data[key] = toPhoneEntries(value);
+      return;
+    }
+    if (key === 'address') {
+      // 空にした住所は空のオブジェクトとして保存し、既存の値を消す
+      const address = toPostalAddress(value);
+      data[key] = address ? completeAddress(address) : {};
+      return;
+    }
+    if (Array.isArray(value)) data[key] = value.filter(item => item !== undefined && item !== '');
+  });
+  return data;
+};
+
+// 旧形式のインライン画像（base64）はドキュメントに保存しない
+export const withoutInlineImages = <T extends Partial<BusinessCard>>(card: T): T => {
+  const copy = { ...card };
+  delete copy.frontImageBase64;
+  delete copy.backImageBase64;
+  return copy;
+};
+
+// 画像のアップロード先を先に決めるため、保存前に名刺IDを採番する
+export const newCardId = (userId: string): string => doc(cardsCollection(userId)).id;
+
+// 名刺を1件作成
+export const createCard = async (
+  userId: string,
+  card: Omit<BusinessCard, 'id'>,
+  cardId?: string
+): Promise<BusinessCard> => {
+  const ref = cardId ? cardDoc(userId, cardId) : doc(cardsCollection(userId));
+  const now = new Date().toISOString();
+  // 姓名・ふりがなは氏名から補完して保存する（並べ替え・宛名に使う）
+  const data = serializeCard({
+    ...withNameParts(card),
+    userId,
+    createdAt: card.createdAt || now,
+    updatedAt: now
+  });
+
+  await safeSetDoc(ref, data);
+  return toBusinessCard(ref.id, data);
+};
+
+// 登録済みの名刺と重複していないか確認する（重複があればCARD_DUPLICATE、contextに重複候補）
+export const assertNotDuplicateCard = async (userId: string, card: Omit<BusinessCard, 'id'>): Promise<void> => {
+  const matches = findDuplicates(card, await listCards(userId));
+  if (matches.length === 0) return;
+
+  throw new BusinessCardError(
+    ErrorMessages[ErrorCode.CARD_DUPLICATE],
+    ErrorCode.CARD_DUPLICATE,
+    409,
+    true,
+    { matches }
+  );
+};
+
+// 画像をStorageにアップロードしてから名刺を作成（ドキュメントにはパスのみ保存）
+// allowDuplicateを指定しない場合は、重複する名刺があれば保存せずにCARD_DUPLICATEを投げる
+export const createCardWithImages = async (
+  userId: string,
+  card: Omit<BusinessCard, 'id'>,
+  sources: CardImageSources,
+  { allowDuplicate = false }: { allowDuplicate?: boolean } = {}
+): Promise<BusinessCard> => {
+  if (!allowDuplicate) await assertNotDuplicateCard(userId, card);
+
+  const cardId = newCardId(userId);
+  const images = await uploadCardImages(userId, cardId, sources);
+
+  return createCard(userId, {
+    ...withoutInlineImages(card),
+    ...(Object.keys(images).length > 0 ? { images } : {})
+  }, cardId);
+};
+
+// 名刺を1件取得
+export const getCard = async (userId: string, cardId: string): Promise<BusinessCard | null> => {
+  const data = await safeGetDoc(cardDoc(userId, cardId));
+  return data ? toBusinessCard(cardId, data) : null;
+};
+
+// 名刺を更新
+export const updateCard = async (
+  userId: string,
+  cardId: string,
+  updates: Partial<BusinessCard>
+): Promise<void> => {
+  await safeUpdateDoc(cardDoc(userId, cardId), serializeCard({
+    ...updates,
+    updatedAt: new Date().toISOString()
+  }));
+};
+
+// 既存データを読み込んでから更新（同時更新による上書きを防ぐ）
+export const updateCardWith = async (
+  userId: string,
+  cardId: string,
+  updater: (card: BusinessCard) => Partial<BusinessCard>
+): Promise<void> => {
+  await safeTransaction(() => runTransaction(db, async (transaction) => {
+    const ref = cardDoc(userId, cardId);
+    const snapshot = await transaction.get(ref);
+
+    if (!snapshot.exists()) {
+      throw new BusinessCardError(
+        '更新対象の名刺が見つかりません',
+        ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
+        404
+      );
+    }
+
+    const updates = updater(toBusinessCard(snapshot.id, snapshot.data()));
+    transaction.update(ref, serializeCard({
+      ...updates,
+      updatedAt: new Date().toISOString()
+    }));
+  }));
+};
+
+// 統合・削除する名刺に紐付くドキュメントの変更（dataがnullの場合は削除する）
+interface RelatedRecordChange {
+  ref: DocumentReference<DocumentData>;
+  data: DocumentData | null;
+}
+
+/**
+ * 統合・削除する名刺に紐付くタスクとやりとりの記録の変更
+ * 統合ではintoの名刺に付け替え、削除（intoがnull）ではタスクを削除し、やりとりの記録からは名刺を外す
+ * （相手の名刺がなくなったやりとりの記録は削除する）
+ */
+const relatedRecordChanges = async (
+  userId: string,
+  cardIds: string[],
+  into: string | null,
+  now: string
+): Promise<RelatedRecordChange[]> => {
+  if (cardIds.length === 0) return [];
+  const removed = new Set(cardIds);
+  const [tasks, interactions] = await Promise.all([
+    listTasksOfCards(userId, cardIds),
+    listInteractionsOfCards(userId, cardIds)
+  ]);
+  return [
+    ...tasks.map(task => ({
+      ref: taskDoc(userId, task.id!),
+      data: into ? { cardId: into, updatedAt: now } : null
+    })),
+    ...interactions.map(interaction => {
+      const remaining = Array.from(new Set(
+        interaction.cardIds.flatMap(id => removed.has(id) ? (into ? [into] : []) : [id])
+      ));
+      return {
+        ref: interactionDoc(userId, interaction.id!),
+        data: remaining.length > 0 ? { cardIds: remaining, updatedAt: now } : null
+      };
+    })
+  ];
+};
+
+const toBatchWrite = ({ ref, data }: RelatedRecordChange): BatchWrite =>
+  batch => data ? batch.update(ref, data) : batch.delete(ref);
+
+/**
+ * 重複した名刺を1枚に統合する
+ * 統合される名刺のドキュメントは削除し、内容と画像への参照はmergedCardsに残す（Storageの画像は削除しない）
+ */
+export const mergeCards = async (
+  userId: string,
+  primaryId: string,
+  mergedCards: BusinessCard[],
+  values: Partial<BusinessCard>
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const others = mergedCards.filter(card => card.id && card.id !== primaryId);
+  // 統合される名刺のタスクとやりとりの記録は統合先の名刺に付け替える
+  const related = await relatedRecordChanges(userId, others.map(card => card.id!), primaryId, now);
+
+  await safeTransaction(() => runTransaction(db, async (transaction) => {
+    const ref = cardDoc(userId, primaryId);
+    const snapshot = await transaction.get(ref);
+
+    if (!snapshot.exists()) {
+      throw new BusinessCardError(
+        '統合先の名刺が見つかりません',
+        ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
+        404
+      );
+    }
+
+    const current = toBusinessCard(snapshot.id, snapshot.data());
+
+    transaction.update(ref, serializeCard({
+      ...withNameParts({ ...current, ...values }),
+      // 統合される名刺だけが経歴（人物）に紐付いていた場合は、その紐付けを引き継ぐ
+      personId: current.personId || others.find(card => card.personId)?.personId,
+      mergedCards: [
+        ...(current.mergedCards || []),
+        ...others.flatMap(card => toMergedCardRecords(card, now))
+      ],
+      updatedAt: now
+    }));
+    others.forEach(card => transaction.delete(cardDoc(userId, card.id!)));
+    related.forEach(({ ref, data }) => data ? transaction.update(ref, data) : transaction.delete(ref));
+  }));
+};
+
+// 保存前の名刺を登録済みの名刺に統合する（画像はアップロードして統合履歴から参照する）
+export const mergeNewCardInto = async (
+  userId: string,
+  primaryId: string,
+  card: Omit<BusinessCard, 'id'>,
+  sources: CardImageSources,
+  values: Partial<BusinessCard>
+): Promise<void> => {
+  const cardId = newCardId(userId);
+  const images = await uploadCardImages(userId, cardId, sources);
+
+  await mergeCards(userId, primaryId, [{
+    ...withoutInlineImages(card),
+    id: cardId,
+    createdAt: card.createdAt || new Date().toISOString(),
+    ...(Object.keys(images).length > 0 ? { images } : {})
+  }], values);
+};
+
+// 名刺を削除（名刺のタスク・やりとりの記録とStorageの画像も削除）
+export const deleteCard = async (userId: string, cardId: string): Promise<void> => {
+  const related = await relatedRecordChanges(userId, [cardId], null, new Date().toISOString());
+  await commitInChunks([
+    batch => batch.delete(cardDoc(userId, cardId)),
+    ...related.map(toBatchWrite)
+  ], { operation: 'deleteCard', userId });
+  await removeCardImagesQuietly(userId, cardId);
+};
+
+// 名刺一覧を取得（作成日の新しい順）
+export const listCards = async (userId: string): Promise<BusinessCard[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(cardsCollection(userId)));
+  return sortByCreatedAtDesc(docs.map(({ id, ...data }) => toBusinessCard(id, data)));
+};
+
+// 名刺一覧をリアルタイム購読
+export const watchCards = (
+  userId: string,
+  onChange: (cards: BusinessCard[]) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(cardsCollection(userId)),
+    (snapshot) => {
+      onChange(sortByCreatedAtDesc(
+        snapshot.docs.map(snap => toBusinessCard(snap.id, snap.data()))
+      ));
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchCards', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+type CardBatchOperation =
+  | { type: 'create'; card: Omit<BusinessCard, 'id'> }
+  | { type: 'set'; cardId: string; card: Omit<BusinessCard, 'id'> }
+  | { type: 'update'; cardId: string; updates: Partial<BusinessCard> }
+  | { type: 'delete'; cardId: string };
+
+/**
+ * 複数の書き込みをバッチで実行（500件ごとに分割）
+ * 途中のバッチで失敗した場合は、それまでに書き込んだ名刺のIDをエラーのcontext（writtenIds）に入れて投げる
+ */
+export const batchWriteCards = async (
+  userId: string,
+  operations: CardBatchOperation[]
+): Promise<string[]> => {
+  const writtenIds: string[] = [];
+  const now = new Date().toISOString();
+
+  const writes = operations.map((operation): BatchWrite => {
+    switch (operation.type) {
+      case 'create':
+      case 'set': {
+        const ref = operation.type === 'create'
+          ? doc(cardsCollection(userId))
+          : cardDoc(userId, operation.cardId);
+        writtenIds.push(ref.id);
+        return batch => batch.set(ref, serializeCard({
+          ...withNameParts(operation.card),
+          userId,
+          createdAt: operation.card.createdAt || now,
+          updatedAt: now
+        }));
+      }
+      case 'update':
+        writtenIds.push(operation.cardId);
+        return batch => batch.update(cardDoc(userId, operation.cardId), serializeCard({
+          ...operation.updates,
+          updatedAt: now
+        }));
+      case 'delete':
+        writtenIds.push(operation.cardId);
+        return batch => batch.delete(cardDoc(userId, operation.cardId));
+    }
+  });
+
+  try {
+    await commitInChunks(writes, { operation: 'batchWriteCards', userId });
+  } catch (error: any) {
+    const committed: number = error.context?.committed || 0;
+    throw new BusinessCardError(error.message, error.code, error.statusCode, error.isOperational, {
+      ...error.context,
+      writtenIds: writtenIds.slice(0, committed)
+    });
+  }
+
+  return writtenIds;
+};
+
+// 複数の名刺をまとめて作成
+export const createCards = (userId: string, cards: Omit<BusinessCard, 'id'>[]) =>
+  batchWriteCards(userId, cards.map(card => ({ type: 'create' as const, card })));
+
+// 複数の名刺をまとめて削除
+export const deleteCards = async (userId: string, cardIds: string[]) => {
+  try {
+    const deletedIds = await batchWriteCards(userId, cardIds.map(cardId => ({ type: 'delete' as const, cardId })));
+    await removeDeletedCardRecords(userId, deletedIds);
+    return deletedIds;
+  } catch (error: any) {
+    // 途中で失敗しても、削除できた名刺のタスク・やりとりの記録と画像は消す
+    await removeDeletedCardRecords(userId, error.context?.writtenIds || []);
+    throw error;
+  }
+};
+
+// 画像の削除に失敗しても名刺の削除自体は成功扱いにする（deleteCardImages内でログ済み）
+const removeCardImagesQuietly = (userId: string, cardId: string) =>
+  deleteCardImages(userId, cardId).catch(() => undefined);
+
+// 削除した名刺のタスク・やりとりの記録と画像を消す（失敗しても名刺の削除自体は成功扱いにする。読み書きの失敗はログ済み）
+const removeDeletedCardRecords = async (userId: string, cardIds: string[]) => {
+  await relatedRecordChanges(userId, cardIds, null, new Date().toISOString())
+    .then(related => commitInChunks(related.map(toBatchWrite), { operation: 'deleteCards', userId }))
+    .catch(() => undefined);
+  await Promise.all(cardIds.map(cardId => removeCardImagesQuietly(userId, cardId)));
+};
+
+const sortByCreatedAtDesc = (cards: BusinessCard[]) =>
+  cards.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
@@ -0,0 +1,146 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard, Company } from '@/types';
+import { safeGetDoc, safeGetDocs, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { BatchWrite, commitInChunks, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { cardDoc, cardsCollection, listCards, toBusinessCard } from '@/lib/firebase/cardRepository';
+import { companyFromCard, findCompanyForCard, mergeCompanyWithCard } from '@/lib/company';
+import { toPostalAddress } from '@/lib/address';
+import { normalizeCompanyName } from '@/lib/text/normalize';
+
+/**
+ * 会社のリポジトリ
+ * 会社は users/{uid}/companies/{companyId} に保存し、名刺のcompanyIdで紐付ける
+ */
+
+export const companiesCollection = (userId: string) =>
+  collection(db, 'users', userId, 'companies') as CollectionReference<DocumentData>;
+
+export const companyDoc = (userId: string, companyId: string) =>
+  doc(db, 'users', userId, 'companies', companyId) as DocumentReference<DocumentData>;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0) : [];
+
+// Firestoreから読み込んだデータをCompanyに正規化
+export const toCompany = (id: string, data: DocumentData): Company => ({
+  ...data,
+  id,
+  name: data.name || '',
+  normalizedName: data.normalizedName || normalizeCompanyName(data.name),
+  aliases: toStringArray(data.aliases),
+  domains: toStringArray(data.domains),
+  urls: toStringArray(data.urls),
+  tags: toStringArray(data.tags),
+  address: toPostalAddress(data.address)
+});
+
+// 会社名を変えた場合は正規化名を更新し、元の表記は別名として残す
+export const serializeCompany = (company: Partial<Company>, current?: Company): DocumentData => {
+  const data = stripUndefined(company);
+  if (company.name !== undefined) {
+    data.normalizedName = normalizeCompanyName(company.name);
+    data.aliases = Array.from(new Set([...(company.aliases || current?.aliases || []), ...(current ? [current.name] : []), company.name]
+      .map(alias => alias.trim())
+      .filter(Boolean)));
+  }
+  return data;
+};
+
+// 会社一覧を取得（会社名順）
+export const listCompanies = async (userId: string): Promise<Company[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(companiesCollection(userId)));
+  return docs
+    .map(({ id, ...data }) => toCompany(id, data))
+    .sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+};
+
+// 会社を1件取得
+export const getCompany = async (userId: string, companyId: string): Promise<Company | null> => {
+  const data = await safeGetDoc(companyDoc(userId, companyId));
+  return data ? toCompany(companyId, data) : null;
+};
+
+// 会社を更新
+export const updateCompany = async (userId: string, company: Company, updates: Partial<Company>): Promise<void> => {
+  await safeUpdateDoc(companyDoc(userId, company.id!), serializeCompany({
+    ...updates,
+    updatedAt: new Date().toISOString()
+  }, company));
+};
+
+// 会社に紐付いた名刺を取得
+export const listCompanyCards = async (userId: string, companyId: string): Promise<BusinessCard[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(cardsCollection(userId), where('companyId', '==', companyId))
+  );
+  return docs.map(({ id, ...data }) => toBusinessCard(id, data));
+};
+
+/**
+ * 名刺を会社に紐付ける（登録済みの会社に照合し、見つからなければ名刺から会社を作る）
+ * 照合した会社には名刺の会社名の表記・ドメイン・URLを追加する
+ */
+const assignCompanies = async (userId: string, cards: BusinessCard[]): Promise<Map<string, string>> => {
+  const cardCompanyIds = new Map<string, string>();
+  const targets = cards.filter(card => card.id && card.companyName.trim());
+  if (targets.length === 0) return cardCompanyIds;
+
+  const companies = await listCompanies(userId);
+  const changedCompanies = new Map<string, Company>();
+  const now = new Date().toISOString();
+
+  targets.forEach(card => {
+    const found = findCompanyForCard(card, companies);
+    const company: Company = found
+      ? { ...found, ...mergeCompanyWithCard(found, card), updatedAt: now }
+      : { ...companyFromCard(card), id: doc(companiesCollection(userId)).id, createdAt: now, updatedAt: now };
+
+    // 以降の名刺の照合では更新後の会社を使う
+    if (found) {
+      companies[companies.indexOf(found)] = company;
+    } else {
+      companies.push(company);
+    }
+    changedCompanies.set(company.id!, company);
+    cardCompanyIds.set(card.id!, company.id!);
+  });
+
+  const writes: BatchWrite[] = [
+    ...Array.from(changedCompanies.values()).map(company => (batch: WriteBatch) =>
+      batch.set(companyDoc(userId, company.id!), serializeCompany(company), { merge: true })
+    ),
+    ...Array.from(cardCompanyIds.entries()).map(([cardId, companyId]) => (batch: WriteBatch) =>
+      batch.update(cardDoc(userId, cardId), { companyId, updatedAt: now })
+    )
+  ];
+  await commitInChunks(writes, { operation: 'assignCompanies', userId });
+
+  return cardCompanyIds;
+};
+
+/**
+ * 名刺を会社に紐付け直す（会社名を変更した場合など）
+ */
+export const linkCardToCompany = async (userId: string, card: BusinessCard): Promise<string | undefined> => {
+  const cardCompanyIds = await assignCompanies(userId, [{ ...card, companyId: undefined }]);
+  return cardCompanyIds.get(card.id!);
+};
+
+/**
+ * 会社が未設定の名刺をまとめて会社に紐付ける
+ */
+export const syncCardCompanies = async (userId: string): Promise<number> => {
+  const cards = await listCards(userId);
+  const cardCompanyIds = await assignCompanies(userId, cards.filter(card => !card.companyId));
+  return cardCompanyIds.size;
+};
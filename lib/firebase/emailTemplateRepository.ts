@@ -0,0 +1,105 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  CollectionReference,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { EmailTemplate } from '@/types/email';
+import { safeDeleteDoc, safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { DEFAULT_TEMPLATES, extractVariables } from '@/lib/email/template';
+
+/**
+ * メールテンプレートのリポジトリ
+ * 自分用は users/{uid}/emailTemplates、チームで共有するものは teams/{teamId}/emailTemplates に保存する。
+ * 標準のテンプレート（DEFAULT_TEMPLATES）は保存せず、一覧の先頭に加える
+ */
+
+export interface TemplateTeam {
+  id: string;
+  name: string;
+}
+
+const templatesCollection = (userId: string, teamId?: string) => (
+  teamId
+    ? collection(db, 'teams', teamId, 'emailTemplates')
+    : collection(db, 'users', userId, 'emailTemplates')
+) as CollectionReference<DocumentData>;
+
+const templateDoc = (userId: string, template: Pick<EmailTemplate, 'id' | 'teamId'>) =>
+  doc(templatesCollection(userId, template.teamId), template.id) as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをEmailTemplateに正規化
+const toEmailTemplate = (id: string, data: DocumentData, teamId?: string): EmailTemplate => ({
+  id,
+  name: data.name || '',
+  subject: data.subject || '',
+  body: data.body || '',
+  variables: Array.isArray(data.variables) ? data.variables : [],
+  isDefault: false,
+  teamId,
+  trackingEnabled: data.trackingEnabled === true,
+  createdBy: data.createdBy || undefined,
+  createdAt: data.createdAt || '',
+  updatedAt: data.updatedAt || ''
+});
+
+// 自分が所属するチーム（テンプレートの共有先）
+export const listTemplateTeams = async (userId: string): Promise<TemplateTeam[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(collection(db, 'teams'), where('memberIds', 'array-contains', userId))
+  );
+  return docs.map(({ id, name }) => ({ id, name: name || '' }));
+};
+
+/**
+ * 使えるテンプレートの一覧（標準 → 自分用 → チームで共有、それぞれ名前順）
+ */
+export const listEmailTemplates = async (userId: string, teams: TemplateTeam[] = []): Promise<EmailTemplate[]> => {
+  const byName = (a: EmailTemplate, b: EmailTemplate) => a.name.localeCompare(b.name, 'ja');
+  const [own, ...shared] = await Promise.all([
+    safeGetDocs<DocumentData & { id: string }>(query(templatesCollection(userId))),
+    ...teams.map(team => safeGetDocs<DocumentData & { id: string }>(query(templatesCollection(userId, team.id))))
+  ]);
+
+  return [
+    ...DEFAULT_TEMPLATES,
+    ...own.map(({ id, ...data }) => toEmailTemplate(id, data)).sort(byName),
+    ...shared.flatMap((docs, index) => docs.map(({ id, ...data }) => toEmailTemplate(id, data, teams[index].id)).sort(byName))
+  ];
+};
+
+/**
+ * テンプレートを保存（idがなければ作成）してidを返す
+ * 共有先（teamId）は作成時に決め、後から変えない
+ */
+export const saveEmailTemplate = async (
+  userId: string,
+  template: Pick<EmailTemplate, 'name' | 'subject' | 'body'> & Partial<Pick<EmailTemplate, 'id' | 'teamId' | 'trackingEnabled'>>
+): Promise<string> => {
+  const now = new Date().toISOString();
+  const data = {
+    name: template.name,
+    subject: template.subject,
+    body: template.body,
+    trackingEnabled: template.trackingEnabled === true,
+    variables: Array.from(new Set([...extractVariables(template.subject), ...extractVariables(template.body)])),
+    updatedAt: now
+  };
+
+  if (template.id) {
+    await safeUpdateDoc(templateDoc(userId, { id: template.id, teamId: template.teamId }), data);
+    return template.id;
+  }
+
+  const ref = doc(templatesCollection(userId, template.teamId));
+  await safeSetDoc(ref, { ...data, createdBy: userId, createdAt: now });
+  return ref.id;
+};
+
+export const deleteEmailTemplate = async (userId: string, template: Pick<EmailTemplate, 'id' | 'teamId'>): Promise<void> => {
+  await safeDeleteDoc(templateDoc(userId, template));
+};
@@ -0,0 +1,149 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  onSnapshot,
+  query,
+  where,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  Unsubscribe,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard, NetworkingEvent } from '@/types';
+import { BusinessCardError, fromFirebaseError, logError } from '@/lib/errors';
+import { safeDeleteDoc, safeGetDoc, safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { commitInChunks, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { cardDoc, cardsCollection, toBusinessCard } from '@/lib/firebase/cardRepository';
+import { sortEvents } from '@/lib/events';
+
+/**
+ * イベントのリポジトリ
+ * イベントは users/{uid}/events/{eventId} に保存し、名刺のeventIdで紐付ける。
+ * 現在のイベントは端末をまたいで使えるよう users/{uid}/settings/capture に保存する
+ */
+
+export const eventsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'events') as CollectionReference<DocumentData>;
+
+export const eventDoc = (userId: string, eventId: string) =>
+  doc(db, 'users', userId, 'events', eventId) as DocumentReference<DocumentData>;
+
+const captureSettingsDoc = (userId: string) =>
+  doc(db, 'users', userId, 'settings', 'capture') as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをNetworkingEventに正規化（消した項目のnullは除く）
+export const toNetworkingEvent = (id: string, data: DocumentData): NetworkingEvent => ({
+  ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null)),
+  id,
+  name: data.name || '',
+  date: data.date || ''
+});
+
+// 空の項目は保存しない（更新時は既存の値をnullで消す）
+const serializeEvent = (event: Partial<NetworkingEvent>, clearEmpty = false): DocumentData =>
+  stripUndefined(event, clearEmpty ? 'null' : 'omit');
+
+// イベントの一覧を取得（新しい順）
+export const listEvents = async (userId: string): Promise<NetworkingEvent[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(eventsCollection(userId)));
+  return sortEvents(docs.map(({ id, ...data }) => toNetworkingEvent(id, data)));
+};
+
+// イベントの一覧を購読（新しい順）
+export const watchEvents = (
+  userId: string,
+  onChange: (events: NetworkingEvent[]) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(eventsCollection(userId)),
+    (snapshot) => {
+      onChange(sortEvents(snapshot.docs.map(snap => toNetworkingEvent(snap.id, snap.data()))));
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchEvents', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+// イベントを取得
+export const getEvent = async (userId: string, eventId: string): Promise<NetworkingEvent | null> => {
+  const data = await safeGetDoc(eventDoc(userId, eventId));
+  return data ? toNetworkingEvent(eventId, data) : null;
+};
+
+// イベントを保存（idがなければ作成）してidを返す
+export const saveEvent = async (userId: string, event: NetworkingEvent): Promise<string> => {
+  const now = new Date().toISOString();
+
+  if (event.id) {
+    await safeUpdateDoc(eventDoc(userId, event.id), serializeEvent({ ...event, updatedAt: now }, true));
+    return event.id;
+  }
+
+  const ref = doc(eventsCollection(userId));
+  await safeSetDoc(ref, serializeEvent({ ...event, createdAt: now, updatedAt: now }));
+  return ref.id;
+};
+
+// イベントで交換した名刺
+export const listEventCards = async (userId: string, eventId: string): Promise<BusinessCard[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(cardsCollection(userId), where('eventId', '==', eventId))
+  );
+  return docs.map(({ id, ...data }) => toBusinessCard(id, data));
+};
+
+/**
+ * イベントを削除する（名刺は削除せず、イベントとの紐付けだけを外す）
+ */
+export const deleteEvent = async (userId: string, eventId: string): Promise<void> => {
+  const cards = await listEventCards(userId, eventId);
+  const now = new Date().toISOString();
+
+  await commitInChunks(cards.map(card => (batch: WriteBatch) => {
+    batch.update(cardDoc(userId, card.id!), { eventId: deleteField(), updatedAt: now });
+  }), { operation: 'deleteEvent', userId });
+
+  if (await getCurrentEventId(userId) === eventId) await setCurrentEvent(userId, null);
+  await safeDeleteDoc(eventDoc(userId, eventId));
+};
+
+// 現在のイベントのID（未設定ならnull）
+export const getCurrentEventId = async (userId: string): Promise<string | null> => {
+  const data = await safeGetDoc(captureSettingsDoc(userId));
+  return data?.currentEventId || null;
+};
+
+// 現在のイベントを購読
+export const watchCurrentEventId = (
+  userId: string,
+  onChange: (eventId: string | null) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    captureSettingsDoc(userId),
+    (snapshot) => {
+      onChange(snapshot.data()?.currentEventId || null);
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchCurrentEventId', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+// 現在のイベントを設定（nullで解除）
+export const setCurrentEvent = async (userId: string, eventId: string | null): Promise<void> => {
+  await safeSetDoc(
+    captureSettingsDoc(userId),
+    { currentEventId: eventId, updatedAt: new Date().toISOString() },
+    { merge: true }
+  );
+};
@@ -0,0 +1,64 @@
+import { writeBatch, DocumentData, WriteBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCardError, fromFirebaseError, logError } from '@/lib/errors';
+
+/**
+ * リポジトリで共通に使うFirestoreの書き込みヘルパー
+ */
+
+// Firestoreのバッチ書き込み上限
+export const MAX_BATCH_WRITES = 500;
+
+// in・array-contains-any条件で指定できる値の上限
+export const MAX_IN_VALUES = 30;
+
+// バッチに追加する1件分の書き込み
+export type BatchWrite = (batch: WriteBatch) => void;
+
+// 空文字の項目の扱い（keep: そのまま保存 / omit: 保存しない / null: nullで既存の値を消す）
+export type EmptyStringHandling = 'keep' | 'omit' | 'null';
+
+// Firestoreはundefinedを保存できないため除去し、idはドキュメントIDとして扱う
+export const stripUndefined = (data: object, emptyStrings: EmptyStringHandling = 'keep'): DocumentData => {
+  const result: DocumentData = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (key === 'id' || value === undefined) return;
+    if (value === '' && emptyStrings !== 'keep') {
+      if (emptyStrings === 'null') result[key] = null;
+      return;
+    }
+    result[key] = value;
+  });
+  return result;
+};
+
+/**
+ * chunkSize件（既定は500件）ごとにバッチを分けて書き込む（書き込んだ件数を返す）
+ * 1件で複数のドキュメントに書き込む場合は、バッチ上限に収まるようchunkSizeを小さくする。
+ * バッチをまたいだ書き込みはまとめて取り消せないため、途中で失敗した場合は
+ * それまでに書き込んだ件数をエラーのcontext（committed）に入れて投げる
+ */
+export const commitInChunks = async (
+  writes: BatchWrite[],
+  context: { operation: string; userId: string },
+  chunkSize: number = MAX_BATCH_WRITES
+): Promise<number> => {
+  let committed = 0;
+  for (let i = 0; i < writes.length; i += chunkSize) {
+    const chunk = writes.slice(i, i + chunkSize);
+    const batch = writeBatch(db);
+    chunk.forEach(write => write(batch));
+    try {
+      await batch.commit();
+    } catch (error: any) {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { ...context, size: chunk.length, committed });
+      throw new BusinessCardError(bcError.message, bcError.code, bcError.statusCode, bcError.isOperational, {
+        ...bcError.context,
+        committed
+      });
+    }
+    committed += chunk.length;
+  }
+  return committed;
+};
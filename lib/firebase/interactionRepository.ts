@@ -0,0 +1,92 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  CollectionReference,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Interaction } from '@/types';
+import { safeDeleteDoc, safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { MAX_IN_VALUES, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { sortInteractions } from '@/lib/interactions';
+import { toEmailEngagement } from '@/lib/firebase/campaignRepository';
+
+/**
+ * やりとりの記録のリポジトリ
+ * 記録は users/{uid}/interactions/{interactionId} に保存し、相手の名刺のID（cardIds）で紐付ける
+ */
+
+export const interactionsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'interactions') as CollectionReference<DocumentData>;
+
+export const interactionDoc = (userId: string, interactionId: string) =>
+  doc(db, 'users', userId, 'interactions', interactionId) as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをInteractionに正規化（項目を消したときのnullは除く）
+export const toInteraction = (id: string, data: DocumentData): Interaction => ({
+  ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null)),
+  id,
+  cardIds: Array.isArray(data.cardIds) ? data.cardIds : [],
+  type: data.type || 'note',
+  date: data.date || '',
+  title: data.title || '',
+  engagement: toEmailEngagement(data.engagement)
+});
+
+export const serializeInteraction = (interaction: Partial<Interaction>): DocumentData => stripUndefined(interaction);
+
+// 名刺のやりとりを取得（同席者として記録されたものを含む、新しい順）
+export const listCardInteractions = async (userId: string, cardId: string): Promise<Interaction[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(interactionsCollection(userId), where('cardIds', 'array-contains', cardId))
+  );
+  return sortInteractions(docs.map(({ id, ...data }) => toInteraction(id, data)));
+};
+
+// 複数の名刺のやりとりを取得（名刺の統合・削除で紐付けを付け替えるため）
+export const listInteractionsOfCards = async (userId: string, cardIds: string[]): Promise<Interaction[]> => {
+  const ids = Array.from(new Set(cardIds));
+  const interactions = new Map<string, Interaction>();
+  for (let i = 0; i < ids.length; i += MAX_IN_VALUES) {
+    const docs = await safeGetDocs<DocumentData & { id: string }>(
+      query(interactionsCollection(userId), where('cardIds', 'array-contains-any', ids.slice(i, i + MAX_IN_VALUES)))
+    );
+    // 複数の名刺に紐付くやりとりは別のチャンクでも見つかるためIDでまとめる
+    docs.forEach(({ id, ...data }) => interactions.set(id, toInteraction(id, data)));
+  }
+  return Array.from(interactions.values());
+};
+
+// やりとりを記録
+export const createInteraction = async (
+  userId: string,
+  interaction: Omit<Interaction, 'id'>
+): Promise<Interaction> => {
+  const ref = doc(interactionsCollection(userId));
+  const now = new Date().toISOString();
+  const data = serializeInteraction({ source: 'manual', ...interaction, createdAt: now, updatedAt: now });
+  await safeSetDoc(ref, data);
+  return toInteraction(ref.id, data);
+};
+
+// やりとりを更新（空にした項目はnullで消す）
+export const updateInteraction = async (
+  userId: string,
+  interactionId: string,
+  updates: Partial<Interaction>
+): Promise<void> => {
+  await safeUpdateDoc(interactionDoc(userId, interactionId), {
+    ...serializeInteraction(updates),
+    notes: updates.notes || null,
+    participants: updates.participants?.length ? updates.participants : null,
+    updatedAt: new Date().toISOString()
+  });
+};
+
+// やりとりを削除
+export const deleteInteraction = async (userId: string, interactionId: string): Promise<void> => {
+  await safeDeleteDoc(interactionDoc(userId, interactionId));
+};
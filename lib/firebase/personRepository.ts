@@ -0,0 +1,111 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  deleteField,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard, Person } from '@/types';
+import { safeGetDoc, safeGetDocs } from '@/lib/firebase/errorHandler';
+import { BatchWrite, commitInChunks } from '@/lib/firebase/firestoreUtils';
+import { cardDoc, cardsCollection, toBusinessCard } from '@/lib/firebase/cardRepository';
+import { cardDate } from '@/lib/career';
+import { joinName } from '@/lib/names';
+
+/**
+ * 人物（転職・異動の前後で受け取った同じ人の名刺のまとまり）のリポジトリ
+ * 人物は users/{uid}/people/{personId} に保存し、名刺のpersonIdで紐付ける
+ */
+
+export const peopleCollection = (userId: string) =>
+  collection(db, 'users', userId, 'people') as CollectionReference<DocumentData>;
+
+export const personDoc = (userId: string, personId: string) =>
+  doc(db, 'users', userId, 'people', personId) as DocumentReference<DocumentData>;
+
+const toPerson = (id: string, data: DocumentData): Person => ({
+  id,
+  name: data.name || '',
+  nameKana: data.nameKana || undefined,
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt
+});
+
+// 人物の表示名は最も新しい名刺の氏名を使う（Firestoreに保存するためundefinedは含めない）
+const personFields = (cards: BusinessCard[]): DocumentData => {
+  const latest = [...cards].sort((a, b) => cardDate(b).localeCompare(cardDate(a)))[0];
+  const nameKana = joinName(latest.familyNameKana, latest.givenNameKana, '');
+  return { name: latest.name, ...(nameKana ? { nameKana } : {}) };
+};
+
+const uniqueById = (cards: BusinessCard[]) =>
+  Array.from(new Map(cards.filter(card => card.id).map(card => [card.id!, card])).values());
+
+// 人物を1件取得
+export const getPerson = async (userId: string, personId: string): Promise<Person | null> => {
+  const data = await safeGetDoc(personDoc(userId, personId));
+  return data ? toPerson(personId, data) : null;
+};
+
+// 人物に紐付いた名刺を取得
+export const listPersonCards = async (userId: string, personId: string): Promise<BusinessCard[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(cardsCollection(userId), where('personId', '==', personId))
+  );
+  return docs.map(({ id, ...data }) => toBusinessCard(id, data));
+};
+
+/**
+ * 名刺を同じ人としてまとめる
+ * いずれかの名刺が既に人物に紐付いていればその人物に追加し、別々の人物に紐付いていた場合は1人にまとめる
+ */
+export const linkSamePerson = async (userId: string, cards: BusinessCard[]): Promise<string> => {
+  const personIds = Array.from(new Set(cards.map(card => card.personId).filter((id): id is string => !!id)));
+  const [targetId = doc(peopleCollection(userId)).id, ...otherIds] = personIds;
+
+  const linkedCards = await Promise.all(personIds.map(personId => listPersonCards(userId, personId)));
+  const members = uniqueById([...linkedCards.flat(), ...cards]);
+  const now = new Date().toISOString();
+
+  await commitInChunks([
+    (batch: WriteBatch) => batch.set(personDoc(userId, targetId), {
+      ...personFields(members),
+      ...(personIds.length === 0 ? { createdAt: now } : {}),
+      updatedAt: now
+    }, { merge: true }),
+    ...members
+      .filter(card => card.personId !== targetId)
+      .map(card => (batch: WriteBatch) => batch.update(cardDoc(userId, card.id!), { personId: targetId, updatedAt: now })),
+    ...otherIds.map(personId => (batch: WriteBatch) => batch.delete(personDoc(userId, personId)))
+  ], { operation: 'linkSamePerson', userId });
+  return targetId;
+};
+
+/**
+ * 名刺を人物から外す（残りの名刺が1枚以下になった場合は人物ごと削除する）
+ */
+export const unlinkFromPerson = async (userId: string, card: BusinessCard): Promise<void> => {
+  if (!card.id || !card.personId) return;
+
+  const remaining = (await listPersonCards(userId, card.personId)).filter(other => other.id !== card.id);
+  const now = new Date().toISOString();
+
+  const cardId = card.id;
+  const personId = card.personId;
+  const writes: BatchWrite[] = [batch => batch.update(cardDoc(userId, cardId), { personId: deleteField(), updatedAt: now })];
+  if (remaining.length <= 1) {
+    writes.push(
+      ...remaining.map((other): BatchWrite => batch => batch.update(cardDoc(userId, other.id!), { personId: deleteField(), updatedAt: now })),
+      batch => batch.delete(personDoc(userId, personId))
+    );
+  } else {
+    writes.push(batch => batch.update(personDoc(userId, personId), { ...personFields(remaining), updatedAt: now }));
+  }
+
+  await commitInChunks(writes, { operation: 'unlinkFromPerson', userId });
+};
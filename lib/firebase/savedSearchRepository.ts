@@ -0,0 +1,86 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { SavedSearch } from '@/types';
+import { BusinessCardError, fromFirebaseError, logError } from '@/lib/errors';
+import { safeDeleteDoc, safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { stripUndefined } from '@/lib/firebase/firestoreUtils';
+
+/**
+ * 保存した検索条件のリポジトリ
+ * 検索条件は users/{uid}/savedSearches/{id} に保存する
+ */
+
+export const savedSearchesCollection = (userId: string) =>
+  collection(db, 'users', userId, 'savedSearches') as CollectionReference<DocumentData>;
+
+export const savedSearchDoc = (userId: string, searchId: string) =>
+  doc(db, 'users', userId, 'savedSearches', searchId) as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをSavedSearchに正規化（消した条件のnullは除く）
+export const toSavedSearch = (id: string, data: DocumentData): SavedSearch => ({
+  ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null)),
+  id,
+  name: data.name || '',
+  tags: Array.isArray(data.tags) ? data.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : []
+});
+
+// 空の条件は保存しない（更新時は既存の値をnullで消す）
+const serializeSavedSearch = (search: Partial<SavedSearch>, clearEmpty = false): DocumentData =>
+  stripUndefined(search, clearEmpty ? 'null' : 'omit');
+
+const byName = (a: SavedSearch, b: SavedSearch) => a.name.localeCompare(b.name, 'ja');
+
+// 検索条件の一覧を取得（名前順）
+export const listSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(savedSearchesCollection(userId)));
+  return docs.map(({ id, ...data }) => toSavedSearch(id, data)).sort(byName);
+};
+
+// 検索条件の一覧を購読（名前順）
+export const watchSavedSearches = (
+  userId: string,
+  onChange: (searches: SavedSearch[]) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(savedSearchesCollection(userId)),
+    (snapshot) => {
+      onChange(snapshot.docs
+        .map(snap => toSavedSearch(snap.id, snap.data()))
+        .sort(byName));
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchSavedSearches', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+// 検索条件を保存（idがなければ作成）してidを返す
+export const saveSavedSearch = async (userId: string, search: SavedSearch): Promise<string> => {
+  const now = new Date().toISOString();
+
+  if (search.id) {
+    await safeUpdateDoc(savedSearchDoc(userId, search.id), serializeSavedSearch({ ...search, updatedAt: now }, true));
+    return search.id;
+  }
+
+  const ref = doc(savedSearchesCollection(userId));
+  await safeSetDoc(ref, serializeSavedSearch({ ...search, createdAt: now, updatedAt: now }));
+  return ref.id;
+};
+
+// 検索条件を削除（名刺には影響しない）
+export const deleteSavedSearch = async (userId: string, searchId: string): Promise<void> => {
+  await safeDeleteDoc(savedSearchDoc(userId, searchId));
+};
@@ -0,0 +1,45 @@
+import {
+  collection,
+  query,
+  CollectionReference,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { EmailSuppression, SuppressionReason } from '@/types/email';
+import { safeGetDocs } from '@/lib/firebase/errorHandler';
+
+/**
+ * 配信停止リスト（users/{uid}/emailSuppressions/{正規化したメールアドレス}）
+ * 書き込みはサーバー（lib/email/suppressions.ts）だけが行い、手動での追加・削除も /api/email/suppressions を使う
+ */
+
+// 大文字・小文字や前後の空白が違っても同じアドレスとして扱う
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// ドキュメントIDにできない文字（/など）を含むアドレスがあるためエンコードする
+export const suppressionId = (email: string) => encodeURIComponent(normalizeEmail(email));
+
+export const suppressionsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'emailSuppressions') as CollectionReference<DocumentData>;
+
+export const toEmailSuppression = (id: string, data: DocumentData): EmailSuppression => ({
+  id,
+  email: data.email || decodeURIComponent(id),
+  reason: data.reason || 'manual',
+  detail: data.detail || undefined,
+  cardId: data.cardId || undefined,
+  campaignId: data.campaignId || undefined,
+  createdAt: data.createdAt || ''
+});
+
+// 配信停止リスト（新しい順）
+export const listSuppressions = async (userId: string): Promise<EmailSuppression[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(suppressionsCollection(userId)));
+  return docs
+    .map(({ id, ...data }) => toEmailSuppression(id, data))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// 正規化したアドレス → 配信停止の理由
+export const toSuppressionMap = (suppressions: EmailSuppression[]): Map<string, SuppressionReason> =>
+  new Map(suppressions.map(suppression => [normalizeEmail(suppression.email), suppression.reason]));
@@ -0,0 +1,215 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  Unsubscribe,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { TagDefinition } from '@/types';
+import { BusinessCardError, fromFirebaseError, logError } from '@/lib/errors';
+import { safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { commitInChunks, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { batchWriteCards, listCards } from '@/lib/firebase/cardRepository';
+import { listSavedSearches, savedSearchDoc } from '@/lib/firebase/savedSearchRepository';
+import { DEFAULT_TAG_RULES, replaceTagNames } from '@/lib/tagging';
+
+/**
+ * タグのリポジトリ
+ * タグの定義は users/{uid}/tags/{tagId} に保存する。名刺・保存した検索条件はタグ名で参照するため、
+ * 名前の変更・統合・削除ではそれらもバッチで書き換える
+ */
+
+export const tagsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'tags') as CollectionReference<DocumentData>;
+
+export const tagDoc = (userId: string, tagId: string) =>
+  doc(db, 'users', userId, 'tags', tagId) as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをTagDefinitionに正規化
+export const toTagDefinition = (id: string, data: DocumentData): TagDefinition => ({
+  ...data,
+  id,
+  name: data.name || '',
+  color: data.color || undefined,
+  parentId: data.parentId || undefined,
+  keywords: Array.isArray(data.keywords) ? data.keywords.filter((keyword: unknown): keyword is string => typeof keyword === 'string') : []
+});
+
+// 親・色を外す場合はnullで消す
+const serializeTag = (tag: Partial<TagDefinition>): DocumentData => {
+  const data = stripUndefined(tag);
+  if ('parentId' in tag && !tag.parentId) data.parentId = null;
+  if ('color' in tag && !tag.color) data.color = null;
+  return data;
+};
+
+const byName = (a: TagDefinition, b: TagDefinition) => a.name.localeCompare(b.name, 'ja');
+
+// タグの一覧を取得（名前順）
+export const listTags = async (userId: string): Promise<TagDefinition[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(query(tagsCollection(userId)));
+  return docs.map(({ id, ...data }) => toTagDefinition(id, data)).sort(byName);
+};
+
+// タグの一覧を購読（名前順）
+export const watchTags = (
+  userId: string,
+  onChange: (tags: TagDefinition[]) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(tagsCollection(userId)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(snap => toTagDefinition(snap.id, snap.data())).sort(byName));
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchTags', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+// タグの色・親・キーワードを保存（名前の変更はrenameTagで行う）
+export const saveTag = async (userId: string, tag: TagDefinition): Promise<string> => {
+  const now = new Date().toISOString();
+
+  if (tag.id) {
+    await safeUpdateDoc(tagDoc(userId, tag.id), serializeTag({ ...tag, name: undefined, updatedAt: now }));
+    return tag.id;
+  }
+
+  const ref = doc(tagsCollection(userId));
+  await safeSetDoc(ref, serializeTag({ ...tag, createdAt: now, updatedAt: now }));
+  return ref.id;
+};
+
+/**
+ * 名刺と保存した検索条件のタグ名を書き換える（toがnullの場合はタグを外す）
+ * 書き換えた名刺の件数を返す
+ */
+const rewriteTagNames = async (userId: string, from: string[], to: string | null): Promise<number> => {
+  const rewrite = (tags: string[]) => (to ? replaceTagNames(tags, from, to) : tags.filter(tag => !from.includes(tag)));
+  const uses = (tags: string[] | undefined) => (tags || []).some(tag => from.includes(tag));
+
+  const cards = (await listCards(userId)).filter(card => card.id && uses(card.tags));
+  await batchWriteCards(userId, cards.map(card => ({
+    type: 'update' as const,
+    cardId: card.id!,
+    updates: { tags: rewrite(card.tags!) }
+  })));
+
+  const searches = (await listSavedSearches(userId)).filter(search => search.id && uses(search.tags));
+  await commitInChunks(searches.map(search => (batch: WriteBatch) => {
+    batch.update(savedSearchDoc(userId, search.id!), { tags: rewrite(search.tags!) });
+  }), { operation: 'rewriteSavedSearchTags', userId });
+
+  return cards.length;
+};
+
+/**
+ * 複数のタグを1つに統合する
+ * 名刺のタグ名を統合先に書き換え、統合元の子タグとキーワードは統合先に引き継ぐ
+ */
+export const mergeTags = async (
+  userId: string,
+  sources: TagDefinition[],
+  target: TagDefinition,
+  definitions: TagDefinition[]
+): Promise<number> => {
+  const mergedSources = sources.filter(source => source.id !== target.id);
+  if (mergedSources.length === 0) return 0;
+
+  const sourceIds = new Set(mergedSources.map(source => source.id));
+  const updated = await rewriteTagNames(userId, mergedSources.map(source => source.name), target.name);
+
+  const now = new Date().toISOString();
+  // 統合先が統合元の子だった場合は、統合元の親の下に移す
+  let targetParentId = target.parentId;
+  while (targetParentId && sourceIds.has(targetParentId)) {
+    targetParentId = definitions.find(definition => definition.id === targetParentId)?.parentId;
+  }
+  const keywords = Array.from(new Set([...(target.keywords || []), ...mergedSources.flatMap(source => source.keywords || [])]));
+
+  await commitInChunks([
+    (batch: WriteBatch) => batch.update(tagDoc(userId, target.id!), serializeTag({
+      parentId: targetParentId,
+      color: target.color || mergedSources.find(source => source.color)?.color,
+      keywords,
+      updatedAt: now
+    })),
+    ...definitions
+      .filter(child => child.id !== target.id && child.parentId && sourceIds.has(child.parentId) && !sourceIds.has(child.id))
+      .map(child => (batch: WriteBatch) => batch.update(tagDoc(userId, child.id!), { parentId: target.id, updatedAt: now })),
+    ...mergedSources.map(source => (batch: WriteBatch) => batch.delete(tagDoc(userId, source.id!)))
+  ], { operation: 'mergeTags', userId });
+
+  return updated;
+};
+
+/**
+ * タグの名前を変える（同じ名前のタグが既にあれば統合する）
+ * 書き換えた名刺の件数を返す
+ */
+export const renameTag = async (
+  userId: string,
+  tag: TagDefinition,
+  newName: string,
+  definitions: TagDefinition[]
+): Promise<number> => {
+  const name = newName.trim();
+  if (!name || name === tag.name) return 0;
+
+  const existing = definitions.find(definition => definition.name === name && definition.id !== tag.id);
+  if (existing) return mergeTags(userId, [tag], existing, definitions);
+
+  const updated = await rewriteTagNames(userId, [tag.name], name);
+  await safeUpdateDoc(tagDoc(userId, tag.id!), { name, updatedAt: new Date().toISOString() });
+  return updated;
+};
+
+/**
+ * タグを削除して名刺から外す（子タグは削除したタグの親の下に移す）
+ */
+export const deleteTag = async (userId: string, tag: TagDefinition, definitions: TagDefinition[]): Promise<number> => {
+  const updated = await rewriteTagNames(userId, [tag.name], null);
+  const now = new Date().toISOString();
+
+  await commitInChunks([
+    ...definitions
+      .filter(child => child.parentId === tag.id)
+      .map(child => (batch: WriteBatch) => batch.update(tagDoc(userId, child.id!), serializeTag({ parentId: tag.parentId, updatedAt: now }))),
+    (batch: WriteBatch) => batch.delete(tagDoc(userId, tag.id!))
+  ], { operation: 'deleteTag', userId });
+
+  return updated;
+};
+
+/**
+ * 名刺に付いているが未登録のタグを登録する
+ * タグを1つも登録していない場合は、既定の自動付与ルールのタグも登録する
+ */
+export const syncTagRegistry = async (userId: string, definitions: TagDefinition[]): Promise<number> => {
+  const registered = new Set(definitions.map(definition => definition.name));
+  const missing = new Map<string, string[]>();
+
+  if (definitions.length === 0) {
+    DEFAULT_TAG_RULES.forEach(rule => missing.set(rule.tag, rule.keywords));
+  }
+  (await listCards(userId)).forEach(card => {
+    card.tags?.forEach(tag => {
+      if (!registered.has(tag) && !missing.has(tag)) missing.set(tag, []);
+    });
+  });
+
+  const now = new Date().toISOString();
+  await commitInChunks(Array.from(missing, ([name, keywords]) => (batch: WriteBatch) => {
+    batch.set(doc(tagsCollection(userId)), serializeTag({ name, keywords, createdAt: now, updatedAt: now }));
+  }), { operation: 'syncTagRegistry', userId });
+  return missing.size;
+};
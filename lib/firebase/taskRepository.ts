@@ -0,0 +1,131 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  where,
+  CollectionReference,
+  DocumentReference,
+  DocumentData,
+  Unsubscribe,
+  WriteBatch
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { BusinessCard, Task } from '@/types';
+import { BusinessCardError, fromFirebaseError, logError } from '@/lib/errors';
+import { safeDeleteDoc, safeGetDocs, safeSetDoc, safeUpdateDoc } from '@/lib/firebase/errorHandler';
+import { commitInChunks, MAX_IN_VALUES, stripUndefined } from '@/lib/firebase/firestoreUtils';
+import { suggestTasks } from '@/lib/tasks';
+
+/**
+ * タスクのリポジトリ
+ * タスクは users/{uid}/tasks/{taskId} に保存し、名刺のIDで紐付ける
+ */
+
+export const tasksCollection = (userId: string) =>
+  collection(db, 'users', userId, 'tasks') as CollectionReference<DocumentData>;
+
+export const taskDoc = (userId: string, taskId: string) =>
+  doc(db, 'users', userId, 'tasks', taskId) as DocumentReference<DocumentData>;
+
+// Firestoreから読み込んだデータをTaskに正規化（未完了に戻したときのnullは除く）
+export const toTask = (id: string, data: DocumentData): Task => ({
+  ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null)),
+  id,
+  cardId: data.cardId || '',
+  type: data.type || 'custom',
+  title: data.title || '',
+  dueDate: data.dueDate || '',
+  completed: data.completed === true
+});
+
+export const serializeTask = (task: Partial<Task>): DocumentData => stripUndefined(task);
+
+const byDueDate = (a: Task, b: Task) => a.dueDate.localeCompare(b.dueDate);
+
+// 未完了のタスクを購読（期日順）
+export const watchOpenTasks = (
+  userId: string,
+  onChange: (tasks: Task[]) => void,
+  onError?: (error: BusinessCardError) => void
+): Unsubscribe => {
+  return onSnapshot(
+    query(tasksCollection(userId), where('completed', '==', false)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(snap => toTask(snap.id, snap.data())).sort(byDueDate));
+    },
+    (error) => {
+      const bcError = fromFirebaseError(error);
+      logError(bcError, { operation: 'watchOpenTasks', userId });
+      onError?.(bcError);
+    }
+  );
+};
+
+// 名刺のタスクを取得（完了済みを含む、期日順）
+export const listCardTasks = async (userId: string, cardId: string): Promise<Task[]> => {
+  const docs = await safeGetDocs<DocumentData & { id: string }>(
+    query(tasksCollection(userId), where('cardId', '==', cardId))
+  );
+  return docs.map(({ id, ...data }) => toTask(id, data)).sort(byDueDate);
+};
+
+// 複数の名刺のタスクを取得（名刺の統合・削除でタスクを付け替えるため）
+export const listTasksOfCards = async (userId: string, cardIds: string[]): Promise<Task[]> => {
+  const ids = Array.from(new Set(cardIds));
+  const tasks: Task[] = [];
+  for (let i = 0; i < ids.length; i += MAX_IN_VALUES) {
+    const docs = await safeGetDocs<DocumentData & { id: string }>(
+      query(tasksCollection(userId), where('cardId', 'in', ids.slice(i, i + MAX_IN_VALUES)))
+    );
+    tasks.push(...docs.map(({ id, ...data }) => toTask(id, data)));
+  }
+  return tasks;
+};
+
+// タスクを作成
+export const createTask = async (userId: string, task: Omit<Task, 'id'>): Promise<Task> => {
+  const ref = doc(tasksCollection(userId));
+  const now = new Date().toISOString();
+  const data = serializeTask({ ...task, createdAt: now, updatedAt: now });
+  await safeSetDoc(ref, data);
+  return toTask(ref.id, data);
+};
+
+/**
+ * 保存した名刺に提案するタスクをまとめて作成する（作成した件数を返す）
+ * 新しく登録した名刺が対象のため、既存のタスクとの重複は確認しない
+ */
+export const createSuggestedTasks = async (userId: string, cards: BusinessCard[]): Promise<number> => {
+  const tasks = cards.flatMap(card => suggestTasks(card, []));
+  const now = new Date().toISOString();
+
+  await commitInChunks(tasks.map(task => (batch: WriteBatch) => {
+    batch.set(doc(tasksCollection(userId)), serializeTask({ ...task, createdAt: now, updatedAt: now }));
+  }), { operation: 'createSuggestedTasks', userId });
+  return tasks.length;
+};
+
+// タスクを更新
+export const updateTask = async (userId: string, taskId: string, updates: Partial<Task>): Promise<void> => {
+  await safeUpdateDoc(taskDoc(userId, taskId), serializeTask({
+    ...updates,
+    updatedAt: new Date().toISOString()
+  }));
+};
+
+// タスクを完了・未完了にする
+export const setTaskCompleted = async (userId: string, taskId: string, completed: boolean): Promise<void> => {
+  const now = new Date().toISOString();
+  await safeUpdateDoc(taskDoc(userId, taskId), {
+    completed,
+    completedAt: completed ? now : null,
+    completedBy: completed ? 'manual' : null,
+    updatedAt: now
+  });
+};
+
+// タスクを削除
+export const deleteTask = async (userId: string, taskId: string): Promise<void> => {
+  await safeDeleteDoc(taskDoc(userId, taskId));
+};
@@ -0,0 +1,95 @@
+import { addDays } from '@/lib/tasks';
+
+/**
+ * 日本の祝日と営業日
+ * 祝日法の規則（固定日・ハッピーマンデー・春分/秋分の日・振替休日・国民の休日）から計算する。
+ * 春分・秋分の日は1980〜2099年の近似式で求める（官報での公示と一致する範囲）
+ */
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const dateKey = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+// 曜日（0: 日曜）
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// その月のn番目の月曜日
+const nthMonday = (year: number, month: number, nth: number) => {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((8 - first) % 7) + (nth - 1) * 7;
+};
+
+const equinoxDay = (year: number, base: number) =>
+  Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * その年の祝日（日付 → 祝日名）
+ */
+export const japaneseHolidays = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>([
+    [dateKey(year, 1, 1), '元日'],
+    [dateKey(year, 1, nthMonday(year, 1, 2)), '成人の日'],
+    [dateKey(year, 2, 11), '建国記念の日'],
+    [dateKey(year, 2, 23), '天皇誕生日'],
+    [dateKey(year, 3, equinoxDay(year, 20.8431)), '春分の日'],
+    [dateKey(year, 4, 29), '昭和の日'],
+    [dateKey(year, 5, 3), '憲法記念日'],
+    [dateKey(year, 5, 4), 'みどりの日'],
+    [dateKey(year, 5, 5), 'こどもの日'],
+    [dateKey(year, 7, nthMonday(year, 7, 3)), '海の日'],
+    [dateKey(year, 8, 11), '山の日'],
+    [dateKey(year, 9, nthMonday(year, 9, 3)), '敬老の日'],
+    [dateKey(year, 9, equinoxDay(year, 23.2488)), '秋分の日'],
+    [dateKey(year, 10, nthMonday(year, 10, 2)), 'スポーツの日'],
+    [dateKey(year, 11, 3), '文化の日'],
+    [dateKey(year, 11, 23), '勤労感謝の日']
+  ]);
+
+  // 国民の休日: 前後を祝日に挟まれた平日
+  Array.from(holidays.keys()).forEach(date => {
+    const next = addDays(date, 1);
+    if (holidays.has(addDays(next, 1)) && !holidays.has(next) && weekday(next) !== 0) {
+      holidays.set(next, '国民の休日');
+    }
+  });
+
+  // 振替休日: 祝日が日曜日の場合、その後の最初の祝日でない日
+  Array.from(holidays.keys()).sort().forEach(date => {
+    if (weekday(date) !== 0) return;
+    let substitute = addDays(date, 1);
+    while (holidays.has(substitute)) substitute = addDays(substitute, 1);
+    holidays.set(substitute, '振替休日');
+  });
+
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+// 祝日名（祝日でなければnull）
+export const holidayName = (date: string): string | null =>
+  japaneseHolidays(Number(date.slice(0, 4))).get(date) || null;
+
+// 年末年始の休業（12/29〜1/3）
+const isYearEndClosure = (date: string) => {
+  const monthDay = date.slice(5);
+  return monthDay >= '12-29' || monthDay <= '01-03';
+};
+
+/**
+ * 営業日（土日・祝日・年末年始を除く）
+ */
+export const isBusinessDay = (date: string): boolean => {
+  const day = weekday(date);
+  return day !== 0 && day !== 6 && !holidayName(date) && !isYearEndClosure(date);
+};
+
+// 指定した日の後の最初の営業日
+export const nextBusinessDay = (date: string): string => {
+  let next = addDays(date, 1);
+  while (!isBusinessDay(next)) next = addDays(next, 1);
+  return next;
+};
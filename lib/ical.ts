@@ -0,0 +1,87 @@
+import { BusinessCard, Task } from '@/types';
+import { TASK_TYPE_LABELS, addDays } from '@/lib/tasks';
+
+/**
+ * タスクのiCalendar（RFC 5545）形式の出力
+ * カレンダーアプリから購読できるよう、期日を終日の予定として出力する
+ */
+
+// テキスト値のエスケープ（\ ; , と改行）
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// 1行75オクテットを超える行は折り返す（マルチバイト文字の途中では切らない）
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of Array.from(line)) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // 折り返した行は先頭の空白の分だけ短くする
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toDateValue = (dateString: string) => dateString.replace(/-/g, '');
+
+const toTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export interface TaskCalendarOptions {
+  calendarName: string;
+  appUrl?: string; // 予定から名刺の詳細画面へのリンクに使う
+  domain: string; // 予定のUIDに使う
+}
+
+/**
+ * タスクをVCALENDARにする（名刺が見つからないタスクは名刺の情報を省く）
+ */
+export const buildTaskCalendar = (
+  tasks: Task[],
+  cards: Map<string, BusinessCard>,
+  { calendarName, appUrl, domain }: TaskCalendarOptions
+): string => {
+  const stamp = toTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//business-card-manager//tasks//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Tokyo'
+  ];
+
+  tasks.forEach(task => {
+    const card = cards.get(task.cardId);
+    const description = [
+      TASK_TYPE_LABELS[task.type],
+      card ? [card.name, card.companyName, card.title].filter(Boolean).join(' / ') : '',
+      task.notes || '',
+      card && appUrl ? `${appUrl}/card/${card.id}` : ''
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:task-${task.id}@${domain}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toDateValue(task.dueDate)}`,
+      `DTEND;VALUE=DATE:${toDateValue(addDays(task.dueDate, 1))}`,
+      `SUMMARY:${escapeText(task.title)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      ...(card && appUrl ? [`URL:${appUrl}/card/${card.id}`] : []),
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,49 @@
+import { BusinessCard, Interaction, InteractionType } from '@/types';
+import { toDateString } from '@/lib/tasks';
+
+/**
+ * 名刺の相手とのやりとりの記録
+ * 名刺のメモ（URL解析の要約も入る）とは別に、種類・日付・同席者つきのタイムラインとして扱う
+ */
+
+export const INTERACTION_TYPE_LABELS: Record<InteractionType, string> = {
+  meeting: '打ち合わせ',
+  call: '電話',
+  email: 'メール送信',
+  event: 'イベントで会った',
+  note: 'メモ'
+};
+
+// メール送信の記録に残す本文の長さ
+const EMAIL_LOG_BODY_LENGTH = 1000;
+
+// 新しい順（同じ日付は後から記録したものを先に）
+export const sortInteractions = (interactions: Interaction[]): Interaction[] =>
+  [...interactions].sort((a, b) =>
+    b.date.localeCompare(a.date) || (b.createdAt || '').localeCompare(a.createdAt || '')
+  );
+
+/**
+ * メール送信APIで送信したメールの記録
+ */
+export const toEmailInteraction = (
+  cardId: string,
+  subject: string,
+  body: string,
+  sentAt: string,
+  campaignId?: string
+): Omit<Interaction, 'id'> => ({
+  cardIds: [cardId],
+  type: 'email',
+  date: toDateString(new Date(sentAt)),
+  title: subject || '（件名なし）',
+  notes: body.length > EMAIL_LOG_BODY_LENGTH ? `${body.slice(0, EMAIL_LOG_BODY_LENGTH)}…` : body,
+  source: 'email',
+  campaignId,
+  createdAt: sentAt,
+  updatedAt: sentAt
+});
+
+// 同席者の選択肢に表示する名刺の表記
+export const participantLabel = (card: BusinessCard) =>
+  card.companyName ? `${card.name}（${card.companyName}）` : card.name;
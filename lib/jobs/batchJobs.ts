@@ -0,0 +1,229 @@
+import { FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase/admin';
+import { BatchJob, BatchJobItem, BatchOperation } from '@/types';
+import { BusinessCardError, ErrorCode, isBusinessCardError, logError } from '@/lib/errors';
+import { processBatchItem, BatchItemInput } from '@/lib/jobs/processors';
+
+/**
+ * 一括処理ジョブ
+ * jobs/{jobId} にジョブ全体の進捗、jobs/{jobId}/items/{index} にアイテムごとの状態を保存する。
+ * 1回のリクエストで処理する時間には上限があるため、未処理のアイテムは
+ * POST /api/batch/{jobId} で続きから再開する（ページ再読み込み後も同様）
+ */
+
+const JOBS_COLLECTION = 'jobs';
+const ITEMS_COLLECTION = 'items';
+
+// 1ジョブあたりの最大アイテム数
+export const MAX_JOB_ITEMS = 500;
+
+// 1回のリクエストで処理に使う時間（サーバーレス関数のタイムアウトより短くする）
+const PROCESS_TIME_BUDGET_MS = 20_000;
+
+// 同じジョブを複数のリクエストが同時に処理しないためのロック期間
+const LOCK_TTL_MS = 60_000;
+
+const PENDING_PAGE_SIZE = 20;
+const MAX_WRITES_PER_BATCH = 400;
+
+const jobDoc = (jobId: string) => adminDb.collection(JOBS_COLLECTION).doc(jobId);
+const itemsCollection = (jobId: string) => jobDoc(jobId).collection(ITEMS_COLLECTION);
+
+// 並び順を保つためアイテムIDはゼロ埋めした連番にする
+const itemId = (index: number) => String(index).padStart(4, '0');
+
+const jobNotFound = (jobId: string) => new BusinessCardError(
+  'ジョブが見つかりません',
+  ErrorCode.FIREBASE_DOCUMENT_NOT_FOUND,
+  404,
+  true,
+  { jobId }
+);
+
+const isFinished = (job: Pick<BatchJob, 'status'>) =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * ジョブを作成する（アイテムはすべてpending）
+ */
+export async function createBatchJob(
+  userId: string,
+  operation: BatchOperation,
+  inputs: BatchItemInput[]
+): Promise<BatchJob> {
+  if (inputs.length === 0 || inputs.length > MAX_JOB_ITEMS) {
+    throw new BusinessCardError(
+      `アイテム数は1〜${MAX_JOB_ITEMS}件で指定してください`,
+      ErrorCode.API_INVALID_REQUEST,
+      400
+    );
+  }
+
+  const ref = adminDb.collection(JOBS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const job: Omit<BatchJob, 'id'> = {
+    userId,
+    operation,
+    status: 'pending',
+    total: inputs.length,
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await ref.set({ ...job, lockedUntil: 0 });
+
+  for (let i = 0; i < inputs.length; i += MAX_WRITES_PER_BATCH) {
+    const batch = adminDb.batch();
+    inputs.slice(i, i + MAX_WRITES_PER_BATCH).forEach((input, offset) => {
+      const index = i + offset;
+      batch.set(itemsCollection(ref.id).doc(itemId(index)), {
+        index,
+        status: 'pending',
+        input,
+        ...(input.cardId ? { cardId: input.cardId } : {})
+      });
+    });
+    await batch.commit();
+  }
+
+  return { id: ref.id, ...job };
+}
+
+/**
+ * ジョブを取得する（他のユーザーのジョブは存在しないものとして扱う）
+ */
+export async function getBatchJob(
+  userId: string,
+  jobId: string,
+  options: { includeItems?: boolean } = {}
+): Promise<BatchJob> {
+  const snapshot = await jobDoc(jobId).get();
+  const data = snapshot.data();
+
+  if (!data || data.userId !== userId) {
+    throw jobNotFound(jobId);
+  }
+
+  // ロック情報は内部用のため返さない
+  const result = { id: snapshot.id, ...data } as BatchJob & { lockedUntil?: number };
+  delete result.lockedUntil;
+
+  if (options.includeItems) {
+    const items = await itemsCollection(jobId).orderBy('index').get();
+    // 入力データ（インポート内容など）は返さない
+    result.items = items.docs.map(doc => {
+      const item = doc.data() as BatchJobItem & { input?: BatchItemInput };
+      delete item.input;
+      return item;
+    });
+  }
+
+  return result;
+}
+
+// ロックを取得できた場合のみtrue（期限切れのロックは奪ってよい）
+async function acquireLock(userId: string, jobId: string): Promise<boolean> {
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(jobDoc(jobId));
+    const data = snapshot.data();
+
+    if (!data || data.userId !== userId) throw jobNotFound(jobId);
+    if (isFinished(data as BatchJob) || data.lockedUntil > Date.now()) return false;
+
+    transaction.update(jobDoc(jobId), {
+      status: 'running',
+      lockedUntil: Date.now() + LOCK_TTL_MS,
+      updatedAt: new Date().toISOString()
+    });
+    return true;
+  });
+}
+
+async function processItem(
+  userId: string,
+  jobId: string,
+  operation: BatchOperation,
+  item: QueryDocumentSnapshot
+) {
+  const processedAt = new Date().toISOString();
+  let itemUpdate: Record<string, any>;
+  let succeeded = false;
+
+  try {
+    const outcome = await processBatchItem(userId, operation, item.data().input || {});
+    itemUpdate = {
+      status: 'succeeded',
+      result: outcome.result,
+      ...(outcome.cardId ? { cardId: outcome.cardId } : {})
+    };
+    succeeded = true;
+  } catch (error: any) {
+    if (!isBusinessCardError(error)) {
+      logError(error, { operation: 'processBatchItem', jobId, index: item.data().index });
+    }
+    itemUpdate = {
+      status: 'failed',
+      error: error?.message || '処理に失敗しました'
+    };
+  }
+
+  const batch = adminDb.batch();
+  batch.update(item.ref, { ...itemUpdate, processedAt });
+  batch.update(jobDoc(jobId), {
+    processed: FieldValue.increment(1),
+    [succeeded ? 'succeeded' : 'failed']: FieldValue.increment(1),
+    lockedUntil: Date.now() + LOCK_TTL_MS,
+    updatedAt: processedAt
+  });
+  await batch.commit();
+}
+
+/**
+ * 未処理のアイテムを時間の許す限り処理し、最新のジョブ状態を返す
+ * 別のリクエストが処理中の場合は何もせずに現在の状態を返す
+ */
+export async function runBatchJob(userId: string, jobId: string): Promise<BatchJob> {
+  if (!(await acquireLock(userId, jobId))) {
+    return getBatchJob(userId, jobId, { includeItems: true });
+  }
+
+  const { operation } = await getBatchJob(userId, jobId);
+  const deadline = Date.now() + PROCESS_TIME_BUDGET_MS;
+  let hasPending = true;
+
+  try {
+    while (hasPending && Date.now() < deadline) {
+      const pending = await itemsCollection(jobId)
+        .where('status', '==', 'pending')
+        .orderBy('index')
+        .limit(PENDING_PAGE_SIZE)
+        .get();
+
+      hasPending = !pending.empty;
+
+      for (const item of pending.docs) {
+        if (Date.now() >= deadline) break;
+        await processItem(userId, jobId, operation, item);
+      }
+    }
+  } finally {
+    const job = await getBatchJob(userId, jobId);
+    const finished = job.processed >= job.total;
+    const now = new Date().toISOString();
+
+    await jobDoc(jobId).update({
+      lockedUntil: 0,
+      updatedAt: now,
+      ...(finished ? {
+        // 1件でも成功していれば完了扱い（失敗したアイテムはitemsで確認できる）
+        status: job.succeeded > 0 ? 'completed' : 'failed',
+        completedAt: now
+      } : {})
+    });
+  }
+
+  return getBatchJob(userId, jobId, { includeItems: true });
+}
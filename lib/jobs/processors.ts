@@ -0,0 +1,137 @@
+import { BatchOperation, BusinessCard } from '@/types';
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+import {
+  getOwnedCard,
+  createOwnedCard,
+  updateOwnedCardWith,
+  deleteOwnedCard,
+  readCardImageBase64
+} from '@/lib/firebase/adminCardRepository';
+import { withoutInlineImages } from '@/lib/firebase/cardRepository';
+import { fromLegacyCard } from '@/lib/firebase/cardMigration';
+import { recognizeCard, CardRecognitionResult } from '@/lib/recognition';
+import { generateTags } from '@/lib/tagging';
+import { getTagRules } from '@/lib/firebase/adminTagRepository';
+import { isEmptyAddress } from '@/lib/address';
+import { uniquePhones } from '@/lib/phone';
+
+/**
+ * 一括処理ジョブの各アイテムの処理
+ * import以外の操作はcardIdで対象の名刺を指定し、所有者を確認してから処理する
+ */
+
+export interface BatchItemInput {
+  cardId?: string;
+  data?: Record<string, any>;
+}
+
+export interface BatchItemOutcome {
+  cardId?: string;
+  result: Record<string, any>;
+}
+
+const requireCardId = (input: BatchItemInput): string => {
+  if (!input.cardId) {
+    throw new BusinessCardError('名刺IDが指定されていません', ErrorCode.API_INVALID_REQUEST, 400);
+  }
+  return input.cardId;
+};
+
+// data URLプレフィックスを除いたbase64を返す
+const stripDataUrl = (value: string) => value.replace(/^data:[^;]+;base64,/, '');
+
+// Storage上の画像（未移行の名刺はドキュメント内のbase64）を取得
+const loadCardImage = async (userId: string, card: BusinessCard, side: 'front' | 'back'): Promise<string | undefined> => {
+  const image = card.images?.[side];
+  if (image) return readCardImageBase64(userId, card.id!, image.path);
+
+  const inline = side === 'front' ? card.frontImageBase64 : card.backImageBase64;
+  return inline ? stripDataUrl(inline) : undefined;
+};
+
+const mergeUnique = (current: string[], extracted: string[] | undefined) =>
+  Array.from(new Set([...current, ...(extracted || []).filter(Boolean)]));
+
+// 解析結果は空の項目のみ補完し、配列は既存の値に追加する
+const mergeAnalysis = (card: BusinessCard, analysis: CardRecognitionResult): Partial<BusinessCard> => ({
+  name: card.name || analysis.name || '',
+  familyName: card.familyName || analysis.familyName || undefined,
+  givenName: card.givenName || analysis.givenName || undefined,
+  familyNameKana: card.familyNameKana || analysis.familyNameKana || undefined,
+  givenNameKana: card.givenNameKana || analysis.givenNameKana || undefined,
+  romanizedName: card.romanizedName || analysis.romanizedName || undefined,
+  companyName: card.companyName || analysis.companyName || '',
+  title: card.title || analysis.title || undefined,
+  emails: mergeUnique(card.emails, analysis.emails),
+  phones: uniquePhones([...card.phones, ...analysis.phones]),
+  line_ids: mergeUnique(card.line_ids, analysis.line_ids),
+  urls: mergeUnique(card.urls, analysis.urls),
+  address: isEmptyAddress(card.address) && !isEmptyAddress(analysis.address) ? analysis.address : card.address
+});
+
+const analyzeItem = async (userId: string, input: BatchItemInput): Promise<BatchItemOutcome> => {
+  const cardId = requireCardId(input);
+  const card = await getOwnedCard(userId, cardId);
+
+  const frontImage = await loadCardImage(userId, card, 'front');
+  if (!frontImage) {
+    throw new BusinessCardError('解析できる名刺画像がありません', ErrorCode.CARD_INVALID_DATA, 400, true, { cardId });
+  }
+  const backImage = await loadCardImage(userId, card, 'back');
+
+  const analysis = await recognizeCard({ frontImage, backImage });
+
+  const updates = await updateOwnedCardWith(userId, cardId, (current) => mergeAnalysis(current, analysis));
+  const confidence = Object.fromEntries(
+    Object.entries(analysis.fields).map(([field, evidence]) => [field, evidence.confidence])
+  );
+  return { cardId, result: { updates, provider: analysis.provider, confidence } };
+};
+
+const importItem = async (userId: string, input: BatchItemInput): Promise<BatchItemOutcome> => {
+  if (!input.data) {
+    throw new BusinessCardError('インポートするデータがありません', ErrorCode.API_INVALID_REQUEST, 400);
+  }
+
+  // 旧形式のフィールド名（company/emailなど）も正規形式に変換して保存
+  const saved = await createOwnedCard(userId, {
+    ...withoutInlineImages(fromLegacyCard('', input.data)),
+    source: 'batch_import'
+  });
+  return { cardId: saved.id, result: { docId: saved.id } };
+};
+
+const exportItem = async (userId: string, input: BatchItemInput): Promise<BatchItemOutcome> => {
+  const cardId = requireCardId(input);
+  const card = await getOwnedCard(userId, cardId);
+  return { cardId, result: { card: withoutInlineImages(card) } };
+};
+
+const deleteItem = async (userId: string, input: BatchItemInput): Promise<BatchItemOutcome> => {
+  const cardId = requireCardId(input);
+  await deleteOwnedCard(userId, cardId);
+  return { cardId, result: { deleted: true } };
+};
+
+const retagItem = async (userId: string, input: BatchItemInput): Promise<BatchItemOutcome> => {
+  const cardId = requireCardId(input);
+  const rules = await getTagRules(userId);
+  const updates = await updateOwnedCardWith(userId, cardId, (current) => ({
+    tags: mergeUnique(current.tags || [], generateTags(current.businessContent || '', rules))
+  }));
+  return { cardId, result: { tags: updates.tags } };
+};
+
+const processors: Record<BatchOperation, (userId: string, input: BatchItemInput) => Promise<BatchItemOutcome>> = {
+  analyze: analyzeItem,
+  import: importItem,
+  export: exportItem,
+  delete: deleteItem,
+  retag: retagItem
+};
+
+export const processBatchItem = (
+  userId: string,
+  operation: BatchOperation,
+  input: BatchItemInput
+): Promise<BatchItemOutcome> => processors[operation](userId, input);
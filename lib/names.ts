@@ -0,0 +1,124 @@
+import { BusinessCard } from '@/types';
+
+/**
+ * 日本語の氏名の扱い
+ * 姓名の分割、ふりがな（ひらがなで保存）、ローマ字・英語表記、五十音順の並べ替えに使う
+ */
+
+export type PersonNameFields = Pick<
+  BusinessCard,
+  'name' | 'familyName' | 'givenName' | 'familyNameKana' | 'givenNameKana' | 'romanizedName'
+>;
+
+export interface NameParts {
+  familyName: string;
+  givenName: string;
+}
+
+// 区切りのない漢字氏名（田中太郎など）を分割するためのよくある姓
+const COMMON_FAMILY_NAMES = [
+  '佐藤', '鈴木', '高橋', '田中', '伊藤', '渡辺', '渡邊', '山本', '中村', '小林', '加藤', '吉田', '山田',
+  '佐々木', '山口', '松本', '井上', '木村', '林', '斎藤', '斉藤', '清水', '山崎', '森', '池田', '橋本',
+  '阿部', '石川', '山下', '中島', '石井', '小川', '前田', '岡田', '長谷川', '藤田', '後藤', '近藤', '村上',
+  '遠藤', '青木', '坂本', '福田', '太田', '西村', '藤井', '金子', '岡本', '藤原', '中野', '三浦',
+  '原田', '中川', '松田', '竹内', '小野', '田村', '中山', '和田', '石田', '森田', '上田', '原', '内田',
+  '柴田', '酒井', '宮崎', '横山', '高木', '安藤', '宮本', '大野', '小島', '谷口', '今井', '工藤', '高田',
+  '増田', '丸山', '杉山', '村田', '大塚', '新井', '小山', '平野', '藤本', '河野', '上野', '野口', '武田',
+  '松井', '千葉', '岩崎', '菅原', '木下', '久保', '佐野', '野村', '松尾', '市川', '菊地', '杉本', '古川',
+  '大西', '島田', '水野', '桜井', '高野', '渡部', '吉川', '山内', '西田', '飯田', '菊池', '西川', '小松',
+  '北村', '安田', '五十嵐', '川口', '平田', '関', '中田', '久保田', '服部', '東', '岩田', '土屋', '川崎',
+  '福島', '本田', '辻', '樋口', '秋山', '田口', '永井', '山中', '中西', '吉村', '川上', '石原', '大橋',
+  '松岡', '馬場', '浜田', '森本', '星野', '矢野', '浅野', '大久保', '松下', '吉岡', '小池', '野田', '荒木',
+  '大谷', '内藤', '松浦', '熊谷', '黒田', '尾崎', '永田', '川村', '望月', '田辺', '松村', '荒井'
+];
+
+const KANJI_NAME = /^[\p{Script=Han}々ヶ]+$/u;
+const LATIN_NAME = /^[A-Za-z][A-Za-z.'\- ]*$/;
+const KANA_TEXT = /^[\p{Script=Hiragana}\p{Script=Katakana}ー・\s　]+$/u;
+
+const splitWords = (value: string) => value.trim().split(/[\s　]+/).filter(Boolean);
+
+/**
+ * 氏名を姓と名に分ける（分けられない場合はnull）
+ * ローマ字表記は「名 姓」の順として扱い、すべて大文字の語（TANAKA Taro）があればそれを姓とする
+ */
+export const splitPersonName = (name: string): NameParts | null => {
+  const trimmed = name.trim();
+  const words = splitWords(trimmed);
+
+  if (words.length >= 2) {
+    if (LATIN_NAME.test(trimmed)) {
+      const upperIndex = words.findIndex(word => word.length > 1 && word === word.toUpperCase());
+      const familyIndex = upperIndex >= 0 ? upperIndex : words.length - 1;
+      return {
+        familyName: words[familyIndex],
+        givenName: words.filter((_, index) => index !== familyIndex).join(' ')
+      };
+    }
+    return { familyName: words[0], givenName: words.slice(1).join(' ') };
+  }
+
+  if (KANJI_NAME.test(trimmed)) {
+    // 長い姓を優先する（佐々木 と 佐 のような重なりを避ける）
+    const familyName = COMMON_FAMILY_NAMES
+      .filter(family => trimmed.startsWith(family) && trimmed.length > family.length)
+      .sort((a, b) => b.length - a.length)[0];
+    if (familyName) return { familyName, givenName: trimmed.slice(familyName.length) };
+  }
+
+  return null;
+};
+
+export const isKanaText = (value: string) => KANA_TEXT.test(value.trim());
+
+/**
+ * カタカナをひらがなに揃える（ふりがなはひらがなで保存する）
+ */
+export const toHiragana = (value: string) =>
+  value.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+export const joinName = (family?: string, given?: string, separator = ' ') =>
+  [family, given].map(part => part?.trim()).filter(Boolean).join(separator);
+
+/**
+ * 氏名と姓名の項目を相互に補完する
+ * 姓名だけ入力されていれば氏名を組み立て、氏名だけなら姓名に分ける（入力済みの項目は変更しない）
+ */
+export const withNameParts = <T extends PersonNameFields>(card: T): T => {
+  const result = { ...card };
+
+  if (!result.name?.trim() && (result.familyName || result.givenName)) {
+    result.name = joinName(result.familyName, result.givenName);
+  }
+
+  if (!result.familyName && !result.givenName && result.name) {
+    const parts = splitPersonName(result.name);
+    if (parts) {
+      result.familyName = parts.familyName;
+      result.givenName = parts.givenName;
+    }
+  }
+
+  if (result.familyNameKana) result.familyNameKana = toHiragana(result.familyNameKana.trim());
+  if (result.givenNameKana) result.givenNameKana = toHiragana(result.givenNameKana.trim());
+
+  return result;
+};
+
+/**
+ * 並べ替え用の読み（ふりがな → かな表記の氏名 → ローマ字表記 → 氏名の順に使う）
+ */
+export const nameReading = (card: PersonNameFields): string => {
+  const kana = joinName(card.familyNameKana, card.givenNameKana, '');
+  if (kana) return toHiragana(kana);
+  if (card.name && isKanaText(card.name)) return toHiragana(card.name.replace(/[\s　]/g, ''));
+  return (card.romanizedName || card.name || '').toLowerCase();
+};
+
+export const compareByReading = (a: PersonNameFields, b: PersonNameFields) =>
+  nameReading(a).localeCompare(nameReading(b), 'ja');
+
+/**
+ * 宛名に使う呼び方（姓が分かれば「山田」、分からなければ氏名全体）
+ */
+export const addressName = (card: PersonNameFields) => card.familyName?.trim() || card.name;
@@ -0,0 +1,177 @@
+import { PhoneEntry, PhoneType } from '@/types';
+
+/**
+ * 電話番号の正規化と分類
+ * 番号はE.164形式（+81312345678）で保存し、表示時に国内形式（03-1234-5678）に整形する
+ * 正規化できない番号は入力どおりに保存する
+ */
+
+export const PHONE_TYPES: PhoneType[] = ['office', 'mobile', 'fax', 'direct', 'tollfree'];
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  office: '会社',
+  mobile: '携帯',
+  fax: 'FAX',
+  direct: '直通',
+  tollfree: 'フリーダイヤル'
+};
+
+// 名刺に書かれるラベルから種類を判定する（上から順に評価）
+const TYPE_LABEL_PATTERNS: [PhoneType, RegExp][] = [
+  ['fax', /fax|ファックス|ファクス|ﾌｧｯｸｽ/i],
+  ['mobile', /携帯|mobile|cell|\bmob\b|\bm\s*[.:：]/i],
+  ['direct', /直通|direct|\bdir\b|\bd\s*[.:：]/i],
+  ['tollfree', /フリーダイヤル|フリーコール|toll[\s-]?free|free\s?dial|free\s?call/i]
+];
+
+const EXTENSION_PATTERN = /(?:内線|ext\.?|extension|\bx)\s*[:：.]?\s*(\d{1,6})/i;
+const NUMBER_PATTERN = /\+?\(?\d[\d\s().\-‐−]{5,}\d/;
+
+// 全角数字・記号を半角に揃える
+export const normalizePhoneText = (value: string) =>
+  value
+    .replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/＋/g, '+')
+    .replace(/[（]/g, '(')
+    .replace(/[）]/g, ')')
+    // OCRで長音記号などに読み取られた数字間のハイフン
+    .replace(/(\d)[ー－―‐−](?=\d)/g, '$1-');
+
+/**
+ * 番号をE.164形式にする（できない場合はnull）
+ * 0から始まる10〜11桁は日本の番号、+から始まる番号は国番号付きとして扱う
+ */
+export const toE164 = (value: string): string | null => {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+    const international = trimmed.startsWith('00') ? digits.slice(2) : digits;
+    // +81 03... のように国番号の後に0が残っている表記を直す
+    const fixed = international.startsWith('810') ? `81${international.slice(3)}` : international;
+    return fixed.length >= 8 && fixed.length <= 15 ? `+${fixed}` : null;
+  }
+
+  if (/^0\d{9,10}$/.test(digits)) return `+81${digits.slice(1)}`;
+
+  return null;
+};
+
+// 日本の番号の国内表記（先頭の0付き）
+const nationalNumber = (e164: string) => (e164.startsWith('+81') ? `0${e164.slice(3)}` : null);
+
+const inferType = (e164: string | null): PhoneType => {
+  const national = e164 ? nationalNumber(e164) : null;
+  if (!national) return 'office';
+  if (/^0[6789]0/.test(national) && national.length === 11) return 'mobile';
+  if (/^(0120|0800)/.test(national)) return 'tollfree';
+  return 'office';
+};
+
+/**
+ * 名刺に書かれた電話番号（「FAX: 03-1234-5678」「TEL 03-1234-5678 内線123」など）を読み取る
+ * typeを指定した場合はラベルより優先する
+ */
+export const parsePhone = (value: string, type?: PhoneType): PhoneEntry | null => {
+  const text = normalizePhoneText(value);
+  const extension = text.match(EXTENSION_PATTERN)?.[1];
+  const withoutExtension = text.replace(EXTENSION_PATTERN, ' ');
+  const matched = withoutExtension.match(NUMBER_PATTERN)?.[0].trim();
+  if (!matched) return null;
+
+  const e164 = toE164(matched);
+  const labelled = TYPE_LABEL_PATTERNS.find(([, pattern]) => pattern.test(withoutExtension.replace(matched, ' ')))?.[0];
+
+  return {
+    type: type || labelled || inferType(e164),
+    number: e164 || matched,
+    ...(extension ? { extension } : {})
+  };
+};
+
+/**
+ * 保存済みの値を電話番号の配列にする
+ * 旧形式の文字列配列は読み取って種類を推定する
+ */
+export const toPhoneEntries = (value: unknown): PhoneEntry[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): PhoneEntry[] => {
+    if (typeof item === 'string') {
+      const entry = parsePhone(item);
+      return entry ? [entry] : [];
+    }
+    if (item && typeof item === 'object' && typeof item.number === 'string' && item.number.trim()) {
+      // 種類が「TEL」「FAX」などの表記で保存されている場合はラベルとして読む
+      const type = PHONE_TYPES.includes(item.type)
+        ? item.type
+        : parsePhone(`${item.type || ''} ${item.number}`)?.type || 'office';
+      return [normalizePhoneEntry({ ...item, type })];
+    }
+    return [];
+  });
+};
+
+/**
+ * 入力された番号をE.164形式にし、番号に含まれる内線を分ける
+ */
+export const normalizePhoneEntry = (entry: PhoneEntry): PhoneEntry => {
+  const type = PHONE_TYPES.includes(entry.type) ? entry.type : 'office';
+  const parsed = parsePhone(entry.number, type);
+  if (!parsed) return { ...entry, type, number: entry.number.trim() };
+
+  const extension = entry.extension?.trim() || parsed.extension;
+  return { type, number: parsed.number, ...(extension ? { extension } : {}) };
+};
+
+// 同じ番号（内線を含む）を1つにまとめる
+export const uniquePhones = (entries: PhoneEntry[]): PhoneEntry[] => {
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    const key = `${entry.number}#${entry.extension || ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// 国内番号の区切り位置（市外局番の桁数は番号帯ごとに異なるため代表的なものだけ扱う）
+const formatNational = (national: string): string => {
+  const groups = (...sizes: number[]) => {
+    let offset = 0;
+    return sizes.map(size => {
+      const part = national.slice(offset, offset + size);
+      offset += size;
+      return part;
+    }).join('-');
+  };
+
+  if (national.length === 11 && /^0[5-9]0/.test(national)) return groups(3, 4, 4);
+  if (/^0120/.test(national) && national.length === 10) return groups(4, 3, 3);
+  if (/^0800/.test(national) && national.length === 11) return groups(4, 3, 4);
+  if (national.length === 10 && /^0[36]/.test(national)) return groups(2, 4, 4);
+  if (national.length === 10) return groups(3, 3, 4);
+  return national;
+};
+
+/**
+ * 表示用に整形する（日本の番号は国内表記、それ以外はE.164のまま）
+ */
+export const formatPhone = (entry: PhoneEntry): string => {
+  const national = nationalNumber(entry.number);
+  const number = national && /^\d+$/.test(national.slice(1)) ? formatNational(national) : entry.number;
+  return entry.extension ? `${number} 内線${entry.extension}` : number;
+};
+
+// 編集フォーム用に国内表記にする（保存時にE.164形式に戻す）
+export const toEditablePhones = (entries: PhoneEntry[]): PhoneEntry[] =>
+  entries.map(entry => ({ ...entry, number: formatPhone({ type: entry.type, number: entry.number }) }));
+
+// 種類のラベル付きで表示する（例: 「FAX 03-1234-5678」）
+export const formatPhoneWithType = (entry: PhoneEntry) => `${PHONE_TYPE_LABELS[entry.type]} ${formatPhone(entry)}`;
+
+// tel: リンク（RFC 3966）
+export const phoneHref = (entry: PhoneEntry) =>
+  `tel:${entry.number.replace(/[^\d+]/g, '')}${entry.extension ? `;ext=${entry.extension}` : ''}`;
+
+export const isValidPhoneNumber = (entry: PhoneEntry) => /^\+\d{8,15}$/.test(entry.number);
@@ -0,0 +1,131 @@
+import { ProviderFieldEvidence, RecognizedCard } from '@/lib/recognition/types';
+
+/**
+ * ローカルプロバイダー用の名刺フィクスチャ
+ * imageSha256 が表面画像（base64文字列）のSHA-256と一致するものを優先し、
+ * 一致しない画像にはハッシュ値から決まる固定のフィクスチャを返す
+ * fields には確認画面の表示を確かめるための確信度・位置（表面画像に対する比率）を持たせる
+ */
+
+export interface RecognitionFixture {
+  id: string;
+  imageSha256?: string;
+  card: RecognizedCard;
+  fields?: ProviderFieldEvidence;
+}
+
+const box = (x: number, y: number, width: number, height: number, side: 'front' | 'back' = 'front') =>
+  ({ side, x, y, width, height });
+
+export const RECOGNITION_FIXTURES: RecognitionFixture[] = [
+  {
+    id: 'tanaka-sample-trading',
+    card: {
+      name: '田中 太郎',
+      familyName: '田中',
+      givenName: '太郎',
+      familyNameKana: 'たなか',
+      givenNameKana: 'たろう',
+      romanizedName: 'Taro Tanaka',
+      companyName: '株式会社サンプル商事',
+      title: '営業部 部長',
+      emails: ['taro.tanaka@sample-shoji.example.jp'],
+      phones: [
+        { type: 'office', number: '+81312345678' },
+        { type: 'fax', number: '+81312345679' },
+        { type: 'mobile', number: '+819012345678' }
+      ],
+      line_ids: [],
+      urls: ['https://sample-shoji.example.jp'],
+      address: {
+        postalCode: '1000005',
+        prefecture: '東京都',
+        city: '千代田区',
+        street: '丸の内1-1-1',
+        building: 'サンプルビル8F'
+      },
+      other_info: ''
+    },
+    fields: {
+      name: { boxes: [box(0.08, 0.38, 0.34, 0.12)] },
+      companyName: { boxes: [box(0.08, 0.1, 0.5, 0.08)] },
+      title: { boxes: [box(0.08, 0.28, 0.26, 0.06)] },
+      emails: { boxes: [box(0.52, 0.76, 0.42, 0.05)] },
+      phones: {
+        confidence: 0.6,
+        boxes: [box(0.52, 0.58, 0.3, 0.05), box(0.52, 0.64, 0.3, 0.05), box(0.52, 0.7, 0.3, 0.05)]
+      },
+      urls: { boxes: [box(0.52, 0.82, 0.36, 0.05)] },
+      address: { boxes: [box(0.08, 0.88, 0.56, 0.05)] }
+    }
+  },
+  {
+    id: 'suzuki-example-design',
+    card: {
+      name: '鈴木 花子',
+      familyName: '鈴木',
+      givenName: '花子',
+      familyNameKana: 'すずき',
+      givenNameKana: 'はなこ',
+      romanizedName: 'Hanako Suzuki',
+      companyName: '合同会社エグザンプルデザイン',
+      title: 'クリエイティブディレクター',
+      emails: ['hanako@example-design.example.com'],
+      phones: [{ type: 'office', number: '+81661234567', extension: '201' }],
+      line_ids: ['hanako_design'],
+      urls: ['https://example-design.example.com', 'https://www.instagram.com/example_design'],
+      address: {
+        postalCode: '5300001',
+        prefecture: '大阪府',
+        city: '大阪市北区',
+        street: '梅田2-2-2'
+      },
+      other_info: ''
+    },
+    fields: {
+      name: { boxes: [box(0.34, 0.42, 0.32, 0.12)] },
+      companyName: { boxes: [box(0.2, 0.12, 0.6, 0.08)] },
+      title: { boxes: [box(0.3, 0.32, 0.4, 0.06)] },
+      emails: { boxes: [box(0.26, 0.66, 0.48, 0.05)] },
+      phones: { boxes: [box(0.34, 0.72, 0.32, 0.05)] },
+      line_ids: { confidence: 0.5, boxes: [box(0.1, 0.4, 0.3, 0.06, 'back')] },
+      urls: { boxes: [box(0.26, 0.78, 0.48, 0.05), box(0.1, 0.5, 0.6, 0.06, 'back')] },
+      address: { boxes: [box(0.18, 0.86, 0.64, 0.05)] }
+    }
+  },
+  {
+    id: 'sato-test-systems',
+    card: {
+      name: '佐藤 健',
+      familyName: '佐藤',
+      givenName: '健',
+      familyNameKana: '',
+      givenNameKana: '',
+      romanizedName: 'Ken Sato',
+      companyName: 'テストシステムズ株式会社',
+      title: '開発本部 エンジニア',
+      emails: ['ken.sato@test-systems.example.co.jp'],
+      phones: [{ type: 'direct', number: '+81521234567' }],
+      line_ids: [],
+      urls: ['https://test-systems.example.co.jp'],
+      // 郵便番号のない住所（確信度が低い例）
+      address: {
+        prefecture: '愛知県',
+        city: '名古屋市中区',
+        street: '栄3-3-3',
+        building: 'テストタワー12F'
+      },
+      other_info: 'AI・業務システム開発'
+    },
+    fields: {
+      name: { confidence: 0.55, boxes: [box(0.56, 0.36, 0.3, 0.12)] },
+      companyName: { boxes: [box(0.06, 0.08, 0.48, 0.08)] },
+      title: { boxes: [box(0.56, 0.26, 0.36, 0.06)] },
+      emails: { boxes: [box(0.06, 0.74, 0.5, 0.05)] },
+      phones: { boxes: [box(0.06, 0.68, 0.28, 0.05)] },
+      urls: { boxes: [box(0.06, 0.8, 0.44, 0.05)] },
+      address: { confidence: 0.6, boxes: [box(0.56, 0.56, 0.38, 0.08)] },
+      other_info: { boxes: [box(0.06, 0.88, 0.3, 0.05)] }
+    }
+  }
+];
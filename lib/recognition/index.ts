@@ -0,0 +1,93 @@
+import { BusinessCardError, ErrorCode, ErrorMessages, logError } from '@/lib/errors';
+import { CardImageInput, CardRecognitionResult, CardRecognizer, RecognizerName } from '@/lib/recognition/types';
+import { isEmptyRecognition } from '@/lib/recognition/normalize';
+import { openAIRecognizer } from '@/lib/recognition/providers/openai';
+import { geminiRecognizer } from '@/lib/recognition/providers/gemini';
+import { visionRecognizer } from '@/lib/recognition/providers/vision';
+import { localRecognizer } from '@/lib/recognition/providers/local';
+
+/**
+ * 名刺認識のエントリーポイント
+ * CARD_RECOGNIZER_PROVIDERS（カンマ区切り）の順にプロバイダーを試し、失敗したら次にフォールバックする
+ */
+
+export type {
+  CardImageInput,
+  CardRecognitionResult,
+  CardRecognizer,
+  FieldBoundingBox,
+  FieldEvidence,
+  RecognizerName,
+  RecognizedField,
+  RecognizedFieldEvidence
+} from '@/lib/recognition/types';
+
+const RECOGNIZERS: Record<RecognizerName, CardRecognizer> = {
+  openai: openAIRecognizer,
+  gemini: geminiRecognizer,
+  vision: visionRecognizer,
+  local: localRecognizer
+};
+
+const DEFAULT_PROVIDERS: RecognizerName[] = ['openai', 'gemini', 'vision'];
+
+const isRecognizerName = (value: string): value is RecognizerName => value in RECOGNIZERS;
+
+/**
+ * 設定されたプロバイダーのうち利用可能なものを優先順に返す
+ */
+export const getRecognizerChain = (providers?: RecognizerName[]): CardRecognizer[] => {
+  const configured = process.env.CARD_RECOGNIZER_PROVIDERS
+    ?.split(',')
+    .map(name => name.trim())
+    .filter(isRecognizerName);
+
+  const names = providers || (configured && configured.length > 0 ? configured : DEFAULT_PROVIDERS);
+  return names.map(name => RECOGNIZERS[name]).filter(recognizer => recognizer.isAvailable());
+};
+
+/**
+ * 名刺画像を認識する
+ * 例外が発生した・何も読み取れなかった場合は次のプロバイダーを試す
+ */
+export async function recognizeCard(
+  input: CardImageInput,
+  options: { providers?: RecognizerName[] } = {}
+): Promise<CardRecognitionResult> {
+  const chain = getRecognizerChain(options.providers);
+
+  if (chain.length === 0) {
+    throw new BusinessCardError(
+      '名刺認識プロバイダーが設定されていません',
+      ErrorCode.IMAGE_PROCESSING_FAILED,
+      503
+    );
+  }
+
+  const failures: { provider: RecognizerName; error: string }[] = [];
+  let emptyResult: CardRecognitionResult | null = null;
+
+  for (const recognizer of chain) {
+    try {
+      const result = await recognizer.recognize(input);
+      if (!isEmptyRecognition(result)) return result;
+
+      emptyResult ||= result;
+      failures.push({ provider: recognizer.name, error: 'empty result' });
+    } catch (error: any) {
+      logError(error, { operation: 'recognizeCard', provider: recognizer.name });
+      failures.push({ provider: recognizer.name, error: error?.message || String(error) });
+    }
+  }
+
+  // どのプロバイダーも読み取れなかった場合は空の結果を返す（手動入力に切り替える）
+  if (emptyResult) return emptyResult;
+
+  throw new BusinessCardError(
+    ErrorMessages[ErrorCode.IMAGE_PROCESSING_FAILED],
+    ErrorCode.IMAGE_PROCESSING_FAILED,
+    502,
+    true,
+    { failures }
+  );
+}
@@ -0,0 +1,222 @@
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+import { completeAddress, isEmptyAddress, toPostalAddress, validateAddress } from '@/lib/address';
+import { withNameParts } from '@/lib/names';
+import { isValidPhoneNumber, parsePhone, toPhoneEntries, uniquePhones } from '@/lib/phone';
+import {
+  CardRecognitionResult,
+  FieldBoundingBox,
+  ProviderFieldEvidence,
+  RecognizedCard,
+  RecognizedField,
+  RecognizedFieldEvidence,
+  RecognizerName
+} from '@/lib/recognition/types';
+
+/**
+ * プロバイダーごとに異なる出力を共通の認識結果に揃える
+ */
+
+export const emptyRecognizedCard = (): RecognizedCard => ({
+  name: '',
+  familyName: '',
+  givenName: '',
+  familyNameKana: '',
+  givenNameKana: '',
+  romanizedName: '',
+  companyName: '',
+  title: '',
+  emails: [],
+  phones: [],
+  line_ids: [],
+  urls: [],
+  address: {},
+  other_info: ''
+});
+
+export const RECOGNIZED_FIELDS: RecognizedField[] = [
+  'name',
+  'companyName',
+  'title',
+  'emails',
+  'phones',
+  'line_ids',
+  'urls',
+  'address',
+  'other_info'
+];
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+
+const text = (...values: unknown[]): string => {
+  const value = values.find(item => typeof item === 'string' && item.trim().length > 0);
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+// 文字列・配列・nullのいずれでも重複のない文字列配列にする
+const list = (...values: unknown[]): string[] => {
+  const items = values.flatMap(value => Array.isArray(value) ? value : [value]);
+  return Array.from(new Set(
+    items
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(Boolean)
+  ));
+};
+
+/**
+ * LLMの応答からJSONオブジェクトを取り出す（```json ブロックにも対応）
+ */
+export const extractJson = (content: string): Record<string, any> => {
+  const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || content.match(/\{[\s\S]*\}/);
+  const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content;
+
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    throw new BusinessCardError(
+      '解析結果を読み取れませんでした',
+      ErrorCode.IMAGE_PROCESSING_FAILED,
+      502,
+      true,
+      { content: content.substring(0, 200) }
+    );
+  }
+};
+
+/**
+ * 氏名と姓名・ふりがなを揃える
+ * 姓名が分かっていれば氏名を、氏名だけなら姓名を補完し、ふりがなはひらがなにする
+ */
+export const completeRecognizedName = (card: RecognizedCard): RecognizedCard => {
+  const completed = withNameParts(card);
+  return {
+    ...completed,
+    familyName: completed.familyName || '',
+    givenName: completed.givenName || '',
+    familyNameKana: completed.familyNameKana || '',
+    givenNameKana: completed.givenNameKana || ''
+  };
+};
+
+/**
+ * 正規形式（companyName/emails）と旧形式（company/email/mobile/website）のどちらも受け付ける
+ */
+export const normalizeRecognizedCard = (raw: Record<string, any>): RecognizedCard => completeRecognizedName({
+  name: text(raw.name),
+  familyName: text(raw.familyName, raw.family_name, raw.lastName),
+  givenName: text(raw.givenName, raw.given_name, raw.firstName),
+  familyNameKana: text(raw.familyNameKana, raw.family_name_kana),
+  givenNameKana: text(raw.givenNameKana, raw.given_name_kana),
+  romanizedName: text(raw.romanizedName, raw.romaji, raw.englishName, raw.name_en),
+  companyName: text(raw.companyName, raw.company),
+  title: [text(raw.department), text(raw.title)].filter(Boolean).join(' '),
+  emails: list(raw.emails, raw.email),
+  phones: uniquePhones([
+    ...toPhoneEntries([raw.phones, raw.phone].flat().filter(Boolean)),
+    ...list(raw.mobile).flatMap(mobile => parsePhone(mobile, 'mobile') || [])
+  ]),
+  line_ids: list(raw.line_ids, raw.line_id, raw.lineId),
+  urls: list(raw.urls, raw.url, raw.website),
+  // 住所は1行の文字列で返される場合もある。都道府県・市区町村は郵便番号から補完する
+  address: completeAddress(toPostalAddress(raw.address) || {}),
+  other_info: text(raw.other_info)
+});
+
+// 形式として正しい値の割合（0〜1）
+const validRatio = <T>(values: T[], isValid: (value: T) => boolean) =>
+  values.filter(isValid).length / values.length;
+
+const clampRatio = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return null;
+  return Math.min(1, Math.max(0, number));
+};
+
+const toBoundingBox = (raw: any): FieldBoundingBox | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const side = raw.side === 'back' ? 'back' : 'front';
+  const x = clampRatio(raw.x);
+  const y = clampRatio(raw.y);
+  const width = clampRatio(raw.width);
+  const height = clampRatio(raw.height);
+  if (x === null || y === null || !width || !height) return null;
+
+  // 画像からはみ出す範囲は切り詰める
+  return { side, x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+};
+
+/**
+ * LLMが返した項目ごとの確信度・位置（fieldsキー）を読み取る
+ * 形式が正しくない値は無視する
+ */
+export const normalizeFieldEvidence = (raw: unknown): ProviderFieldEvidence => {
+  if (!raw || typeof raw !== 'object') return {};
+
+  const evidence: ProviderFieldEvidence = {};
+  for (const field of RECOGNIZED_FIELDS) {
+    const entry = (raw as Record<string, any>)[field];
+    if (!entry || typeof entry !== 'object') continue;
+
+    const confidence = clampRatio(entry.confidence);
+    const boxes = (Array.isArray(entry.boxes) ? entry.boxes : [])
+      .map(toBoundingBox)
+      .filter((box: FieldBoundingBox | null): box is FieldBoundingBox => box !== null);
+
+    evidence[field] = {
+      ...(confidence !== null ? { confidence } : {}),
+      boxes
+    };
+  }
+  return evidence;
+};
+
+/**
+ * 項目ごとの確信度を算出する
+ * プロバイダーの基準値（項目ごとの確信度を返すプロバイダーはその値）に、
+ * 値の形式が正しいかどうかを掛け合わせる（空の項目は0）
+ */
+export const scoreConfidence = (
+  card: RecognizedCard,
+  base: number,
+  reported: ProviderFieldEvidence = {}
+): Record<RecognizedField, number> => {
+  const score = (field: RecognizedField, present: boolean, validity = 1) =>
+    present ? Math.round((reported[field]?.confidence ?? base) * (0.5 + 0.5 * validity) * 100) / 100 : 0;
+
+  return {
+    name: score('name', !!card.name),
+    companyName: score('companyName', !!card.companyName),
+    title: score('title', !!card.title),
+    emails: score('emails', card.emails.length > 0, card.emails.length && validRatio(card.emails, v => EMAIL_PATTERN.test(v))),
+    phones: score('phones', card.phones.length > 0, card.phones.length && validRatio(card.phones, isValidPhoneNumber)),
+    line_ids: score('line_ids', card.line_ids.length > 0),
+    urls: score('urls', card.urls.length > 0, card.urls.length && validRatio(card.urls, v => URL_PATTERN.test(v))),
+    address: score('address', !isEmptyAddress(card.address), validateAddress(card.address).length === 0 ? 1 : 0),
+    other_info: score('other_info', !!card.other_info)
+  };
+};
+
+export const toRecognitionResult = (
+  provider: RecognizerName,
+  card: RecognizedCard,
+  baseConfidence: number,
+  evidence: ProviderFieldEvidence = {}
+): CardRecognitionResult => {
+  const confidence = scoreConfidence(card, baseConfidence, evidence);
+  const fields = Object.fromEntries(RECOGNIZED_FIELDS.map(field => [
+    field,
+    {
+      confidence: confidence[field],
+      // 空の項目に位置だけ返された場合は使わない
+      boxes: confidence[field] > 0 ? evidence[field]?.boxes || [] : []
+    }
+  ])) as RecognizedFieldEvidence;
+
+  return { ...card, provider, fields };
+};
+
+// 何も読み取れなかった結果は失敗として次のプロバイダーに回す
+export const isEmptyRecognition = (card: RecognizedCard) =>
+  !card.name && !card.companyName && card.emails.length === 0 && card.phones.length === 0;
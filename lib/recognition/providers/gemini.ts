@@ -0,0 +1,44 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { CardImageInput, CardRecognizer } from '@/lib/recognition/types';
+import {
+  extractJson,
+  normalizeFieldEvidence,
+  normalizeRecognizedCard,
+  toRecognitionResult
+} from '@/lib/recognition/normalize';
+import { RECOGNITION_PROMPT, recognitionFailed } from '@/lib/recognition/providers/shared';
+import { validateApiKey } from '@/lib/security';
+
+const GEMINI_MODEL = 'gemini-1.5-flash';
+
+const BASE_CONFIDENCE = 0.85;
+
+const apiKey = () => process.env.GEMINI_API_KEY?.trim() || '';
+
+/**
+ * Google Gemini（マルチモーダル）
+ */
+export const geminiRecognizer: CardRecognizer = {
+  name: 'gemini',
+
+  isAvailable: () => validateApiKey(apiKey()),
+
+  async recognize({ frontImage, backImage, mimeType = 'image/jpeg' }: CardImageInput) {
+    const model = new GoogleGenerativeAI(apiKey()).getGenerativeModel({ model: GEMINI_MODEL });
+    const images = [frontImage, backImage].filter((image): image is string => !!image);
+
+    let content: string;
+    try {
+      const result = await model.generateContent([
+        RECOGNITION_PROMPT,
+        ...images.map(data => ({ inlineData: { mimeType, data } }))
+      ]);
+      content = result.response.text();
+    } catch (error: any) {
+      throw recognitionFailed('gemini', error?.message || String(error));
+    }
+
+    const raw = extractJson(content);
+    return toRecognitionResult('gemini', normalizeRecognizedCard(raw), BASE_CONFIDENCE, normalizeFieldEvidence(raw.fields));
+  }
+};
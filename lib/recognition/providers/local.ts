@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import { CardImageInput, CardRecognizer } from '@/lib/recognition/types';
+import { toRecognitionResult } from '@/lib/recognition/normalize';
+import { RECOGNITION_FIXTURES } from '@/lib/recognition/fixtures';
+
+const BASE_CONFIDENCE = 0.95;
+
+/**
+ * ネットワークを使わないフィクスチャベースのプロバイダー
+ * 同じ画像には常に同じ結果を返すため、開発・テスト環境でスキャンの流れ全体を確認できる
+ * CARD_RECOGNIZER_FIXTURE でフィクスチャIDを指定すると常にそのフィクスチャを返す
+ */
+export const localRecognizer: CardRecognizer = {
+  name: 'local',
+
+  isAvailable: () => RECOGNITION_FIXTURES.length > 0,
+
+  async recognize({ frontImage }: CardImageInput) {
+    const hash = createHash('sha256').update(frontImage).digest('hex');
+    const forcedId = process.env.CARD_RECOGNIZER_FIXTURE?.trim();
+
+    const fixture =
+      RECOGNITION_FIXTURES.find(item => forcedId ? item.id === forcedId : item.imageSha256 === hash) ||
+      RECOGNITION_FIXTURES[parseInt(hash.substring(0, 8), 16) % RECOGNITION_FIXTURES.length];
+
+    return toRecognitionResult('local', structuredClone(fixture.card), BASE_CONFIDENCE, structuredClone(fixture.fields));
+  }
+};
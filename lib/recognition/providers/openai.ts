@@ -0,0 +1,70 @@
+import { withRetry } from '@/lib/errors';
+import { CardImageInput, CardRecognizer } from '@/lib/recognition/types';
+import {
+  extractJson,
+  normalizeFieldEvidence,
+  normalizeRecognizedCard,
+  toRecognitionResult
+} from '@/lib/recognition/normalize';
+import { RECOGNITION_PROMPT, recognitionFailed } from '@/lib/recognition/providers/shared';
+
+const OPENAI_MODEL = 'gpt-4o-mini';
+
+// 項目ごとの確信度が返されなかった場合の基準値
+const BASE_CONFIDENCE = 0.9;
+
+const apiKey = () => process.env.OPENAI_API_KEY?.trim() || '';
+
+/**
+ * OpenAI Vision（gpt-4o-mini）
+ */
+export const openAIRecognizer: CardRecognizer = {
+  name: 'openai',
+
+  isAvailable: () => apiKey().length >= 20,
+
+  async recognize({ frontImage, backImage, mimeType = 'image/jpeg' }: CardImageInput) {
+    const images = [frontImage, backImage].filter((image): image is string => !!image);
+
+    const response = await withRetry(
+      () => fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: OPENAI_MODEL,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: RECOGNITION_PROMPT },
+                ...images.map(image => ({
+                  type: 'image_url',
+                  image_url: { url: `data:${mimeType};base64,${image}` }
+                }))
+              ]
+            }
+          ],
+          max_tokens: 2000
+        }),
+        signal: AbortSignal.timeout(30000)
+      }),
+      {
+        maxRetries: 3,
+        initialDelay: 2000
+      }
+    );
+
+    if (!response.ok) {
+      throw recognitionFailed('openai', `${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    const content = result.choices?.[0]?.message?.content || '{}';
+
+    const raw = extractJson(content);
+    return toRecognitionResult('openai', normalizeRecognizedCard(raw), BASE_CONFIDENCE, normalizeFieldEvidence(raw.fields));
+  }
+};
@@ -0,0 +1,30 @@
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+import { RecognizerName } from '@/lib/recognition/types';
+
+/**
+ * プロバイダー間で共通のプロンプトとエラー
+ */
+
+export const RECOGNITION_PROMPT =
+  'この名刺の画像から情報を抽出し、以下のキーを持つJSONオブジェクトとして返してください: ' +
+  'name（氏名）, familyName（姓）, givenName（名）, familyNameKana（姓のふりがな）, givenNameKana（名のふりがな）, ' +
+  'romanizedName（ローマ字・英語表記の氏名。裏面などに書かれている場合）, ' +
+  'companyName（会社名）, title（部署・役職）, emails（メールアドレスの配列）, ' +
+  'phones（電話番号の配列。各要素は {"type": "office"（会社・代表） / "mobile"（携帯） / "fax" / "direct"（直通） / ' +
+  '"tollfree"（フリーダイヤル）, "number": 書かれている番号, "extension": 内線番号（ある場合のみ）}）, ' +
+  'line_ids（LINE IDの配列）, urls（ウェブサイトURLの配列）, ' +
+  'address（住所。{"postalCode": 郵便番号7桁, "prefecture": 都道府県, "city": 市区町村, "street": 町域・番地, ' +
+  '"building": 建物名・階}）, other_info（その他の情報）。存在しない項目は空文字・空配列・空のオブジェクトとします。' +
+  'ふりがなは名刺に書かれている場合のみひらがなで返し、推測で補わないでください。' +
+  'さらに fields キーに、項目名ごとの {"confidence": 読み取りの確信度（0〜1）, "boxes": [{"side": "front" または "back", ' +
+  '"x", "y", "width", "height"}]} を含めてください。boxes は項目を読み取った画像上の範囲で、座標とサイズは画像の幅・高さに対する' +
+  '0〜1の比率（原点は左上）、配列の項目は値ごとに1つずつ並べます。1枚目の画像が表面（front）、2枚目が裏面（back）です。' +
+  'JSONオブジェクトのみを返してください。';
+
+export const recognitionFailed = (provider: RecognizerName, detail: string) => new BusinessCardError(
+  `${provider}による名刺の解析に失敗しました`,
+  ErrorCode.IMAGE_PROCESSING_FAILED,
+  502,
+  true,
+  { provider, detail: detail.substring(0, 500) }
+);
@@ -0,0 +1,52 @@
+import { CardImageInput, CardRecognizer } from '@/lib/recognition/types';
+import { toRecognitionResult } from '@/lib/recognition/normalize';
+import { extractInfoFromText } from '@/lib/recognition/textExtraction';
+import { buildTextLayout, locateFields } from '@/lib/recognition/textLayout';
+import { recognitionFailed } from '@/lib/recognition/providers/shared';
+
+// OCRテキストからのパターンマッチングのため確信度は低めにする
+const BASE_CONFIDENCE = 0.6;
+
+const apiKey = () => (process.env.GOOGLE_VISION_API_KEY || process.env.GEMINI_API_KEY || '').trim();
+
+/**
+ * Google Cloud Vision（TEXT_DETECTION）
+ */
+export const visionRecognizer: CardRecognizer = {
+  name: 'vision',
+
+  isAvailable: () => apiKey().length > 0,
+
+  async recognize({ frontImage, backImage }: CardImageInput) {
+    const requests = [frontImage, backImage]
+      .filter((image): image is string => !!image)
+      .map(content => ({
+        image: { content },
+        features: [{ type: 'TEXT_DETECTION', maxResults: 1 }]
+      }));
+
+    const response = await fetch(
+      `https://vision.googleapis.com/v1/images:annotate?key=${apiKey()}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requests }),
+        signal: AbortSignal.timeout(30000)
+      }
+    );
+
+    if (!response.ok) {
+      throw recognitionFailed('vision', `${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    const responses: any[] = result.responses || [];
+    const text = responses.map(r => r.fullTextAnnotation?.text || '').join('\n');
+
+    // リクエストは表面・裏面の順
+    const layouts = responses.map((r, index) => buildTextLayout(r.fullTextAnnotation, index === 0 ? 'front' : 'back'));
+    const card = extractInfoFromText(text);
+
+    return toRecognitionResult('vision', card, BASE_CONFIDENCE, locateFields(card, layouts));
+  }
+};
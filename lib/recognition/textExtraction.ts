@@ -0,0 +1,117 @@
+import { PhoneEntry } from '@/types';
+import { RecognizedCard } from '@/lib/recognition/types';
+import { completeRecognizedName, emptyRecognizedCard } from '@/lib/recognition/normalize';
+import { completeAddress, parseAddress, PREFECTURES } from '@/lib/address';
+import { isKanaText, splitPersonName, toHiragana } from '@/lib/names';
+import { normalizePhoneText, parsePhone, uniquePhones } from '@/lib/phone';
+
+// 氏名ではなく部署・役職・組織名と判断する語
+const NON_NAME_WORDS = /(部|課|室|長|役|員|係|店|社|所|局|センター|グループ|チーム|事業|代表|担当|主任|取締|株式|有限|合同|会社|〒|都|道|府|県|市|区|町|村)/;
+
+const JAPANESE_NAME_LINE = /^[\p{Script=Han}々ヶ]{1,4}[\s　]?[\p{Script=Han}\p{Script=Hiragana}々ヶ]{1,4}$/u;
+const ROMAN_NAME_LINE = /^[A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+){1,2}$/;
+const ROMAN_NON_NAME_WORDS = /\b(?:Co|Corp|Inc|Ltd|LLC|Company|Group|Department|Manager|Director|President|CEO|CTO|Engineer|Tokyo|Osaka|Japan)\b/i;
+
+/**
+ * 行単位で氏名・ふりがな・ローマ字表記を探す
+ * かなだけの短い行はふりがな、漢字2〜8文字の行は氏名、英字2〜3語の行はローマ字表記とみなす
+ */
+const extractNameFromLines = (lines: string[]) => {
+  const name = lines.find(line => JAPANESE_NAME_LINE.test(line) && !NON_NAME_WORDS.test(line)) || '';
+  const kana = lines.find(line => line.length <= 20 && isKanaText(line) && /[\s　]/.test(line.trim())) || '';
+  const romanizedName = lines.find(line => ROMAN_NAME_LINE.test(line) && !ROMAN_NON_NAME_WORDS.test(line)) || '';
+
+  const nameParts = name ? splitPersonName(name) : null;
+  const [familyNameKana = '', givenNameKana = ''] = kana ? toHiragana(kana).trim().split(/[\s　]+/) : [];
+
+  return {
+    name: name.replace(/[\s　]+/, ' '),
+    familyName: nameParts?.familyName || '',
+    givenName: nameParts?.givenName || '',
+    familyNameKana,
+    givenNameKana,
+    romanizedName
+  };
+};
+
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s-]?(?:\(0\))?|0)\d{1,4}[-.\s()]?\d{1,4}[-.\s]?\d{4}/g;
+const FOLLOWING_EXTENSION = /^\s*[(]?(?:内線|ext\.?|x)\s*[:：.]?\s*\d{1,6}[)]?/i;
+
+/**
+ * 1行に含まれる電話番号を読み取る
+ * 「TEL 03-1234-5678 FAX 03-1234-5679」のように並ぶ場合は、各番号の直前のラベルと直後の内線だけを見る
+ */
+const extractPhonesFromLine = (line: string): PhoneEntry[] => {
+  const text = normalizePhoneText(line);
+  const entries: PhoneEntry[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(PHONE_PATTERN)) {
+    const end = match.index + match[0].length;
+    const extension = text.slice(end).match(FOLLOWING_EXTENSION)?.[0] || '';
+    const entry = parsePhone(text.slice(cursor, match.index) + match[0] + extension);
+    if (entry) entries.push(entry);
+    cursor = end + extension.length;
+  }
+
+  return entries;
+};
+
+const POSTAL_CODE_LINE = /〒\s*[0-9０-９]{3}/;
+const POSTAL_CODE_ONLY_LINE = /^〒\s*[0-9０-９]{3}[-ー－‐−]?[0-9０-９]{4}$/;
+
+/**
+ * 郵便番号（〒）または都道府県名で始まる行を住所とみなす
+ * 郵便番号だけの行は次の行と続けて読む
+ */
+const extractAddressFromLines = (lines: string[]) => {
+  const index = lines.findIndex(line =>
+    POSTAL_CODE_LINE.test(line) || PREFECTURES.some(prefecture => line.replace(/^(?:住所|所在地)\s*[:：]?\s*/, '').startsWith(prefecture))
+  );
+  if (index < 0) return {};
+
+  const line = POSTAL_CODE_ONLY_LINE.test(lines[index]) && lines[index + 1]
+    ? `${lines[index]} ${lines[index + 1]}`
+    : lines[index];
+  return completeAddress(parseAddress(line));
+};
+
+/**
+ * OCRテキストからのパターンマッチングによる情報抽出
+ * 構造化した結果を返さないプロバイダー（Vision OCR）で使用する
+ */
+export function extractInfoFromText(text: string): RecognizedCard {
+  const data = emptyRecognizedCard();
+
+  if (!text) return data;
+
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  Object.assign(data, extractNameFromLines(lines));
+
+  // メールアドレス抽出
+  const emailMatches = text.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g);
+  if (emailMatches) data.emails = Array.from(new Set(emailMatches));
+
+  // 電話番号抽出（同じ行のラベルからFAX・携帯などを判別する）
+  data.phones = uniquePhones(lines.flatMap(extractPhonesFromLine));
+
+  // URL抽出
+  const urlMatches = text.match(/https?:\/\/[^\s]+|www\.[^\s]+/g);
+  if (urlMatches) data.urls = Array.from(new Set(urlMatches));
+
+  // LINE ID抽出
+  const lineMatches = text.match(/LINE[\s:]?@?[\w-]+/gi);
+  if (lineMatches) data.line_ids = lineMatches.map(l => l.replace(/LINE[\s:]?/i, ''));
+
+  // 会社名（株式会社、有限会社などを含む行）
+  const companyMatch = text.match(/(?:株式会社|有限会社|合同会社|[\w\s]+(?:Corp|Inc|Ltd|Company))[^\n]*/);
+  if (companyMatch) data.companyName = companyMatch[0].trim();
+
+  // 住所（郵便番号から都道府県・市区町村を補完する）
+  data.address = extractAddressFromLines(lines);
+
+  // 残りをother_infoに
+  data.other_info = text.substring(0, 500);
+
+  return completeRecognizedName(data);
+}
@@ -0,0 +1,132 @@
+import { CardImageSide } from '@/types';
+import { formatAddress } from '@/lib/address';
+import { formatPhone } from '@/lib/phone';
+import { FieldBoundingBox, ProviderFieldEvidence, RecognizedCard, RecognizedField } from '@/lib/recognition/types';
+
+/**
+ * OCR結果（Vision APIのfullTextAnnotation）の単語の位置から、
+ * 抽出した項目の値が画像上のどこに書かれていたかを求める
+ */
+
+interface Vertex {
+  x?: number; // 0の座標は省略される
+  y?: number;
+}
+
+interface LocatedWord {
+  side: CardImageSide;
+  box: FieldBoundingBox;
+}
+
+// 1画像分の単語を読み順に連結したテキストと、各文字がどの単語に属するか
+export interface TextLayout {
+  text: string;
+  wordIndexes: number[];
+  words: LocatedWord[];
+}
+
+// 抽出時に取り除かれる区切り文字（電話番号のハイフンなど）は照合に使わない
+const IGNORED_CHARS = /[\s\-‐−–ー.()（）]/;
+
+// 値の全体が画像のどこかにある場合のみ位置を返す（other_infoはOCRテキスト全体のため対象外）
+const LOCATABLE_FIELDS: RecognizedField[] = ['name', 'companyName', 'title', 'emails', 'phones', 'line_ids', 'urls', 'address'];
+
+const toBox = (vertices: Vertex[], side: CardImageSide, width: number, height: number): FieldBoundingBox | null => {
+  if (vertices.length === 0) return null;
+
+  const xs = vertices.map(vertex => vertex.x || 0);
+  const ys = vertices.map(vertex => vertex.y || 0);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  const right = Math.max(...xs);
+  const bottom = Math.max(...ys);
+  if (right <= left || bottom <= top) return null;
+
+  return {
+    side,
+    x: left / width,
+    y: top / height,
+    width: (right - left) / width,
+    height: (bottom - top) / height
+  };
+};
+
+const unionBoxes = (boxes: FieldBoundingBox[]): FieldBoundingBox => {
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { side: boxes[0].side, x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const compactChars = (value: string) =>
+  Array.from(value.toLowerCase()).filter(char => !IGNORED_CHARS.test(char));
+
+/**
+ * fullTextAnnotationから単語と位置を読み取る
+ */
+export const buildTextLayout = (annotation: any, side: CardImageSide): TextLayout => {
+  const layout: TextLayout = { text: '', wordIndexes: [], words: [] };
+
+  for (const page of annotation?.pages || []) {
+    const { width, height } = page;
+    if (!width || !height) continue;
+
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          const box = toBox(word.boundingBox?.vertices || [], side, width, height);
+          const chars = compactChars((word.symbols || []).map((symbol: any) => symbol.text || '').join(''));
+          if (!box || chars.length === 0) continue;
+
+          const index = layout.words.push({ side, box }) - 1;
+          layout.text += chars.join('');
+          layout.wordIndexes.push(...chars.map(() => index));
+        }
+      }
+    }
+  }
+
+  return layout;
+};
+
+// 値を含む単語の範囲を返す（最初に見つかった箇所）
+const locateValue = (layouts: TextLayout[], value: string): FieldBoundingBox | null => {
+  const needle = compactChars(value).join('');
+  if (!needle) return null;
+
+  for (const layout of layouts) {
+    const start = layout.text.indexOf(needle);
+    if (start < 0) continue;
+
+    const wordIndexes = new Set(layout.wordIndexes.slice(start, start + needle.length));
+    return unionBoxes(Array.from(wordIndexes).map(index => layout.words[index].box));
+  }
+  return null;
+};
+
+// 照合に使う文字列（電話番号は内線を除いた国内表記、住所は郵便番号を除いた表記で探す）
+const searchTexts = (card: RecognizedCard, field: RecognizedField): string[] => {
+  if (field === 'phones') return card.phones.map(phone => formatPhone({ type: phone.type, number: phone.number }));
+  if (field === 'address') return [formatAddress(card.address, { withPostalCode: false })];
+
+  const value = card[field];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [String(value)];
+};
+
+/**
+ * 抽出結果の各項目について、値が書かれていた範囲を求める
+ */
+export const locateFields = (card: RecognizedCard, layouts: TextLayout[]): ProviderFieldEvidence => {
+  const evidence: ProviderFieldEvidence = {};
+
+  for (const field of LOCATABLE_FIELDS) {
+    const boxes = searchTexts(card, field)
+      .map(value => locateValue(layouts, value))
+      .filter((box): box is FieldBoundingBox => box !== null);
+
+    if (boxes.length > 0) evidence[field] = { boxes };
+  }
+
+  return evidence;
+};
@@ -0,0 +1,68 @@
+import { BusinessCard, CardImageSide, PostalAddress } from '@/types';
+
+/**
+ * 名刺認識プロバイダーの共通インターフェース
+ */
+
+export type RecognizerName = 'openai' | 'gemini' | 'vision' | 'local';
+
+// 認識結果として返す名刺の項目
+export type RecognizedField =
+  | 'name'
+  | 'companyName'
+  | 'title'
+  | 'emails'
+  | 'phones'
+  | 'line_ids'
+  | 'urls'
+  | 'address'
+  | 'other_info';
+
+export interface CardImageInput {
+  frontImage: string; // base64（data URLプレフィックスなし）
+  backImage?: string | null;
+  mimeType?: string;
+}
+
+// BusinessCardと同じ形に正規化した認識結果
+export type RecognizedCard = Pick<BusinessCard, 'name' | 'companyName' | 'emails' | 'phones' | 'line_ids' | 'urls'> & {
+  familyName: string;
+  givenName: string;
+  familyNameKana: string; // ひらがな
+  givenNameKana: string; // ひらがな
+  romanizedName: string; // バイリンガル名刺の裏面などにあるローマ字・英語表記
+  title: string;
+  address: PostalAddress; // 住所がない場合は空のオブジェクト
+  other_info: string;
+};
+
+// 項目を読み取った画像上の範囲（座標・サイズは画像の幅・高さに対する0〜1の比率、原点は左上）
+export interface FieldBoundingBox {
+  side: CardImageSide;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FieldEvidence {
+  confidence: number; // 0〜1（空の項目は0）
+  boxes: FieldBoundingBox[]; // 配列項目は値ごとに1つ（位置が分からない値の分は含まない）
+}
+
+export type RecognizedFieldEvidence = Record<RecognizedField, FieldEvidence>;
+
+// プロバイダーが返した項目ごとの確信度・位置（未対応の項目は省略される）
+export type ProviderFieldEvidence = Partial<Record<RecognizedField, Partial<FieldEvidence>>>;
+
+export interface CardRecognitionResult extends RecognizedCard {
+  provider: RecognizerName;
+  fields: RecognizedFieldEvidence;
+}
+
+export interface CardRecognizer {
+  readonly name: RecognizerName;
+  // APIキーなど必要な設定が揃っているか
+  isAvailable(): boolean;
+  recognize(input: CardImageInput): Promise<CardRecognitionResult>;
+}
@@ -0,0 +1,64 @@
+import { BusinessCard, NetworkingEvent, SavedSearch, SavedSearchEmailStatus } from '@/types';
+import { normalizeCompanyName, normalizeForComparison } from '@/lib/text/normalize';
+import { parseSearchQuery, searchCards, SearchIndex, SearchTerm } from '@/lib/search';
+
+/**
+ * 保存した検索条件（スマートコレクション）
+ * 全文検索のクエリに、タグ・会社名・交換日の範囲・メールの送信状況・イベントの条件を組み合わせる
+ */
+
+export const EMAIL_STATUS_LABELS: Record<SavedSearchEmailStatus, string> = {
+  sent: 'メール送信済み',
+  not_sent: 'メール未送信'
+};
+
+const matchesConditions = (card: BusinessCard, search: SavedSearch): boolean => {
+  if (search.tags && search.tags.length > 0) {
+    const cardTags = new Set((card.tags || []).map(normalizeForComparison));
+    if (!search.tags.every(tag => cardTags.has(normalizeForComparison(tag)))) return false;
+  }
+
+  if (search.companyName) {
+    const companyName = normalizeCompanyName(search.companyName);
+    if (companyName && !normalizeCompanyName(card.companyName).includes(companyName)) return false;
+  }
+
+  // 交換日が範囲指定されている場合、交換日のない名刺は含めない
+  if (search.exchangeDateFrom || search.exchangeDateTo) {
+    if (!card.exchangeDate) return false;
+    if (search.exchangeDateFrom && card.exchangeDate < search.exchangeDateFrom) return false;
+    if (search.exchangeDateTo && card.exchangeDate > search.exchangeDateTo) return false;
+  }
+
+  if (search.emailStatus === 'sent' && !card.lastEmailSentAt) return false;
+  if (search.emailStatus === 'not_sent' && card.lastEmailSentAt) return false;
+
+  if (search.eventId && card.eventId !== search.eventId) return false;
+
+  return true;
+};
+
+/**
+ * 検索条件に一致する名刺（インデックスの並び順）
+ * extraTermsを渡すと、さらにその語で絞り込む（ダッシュボードの検索欄など）
+ */
+export const applySavedSearch = (index: SearchIndex, search: SavedSearch, extraTerms: SearchTerm[] = []): BusinessCard[] =>
+  searchCards(index, [...parseSearchQuery(search.query || ''), ...extraTerms]).filter(card => matchesConditions(card, search));
+
+/**
+ * 検索条件の要約（一覧やメール送信先の選択肢に表示する）
+ */
+export const describeSavedSearch = (search: SavedSearch, events: NetworkingEvent[] = []): string => {
+  const parts: string[] = [];
+  if (search.query?.trim()) parts.push(`「${search.query.trim()}」`);
+  if (search.tags && search.tags.length > 0) parts.push(`タグ: ${search.tags.join('・')}`);
+  if (search.companyName) parts.push(`会社: ${search.companyName}`);
+  if (search.exchangeDateFrom || search.exchangeDateTo) {
+    parts.push(`交換日: ${search.exchangeDateFrom || ''}〜${search.exchangeDateTo || ''}`);
+  }
+  if (search.emailStatus) parts.push(EMAIL_STATUS_LABELS[search.emailStatus]);
+  if (search.eventId) {
+    parts.push(`イベント: ${events.find(event => event.id === search.eventId)?.name || '削除されたイベント'}`);
+  }
+  return parts.join(' / ') || 'すべての名刺';
+};
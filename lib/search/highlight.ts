@@ -0,0 +1,46 @@
+import { normalizeWithOffsets } from '@/lib/text/normalize';
+
+/**
+ * 検索語の強調表示
+ * 正規化した文字列で一致箇所を探し、元の文字列の範囲に戻して区切る
+ */
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export const highlightSegments = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text || terms.length === 0) return [{ text, highlighted: false }];
+
+  const { text: normalized, starts, ends } = normalizeWithOffsets(text);
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    for (let found = normalized.indexOf(term); found >= 0; found = normalized.indexOf(term, found + term.length)) {
+      ranges.push([starts[found], ends[found + term.length - 1]]);
+    }
+  });
+  if (ranges.length === 0) return [{ text, highlighted: false }];
+
+  // 重なる範囲をまとめる
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  merged.forEach(([start, end]) => {
+    if (start > position) segments.push({ text: text.slice(position, start), highlighted: false });
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), highlighted: false });
+  return segments;
+};
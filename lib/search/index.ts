@@ -0,0 +1,172 @@
+import { BusinessCard } from '@/types';
+import { joinName, nameReading } from '@/lib/names';
+import { formatPhone } from '@/lib/phone';
+import { normalizeForComparison, normalizeWithOffsets } from '@/lib/text/normalize';
+import { SEARCH_FIELD_LABELS, SearchField, SearchTerm, termsForField } from '@/lib/search/query';
+
+export { parseSearchQuery, termsForField, SEARCH_FIELD_LABELS } from '@/lib/search/query';
+export type { SearchField, SearchTerm } from '@/lib/search/query';
+
+/**
+ * 名刺の全文検索
+ * 項目ごとの値を正規化（全角・半角、カタカナ・ひらがな、大文字・小文字、記号を無視）し、
+ * 2文字ずつの組（bigram）の転置インデックスで候補を絞り込んでから部分一致を確認する
+ */
+
+const SEARCH_FIELDS: SearchField[] = ['name', 'kana', 'company', 'title', 'email', 'phone', 'url', 'business', 'notes', 'tag'];
+
+// 名刺の項目ごとの検索対象の値（電話番号は国内表記とE.164形式の両方）
+const fieldValues = (card: BusinessCard): Record<SearchField, string[]> => ({
+  name: [card.name, card.romanizedName || ''],
+  kana: [joinName(card.familyNameKana, card.givenNameKana, ''), nameReading(card)],
+  company: [card.companyName],
+  title: [card.title || ''],
+  email: card.emails,
+  phone: card.phones.flatMap(phone => [formatPhone(phone), phone.number]),
+  url: card.urls,
+  business: [card.businessContent || ''],
+  notes: [card.notes || ''],
+  tag: card.tags || []
+});
+
+interface IndexedCard {
+  card: BusinessCard;
+  fields: Record<SearchField, string[]>; // 正規化済み
+  bigrams: string[];
+}
+
+export interface SearchIndex {
+  docs: IndexedCard[];
+  // bigram → その組を含む名刺の番号（昇順）
+  postings: Map<string, number[]>;
+}
+
+const bigrams = (value: string): string[] =>
+  Array.from({ length: Math.max(0, value.length - 1) }, (_, i) => value.slice(i, i + 2));
+
+// 名刺が更新されていなければ前回の正規化結果を使い回す
+const cacheKey = (card: BusinessCard) => `${card.id}:${card.updatedAt || ''}`;
+
+const indexCard = (card: BusinessCard): IndexedCard => {
+  const values = fieldValues(card);
+  const fields = {} as Record<SearchField, string[]>;
+  const pairs = new Set<string>();
+
+  SEARCH_FIELDS.forEach(field => {
+    fields[field] = values[field].map(normalizeForComparison).filter(Boolean);
+    fields[field].forEach(value => {
+      for (let i = 0; i < value.length - 1; i++) pairs.add(value.slice(i, i + 2));
+    });
+  });
+
+  return { card, fields, bigrams: Array.from(pairs) };
+};
+
+/**
+ * 検索インデックスを作る（名刺の並び順は保たれる）
+ * 前回のインデックスを渡すと、更新されていない名刺の正規化を省く
+ */
+export const buildSearchIndex = (cards: BusinessCard[], previous?: SearchIndex): SearchIndex => {
+  const cached = new Map(previous?.docs.filter(doc => doc.card.id).map(doc => [cacheKey(doc.card), doc]));
+  const postings = new Map<string, number[]>();
+
+  const docs = cards.map((card, docIndex) => {
+    const reused = card.id ? cached.get(cacheKey(card)) : undefined;
+    const doc = reused ? { ...reused, card } : indexCard(card);
+
+    doc.bigrams.forEach(pair => {
+      const list = postings.get(pair);
+      if (list) {
+        list.push(docIndex);
+      } else {
+        postings.set(pair, [docIndex]);
+      }
+    });
+    return doc;
+  });
+
+  return { docs, postings };
+};
+
+// 昇順の番号の共通部分
+const intersect = (a: number[], b: number[]): number[] => {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+// 語のbigramをすべて含む名刺の番号（1文字の語は絞り込めないためnull）
+const candidatesFor = (index: SearchIndex, term: SearchTerm): number[] | null => {
+  if (term.value.length < 2) return null;
+  const lists = Array.from(new Set(bigrams(term.value)))
+    .map(pair => index.postings.get(pair) || [])
+    .sort((a, b) => a.length - b.length);
+  return lists.reduce((result, list) => intersect(result, list));
+};
+
+const matchesTerm = (doc: IndexedCard, term: SearchTerm) =>
+  (term.field ? [term.field] : SEARCH_FIELDS).some(field => doc.fields[field].some(value => value.includes(term.value)));
+
+/**
+ * すべての語に一致する名刺を返す（語がなければすべての名刺）
+ */
+export const searchCards = (index: SearchIndex, terms: SearchTerm[]): BusinessCard[] => {
+  if (terms.length === 0) return index.docs.map(doc => doc.card);
+
+  let candidates: number[] | null = null;
+  for (const term of terms) {
+    const termCandidates = candidatesFor(index, term);
+    if (termCandidates) candidates = candidates ? intersect(candidates, termCandidates) : termCandidates;
+    if (candidates?.length === 0) return [];
+  }
+
+  const docIndexes = candidates || index.docs.map((_, i) => i);
+  return docIndexes
+    .map(i => index.docs[i])
+    .filter(doc => terms.every(term => matchesTerm(doc, term)))
+    .map(doc => doc.card);
+};
+
+export interface SearchSnippet {
+  field: SearchField;
+  label: string;
+  text: string;
+}
+
+const SNIPPET_RADIUS = 30;
+
+/**
+ * 一覧に表示していない項目で一致した場合に、一致箇所の前後を抜き出す
+ */
+export const findSnippet = (card: BusinessCard, terms: SearchTerm[], fields: SearchField[]): SearchSnippet | null => {
+  const values = fieldValues(card);
+  for (const field of fields) {
+    const fieldTerms = termsForField(terms, field);
+    if (fieldTerms.length === 0) continue;
+
+    for (const value of values[field]) {
+      const { text: normalized, starts } = normalizeWithOffsets(value);
+      const found = fieldTerms.map(term => normalized.indexOf(term)).find(index => index >= 0);
+      if (found === undefined) continue;
+
+      const position = starts[found];
+      const start = Math.max(0, position - SNIPPET_RADIUS);
+      const end = Math.min(value.length, position + SNIPPET_RADIUS * 2);
+      const text = `${start > 0 ? '…' : ''}${value.slice(start, end).replace(/\s+/g, ' ')}${end < value.length ? '…' : ''}`;
+      return { field, label: SEARCH_FIELD_LABELS[field], text };
+    }
+  }
+  return null;
+};
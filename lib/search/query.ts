@@ -0,0 +1,68 @@
+import { normalizeForComparison } from '@/lib/text/normalize';
+
+/**
+ * 検索クエリの解析
+ * 空白区切りの語をすべて含む名刺を探す。「tag:AI」「company:"トヨタ 自動車"」のように項目を指定できる
+ */
+
+export type SearchField = 'name' | 'kana' | 'company' | 'title' | 'email' | 'phone' | 'url' | 'business' | 'notes' | 'tag';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: '氏名',
+  kana: 'ふりがな',
+  company: '会社名',
+  title: '役職',
+  email: 'メールアドレス',
+  phone: '電話番号',
+  url: 'URL',
+  business: '事業内容',
+  notes: 'メモ',
+  tag: 'タグ'
+};
+
+// クエリで使える項目名（英語と日本語）
+const FIELD_ALIASES: Record<string, SearchField> = {
+  name: 'name', 氏名: 'name', 名前: 'name',
+  kana: 'kana', furigana: 'kana', ふりがな: 'kana', よみ: 'kana',
+  company: 'company', 会社: 'company', 会社名: 'company',
+  title: 'title', 役職: 'title',
+  email: 'email', mail: 'email', メール: 'email',
+  phone: 'phone', tel: 'phone', 電話: 'phone',
+  url: 'url', web: 'url', サイト: 'url',
+  business: 'business', 事業: 'business', 事業内容: 'business',
+  notes: 'notes', note: 'notes', memo: 'notes', メモ: 'notes',
+  tag: 'tag', tags: 'tag', タグ: 'tag'
+};
+
+export interface SearchTerm {
+  field?: SearchField; // 未指定の場合はすべての項目
+  raw: string;
+  value: string; // 正規化済み
+}
+
+// 項目名:値 / 項目名:"値" / "値" / 値
+const TOKEN = /(?:([^\s:"]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+/**
+ * 検索クエリを語に分ける（正規化すると空になる語は除く）
+ */
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  const normalizedQuery = query.normalize('NFKC');
+
+  for (const match of Array.from(normalizedQuery.matchAll(TOKEN))) {
+    const [token, prefix, quoted, plain] = match;
+    const field = prefix ? FIELD_ALIASES[prefix.toLowerCase()] : undefined;
+    // 未知の項目名（https:// など）は語の一部として扱う
+    const raw = prefix && !field ? token.replace(/"/g, '') : (quoted ?? plain ?? '');
+    const value = normalizeForComparison(raw);
+    if (value) terms.push({ field, raw, value });
+  }
+  return terms;
+};
+
+/**
+ * 指定した項目の強調表示に使う語（項目を指定しない語と、その項目を指定した語）
+ */
+export const termsForField = (terms: SearchTerm[], field: SearchField): string[] =>
+  terms.filter(term => !term.field || term.field === field).map(term => term.value);
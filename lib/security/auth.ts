@@ -0,0 +1,108 @@
+/**
+ * API route authentication using Firebase ID tokens
+ */
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { BusinessCardError, ErrorCode, ErrorMessages, isBusinessCardError, logError } from '@/lib/errors';
+
+const BEARER_PREFIX = 'Bearer ';
+
+export interface AuthenticatedContext<P = Record<string, string>> {
+  uid: string;
+  token: DecodedIdToken;
+  params: Promise<P>;
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+type AuthenticatedHandler<P> = (
+  request: NextRequest,
+  context: AuthenticatedContext<P>
+) => Promise<Response>;
+
+const unauthorized = (reason: string) => new BusinessCardError(
+  ErrorMessages[ErrorCode.AUTH_UNAUTHORIZED],
+  ErrorCode.AUTH_UNAUTHORIZED,
+  401,
+  true,
+  { reason }
+);
+
+/**
+ * Verify the `Authorization: Bearer <idToken>` header with the Admin SDK
+ */
+export async function verifyRequest(request: NextRequest): Promise<DecodedIdToken> {
+  const header = request.headers.get('authorization');
+
+  if (!header || !header.startsWith(BEARER_PREFIX)) {
+    throw unauthorized('missing-bearer-token');
+  }
+
+  const idToken = header.slice(BEARER_PREFIX.length).trim();
+  if (!idToken) {
+    throw unauthorized('empty-bearer-token');
+  }
+
+  try {
+    // Admin SDK is loaded lazily so routes that never authenticate stay light
+    const { adminAuth } = await import('@/lib/firebase/admin');
+    return await adminAuth.verifyIdToken(idToken);
+  } catch (error: any) {
+    throw unauthorized(error?.code || 'invalid-id-token');
+  }
+}
+
+/**
+ * Wrap an API route handler so it only runs for authenticated users
+ */
+export function withAuth<P = Record<string, string>>(handler: AuthenticatedHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    let token: DecodedIdToken;
+
+    try {
+      token = await verifyRequest(request);
+    } catch (error) {
+      const bcError = isBusinessCardError(error) ? error : unauthorized('verification-failed');
+      logError(bcError, { path: request.nextUrl.pathname });
+
+      return NextResponse.json(
+        { error: bcError.message, code: bcError.code },
+        { status: bcError.statusCode }
+      );
+    }
+
+    return handler(request, { ...context, uid: token.uid, token });
+  };
+}
+
+// Compare the `Authorization: Bearer <secret>` header with a configured secret in constant time
+const hasBearerSecret = (request: NextRequest, secret: string | undefined): boolean => {
+  const header = request.headers.get('authorization');
+  if (!secret || !header?.startsWith(BEARER_PREFIX)) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header.slice(BEARER_PREFIX.length).trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Check the `Authorization: Bearer <CRON_SECRET>` header that Vercel Cron sends to scheduled routes
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  return hasBearerSecret(request, process.env.CRON_SECRET);
+}
+
+/**
+ * Check the `Authorization: Bearer <BOUNCE_WEBHOOK_SECRET>` header of bounce notifications forwarded by the mail provider
+ */
+export function isBounceWebhookRequest(request: NextRequest): boolean {
+  return hasBearerSecret(request, process.env.BOUNCE_WEBHOOK_SECRET);
+}
+
+/**
+ * Check the `Authorization: Bearer <API_SECRET_KEY>` header of operator-only maintenance routes (data migrations)
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  return hasBearerSecret(request, process.env.API_SECRET_KEY);
+}
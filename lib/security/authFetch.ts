@@ -0,0 +1,30 @@
+/**
+ * Client-side fetch helper that attaches the Firebase ID token
+ */
+import { auth } from '@/lib/firebase';
+
+/**
+ * Add `Authorization: Bearer <idToken>` for the signed-in user
+ */
+export async function withAuthHeader(headers?: HeadersInit): Promise<Headers> {
+  const result = new Headers(headers);
+  const user = auth.currentUser;
+
+  if (user) {
+    // getIdToken refreshes the token automatically when it is about to expire
+    const idToken = await user.getIdToken();
+    result.set('Authorization', `Bearer ${idToken}`);
+  }
+
+  return result;
+}
+
+/**
+ * fetch() for authenticated API routes
+ */
+export async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+  return fetch(url, {
+    ...options,
+    headers: await withAuthHeader(options.headers)
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * ログインせずに開くリンク（カレンダー配信URLなど）に使う署名付きのトークン
+ * トークンはSIGNING_SECRETを鍵にしてHMAC-SHA256で署名する
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BusinessCardError, ErrorCode } from '@/lib/errors';
+
+export interface SignedPayload {
+  purpose: string; // 用途（別の用途で発行したトークンは受け付けない）
+  sub: string; // FirebaseのユーザーID
+  exp?: number; // 有効期限（UNIX秒。期限のないトークンでは省略する）
+  [key: string]: unknown;
+}
+
+const getSecret = (): string => {
+  const secret = process.env.SIGNING_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new BusinessCardError(
+      '署名の設定（SIGNING_SECRET）がありません',
+      ErrorCode.API_SERVER_ERROR,
+      500,
+      false
+    );
+  }
+  return secret;
+};
+
+const sign = (data: string) => createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+/**
+ * ペイロードに署名して `base64url(JSON).署名` の形式のトークンにする
+ */
+export function signToken(payload: SignedPayload): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * トークンを検証してペイロードを返す（署名・用途・有効期限のいずれかが無効な場合はnull）
+ */
+export function verifyToken(token: string, purpose: string): SignedPayload | null {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as SignedPayload;
+    if (payload.purpose !== purpose || typeof payload.sub !== 'string') return null;
+    if (payload.exp !== undefined && payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+import { BusinessCard, TagColor, TagDefinition } from '@/types';
+
+/**
+ * タグの自動付与と管理
+ * ダッシュボードの一括情報取得・URL解析API・一括処理ジョブで共通利用する
+ */
+
+export interface TagRule {
+  tag: string;
+  keywords: string[];
+}
+
+// タグを登録していないユーザーに使う既定のルール
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  { tag: 'SNS運用会社', keywords: ['sns', 'ソーシャル', 'マーケティング'] },
+  { tag: 'WEB制作', keywords: ['web', 'ウェブ', 'ホームページ'] },
+  { tag: 'システム開発', keywords: ['システム', '開発', 'ソフトウェア'] },
+  { tag: 'AI関連', keywords: ['ai', '人工知能', '機械学習'] },
+  { tag: 'コンサルティング', keywords: ['コンサル', '戦略', '支援'] },
+  { tag: 'デザイン', keywords: ['デザイン', 'クリエイティブ'] },
+  { tag: '教育・研修', keywords: ['教育', '研修', 'トレーニング'] },
+  { tag: '不動産・建築', keywords: ['不動産', '建築', '建設'] },
+  { tag: '医療・ヘルスケア', keywords: ['医療', 'ヘルスケア', '健康'] },
+  { tag: '金融', keywords: ['金融', '投資', '保険'] },
+  { tag: 'EC・通販', keywords: ['ec', '通販', 'eコマース'] },
+  { tag: '広告・PR', keywords: ['広告', 'pr', 'プロモーション'] }
+];
+
+// 全角・半角と大文字・小文字を区別せずに照合する
+const foldCase = (value: string) => value.normalize('NFKC').toLowerCase();
+
+/**
+ * 事業内容からタグを生成（いずれかのキーワードを含むルールのタグ）
+ */
+export function generateTags(businessContent: string, rules: TagRule[] = DEFAULT_TAG_RULES): string[] {
+  const tags = new Set<string>();
+  const content = foldCase(businessContent);
+
+  rules.forEach(rule => {
+    if (rule.keywords.some(keyword => keyword.trim() && content.includes(foldCase(keyword.trim())))) {
+      tags.add(rule.tag);
+    }
+  });
+
+  return Array.from(tags);
+}
+
+/**
+ * 登録済みのタグからルールを作る（タグを1つも登録していない場合は既定のルール）
+ */
+export const tagRules = (definitions: TagDefinition[]): TagRule[] =>
+  definitions.length === 0
+    ? DEFAULT_TAG_RULES
+    : definitions
+      .filter(definition => definition.keywords && definition.keywords.length > 0)
+      .map(definition => ({ tag: definition.name, keywords: definition.keywords! }));
+
+export const TAG_COLORS: Record<TagColor, { label: string; className: string }> = {
+  gray: { label: 'グレー', className: 'bg-gray-700 text-gray-100' },
+  red: { label: '赤', className: 'bg-red-800 text-red-100' },
+  orange: { label: 'オレンジ', className: 'bg-orange-800 text-orange-100' },
+  yellow: { label: '黄', className: 'bg-yellow-700 text-yellow-100' },
+  green: { label: '緑', className: 'bg-green-800 text-green-100' },
+  blue: { label: '青', className: 'bg-blue-800 text-blue-100' },
+  purple: { label: '紫', className: 'bg-purple-800 text-purple-100' },
+  pink: { label: 'ピンク', className: 'bg-pink-800 text-pink-100' }
+};
+
+// タグ名から表示色のクラスを引く（未登録・色なしはグレー）
+export const tagColorClass = (name: string, definitions: TagDefinition[]): string =>
+  TAG_COLORS[definitions.find(definition => definition.name === name)?.color || 'gray'].className;
+
+/**
+ * 親から順のタグ名（IT > AI関連 の ['IT', 'AI関連']）
+ * 親子関係が循環していても止まるように、たどったタグは記録する
+ */
+export const tagPath = (definition: TagDefinition, definitions: TagDefinition[]): string[] => {
+  const byId = new Map(definitions.map(item => [item.id, item]));
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let current: TagDefinition | undefined = definition;
+
+  while (current && !(current.id && visited.has(current.id))) {
+    if (current.id) visited.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// 子孫のタグID（自身は含まない）
+export const descendantTagIds = (tagId: string, definitions: TagDefinition[]): Set<string> => {
+  const result = new Set<string>();
+  const queue = [tagId];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    definitions.forEach(definition => {
+      if (definition.parentId === parentId && definition.id && !result.has(definition.id) && definition.id !== tagId) {
+        result.add(definition.id);
+        queue.push(definition.id);
+      }
+    });
+  }
+  return result;
+};
+
+// 親に指定できるタグか（自身や子孫を親にすると循環する）
+export const canBeParent = (tagId: string, parentId: string, definitions: TagDefinition[]): boolean =>
+  tagId !== parentId && !descendantTagIds(tagId, definitions).has(parentId);
+
+/**
+ * 階層順に並べたタグ（親の直後に子を置き、同じ階層は名前順）
+ */
+export const sortTagsByHierarchy = (definitions: TagDefinition[]): { definition: TagDefinition; depth: number }[] => {
+  const ids = new Set(definitions.map(definition => definition.id));
+  const byName = (a: TagDefinition, b: TagDefinition) => a.name.localeCompare(b.name, 'ja');
+  const result: { definition: TagDefinition; depth: number }[] = [];
+  const visited = new Set<string | undefined>();
+
+  const visit = (definition: TagDefinition, depth: number) => {
+    if (visited.has(definition.id)) return;
+    visited.add(definition.id);
+    result.push({ definition, depth });
+    definitions
+      .filter(child => child.parentId && child.parentId === definition.id)
+      .sort(byName)
+      .forEach(child => visit(child, depth + 1));
+  };
+
+  // 親が見つからないタグは最上位に置く
+  definitions
+    .filter(definition => !definition.parentId || !ids.has(definition.parentId))
+    .sort(byName)
+    .forEach(definition => visit(definition, 0));
+  // 循環している親子関係のタグも漏らさない
+  definitions.filter(definition => !visited.has(definition.id)).sort(byName).forEach(definition => visit(definition, 0));
+  return result;
+};
+
+/**
+ * タグ名を置き換える（統合先が既にある場合は重複させない）
+ */
+export const replaceTagNames = (tags: string[], from: string[], to: string): string[] =>
+  Array.from(new Set(tags.map(tag => (from.includes(tag) ? to : tag))));
+
+// タグごとの名刺の件数
+export const countTagUsage = (cards: BusinessCard[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  cards.forEach(card => {
+    card.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return counts;
+};
@@ -0,0 +1,85 @@
+import { BusinessCard, Task, TaskType } from '@/types';
+
+/**
+ * 名刺のフォローアップのタスク
+ * 期日は日本時間の日付（YYYY-MM-DD）で扱い、名刺の保存時に次のアクションを提案する
+ */
+
+export const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  thank_you_mail: 'お礼メール',
+  meeting: '打ち合わせ',
+  follow_up: 'フォローアップ',
+  custom: 'その他'
+};
+
+// メール送信APIで送信に成功したときに自動で完了にするタスク
+export const EMAIL_COMPLETED_TASK_TYPES: TaskType[] = ['thank_you_mail'];
+
+// カレンダー配信URLの署名付きトークンの用途
+export const CALENDAR_FEED_PURPOSE = 'calendar-feed';
+
+const TIME_ZONE = 'Asia/Tokyo';
+
+// 日本時間の日付（YYYY-MM-DD）
+export const toDateString = (date: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+export const addDays = (dateString: string, days: number): string => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+type TaskSuggestion = Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 名刺の保存時に提案するタスク
+ * 交換日（未設定なら今日）から2日以内のお礼メールと、1週間以内の打ち合わせの日程調整。
+ * 同じ種類のタスクが既にある場合やメールを送信済みの場合は提案しない
+ */
+export const suggestTasks = (card: BusinessCard, existing: Task[], today: string = toDateString()): TaskSuggestion[] => {
+  if (!card.id) return [];
+  const has = (type: TaskType) => existing.some(task => task.cardId === card.id && task.type === type);
+  // 交換から時間が経ってから登録した名刺は、期日を今日より前にしない
+  const dueAfter = (days: number) => {
+    const dueDate = addDays(card.exchangeDate || today, days);
+    return dueDate < today ? today : dueDate;
+  };
+  const suggestions: TaskSuggestion[] = [];
+
+  if (card.emails.length > 0 && !card.lastEmailSentAt && !has('thank_you_mail')) {
+    suggestions.push({
+      cardId: card.id,
+      type: 'thank_you_mail',
+      title: `${card.name}様にお礼メールを送る`,
+      dueDate: dueAfter(2),
+      completed: false
+    });
+  }
+  if (!has('meeting')) {
+    suggestions.push({
+      cardId: card.id,
+      type: 'meeting',
+      title: `${card.name}様${card.companyName ? `（${card.companyName}）` : ''}と打ち合わせの日程を調整する`,
+      dueDate: dueAfter(7),
+      completed: false
+    });
+  }
+  return suggestions;
+};
+
+export const isOverdue = (task: Task, today: string = toDateString()) => !task.completed && task.dueDate < today;
+
+export const isDueToday = (task: Task, today: string = toDateString()) => !task.completed && task.dueDate === today;
+
+/**
+ * 未完了のタスクを期限切れ・今日・今後に分ける（それぞれ期日順）
+ */
+export const groupOpenTasks = (tasks: Task[], today: string = toDateString()) => {
+  const open = tasks.filter(task => !task.completed).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  return {
+    overdue: open.filter(task => task.dueDate < today),
+    today: open.filter(task => task.dueDate === today),
+    upcoming: open.filter(task => task.dueDate > today)
+  };
+};
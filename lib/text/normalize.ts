@@ -0,0 +1,92 @@
+import { toHiragana } from '@/lib/names';
+
+/**
+ * 比較用の文字列正規化
+ * 全角・半角、カタカナ・ひらがな、大文字・小文字、空白・記号の違いを無視して比較するために使う
+ */
+
+// 法人格の表記（㈱はNFKCで(株)になる）
+const LEGAL_FORMS = new RegExp(
+  [
+    '株式会社', '有限会社', '合同会社', '合資会社', '合名会社',
+    '(?:一般|公益)(?:社団|財団)法人', '特定非営利活動法人', 'NPO法人', '医療法人(?:社団|財団)?', '学校法人', '社会福祉法人',
+    '\\((?:株|有|合)\\)',
+    '\\bco\\.?,?\\s*ltd\\.?', '\\bcorporation\\b', '\\bcorp\\.?', '\\binc\\.?', '\\bltd\\.?', '\\bllc\\b', '\\bk\\.?k\\.?(?=\\s|$)', '\\bg\\.?k\\.?(?=\\s|$)'
+  ].join('|'),
+  'gi'
+);
+
+const IGNORED_CHARS = /[\s\p{P}\p{S}]/gu;
+
+/**
+ * 全角・半角とカタカナ・ひらがな、大文字・小文字を揃え、空白と記号を除く
+ */
+export const normalizeForComparison = (value: string | undefined): string =>
+  toHiragana((value || '').normalize('NFKC')).toLowerCase().replace(IGNORED_CHARS, '');
+
+/**
+ * 会社名を比較用に正規化する（「株式会社」「(株)」「Inc.」などの法人格を除く）
+ */
+export const normalizeCompanyName = (value: string | undefined): string =>
+  normalizeForComparison((value || '').normalize('NFKC').replace(LEGAL_FORMS, ' '));
+
+export const normalizeEmail = (value: string | undefined): string => (value || '').normalize('NFKC').trim().toLowerCase();
+
+const bigrams = (value: string): string[] =>
+  Array.from({ length: Math.max(0, value.length - 1) }, (_, i) => value.slice(i, i + 2));
+
+/**
+ * 正規化済みの文字列の類似度（0〜1、2文字の組み合わせの一致率）
+ */
+export const similarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const counts = new Map<string, number>();
+  bigrams(a).forEach(pair => counts.set(pair, (counts.get(pair) || 0) + 1));
+
+  let shared = 0;
+  bigrams(b).forEach(pair => {
+    const count = counts.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  });
+
+  return (2 * shared) / (a.length + b.length - 2);
+};
+
+// 半角カナの濁点・半濁点（ｶﾞ → が のように直前の文字と合わせて正規化する）
+const HALF_WIDTH_SOUND_MARKS = /^[ﾞﾟ]$/;
+
+export interface NormalizedText {
+  text: string;
+  // 正規化後の各文字に対応する元の文字列の範囲（強調表示で元の文字列に戻すために使う）
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * normalizeForComparisonと同じ正規化を1文字ずつ行い、元の文字列での位置を残す
+ */
+export const normalizeWithOffsets = (value: string): NormalizedText => {
+  const chars = Array.from(value);
+  const result: NormalizedText = { text: '', starts: [], ends: [] };
+  let position = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    let source = chars[i];
+    if (i + 1 < chars.length && HALF_WIDTH_SOUND_MARKS.test(chars[i + 1])) source += chars[++i];
+
+    const normalized = normalizeForComparison(source);
+    for (let k = 0; k < normalized.length; k++) {
+      result.starts.push(position);
+      result.ends.push(position + source.length);
+    }
+    result.text += normalized;
+    position += source.length;
+  }
+  return result;
+};
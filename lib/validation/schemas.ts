@@ -3,24 +3,72 @@
  */
 import { z } from 'zod';
 
+/**
+ * Card image reference (Storage paths)
+ */
+const CardImageRefSchema = z.object({
+  path: z.string().min(1),
+  thumbnails: z.object({
+    small: z.string().min(1),
+    medium: z.string().min(1),
+  }),
+  contentType: z.string().optional(),
+});
+
+/**
+ * Typed phone number schema (number is E.164 once normalized)
+ */
+export const PhoneEntrySchema = z.object({
+  type: z.enum(['office', 'mobile', 'fax', 'direct', 'tollfree']),
+  number: z.string().regex(/^\+?[\d\-\(\)\s.]+$/, '有効な電話番号を入力してください').max(30, '電話番号が長すぎます'),
+  extension: z.string().regex(/^\d{1,6}$/, '内線番号は数字6桁以内で入力してください').optional(),
+});
+
+/**
+ * Structured postal address schema (postal code is stored as 7 digits)
+ */
+export const PostalAddressSchema = z.object({
+  postalCode: z.string().regex(/^\d{7}$/, '郵便番号は7桁の数字で入力してください').optional(),
+  prefecture: z.string().max(10, '都道府県は10文字以内で入力してください').optional(),
+  city: z.string().max(50, '市区町村は50文字以内で入力してください').optional(),
+  street: z.string().max(100, '番地は100文字以内で入力してください').optional(),
+  building: z.string().max(100, '建物名は100文字以内で入力してください').optional(),
+});
+
 /**
  * Business Card validation schema
  */
 export const BusinessCardSchema = z.object({
   id: z.string().optional(),
   name: z.string().min(1, '名前は必須です').max(100, '名前は100文字以内で入力してください'),
+  familyName: z.string().max(50, '姓は50文字以内で入力してください').optional(),
+  givenName: z.string().max(50, '名は50文字以内で入力してください').optional(),
+  familyNameKana: z.string().max(50, '姓のふりがなは50文字以内で入力してください').optional(),
+  givenNameKana: z.string().max(50, '名のふりがなは50文字以内で入力してください').optional(),
+  romanizedName: z.string().max(100, 'ローマ字表記は100文字以内で入力してください').optional(),
   companyName: z.string().min(1, '会社名は必須です').max(200, '会社名は200文字以内で入力してください'),
   title: z.string().max(100, '役職は100文字以内で入力してください').optional(),
   urls: z.array(z.string().url('有効なURLを入力してください')).max(10, 'URLは最大10個まで登録できます'),
   emails: z.array(z.string().email('有効なメールアドレスを入力してください')).max(5, 'メールアドレスは最大5個まで登録できます'),
-  phones: z.array(z.string().regex(/^[\d\-\+\(\)\s]+$/, '有効な電話番号を入力してください')).max(5, '電話番号は最大5個まで登録できます'),
+  phones: z.array(PhoneEntrySchema).max(5, '電話番号は最大5個まで登録できます'),
   line_ids: z.array(z.string().max(50)).max(3, 'LINE IDは最大3個まで登録できます'),
+  address: PostalAddressSchema.optional(),
   businessContent: z.string().max(5000, '事業内容は5000文字以内で入力してください').optional(),
   exchangeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, '日付はYYYY-MM-DD形式で入力してください').optional(),
   notes: z.string().max(10000, 'メモは10000文字以内で入力してください').optional(),
+  images: z.object({
+    front: CardImageRefSchema.optional(),
+    back: CardImageRefSchema.optional(),
+  }).optional(),
   frontImageBase64: z.string().optional(),
   backImageBase64: z.string().optional(),
   tags: z.array(z.string().max(30, 'タグは30文字以内で入力してください')).max(20, 'タグは最大20個まで登録できます').optional(),
+  distinctFrom: z.array(z.string()).optional(),
+  personId: z.string().optional(),
+  companyId: z.string().optional(),
+  eventId: z.string().optional(),
+  lastEmailSentAt: z.string().optional(),
+  emailedTemplateIds: z.array(z.string()).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
 });
@@ -46,8 +94,33 @@ export const URLsAnalysisRequestSchema = z.object({
   urls: z.array(z.string().url('有効なURLを入力してください'))
     .min(1, 'URLを少なくとも1つ指定してください')
     .max(20, 'URLは最大20個まで指定できます'),
+  // 解析結果を保存・再利用する会社（未指定の場合は会社名・URLのドメインで照合する）
+  companyId: z.string().optional(),
+  companyName: z.string().max(200).optional(),
+  refresh: z.boolean().optional(),
 });
 
+/**
+ * Batch job request schema
+ * import items are card data; other operations target existing cards by cardId
+ */
+export const BatchJobRequestSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('import'),
+    items: z.array(z.record(z.string(), z.any()))
+      .min(1, '処理するアイテムが指定されていません')
+      .max(500, 'アイテムは最大500件まで指定できます'),
+  }),
+  z.object({
+    operation: z.enum(['analyze', 'export', 'delete', 'retag']),
+    items: z.array(z.object({ cardId: z.string().min(1, '名刺IDが指定されていません') }))
+      .min(1, '処理するアイテムが指定されていません')
+      .max(500, 'アイテムは最大500件まで指定できます'),
+  }),
+]);
+
+export type BatchJobRequest = z.infer<typeof BatchJobRequestSchema>;
+
 /**
  * Validate and sanitize business card data
  */
@@ -1,34 +1,123 @@
+// メールテンプレート（自分用は users/{uid}/emailTemplates、チームで共有するものは teams/{teamId}/emailTemplates）
 export interface EmailTemplate {
   id: string;
   name: string;
   subject: string;
   body: string;
-  variables: string[]; // 使用可能な変数リスト
-  isDefault: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  variables: string[]; // テンプレートで使っている変数
+  isDefault: boolean; // 保存されていない標準のテンプレート
+  teamId?: string; // チームで共有しているテンプレート
+  trackingEnabled?: boolean; // 開封・クリックを計測する（選んだテンプレートだけ計測する）
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface EmailRecipient {
   cardId: string;
   email: string;
   name: string;
+  familyName?: string; // 宛名（山田様）に使う姓
   company: string;
   selected: boolean;
   sentAt?: Date;
-  status?: 'pending' | 'sent' | 'failed' | 'skipped';
+  status?: EmailRecipientStatus;
+  error?: string; // 送信に失敗した理由
+  suppressed?: SuppressionReason; // 配信停止リストにあるため送信先にできない
 }
 
+// suppressedは配信停止リストにあるため送らなかった送信先、bouncedは送信後に届かなかった（バウンスした）送信先
+export type EmailRecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped' | 'suppressed' | 'bounced';
+
+export type SuppressionReason = 'unsubscribed' | 'bounced' | 'manual';
+
+// 配信停止リスト（users/{uid}/emailSuppressions/{正規化したメールアドレス}）
+// 配信停止を申し込んだ・バウンスしたアドレスにはメールを送らない
+export interface EmailSuppression {
+  id: string;
+  email: string;
+  reason: SuppressionReason;
+  detail?: string; // バウンスの診断メッセージなど
+  cardId?: string;
+  campaignId?: string;
+  createdAt: string;
+}
+
+// cancelledは予約を取り消したキャンペーン（削除するまでの間だけ残る）
+export type EmailCampaignStatus = 'draft' | 'scheduled' | 'sending' | 'completed' | 'failed' | 'cancelled';
+
+// メールの送信手段（lib/email/transports.ts）
+export type MailProvider = 'gmail' | 'smtp' | 'ses' | 'capture';
+
+// 送信したメール（users/{uid}/emailCampaigns/{campaignId}）
+// 送信先ごとの結果は recipients/{cardId} に保存し、失敗した送信先だけを再送できるようにする
 export interface EmailCampaign {
   id: string;
   templateId: string;
-  recipients: EmailRecipient[];
-  sentAt?: Date;
-  status: 'draft' | 'sending' | 'completed' | 'failed';
+  templateName?: string;
+  sender: { name: string; email: string };
+  provider?: MailProvider;
+  status: EmailCampaignStatus; // sendingの間は送信待ち（pending）の送信先を順に送る
+  recipientCount: number;
   successCount: number;
   failureCount: number;
-  createdAt: Date;
-  completedAt?: Date;
+  skippedCount: number; // 同じテンプレートのメールを送信済みのため送らなかった件数
+  suppressedCount: number; // 配信停止リストにあるため送らなかった件数
+  bouncedCount: number; // 送信後にバウンスした件数（successCountには含めない）
+  scheduledAt?: string; // 予約送信の日時（statusがscheduledの間は送らない）
+  tracking: boolean; // 開封・クリックを計測する
+  openedCount: number; // 開封した送信先の数（クリックした送信先を含む）
+  clickedCount: number; // リンクをクリックした送信先の数
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface EmailCampaignRecipient {
+  cardId: string;
+  email: string;
+  name: string;
+  company: string;
+  subject: string;
+  body: string;
+  status: EmailRecipientStatus;
+  error?: string;
+  attempts: number; // 再送を含めた送信の試行回数
+  sentAt?: string;
+  engagement?: EmailEngagement;
+}
+
+// 送信したメールの開封・クリック（lib/email/tracking.ts）
+// 画像を読み込まないメールアプリもあるため、クリックした場合は開封したものとして扱う
+export interface EmailEngagement {
+  openCount: number; // 計測用の画像を読み込んだ回数
+  firstOpenedAt?: string;
+  lastOpenedAt?: string;
+  clickCount: number;
+  firstClickedAt?: string;
+  lastClickedAt?: string;
+  clickedUrls?: string[];
+}
+
+// 送信APIのレスポンス（送信待ちが残っている間はクライアントが続きの送信を呼び出す）
+export interface EmailCampaignProgress {
+  success: boolean;
+  campaignId: string;
+  campaign: EmailCampaign;
+  pendingCount: number;
+  results: Pick<EmailCampaignRecipient, 'cardId' | 'email' | 'status' | 'error'>[];
+  message: string;
+}
+
+// 本文の下書きを作るLLM（lib/email/drafting.ts）。mockはネットワークを使わない開発・動作確認用
+export type EmailDraftProvider = 'openai' | 'gemini' | 'mock';
+
+// 送信先ごとにLLMで作成した下書き（送信前に確認・編集する）
+export interface EmailDraft {
+  cardId: string;
+  subject: string;
+  body: string;
+  provider?: EmailDraftProvider;
+  error?: string; // 作成できなかった理由
 }
 
 export interface EmailSettings {
@@ -1,18 +1,223 @@
+import type { EmailEngagement } from './email';
+
+export type CardImageSide = 'front' | 'back';
+
+export interface CardImageRef {
+  path: string; // 元画像のStorageパス
+  thumbnails: {
+    small: string; // 一覧表示用
+    medium: string; // プレビュー用
+  };
+  contentType?: string;
+}
+
+export type CardImages = Partial<Record<CardImageSide, CardImageRef>>;
+
+export type PhoneType = 'office' | 'mobile' | 'fax' | 'direct' | 'tollfree';
+
+export interface PhoneEntry {
+  type: PhoneType;
+  number: string; // E.164形式（+81312345678）。正規化できない番号は入力どおり
+  extension?: string; // 内線番号
+}
+
+export interface PostalAddress {
+  postalCode?: string; // 7桁の数字（ハイフンなし）
+  prefecture?: string; // 都道府県
+  city?: string; // 市区町村（政令市は区まで、郡部は郡名から）
+  street?: string; // 町域・丁目・番地
+  building?: string; // 建物名・階・部屋番号
+}
+
+// 統合された名刺（統合時点の内容と画像への参照を残す）
+export interface MergedCardRecord {
+  cardId: string; // 統合前の名刺ID（画像は cards/{userId}/{cardId}/ に残る）
+  mergedAt: string;
+  card: Omit<BusinessCard, 'id' | 'mergedCards' | 'frontImageBase64' | 'backImageBase64'>;
+}
+
 export interface BusinessCard {
   id?: string;
-  name: string;
+  userId?: string;
+  name: string; // 表示用の氏名
+  familyName?: string; // 姓
+  givenName?: string; // 名
+  familyNameKana?: string; // 姓のふりがな（ひらがな）
+  givenNameKana?: string; // 名のふりがな（ひらがな）
+  romanizedName?: string; // ローマ字・英語表記（Taro Yamada など）
   companyName: string;
   title?: string;
   urls: string[];
   emails: string[];
-  phones: string[];
+  invalidEmails?: string[]; // 送信したメールが届かなかった（バウンスした）アドレス
+  phones: PhoneEntry[];
   line_ids: string[];
+  address?: PostalAddress; // 勤務先の住所
   businessContent?: string;
   exchangeDate?: string;
   notes?: string;
-  frontImageBase64?: string;
-  backImageBase64?: string;
+  images?: CardImages; // Storage上の名刺画像（cards/{userId}/{cardId}/...）
+  frontImageBase64?: string; // 旧形式（ドキュメント内に直接保存）。新規保存では使用しない
+  backImageBase64?: string; // 旧形式（ドキュメント内に直接保存）。新規保存では使用しない
   tags?: string[];
+  mergedCards?: MergedCardRecord[]; // この名刺に統合された重複名刺の履歴
+  distinctFrom?: string[]; // 重複候補として検出されたが別人と確認した名刺のID
+  personId?: string; // 同じ人の名刺（転職・異動前後）をまとめる人物のID
+  companyId?: string; // 名刺に書かれた会社（users/{uid}/companies/{companyId}）
+  eventId?: string; // 名刺を交換したイベント（users/{uid}/events/{eventId}）
+  lastEmailSentAt?: string; // 最後にメールを送信した日時
+  emailedTemplateIds?: string[]; // 送信済みのメールのテンプレート（同じメールを二重に送らないために使う）
+  source?: string; // 登録経路（'manual' | 'bulk' | 'batch_import' | 'scansnap_ocr' | 'legacy_migration'など）
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// 同じ人の名刺をまとめる人物（users/{uid}/people/{personId}）
+// 名刺側のpersonIdで紐付け、各名刺はその時点の会社・役職のスナップショットとして経歴に並べる
+export interface Person {
+  id?: string;
+  name: string;
+  nameKana?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// 会社のウェブサイトの解析結果（会社ごとに1回だけ解析して名刺間で使い回す）
+export interface CompanyUrlAnalysis {
+  urls: string[]; // 解析したURL（正規化済み）
+  businessContent: string;
+  summaries: Record<string, string>;
+  tags: string[];
+  phone?: string;
+  email?: string;
+  analyzedAt: string;
+}
+
+// 会社（users/{uid}/companies/{companyId}）
+// 名刺の会社名は表記が揺れるため、法人格を除いた正規化名とメール・URLのドメインで名刺と照合する
+export interface Company {
+  id?: string;
+  name: string;
+  normalizedName: string;
+  aliases: string[]; // 名刺に書かれていた会社名の表記
+  domains: string[];
+  urls: string[];
+  businessContent?: string;
+  tags?: string[];
+  corporateNumber?: string; // 法人番号（13桁）
+  address?: PostalAddress;
+  urlAnalysis?: CompanyUrlAnalysis;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// 展示会・交流会などのイベント（users/{uid}/events/{eventId}）
+// 「現在のイベント」に設定している間に保存した名刺に、イベントと交換日を記録する
+export interface NetworkingEvent {
+  id?: string;
+  name: string;
+  date: string; // 開始日（YYYY-MM-DD）
+  endDate?: string; // 複数日のイベントの最終日
+  venue?: string; // 会場
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink';
+
+// タグの定義（users/{uid}/tags/{tagId}）
+// 名刺にはタグ名の文字列を保存し、色・親子関係・自動付与のキーワードはここで管理する
+export interface TagDefinition {
+  id?: string;
+  name: string;
+  color?: TagColor;
+  parentId?: string; // 親タグ（IT > AI関連 のように分類する）
+  keywords?: string[]; // 事業内容にいずれかを含む名刺にこのタグを自動で付ける
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type TaskType = 'thank_you_mail' | 'meeting' | 'follow_up' | 'custom';
+
+// 名刺に紐付いた次のアクション（users/{uid}/tasks/{taskId}）
+export interface Task {
+  id?: string;
+  cardId: string;
+  type: TaskType;
+  title: string;
+  dueDate: string; // 期日（YYYY-MM-DD、日本時間）
+  completed: boolean; // 未完了のタスクを検索するためにcompletedAtとは別に持つ
+  completedAt?: string;
+  completedBy?: 'manual' | 'email'; // emailはメール送信APIによる自動完了
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type InteractionType = 'meeting' | 'call' | 'email' | 'event' | 'note';
+
+// 名刺の相手とのやりとり（users/{uid}/interactions/{interactionId}）
+// 同席者の名刺もcardIdsに含め、どの名刺のタイムラインにも表示する
+export interface Interaction {
+  id?: string;
+  cardIds: string[];
+  type: InteractionType;
+  date: string; // 日付（YYYY-MM-DD、日本時間）
+  title: string; // 件名・会ったイベント名など
+  notes?: string;
+  participants?: string[]; // 名刺を登録していない同席者の名前
+  source?: 'manual' | 'email'; // emailはメール送信APIによる自動記録
+  campaignId?: string; // 自動記録したメールの送信履歴
+  engagement?: EmailEngagement; // 自動記録したメールの開封・クリック
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type SavedSearchEmailStatus = 'sent' | 'not_sent';
+
+// 保存した検索条件（users/{uid}/savedSearches/{id}）
+// ダッシュボードのスマートコレクションとして表示し、メール送信先やエクスポートの対象に使う
+export interface SavedSearch {
+  id?: string;
+  name: string;
+  query?: string; // 全文検索のクエリ（company: / tag: などの項目指定も使える）
+  tags?: string[]; // すべてのタグを含む名刺
+  companyName?: string; // 会社名（法人格・表記揺れを無視して照合）
+  exchangeDateFrom?: string; // 交換日の範囲（YYYY-MM-DD、両端を含む）
+  exchangeDateTo?: string;
+  emailStatus?: SavedSearchEmailStatus;
+  eventId?: string; // 名刺を交換したイベント
   createdAt?: string;
   updatedAt?: string;
-}
\ No newline at end of file
+}
+
+export type BatchOperation = 'analyze' | 'import' | 'export' | 'delete' | 'retag';
+
+export type BatchJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type BatchItemStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface BatchJobItem {
+  index: number;
+  cardId?: string; // 対象の名刺（importでは作成された名刺）
+  status: BatchItemStatus;
+  result?: Record<string, any>;
+  error?: string;
+  processedAt?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  userId: string;
+  operation: BatchOperation;
+  status: BatchJobStatus;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  items?: BatchJobItem[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}